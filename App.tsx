@@ -1,6 +1,8 @@
 
 import React, { useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
 import { useGameStore } from './store.ts';
+import { TEXT } from './services/i18n.ts';
 import GameView from './components/GameView.tsx';
 import MainMenu from './components/MainMenu.tsx';
 import Leaderboard from './components/Leaderboard.tsx';
@@ -11,12 +13,14 @@ const App: React.FC = () => {
   // Use selectors to avoid re-rendering App on every single state change
   const uiState = useGameStore(state => state.uiState);
   const sessionId = useGameStore(state => state.session?.sessionId);
+  const isPreparingLevel = useGameStore(state => state.isPreparingLevel);
+  const language = useGameStore(state => state.language);
 
   return (
     <div className="relative w-screen h-screen bg-slate-950 overflow-hidden font-sans select-none">
       
       {/* Background Ambience (Visible in Menu/Leaderboard) */}
-      {uiState !== 'GAME' && (
+      {uiState !== 'GAME' && uiState !== 'EDITOR' && (
         <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
            
            {/* Tilted 2.5D Plane Container */}
@@ -44,10 +48,21 @@ const App: React.FC = () => {
         {/* Using sessionId as key forces a complete unmount of GameView when a new game starts, 
             ensuring all local state (camera, animations) is reset. */}
         {uiState === 'GAME' && <GameView key={sessionId} />}
+        {/* The editor redraws its preview session on every stroke; keep the same canvas (and camera) */}
+        {uiState === 'EDITOR' && <GameView key="editor" />}
         {uiState === 'LEADERBOARD' && <Leaderboard />}
         {uiState === 'CAMPAIGN_MAP' && <CampaignMap />}
       </div>
 
+      {/* Level start: the solver proves a generated map winnable first */}
+      {isPreparingLevel && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm">
+          <div className="flex items-center gap-3 text-xs font-bold uppercase tracking-widest text-slate-300">
+            <RefreshCw className="w-5 h-5 text-indigo-400 animate-spin" /> {TEXT[language].MENU.PREPARING_LEVEL}
+          </div>
+        </div>
+      )}
+
     </div>
   );
 };
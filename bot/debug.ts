@@ -0,0 +1,59 @@
+import { BotGoalType, BotLogEntry, Entity, HexCoord, SessionState } from '../types';
+import { getCoordinatesFromKey } from '../services/hexUtils';
+import { getAiEntities } from '../rules/entities';
+import { PANIC_STUCK_COUNT } from './strategies/common';
+
+/**
+ * What a bot is thinking, as the debug overlay draws it: read back from its memory,
+ * its movement queue and the botActivityLog. Never fogged - this is a developer tool.
+ */
+export interface BotDebugInfo {
+    id: string;
+    masterGoal: HexCoord | null;                          // memory.masterGoalId: the hex the bot ultimately wants to raise
+    target: (HexCoord & { goal: BotGoalType }) | null;    // memory.currentGoal: what it works on now (e.g. the bottleneck)
+    path: HexCoord[];                                     // The walk it is on
+    reserved: HexCoord | null;                            // Where that walk ends: the hex the AiSystem reserved for it
+    stuckCounter: number;
+    isPanicking: boolean;                                 // Escaping at random (see tryPanicEscape)
+    isOscillating: boolean;                               // Walking back and forth between the same two hexes
+    failReason?: string;                                  // Why its last action was refused
+    decisions: BotLogEntry[];                             // Most recent first
+}
+
+// MOVE targets looked at for a back-and-forth: A, B, A, B
+const OSCILLATION_WINDOW = 4;
+
+/** The latest moves keep alternating between two hexes (decisions most recent first). */
+export const isOscillating = (decisions: BotLogEntry[]): boolean => {
+    const targets = decisions.filter(d => d.action === 'MOVE' && d.target).slice(0, OSCILLATION_WINDOW).map(d => d.target);
+    if (targets.length < OSCILLATION_WINDOW) return false;
+    return targets[0] !== targets[1] && targets.every((target, i) => target === targets[i % 2]);
+};
+
+const getGoalTarget = (entity: Entity): BotDebugInfo['target'] => {
+    const goal = entity.memory?.currentGoal;
+    if (!goal) return null;
+    if (goal.targetHexId) return { ...getCoordinatesFromKey(goal.targetHexId), goal: goal.type };
+    if (goal.targetQ !== undefined && goal.targetR !== undefined) return { q: goal.targetQ, r: goal.targetR, goal: goal.type };
+    return null;
+};
+
+export const getBotDebugInfo = (state: SessionState): BotDebugInfo[] =>
+    getAiEntities(state).map(entity => {
+        const memory = entity.memory;
+        const path = entity.movementQueue.filter(step => !step.upgrade).map(({ q, r }) => ({ q, r }));
+        const decisions = state.botActivityLog.filter(entry => entry.botId === entity.id);
+        const stuckCounter = memory?.stuckCounter || 0;
+        return {
+            id: entity.id,
+            masterGoal: memory?.masterGoalId ? getCoordinatesFromKey(memory.masterGoalId) : null,
+            target: getGoalTarget(entity),
+            path,
+            reserved: path.length > 0 ? path[path.length - 1] : null,
+            stuckCounter,
+            isPanicking: stuckCounter >= PANIC_STUCK_COUNT || !!decisions[0]?.reason.startsWith('PANIC'),
+            isOscillating: isOscillating(decisions),
+            failReason: memory?.lastActionFailed ? memory.failReason : undefined,
+            decisions
+        };
+    });
@@ -0,0 +1,133 @@
+import { BotAction, Entity, EntityState, EntityType, Hex, SessionState } from '../../types';
+import type { GameEngine } from '../../engine/GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getEntities } from '../../rules/entities';
+import { getFoggedGrid, getKeysInRadius } from '../../rules/visibility';
+import { cubeDistance, findPath, getHexKey, getNeighbors } from '../../services/hexUtils';
+
+/**
+ * The GameEngine as a forward model for planning bots: the session as one bot knows it (fog applied),
+ * where only that bot acts. Everything else stands still, which is all a bot can assume of units it can't predict.
+ */
+
+// Hexes around the bot kept in a snapshot: enough for a few decisions ahead, small enough to tick fast
+export const SNAPSHOT_RADIUS = 7;
+// Ticks a WAIT lasts in the model: about a second
+const WAIT_TICKS = Math.round(1000 / GAME_CONFIG.TICK_INTERVAL_MS);
+// Farther destinations offered on top of the neighbors: the best hexes within this radius
+const TARGET_RADIUS = 3;
+const MAX_TARGETS = 3;
+
+// Stands in for a player the bot can't see: present (every session has one) but out of the way
+const UNSEEN_PLAYER_POS = { q: 1_000_000, r: 1_000_000 };
+
+const freeze = (entity: Entity): Entity => ({
+    ...entity, type: EntityType.BOT, state: EntityState.IDLE, movementQueue: [], recentUpgrades: [...entity.recentUpgrades],
+    memory: undefined, pendingAttack: undefined, lastActionTime: Infinity // AiSystem skips it: `now - Infinity` never reaches the interval
+});
+
+/**
+ * The session as `entity` knows it, cropped to SNAPSHOT_RADIUS: fogged grid, the units it sees frozen in place,
+ * real time (turns, hot-seats and observers don't matter to a model) and no procedural world to stream in.
+ * `entity` itself is a bot the AiSystem leaves alone, so the planner gives all its orders.
+ */
+export const createPlannerSnapshot = (state: SessionState, entity: Entity, visible: Set<string>): SessionState => {
+    const fogged = getFoggedGrid(state.grid, visible);
+    const grid: Record<string, Hex> = {};
+    for (const key of getKeysInRadius(entity, SNAPSHOT_RADIUS)) {
+        if (fogged[key]) grid[key] = fogged[key];
+    }
+
+    const seen = getEntities(state).filter(e => e.id !== entity.id && visible.has(getHexKey(e.q, e.r)) && grid[getHexKey(e.q, e.r)]);
+    const self: Entity = { ...freeze(entity), state: entity.state, movementQueue: [...entity.movementQueue] };
+    const player: Entity = { ...freeze(state.player), type: state.player.type, id: `${state.player.id}~unseen`, ...UNSEEN_PLAYER_POS, playerLevel: 0, coins: 0, capitalId: undefined };
+
+    return {
+        ...state,
+        grid,
+        world: undefined,
+        player,
+        hotSeats: undefined,
+        bots: [self, ...seen.map(freeze)],
+        turn: undefined,
+        winCondition: state.winCondition && { ...state.winCondition, observe: undefined, hotSeat: undefined, turnBased: undefined, capitalMode: undefined },
+        gameStatus: 'PLAYING',
+        messageLog: [],
+        botActivityLog: [],
+        effects: [],
+        telemetry: undefined,
+        isPlayerGrowing: false,
+        playerGrowthIntent: null,
+        growingBotIds: []
+    };
+};
+
+export const findSelf = (state: SessionState, selfId: string): Entity | undefined => state.bots.find(b => b.id === selfId);
+
+/** The orders worth considering for `selfId` now: grow or recover here, step to a neighbor or walk to a promising hex, buy a move, wait. */
+export const getCandidateActions = (state: SessionState, selfId: string): BotAction[] => {
+    const self = findSelf(state, selfId);
+    if (!self || self.state !== EntityState.IDLE || self.movementQueue.length > 0) return [{ type: 'WAIT' }];
+    const { grid } = state;
+    const here = { q: self.q, r: self.r };
+    const occupied = getEntities(state).filter(e => e.id !== selfId).map(e => ({ q: e.q, r: e.r }));
+
+    const actions: BotAction[] = [{ type: 'UPGRADE', coord: here, intent: 'UPGRADE' }];
+    if (!self.recoveredCurrentHex) actions.push({ type: 'UPGRADE', coord: here, intent: 'RECOVER' });
+
+    // Every neighbor, and farther: free points (L0) and the highest ground the bot may enter
+    const neighbors = getNeighbors(self.q, self.r).map(n => grid[getHexKey(n.q, n.r)]).filter((h): h is Hex => !!h);
+    const targets = getKeysInRadius(here, TARGET_RADIUS)
+        .map(key => grid[key])
+        .filter((h): h is Hex => !!h && cubeDistance(self, h) > 1 && h.structureType !== 'VOID' && h.maxLevel <= self.playerLevel)
+        .sort((a, b) => Number(b.maxLevel === 0) - Number(a.maxLevel === 0) || b.maxLevel - a.maxLevel || cubeDistance(self, a) - cubeDistance(self, b))
+        .slice(0, MAX_TARGETS);
+    for (const target of [...neighbors, ...targets]) {
+        const path = findPath(here, target, grid, self.playerLevel, occupied, { moverId: selfId });
+        if (path) actions.push({ type: 'MOVE', path });
+    }
+
+    if (self.coins >= GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE) actions.push({ type: 'RECHARGE_MOVE' });
+    actions.push({ type: 'WAIT' });
+    return actions;
+};
+
+/**
+ * Plays one order of `selfId` out on a fork of `engine`: until the bot is idle again (or `maxTicks` ran out).
+ * Null when the order is refused.
+ */
+export const playOut = (engine: GameEngine, selfId: string, action: BotAction, maxTicks: number): GameEngine | null => {
+    const next = engine.fork();
+    if (!next) return null;
+    // The engine walks a path off its queue: the order itself must stay intact for the real one
+    const order = action.type === 'MOVE' ? { ...action, path: action.path.map(step => ({ ...step })) } : action;
+    if (action.type !== 'WAIT' && !next.applyAction(selfId, { ...order, stateVersion: undefined }).ok) return null;
+
+    const ticks = action.type === 'WAIT' ? Math.min(WAIT_TICKS, maxTicks) : maxTicks;
+    for (let i = 0; i < ticks; i++) {
+        next.processTick();
+        const self = findSelf(next.state!, selfId);
+        if (!self || next.state!.gameStatus !== 'PLAYING') break;
+        if (action.type !== 'WAIT' && self.state === EntityState.IDLE && self.movementQueue.length === 0) break;
+    }
+    return next;
+};
+
+/** What the planner optimizes. Each term is a gain since the decision: ranks, credits earned (in INCOME_UNITs), cycle points. */
+export interface ValueWeights {
+    rank: number;
+    income: number;
+    cyclePoints: number;
+}
+
+// Credits counted as one unit of income: about an L2 level-up's payout
+const INCOME_UNIT = 20;
+
+export const evaluate = (before: Entity, after: Entity, weights: ValueWeights): number => {
+    const ranks = after.playerLevel - before.playerLevel;
+    // A rank-up spends the cycle points: count only those gathered towards the next one
+    const points = after.recentUpgrades.length - (ranks > 0 ? 0 : before.recentUpgrades.length);
+    return weights.rank * ranks
+        + weights.income * (after.totalCoinsEarned - before.totalCoinsEarned) / INCOME_UNIT
+        + weights.cyclePoints * points;
+};
@@ -0,0 +1,152 @@
+import { BotAction, Entity, SessionState } from '../../types';
+import { GameEngine } from '../../engine/GameEngine';
+import { SeededRandom } from '../../engine/SeededRandom';
+import { ValueWeights, evaluate, findSelf, getCandidateActions, playOut } from './ForwardModel';
+
+/**
+ * Monte Carlo tree search over one bot's orders, with the GameEngine as the forward model (see ForwardModel).
+ * Every node is a forked engine; rollouts play random orders to `depth` and score the bot's gains (ValueWeights).
+ * In a session the search is bounded by simulated ticks, never by the wall clock: the same state and seed
+ * give the same order on any machine, so replays, headless benchmarks and the server stay reproducible.
+ */
+
+export interface PlannerConfig {
+    iterations: number;    // Cap on simulations per decision
+    tickBudget: number;    // Cap on engine ticks simulated per decision (whichever cap comes first)
+    depth: number;         // Orders simulated ahead, tree and rollout together
+    maxTicksPerStep: number; // Ticks one order may take to play out
+    exploration: number;   // UCT exploration constant
+    weights: ValueWeights;
+    // Offline only (tools, benchmarks of the search itself): an extra wall-clock cap. Results then depend on the machine
+    timeBudgetMs?: number;
+    now?: () => number;    // Wall clock for timeBudgetMs, injectable for tests
+}
+
+export const DEFAULT_PLANNER_CONFIG: PlannerConfig = {
+    iterations: 200,
+    tickBudget: 300, // A few dozen ms of simulation per decision
+    depth: 4,
+    maxTicksPerStep: 40,
+    exploration: Math.SQRT2,
+    weights: { rank: 10, income: 1, cyclePoints: 2 }
+};
+
+// Share of rollout orders drawn among the growth orders (when there are any) rather than among all
+const ROLLOUT_GROWTH_BIAS = 0.5;
+
+export interface PlannerResult {
+    action: BotAction;
+    visits: number;
+    value: number;       // Mean squashed value of the chosen order, -1..1
+    iterations: number;  // Simulations actually run
+    ticks: number;       // Engine ticks simulated
+}
+
+interface Node {
+    engine: GameEngine;
+    action: BotAction | null; // The order leading here (null at the root)
+    depth: number;
+    untried: BotAction[];
+    children: Node[];
+    visits: number;
+    total: number;
+    parent: Node | null;
+}
+
+/** One decision's search: what it plans for, and the ticks simulated so far. */
+interface Search {
+    selfId: string;
+    start: Entity;
+    config: PlannerConfig;
+    rng: SeededRandom;
+    ticks: number;
+}
+
+const createNode = (engine: GameEngine, action: BotAction | null, parent: Node | null, selfId: string): Node => ({
+    engine, action, parent, depth: parent ? parent.depth + 1 : 0,
+    untried: getCandidateActions(engine.state!, selfId), children: [], visits: 0, total: 0
+});
+
+/** playOut, charged to the search's tick budget. */
+const step = (search: Search, engine: GameEngine, action: BotAction): GameEngine | null => {
+    const next = playOut(engine, search.selfId, action, search.config.maxTicksPerStep);
+    if (next) search.ticks += next.state!.tick - engine.state!.tick;
+    return next;
+};
+
+const isOver = (engine: GameEngine, selfId: string) => engine.state!.gameStatus !== 'PLAYING' || !findSelf(engine.state!, selfId);
+
+const selectChild = (node: Node, exploration: number): Node => {
+    let best = node.children[0];
+    let bestScore = -Infinity;
+    for (const child of node.children) {
+        const score = child.total / child.visits + exploration * Math.sqrt(Math.log(node.visits) / child.visits);
+        if (score > bestScore) {
+            best = child;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+/** Expand one untried order of `node`; refused orders are dropped. Null when nothing is left to try. */
+const expand = (search: Search, node: Node): Node | null => {
+    while (node.untried.length > 0) {
+        const [action] = node.untried.splice(search.rng.nextInt(node.untried.length), 1);
+        const engine = step(search, node.engine, action);
+        if (!engine) continue;
+        const child = createNode(engine, action, node, search.selfId);
+        node.children.push(child);
+        return child;
+    }
+    return null;
+};
+
+const rollout = (search: Search, node: Node): number => {
+    const { selfId, config, rng } = search;
+    let engine = node.engine;
+    for (let depth = node.depth; depth < config.depth && !isOver(engine, selfId); depth++) {
+        const actions = getCandidateActions(engine.state!, selfId);
+        // Growth is what pays: lean the random playouts towards it
+        const growth = actions.filter(a => a.type === 'UPGRADE');
+        const action = growth.length > 0 && rng.next() < ROLLOUT_GROWTH_BIAS ? rng.pick(growth) : rng.pick(actions);
+        engine = step(search, engine, action) || engine;
+    }
+    const self = findSelf(engine.state!, selfId);
+    // Squashed so the exploration constant keeps its meaning whatever the weights
+    return self ? Math.tanh(evaluate(search.start, self, config.weights) / config.weights.rank) : -1;
+};
+
+/**
+ * The best order for `selfId` in `snapshot` (see createPlannerSnapshot), or null if it has none.
+ * Deterministic for a given `seed` unless `timeBudgetMs` is set and cuts the search short.
+ */
+export const plan = (snapshot: SessionState, selfId: string, seed: number, config: PlannerConfig = DEFAULT_PLANNER_CONFIG): PlannerResult | null => {
+    const start = findSelf(snapshot, selfId);
+    if (!start) return null;
+    const search: Search = { selfId, start, config, rng: new SeededRandom(seed), ticks: 0 };
+    const now = config.now || (() => performance.now());
+    const deadline = config.timeBudgetMs === undefined ? Infinity : now() + config.timeBudgetMs;
+    const root = createNode(new GameEngine(snapshot), null, null, selfId);
+
+    let iterations = 0;
+    while (iterations < config.iterations && search.ticks < config.tickBudget && (deadline === Infinity || now() < deadline)) {
+        iterations++;
+        // 1. Selection
+        let node = root;
+        while (node.untried.length === 0 && node.children.length > 0) node = selectChild(node, config.exploration);
+        // 2. Expansion
+        if (node.depth < config.depth && !isOver(node.engine, selfId)) node = expand(search, node) || node;
+        // 3. Simulation
+        const value = rollout(search, node);
+        // 4. Backpropagation
+        for (let n: Node | null = node; n; n = n.parent) {
+            n.visits++;
+            n.total += value;
+        }
+        if (root.untried.length === 0 && root.children.length === 0) break; // Every order refused
+    }
+
+    const best = root.children.reduce<Node | null>((a, b) => (!a || b.visits > a.visits ? b : a), null);
+    return best && { action: best.action!, visits: best.visits, value: best.total / best.visits, iterations, ticks: search.ticks };
+};
@@ -0,0 +1,82 @@
+import { getHexKey, cubeDistance, getNeighbors } from '../../services/hexUtils';
+import { isBlockedByStructure } from '../../rules/structures';
+import { BotStrategy } from './types';
+import { createNextMemory, tryPanicEscape, getOtherUnitObstacles, getCurrentHex, upgradeHere, tryAttack } from './common';
+import { nomadStrategy, pursueTarget } from './nomad';
+import { tryDefendCapital, trySiegeCapital } from './capital';
+
+// Beyond this distance the player is ignored and the blocker plays like a nomad
+const HUNT_RADIUS = 8;
+// Chasing is paid in credits: below this the blocker goes back to building its economy
+const HUNT_BUDGET = 30;
+
+/**
+ * "Aggressive Blocker"
+ * Shadows the player (where it last saw them) and camps on the hexes around them. Occupied hexes cannot be
+ * entered, and raising a neighbor breaks the player's "exactly L supports" staircase.
+ * Attack tokens go into knocking down the player's sectors within reach.
+ */
+export const blockerStrategy: BotStrategy = {
+    id: 'blocker',
+    decide(ctx) {
+        const { bot, grid, player } = ctx;
+        const memory = createNextMemory(ctx);
+        // Fog of war: hunt where the player was last seen (difficulty permitting, see createNextMemory)
+        const playerSeen = !ctx.visibleHexKeys || ctx.visibleHexKeys.has(getHexKey(player.q, player.r));
+
+        const panic = tryPanicEscape(ctx, memory);
+        if (panic) return panic;
+
+        // Capital mode: the player's capital beats the player as a target
+        if (ctx.winCondition?.capitalMode) {
+            const capitalAction = tryDefendCapital(ctx, memory) || (bot.coins >= HUNT_BUDGET ? trySiegeCapital(ctx, memory, HUNT_BUDGET / 2) : null);
+            if (capitalAction) return capitalAction;
+        }
+
+        // Tokens to spare: knock down the player's sectors next to us
+        const strike = tryAttack(ctx, memory, player.id);
+        if (strike) return strike;
+
+        // Reached the last sighting and the player is gone: the trail went cold
+        if (!playerSeen && memory.lastPlayerPos && cubeDistance(bot, memory.lastPlayerPos) <= 1) {
+            memory.lastPlayerPos = null;
+        }
+        const quarry = memory.lastPlayerPos;
+        // Nomad fallback, keeping track of the player
+        const roam = (result = nomadStrategy.decide(ctx)) => ({ ...result, memory: { ...result.memory, lastPlayerPos: quarry } });
+
+        if (!quarry) return roam();
+        const distance = cubeDistance(bot, quarry);
+        if (distance > HUNT_RADIUS || bot.coins < HUNT_BUDGET) {
+            return roam();
+        }
+
+        // Adjacent: disturb the player's supports by working the hex we stand on
+        if (distance === 1) {
+            const currentHex = getCurrentHex(ctx);
+            if (currentHex && currentHex.maxLevel < 99) {
+                const nomad = nomadStrategy.decide(ctx);
+                // Only take over from the nomad logic when it wants to walk away
+                if (nomad.action?.type === 'MOVE' && !bot.recoveredCurrentHex) {
+                    return upgradeHere(ctx, 'RECOVER', 'Camping next to player', memory);
+                }
+                return roam(nomad);
+            }
+        }
+
+        // Approach: the richest free hex around the player (the support they most likely need)
+        const otherUnitObstacles = getOtherUnitObstacles(ctx);
+        const targets = getNeighbors(quarry.q, quarry.r)
+            .map(n => grid[getHexKey(n.q, n.r)])
+            .filter(h => h && h.structureType !== 'VOID' && h.maxLevel <= bot.playerLevel && !isBlockedByStructure(h, bot.id))
+            .filter(h => !otherUnitObstacles.some(o => o.q === h.q && o.r === h.r))
+            .sort((a, b) => b.maxLevel - a.maxLevel || cubeDistance(bot, a) - cubeDistance(bot, b));
+
+        if (targets.length === 0) {
+            return roam();
+        }
+
+        memory.currentGoal = { type: 'ATTACK', targetHexId: targets[0].id, targetQ: quarry.q, targetR: quarry.r, priority: 2, expiresAt: 0 };
+        return pursueTarget(ctx, targets[0], 'BLOCK', memory, HUNT_BUDGET / 2);
+    }
+};
@@ -0,0 +1,38 @@
+import { calculateMovementCost } from '../../rules/movement';
+import { BotStrategy } from './types';
+import { createNextMemory, getFarmingAction, getCurrentHex, tryBuildBarrier } from './common';
+import { nomadStrategy } from './nomad';
+
+// Credits per rank that the builder never spends on travel
+const SAFETY_PER_RANK = 20;
+
+/**
+ * "Cautious Builder"
+ * Follows the nomad build plan but refuses any trip that would dip into its safety
+ * reserve, recovering in place instead. Slower, but rarely stranded.
+ * Walls off every L2+ sector it owns once it can spare the credits.
+ */
+export const builderStrategy: BotStrategy = {
+    id: 'builder',
+    decide(ctx) {
+        const { bot, grid } = ctx;
+        const reserve = SAFETY_PER_RANK * Math.max(1, bot.playerLevel);
+
+        // Fortify high ground before leaving it: a walled L2+ can't be farmed or camped by rivals
+        const currentHex = getCurrentHex(ctx);
+        if (currentHex && currentHex.maxLevel >= 2) {
+            const wall = tryBuildBarrier(ctx, createNextMemory(ctx), reserve);
+            if (wall) return wall;
+        }
+
+        const plan = nomadStrategy.decide(ctx);
+
+        if (plan.action?.type !== 'MOVE') return plan;
+
+        const cost = calculateMovementCost(bot, plan.action.path, grid);
+        if (cost.deductCoins === 0 || bot.coins - cost.deductCoins >= reserve) return plan;
+
+        const memory = { ...createNextMemory(ctx), masterGoalId: plan.memory.masterGoalId, currentGoal: plan.memory.currentGoal };
+        return getFarmingAction(ctx, memory, `Saving (reserve ${reserve})`, reserve);
+    }
+};
@@ -0,0 +1,109 @@
+import { Hex, BotMemory } from '../../types';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey, cubeDistance, findPath, getNeighbors } from '../../services/hexUtils';
+import { calculateMovementCost } from '../../rules/movement';
+import { checkStructureBuild, checkBreach, isBlockedByStructure } from '../../rules/structures';
+import { AiResult, BotContext } from './types';
+import { act, moveAlong, getOtherUnitObstacles, getPathOptions, tryBuildBarrier, tryBreachToward } from './common';
+
+/**
+ * Capital mode reflexes, shared by every personality:
+ * found a capital once rich, wall it off when rivals close in, and lay siege to the player's.
+ */
+
+// Rivals this close to our capital trigger the defense
+const THREAT_RADIUS = 3;
+// Credits left after founding, so the new capital isn't an instant bankruptcy
+const FOUNDING_RESERVE = 50;
+
+/** Found our capital on the owned hex we stand on. */
+export const tryFoundCapital = (ctx: BotContext, memory: BotMemory, reserve: number = 0): AiResult | null => {
+    const { bot, grid } = ctx;
+    if (bot.coins - GAME_CONFIG.STRUCTURES.CAPITAL.cost < reserve) return null;
+    if (!checkStructureBuild('CAPITAL', grid[getHexKey(bot.q, bot.r)], bot).ok) return null;
+    return act({ type: 'UPGRADE', coord: { q: bot.q, r: bot.r }, upgradeType: 'CAPITAL', stateVersion: ctx.stateVersion }, 'Found Capital', memory);
+};
+
+/**
+ * Rivals near our capital: go home and raise barriers on the owned sectors around it.
+ * Those walls also get the capital's defense bonus.
+ */
+export const tryDefendCapital = (ctx: BotContext, memory: BotMemory): AiResult | null => {
+    const { bot, grid } = ctx;
+    const capital = bot.capitalId ? grid[bot.capitalId] : undefined;
+    if (!capital) return null;
+
+    const rivals = ctx.obstacles.filter(o => o.q !== bot.q || o.r !== bot.r);
+    if (!rivals.some(r => cubeDistance(r, capital) <= THREAT_RADIUS)) return null;
+
+    const unwalled = getNeighbors(capital.q, capital.r)
+        .map(n => grid[getHexKey(n.q, n.r)])
+        .filter((h): h is Hex => !!h && h.ownerId === bot.id && h.maxLevel >= 1 && (!h.structureType || h.structureType === 'NONE'))
+        .filter(h => !rivals.some(r => r.q === h.q && r.r === h.r));
+    if (unwalled.length === 0) return null;
+
+    const defenseMemory: BotMemory = { ...memory, currentGoal: { type: 'DEFEND', targetHexId: capital.id, priority: 3, expiresAt: 0 } };
+    if (unwalled.some(h => h.q === bot.q && h.r === bot.r)) {
+        return tryBuildBarrier(ctx, defenseMemory);
+    }
+    if (bot.coins < GAME_CONFIG.STRUCTURES.BARRIER.cost) return null;
+
+    unwalled.sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+    const path = findPath({ q: bot.q, r: bot.r }, unwalled[0], grid, bot.playerLevel, getOtherUnitObstacles(ctx), getPathOptions(ctx));
+    if (!path) return null;
+
+    const cost = calculateMovementCost(bot, path, grid);
+    if (!cost.canAfford || bot.coins - cost.deductCoins < GAME_CONFIG.STRUCTURES.BARRIER.cost) return null;
+    return moveAlong(ctx, path, 'Defend Capital', defenseMemory);
+};
+
+/**
+ * March on the player's capital and breach it.
+ * `budget` = credits the bot keeps for itself; below it the siege is called off.
+ */
+export const trySiegeCapital = (ctx: BotContext, memory: BotMemory, budget: number = 0): AiResult | null => {
+    const { bot, grid, player } = ctx;
+    if (player.id === bot.id) return null; // Autopilot driving the player slot
+    const capital = player.capitalId ? grid[player.capitalId] : undefined;
+    if (!capital || capital.structureType !== 'CAPITAL') return null;
+
+    const siegeMemory: BotMemory = { ...memory, currentGoal: { type: 'ATTACK', targetHexId: capital.id, targetQ: capital.q, targetR: capital.r, priority: 2, expiresAt: 0 } };
+
+    if (cubeDistance(bot, capital) === 1) {
+        if (!checkBreach(capital, bot).ok || (bot.moves < 1 && bot.coins < budget)) return null;
+        return act({ type: 'BREACH', coord: { q: capital.q, r: capital.r }, stateVersion: ctx.stateVersion }, 'Siege Capital', siegeMemory);
+    }
+
+    const otherUnitObstacles = getOtherUnitObstacles(ctx);
+    const approaches = getNeighbors(capital.q, capital.r)
+        .map(n => grid[getHexKey(n.q, n.r)])
+        .filter((h): h is Hex => !!h && h.structureType !== 'VOID' && h.maxLevel <= bot.playerLevel && !isBlockedByStructure(h, bot.id))
+        .filter(h => !otherUnitObstacles.some(o => o.q === h.q && o.r === h.r))
+        .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+    const pathOptions = getPathOptions(ctx);
+    for (const approach of approaches.slice(0, 3)) {
+        const path = findPath({ q: bot.q, r: bot.r }, approach, grid, bot.playerLevel, otherUnitObstacles, pathOptions);
+        if (!path) continue;
+        const cost = calculateMovementCost(bot, path, grid);
+        if (cost.canAfford && bot.coins - cost.deductCoins >= budget) {
+            return moveAlong(ctx, path, 'March on Capital', siegeMemory);
+        }
+        return null;
+    }
+
+    // Walled in: cut through toward it
+    return tryBreachToward(ctx, capital, siegeMemory);
+};
+
+/**
+ * Capital mode priorities: defend ours, found one, then threaten the player's
+ * once our own capital stands and we hold `siegeBudget` credits.
+ */
+export const tryCapitalPlay = (ctx: BotContext, memory: BotMemory, siegeBudget: number): AiResult | null => {
+    if (!ctx.winCondition?.capitalMode) return null;
+
+    return tryDefendCapital(ctx, memory)
+        || tryFoundCapital(ctx, memory, FOUNDING_RESERVE)
+        || (ctx.bot.capitalId && ctx.bot.coins >= siegeBudget ? trySiegeCapital(ctx, memory, siegeBudget / 2) : null);
+};
@@ -0,0 +1,275 @@
+import { Hex, HexCoord, BotMemory, BotAction } from '../../types';
+import { DIFFICULTY_SETTINGS, GAME_CONFIG } from '../../rules/config';
+import { getHexKey, cubeDistance, findPath, getNeighbors, PathOptions } from '../../services/hexUtils';
+import { checkGrowthCondition } from '../../rules/growth';
+import { calculateMovementCost } from '../../rules/movement';
+import { checkStructureBuild, checkBreach, isBlockedByStructure } from '../../rules/structures';
+import { isKnownTrapFor } from '../../rules/traps';
+import { checkAttack, getSectorDefense } from '../../rules/combat';
+import { AiResult, BotContext } from './types';
+
+/**
+ * Building blocks shared by all strategies.
+ * Extracted from the V17 "Nomad Architect" so every personality keeps the same
+ * survival reflexes (instant upgrades, panic escape, farming when broke).
+ */
+
+export const getQueueSize = (ctx: BotContext): number => DIFFICULTY_SETTINGS[ctx.difficulty]?.queueSize || 3;
+
+/** How smart the difficulty lets the bot play (radii, planning depth, mistakes, interference). */
+export const getDifficultySettings = (ctx: BotContext) => DIFFICULTY_SETTINGS[ctx.difficulty] || DIFFICULTY_SETTINGS.MEDIUM;
+
+/** Radius searched for targets, farms and points around the bot. */
+export const getContextRadius = (ctx: BotContext): number => getDifficultySettings(ctx).contextRadius;
+
+export const getCurrentHex = (ctx: BotContext): Hex | undefined => ctx.grid[getHexKey(ctx.bot.q, ctx.bot.r)];
+
+export const getOtherUnitObstacles = (ctx: BotContext): HexCoord[] =>
+    ctx.obstacles.filter(o => o.q !== ctx.bot.q || o.r !== ctx.bot.r);
+
+/** Sprung rival traps around the bot. Unsprung ones are invisible to it, just like to the player. */
+export const getKnownTrapKeys = (ctx: BotContext): Set<string> => new Set(
+    ctx.index.getHexesInRange({ q: ctx.bot.q, r: ctx.bot.r }, getContextRadius(ctx))
+        .filter(h => isKnownTrapFor(h, ctx.bot.id))
+        .map(h => h.id)
+);
+
+/** findPath options for the bot: its own barriers are open, known traps are routed around. */
+export const getPathOptions = (ctx: BotContext): PathOptions => ({ moverId: ctx.bot.id, avoid: getKnownTrapKeys(ctx) });
+
+export const createNextMemory = (ctx: BotContext): BotMemory => scoutPlayer(ctx, ctx.bot.memory ? { ...ctx.bot.memory } : {
+    lastPlayerPos: null,
+    currentGoal: null,
+    masterGoalId: null,
+    stuckCounter: 0
+});
+
+// Sectors around the player searched for the one they are building up
+const APEX_SCAN_RADIUS = 3;
+
+/**
+ * Refreshes what the bot knows of the player whenever it sees them: where they stand, their apex
+ * (highest sector of theirs around them), their cycle points and rank. Out of sight, only bots whose
+ * difficulty `interferes` remember the last sighting.
+ */
+const scoutPlayer = (ctx: BotContext, memory: BotMemory): BotMemory => {
+    const { bot, player, grid, visibleHexKeys } = ctx;
+    if (player.id === bot.id) return memory;
+
+    const isVisible = (key: string) => !visibleHexKeys || visibleHexKeys.has(key);
+    if (!isVisible(getHexKey(player.q, player.r))) {
+        return getDifficultySettings(ctx).interferes ? memory : { ...memory, lastPlayerPos: null, playerApexId: null, playerCyclePoints: undefined, playerRank: undefined };
+    }
+
+    const apex = ctx.index.getHexesInRange({ q: player.q, r: player.r }, APEX_SCAN_RADIUS)
+        .filter(h => isVisible(h.id))
+        .map(h => grid[h.id])
+        .filter(h => h && h.ownerId === player.id && h.maxLevel < 99)
+        .sort((a, b) => b.maxLevel - a.maxLevel || cubeDistance(player, a) - cubeDistance(player, b))[0];
+
+    return { ...memory, lastPlayerPos: { q: player.q, r: player.r }, playerApexId: apex?.id || null, playerCyclePoints: player.recentUpgrades.length, playerRank: player.playerLevel };
+};
+
+export const act = (action: BotAction, debug: string, memory: BotMemory): AiResult => ({
+    action, debug, memory: { ...memory, stuckCounter: 0 }
+});
+
+export const wait = (ctx: BotContext, debug: string, memory: BotMemory, stuck: boolean = false): AiResult => ({
+    action: { type: 'WAIT', stateVersion: ctx.stateVersion },
+    debug,
+    memory: stuck ? { ...memory, stuckCounter: memory.stuckCounter + 1 } : memory
+});
+
+export const upgradeHere = (ctx: BotContext, intent: 'UPGRADE' | 'RECOVER', debug: string, memory: BotMemory): AiResult =>
+    act({ type: 'UPGRADE', coord: { q: ctx.bot.q, r: ctx.bot.r }, intent, stateVersion: ctx.stateVersion }, debug, memory);
+
+export const moveAlong = (ctx: BotContext, path: HexCoord[], debug: string, memory: BotMemory): AiResult =>
+    act({ type: 'MOVE', path, stateVersion: ctx.stateVersion }, debug, memory);
+
+export const canGrowAt = (ctx: BotContext, hex: Hex): boolean => {
+    const occupied = ctx.index.getOccupiedHexesList();
+    return checkGrowthCondition(hex, ctx.bot, getNeighbors(hex.q, hex.r), ctx.grid, occupied, getQueueSize(ctx)).canGrow;
+};
+
+/** If we stand on a hex we can upgrade right now, do it. Shared world: no ownerId check. */
+export const tryInstantUpgrade = (ctx: BotContext, memory: BotMemory): AiResult | null => {
+    const currentHex = getCurrentHex(ctx);
+    if (currentHex && canGrowAt(ctx, currentHex)) {
+        return upgradeHere(ctx, 'UPGRADE', `INSTANT L${currentHex.currentLevel + 1}`, memory);
+    }
+    return null;
+};
+
+/**
+ * Sink spare credits into a MINE on the owned hex we stand on.
+ * A mine repays its cost long before it wears out, so any bot with `reserve` credits left over should build.
+ */
+export const tryBuildMine = (ctx: BotContext, memory: BotMemory, reserve: number = 0): AiResult | null => {
+    const currentHex = getCurrentHex(ctx);
+    if (ctx.bot.coins - GAME_CONFIG.STRUCTURES.MINE.cost < reserve) return null;
+    if (!checkStructureBuild('MINE', currentHex, ctx.bot).ok) return null;
+    return act({ type: 'UPGRADE', coord: { q: ctx.bot.q, r: ctx.bot.r }, upgradeType: 'MINE', stateVersion: ctx.stateVersion }, 'Build Mine', memory);
+};
+
+/** Wall off the owned hex we stand on: rivals can no longer step on (and farm or block) it. */
+export const tryBuildBarrier = (ctx: BotContext, memory: BotMemory, reserve: number = 0): AiResult | null => {
+    const currentHex = getCurrentHex(ctx);
+    if (ctx.bot.coins - GAME_CONFIG.STRUCTURES.BARRIER.cost < reserve) return null;
+    if (!checkStructureBuild('BARRIER', currentHex, ctx.bot).ok) return null;
+    return act({ type: 'UPGRADE', coord: { q: ctx.bot.q, r: ctx.bot.r }, upgradeType: 'BARRIER', stateVersion: ctx.stateVersion }, 'Build Barrier', memory);
+};
+
+/** No path to `target`: hit the rival barrier next to us that stands in the way. */
+export const tryBreachToward = (ctx: BotContext, target: HexCoord, memory: BotMemory): AiResult | null => {
+    const { bot, grid } = ctx;
+    const distance = cubeDistance(bot, target);
+    const wall = getNeighbors(bot.q, bot.r)
+        .map(n => grid[getHexKey(n.q, n.r)])
+        .filter(h => h && isBlockedByStructure(h, bot.id) && cubeDistance(h, target) < distance)
+        .find(h => checkBreach(h, bot).ok);
+
+    if (!wall) return null;
+    return act({ type: 'BREACH', coord: { q: wall.q, r: wall.r }, stateVersion: ctx.stateVersion }, `Breach (${wall.q},${wall.r})`, memory);
+};
+
+/**
+ * Spend every attack token on an adjacent rival sector, but only where it knocks off at least a level.
+ * `ownerId` restricts the targets to one rival (e.g. the player); otherwise the highest sector wins.
+ */
+export const tryAttack = (ctx: BotContext, memory: BotMemory, ownerId?: string): AiResult | null => {
+    const { bot, grid, index } = ctx;
+    const tokens = bot.attackTokens || 0;
+    if (tokens < 1) return null;
+
+    const targets = getNeighbors(bot.q, bot.r)
+        .map(n => grid[getHexKey(n.q, n.r)])
+        .filter(h => h && (!ownerId || h.ownerId === ownerId) && checkAttack(h, bot, tokens).ok)
+        .filter(h => {
+            const neighbors = getNeighbors(h.q, h.r).map(n => grid[getHexKey(n.q, n.r)]);
+            const garrisoned = index.getEntityAt(h.q, h.r)?.id === h.ownerId;
+            return (h.attackPoint || 0) + tokens >= getSectorDefense(h, neighbors, garrisoned);
+        })
+        .sort((a, b) => b.maxLevel - a.maxLevel);
+
+    if (targets.length === 0) return null;
+    const target = targets[0];
+    const attackMemory: BotMemory = { ...memory, currentGoal: { type: 'ATTACK', targetHexId: target.id, targetQ: target.q, targetR: target.r, priority: 2, expiresAt: 0 } };
+    return act({ type: 'ATTACK', coord: { q: target.q, r: target.r }, tokens, stateVersion: ctx.stateVersion }, `Attack (${target.q},${target.r})`, attackMemory);
+};
+
+// Failed decisions in a row after which a bot panics
+export const PANIC_STUCK_COUNT = 3;
+
+/** Neighbors the bot could step onto right now: passable and not taken by another unit. */
+export const getEscapeRoutes = (ctx: BotContext): HexCoord[] => {
+    const { bot, grid } = ctx;
+    const otherUnitObstacles = getOtherUnitObstacles(ctx);
+    return getNeighbors(bot.q, bot.r).filter(n => {
+        const h = grid[getHexKey(n.q, n.r)];
+        return h && h.maxLevel <= bot.playerLevel && !isBlockedByStructure(h, bot.id) && !isKnownTrapFor(h, bot.id) && !otherUnitObstacles.some(o => o.q === n.q && o.r === n.r);
+    });
+};
+
+/** After PANIC_STUCK_COUNT failed decisions in a row, scramble to a random passable neighbor. */
+export const tryPanicEscape = (ctx: BotContext, memory: BotMemory): AiResult | null => {
+    if (memory.stuckCounter < PANIC_STUCK_COUNT) return null;
+
+    const { bot, grid } = ctx;
+    const escapeRoutes = getEscapeRoutes(ctx);
+
+    if (escapeRoutes.length > 0) {
+        const target = ctx.rng.pick(escapeRoutes);
+        const cost = calculateMovementCost(bot, [target], grid);
+
+        if (!cost.canAfford) {
+            // Cannot flee - recover where we stand
+            return upgradeHere(ctx, 'RECOVER', 'PANIC: RECOVER', memory);
+        }
+        return moveAlong(ctx, [target], 'PANIC: SCRAMBLE', { ...memory, masterGoalId: null });
+    }
+    return { action: { type: 'WAIT', stateVersion: ctx.stateVersion }, debug: 'PANIC: TRAPPED', memory: { ...memory, stuckCounter: 0 } };
+};
+
+/**
+ * Easier bots blunder on purpose (DIFFICULTY_SETTINGS.mistakeChance): now and then a decision is spent
+ * hesitating or wandering to a random neighbor instead. Their plans survive the blunder.
+ */
+export const tryMistake = (ctx: BotContext, memory: BotMemory): AiResult | null => {
+    const { mistakeChance } = getDifficultySettings(ctx);
+    if (mistakeChance <= 0 || ctx.rng.next() >= mistakeChance) return null;
+
+    const routes = getEscapeRoutes(ctx);
+    if (routes.length > 0 && ctx.rng.next() < 0.5) {
+        const target = ctx.rng.pick(routes);
+        if (calculateMovementCost(ctx.bot, [target], ctx.grid).canAfford) {
+            return moveAlong(ctx, [target], 'MISTAKE: WANDER', memory);
+        }
+    }
+    return wait(ctx, 'MISTAKE: HESITATE', memory);
+};
+
+/**
+ * Earn credits: recover here, travel to a good farm, or scrounge a cheap neighbor.
+ * `buffer` = credits the bot insists on keeping after paying for the trip.
+ */
+export const getFarmingAction = (ctx: BotContext, memory: BotMemory, reason: string, buffer: number = 0): AiResult => {
+    const { bot, grid, index, reservedHexKeys } = ctx;
+    const currentHex = getCurrentHex(ctx);
+    const currentHexKey = getHexKey(bot.q, bot.r);
+    const otherUnitObstacles = getOtherUnitObstacles(ctx);
+
+    // 1. Recover HERE if possible (Always prioritized if we haven't done it yet)
+    if (currentHex && !bot.recoveredCurrentHex) {
+        return upgradeHere(ctx, 'RECOVER', `Farming: ${reason}`, memory);
+    }
+
+    // 2. Find High Value Farms
+    const pathOptions = getPathOptions(ctx);
+    const candidates = index.getHexesInRange({ q: bot.q, r: bot.r }, getContextRadius(ctx))
+        .filter(h => h.id !== currentHexKey || !bot.recoveredCurrentHex)
+        .filter(h => !reservedHexKeys?.has(h.id));
+
+    candidates.sort((a, b) => {
+        // Value = Level / Distance. We want high level close by.
+        const valA = a.maxLevel / (cubeDistance(bot, a) + 1);
+        const valB = b.maxLevel / (cubeDistance(bot, b) + 1);
+        return valB - valA;
+    });
+
+    for (const candidate of candidates.slice(0, 5)) {
+        const path = findPath({ q: bot.q, r: bot.r }, { q: candidate.q, r: candidate.r }, grid, bot.playerLevel, otherUnitObstacles, pathOptions);
+        if (path) {
+            const cost = calculateMovementCost(bot, path, grid);
+            if (cost.canAfford && bot.coins >= cost.deductCoins + buffer) {
+                return moveAlong(ctx, path, `Go Farm (${reason})`, memory);
+            }
+        }
+    }
+
+    // 3. SCROUNGING (Emergency Farming)
+    // No reachable/affordable farm: step onto ANY affordable neighbor so we can at least recover there.
+    const affordableOptions: { path: HexCoord[], hex: Hex }[] = [];
+
+    for (const n of getNeighbors(bot.q, bot.r)) {
+        const nKey = getHexKey(n.q, n.r);
+        if (reservedHexKeys?.has(nKey) || otherUnitObstacles.some(o => o.q === n.q && o.r === n.r)) continue;
+
+        const nHex = grid[nKey];
+        // Not Void, Not Rank Locked, Not a rival wall or known trap
+        if (!nHex || nHex.structureType === 'VOID' || nHex.maxLevel > bot.playerLevel) continue;
+        if (isBlockedByStructure(nHex, bot.id) || pathOptions.avoid?.has(nKey)) continue;
+
+        const path = [{ q: n.q, r: n.r }];
+        if (calculateMovementCost(bot, path, grid).canAfford) {
+            affordableOptions.push({ path, hex: nHex });
+        }
+    }
+
+    if (affordableOptions.length > 0) {
+        // Highest Level -> Better Recovery yield
+        affordableOptions.sort((a, b) => b.hex.maxLevel - a.hex.maxLevel);
+        return moveAlong(ctx, affordableOptions[0].path, 'Scrounging', memory);
+    }
+
+    return wait(ctx, 'Trapped/Poor', memory, true);
+};
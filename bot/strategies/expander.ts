@@ -0,0 +1,52 @@
+import { Hex } from '../../types';
+import { getHexKey, cubeDistance, getNeighbors } from '../../services/hexUtils';
+import { BotContext, BotStrategy } from './types';
+import { getContextRadius, createNextMemory, tryInstantUpgrade, tryPanicEscape, getQueueSize, tryAttack } from './common';
+import { nomadStrategy, pursueTarget } from './nomad';
+
+/** Unclaimed L0 next to our own hexes first, then the closest one. */
+const findFrontierHex = (ctx: BotContext): Hex | null => {
+    const { bot, grid, index, reservedHexKeys } = ctx;
+    const ownedNeighbors = (h: Hex) => getNeighbors(h.q, h.r)
+        .filter(n => grid[getHexKey(n.q, n.r)]?.ownerId === bot.id).length;
+
+    const candidates = index.getHexesInRange({ q: bot.q, r: bot.r }, getContextRadius(ctx))
+        .filter(h => h.maxLevel === 0 && h.structureType !== 'VOID' && !reservedHexKeys?.has(h.id))
+        .map(h => ({ hex: h, score: cubeDistance(bot, h) - ownedNeighbors(h) }))
+        .sort((a, b) => a.score - b.score);
+
+    return candidates.length > 0 ? candidates[0].hex : null;
+};
+
+/**
+ * "Territorial Expander"
+ * Keeps its point queue full by claiming fresh L0 land around its territory
+ * (attacking rival sectors on its border whenever it holds the tokens),
+ * and only climbs ranks (via the nomad logic) when there is nothing left to grab nearby.
+ */
+export const expanderStrategy: BotStrategy = {
+    id: 'expander',
+    decide(ctx) {
+        const memory = createNextMemory(ctx);
+
+        const instant = tryInstantUpgrade(ctx, memory);
+        if (instant) return instant;
+
+        const panic = tryPanicEscape(ctx, memory);
+        if (panic) return panic;
+
+        // Border skirmish: contest rival land that touches ours
+        const strike = tryAttack(ctx, memory);
+        if (strike) return strike;
+
+        if (ctx.bot.recentUpgrades.length < getQueueSize(ctx)) {
+            const frontier = findFrontierHex(ctx);
+            if (frontier) {
+                memory.currentGoal = { type: 'EXPAND', targetHexId: frontier.id, priority: 1, expiresAt: 0 };
+                return pursueTarget(ctx, frontier, 'EXPAND', memory);
+            }
+        }
+
+        return nomadStrategy.decide(ctx);
+    }
+};
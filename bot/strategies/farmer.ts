@@ -0,0 +1,43 @@
+import { BotStrategy } from './types';
+import { createNextMemory, tryPanicEscape, tryBuildMine, getFarmingAction, getCurrentHex } from './common';
+import { nomadStrategy } from './nomad';
+import { tryDefendCapital } from './capital';
+
+// Credits banked per rank before the farmer is willing to invest in growth
+const RESERVE_PER_RANK = 40;
+
+/**
+ * "Greedy Farmer"
+ * Sits on the richest hexes and recovers them over and over. Only builds
+ * (via the nomad logic) once the bank covers its reserve, and never lets a trip eat into it.
+ * Spends freely on mines, which pay back while it banks.
+ */
+export const farmerStrategy: BotStrategy = {
+    id: 'farmer',
+    decide(ctx) {
+        const { bot, winCondition } = ctx;
+        const memory = createNextMemory(ctx);
+
+        const panic = tryPanicEscape(ctx, memory);
+        if (panic) return panic;
+
+        const reserve = Math.min(RESERVE_PER_RANK * (bot.playerLevel + 1), winCondition?.targetCoins ?? Infinity);
+        const currentHex = getCurrentHex(ctx);
+        // Acquiring an L0 is always worth it: it pays income and grants a point
+        const isCheapGrab = currentHex !== undefined && currentHex.maxLevel === 0;
+
+        const defense = tryDefendCapital(ctx, memory);
+        if (defense) return defense;
+
+        // Mines are the ultimate farm: build one whenever the bank can take the hit
+        const mine = tryBuildMine(ctx, memory);
+        if (mine) return mine;
+
+        if (bot.coins < reserve && !isCheapGrab) {
+            memory.currentGoal = { type: 'GATHER_RESOURCES', priority: 1, expiresAt: 0 };
+            return getFarmingAction(ctx, memory, `Banking ${bot.coins}/${reserve}`, Math.floor(reserve / 2));
+        }
+
+        return nomadStrategy.decide(ctx);
+    }
+};
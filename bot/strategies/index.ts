@@ -0,0 +1,27 @@
+import { BotStrategyId } from '../../types';
+import { BotStrategy } from './types';
+import { nomadStrategy } from './nomad';
+import { farmerStrategy } from './farmer';
+import { expanderStrategy } from './expander';
+import { blockerStrategy } from './blocker';
+import { builderStrategy } from './builder';
+import { plannerStrategy } from './planner';
+
+export type { AiResult, BotContext, BotStrategy } from './types';
+
+export const DEFAULT_BOT_STRATEGY: BotStrategyId = 'nomad';
+
+/** Registry of AI personalities. AiSystem resolves each bot's `strategyId` here. */
+export const BOT_STRATEGIES: Record<BotStrategyId, BotStrategy> = {
+    nomad: nomadStrategy,
+    farmer: farmerStrategy,
+    expander: expanderStrategy,
+    blocker: blockerStrategy,
+    builder: builderStrategy,
+    planner: plannerStrategy
+};
+
+export const BOT_STRATEGY_IDS = Object.keys(BOT_STRATEGIES) as BotStrategyId[];
+
+export const getBotStrategy = (id?: BotStrategyId): BotStrategy =>
+    (id && BOT_STRATEGIES[id]) || BOT_STRATEGIES[DEFAULT_BOT_STRATEGY];
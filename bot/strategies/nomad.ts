@@ -0,0 +1,190 @@
+import { Hex, BotMemory } from '../../types';
+import { getHexKey, cubeDistance, findPath, getNeighbors } from '../../services/hexUtils';
+import { calculateMovementCost } from '../../rules/movement';
+import { AiResult, BotContext, BotStrategy } from './types';
+import {
+    getContextRadius, getDifficultySettings, createNextMemory, getCurrentHex, getOtherUnitObstacles, canGrowAt,
+    tryInstantUpgrade, tryBuildMine, tryBreachToward, tryPanicEscape, getPathOptions, getFarmingAction, upgradeHere, moveAlong, wait
+} from './common';
+import { tryCapitalPlay } from './capital';
+import { tryCompete } from './rival';
+
+// Credits kept after paying for a mine, so building never strands the nomad
+const MINE_RESERVE = 30;
+// Capital mode: credits needed before marching on the player's capital
+const SIEGE_BUDGET = 120;
+
+/**
+ * Walks down the prerequisites of upgrading `targetHex` (points, rank, supports)
+ * and returns the hex that has to be worked on first. How deep it looks is up to the difficulty.
+ */
+export const resolveBottleneck = (ctx: BotContext, targetHex: Hex, depth: number = 0): { hex: Hex, strategy: string } | null => {
+    const { bot, grid, index, reservedHexKeys } = ctx;
+    if (depth > getDifficultySettings(ctx).planningDepth) return null;
+    if (!targetHex) return null;
+
+    const targetLevel = targetHex.currentLevel + 1;
+
+    // 1. POINT FAMINE -> Gather Points (Capture L0)
+    // Logic: If we want to upgrade (Level > 1) but have no points (recentUpgrades empty), we must acquire first.
+    if (targetLevel > 1 && bot.recentUpgrades.length === 0) {
+        const expanses = index.getHexesInRange({ q: bot.q, r: bot.r }, getContextRadius(ctx))
+            .filter(h => h.maxLevel === 0 && !reservedHexKeys?.has(h.id))
+            .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+        if (expanses.length > 0) return { hex: expanses[0], strategy: 'GATHER_POINT' };
+
+        // If no L0s nearby, fallback to whatever (likely stuck or map full)
+        return null;
+    }
+
+    // 2. RANK BLOCK -> Upgrade Lower Level Hex
+    // If we are L3 trying to build L5, we need to build L4 first.
+    if (bot.playerLevel < targetLevel - 1) {
+        const trainees = index.getHexesInRange({ q: bot.q, r: bot.r }, getContextRadius(ctx))
+            .filter(h => h.id !== targetHex.id && h.maxLevel <= bot.playerLevel && h.maxLevel < 99)
+            .sort((a, b) => b.maxLevel - a.maxLevel); // Highest available
+
+        if (trainees.length > 0) return resolveBottleneck(ctx, trainees[0], depth + 1);
+        return null;
+    }
+
+    // 3. SUPPORT BLOCK -> Upgrade Neighbor
+    const nbs = getNeighbors(targetHex.q, targetHex.r);
+    const highNeighbors = nbs.filter(n => (grid[getHexKey(n.q, n.r)]?.maxLevel || 0) > targetHex.maxLevel).length;
+
+    if (targetLevel > 1 && highNeighbors < 5) {
+        const validSupports = nbs.map(n => grid[getHexKey(n.q, n.r)]).filter(h => h && h.maxLevel === targetHex.maxLevel);
+        if (validSupports.length < 2) {
+            const potentialSupports = nbs
+                .map(n => grid[getHexKey(n.q, n.r)])
+                .filter(h => h !== undefined)
+                .filter(h => h.maxLevel < targetHex.maxLevel) // Need to raise this neighbor
+                .sort((a, b) => b.maxLevel - a.maxLevel);
+
+            if (potentialSupports.length > 0 && potentialSupports[0]) {
+                return resolveBottleneck(ctx, potentialSupports[0], depth + 1);
+            }
+        }
+    }
+
+    return { hex: targetHex, strategy: 'UPGRADE' };
+};
+
+/**
+ * Go to `targetHex` and upgrade it, farming whenever the bot cannot pay for it.
+ * `buffer` = credits kept in reserve when travelling to a farm.
+ */
+export const pursueTarget = (ctx: BotContext, targetHex: Hex, label: string, memory: BotMemory, buffer: number = 0): AiResult => {
+    const { bot, grid } = ctx;
+    const currentHexKey = getHexKey(bot.q, bot.r);
+
+    // A. If we are AT the target, upgrade it
+    if (currentHexKey === getHexKey(targetHex.q, targetHex.r)) {
+        if (canGrowAt(ctx, targetHex)) {
+            return upgradeHere(ctx, 'UPGRADE', `Build L${targetHex.currentLevel + 1}`, memory);
+        }
+        // Funding issue
+        return getFarmingAction(ctx, memory, "Need funds for upgrade");
+    }
+
+    // B. Move to target
+    const path = findPath({ q: bot.q, r: bot.r }, { q: targetHex.q, r: targetHex.r }, grid, bot.playerLevel, getOtherUnitObstacles(ctx), getPathOptions(ctx));
+    if (!path) {
+        return tryBreachToward(ctx, targetHex, memory) || wait(ctx, 'Path Blocked', memory, true);
+    }
+
+    const cost = calculateMovementCost(bot, path, grid);
+    if (cost.canAfford && bot.coins - cost.deductCoins >= buffer) {
+        return moveAlong(ctx, path, `Moving to ${label}`, memory);
+    }
+    return getFarmingAction(ctx, memory, "Need travel funds");
+};
+
+/** Reserve kept when farming without pressure: don't go broke while standing on expensive terrain. */
+export const getIdleFarmingBuffer = (ctx: BotContext): number => {
+    const currentHex = getCurrentHex(ctx);
+    const currentHexCost = (currentHex && currentHex.maxLevel >= 2) ? currentHex.maxLevel : 1;
+    return currentHexCost >= 5 ? 50 : 0;
+};
+
+/**
+ * AI V17: "The Nomad Architect" (Shared World Edition)
+ * No ownership logic. Bots treat all hexes as public resources.
+ * They seek the highest level hexes to upgrade or farm, respecting only physical collision.
+ */
+export const nomadStrategy: BotStrategy = {
+    id: 'nomad',
+    decide(ctx) {
+        const { bot, grid, index, reservedHexKeys } = ctx;
+        const nextMemory = createNextMemory(ctx);
+
+        // === 0. INSTANT UPGRADE OPPORTUNITY ===
+        const instant = tryInstantUpgrade(ctx, nextMemory);
+        if (instant) return instant;
+
+        const capitalPlay = tryCapitalPlay(ctx, nextMemory, SIEGE_BUDGET);
+        if (capitalPlay) return capitalPlay;
+
+        const mine = tryBuildMine(ctx, nextMemory, MINE_RESERVE);
+        if (mine) return mine;
+
+        // === 1. PANIC MODE ===
+        const panic = tryPanicEscape(ctx, nextMemory);
+        if (panic) return panic;
+
+        // === 2. RIVALRY (aggressive bots only) ===
+        const rivalry = tryCompete(ctx, nextMemory);
+        if (rivalry) return rivalry;
+
+        // --- MAIN DECISION LOGIC ---
+        let apexHex: Hex | null = null;
+
+        // 1. Check existing goal stability
+        if (nextMemory.masterGoalId) {
+            const saved = grid[nextMemory.masterGoalId];
+            // Keep goal if valid and not maxed. No owner check.
+            if (saved && saved.maxLevel < 99) {
+                apexHex = saved;
+            }
+        }
+
+        // 2. Find new Apex (Highest reachable/upgradeable hex nearby)
+        if (!apexHex) {
+            const nearbyHexes = index.getHexesInRange({ q: bot.q, r: bot.r }, getDifficultySettings(ctx).scanRadius)
+                .filter(h => h.maxLevel < 99);
+
+            // Heuristic: Highest level closest to us
+            nearbyHexes.sort((a, b) => {
+                if (b.maxLevel !== a.maxLevel) return b.maxLevel - a.maxLevel;
+                return cubeDistance(bot, a) - cubeDistance(bot, b);
+            });
+
+            if (nearbyHexes.length > 0) apexHex = nearbyHexes[0];
+        }
+
+        // 3. Init Phase (If absolutely nothing found, rare)
+        if (!apexHex) {
+            const expanses = index.getHexesInRange({ q: bot.q, r: bot.r }, getContextRadius(ctx))
+                .filter(h => !reservedHexKeys?.has(h.id))
+                .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+            if (expanses.length === 0) return wait(ctx, 'No Goals', nextMemory);
+            apexHex = expanses[0];
+        }
+
+        nextMemory.masterGoalId = apexHex.id;
+
+        // 4. Resolve Strategy - we want to upgrade Apex, but might be blocked.
+        const bottleneck = resolveBottleneck(ctx, apexHex);
+        if (!bottleneck) {
+            return getFarmingAction(ctx, nextMemory, "Stuck", getIdleFarmingBuffer(ctx));
+        }
+
+        const { hex: targetHex, strategy } = bottleneck;
+        nextMemory.currentGoal = { type: 'GROWTH', targetHexId: targetHex.id, priority: 1, expiresAt: 0 };
+
+        // 5. Execution
+        return pursueTarget(ctx, targetHex, strategy, nextMemory);
+    }
+};
@@ -0,0 +1,34 @@
+import { BotStrategy } from './types';
+import { act, createNextMemory, getDifficultySettings, tryPanicEscape, wait } from './common';
+import { nomadStrategy } from './nomad';
+import { DEFAULT_PLANNER_CONFIG, plan } from '../planner/mcts';
+
+/**
+ * "Deep Planner"
+ * No heuristics of its own: simulates its candidate orders ahead on the engine (Monte Carlo tree search,
+ * see bot/planner) and takes the one that pays best, looking as many orders ahead as the difficulty plans.
+ * Meant as the HARD opponent and as a benchmark for the heuristic bots. Falls back on the nomad
+ * without a session to simulate (tools, tests) or when nothing can be played.
+ */
+export const plannerStrategy: BotStrategy = {
+    id: 'planner',
+    decide(ctx) {
+        const memory = createNextMemory(ctx);
+
+        const panic = tryPanicEscape(ctx, memory);
+        if (panic) return panic;
+
+        if (!ctx.snapshot) return nomadStrategy.decide(ctx);
+
+        // One draw from the session's stream seeds the rollouts, and the search stops on simulated ticks (never
+        // the wall clock): the same session plays the same orders on any machine, so replays stay in step
+        const seed = ctx.rng.nextInt(0x7fffffff);
+        const config = { ...DEFAULT_PLANNER_CONFIG, depth: Math.max(1, getDifficultySettings(ctx).planningDepth) };
+        const result = plan(ctx.snapshot(), ctx.bot.id, seed, config);
+        if (!result) return nomadStrategy.decide(ctx);
+
+        const debug = `MCTS: ${result.action.type} (${result.visits}/${result.iterations} visits, value ${result.value.toFixed(2)})`;
+        if (result.action.type === 'WAIT') return wait(ctx, debug, memory);
+        return act({ ...result.action, stateVersion: ctx.stateVersion }, debug, memory);
+    }
+};
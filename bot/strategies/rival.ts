@@ -0,0 +1,133 @@
+import { Hex, HexCoord, BotMemory, BotGoalType } from '../../types';
+import { AGGRESSION_SETTINGS, GAME_CONFIG } from '../../rules/config';
+import { getHexKey, cubeDistance, findPath, getNeighbors } from '../../services/hexUtils';
+import { calculateMovementCost } from '../../rules/movement';
+import { isBlockedByStructure } from '../../rules/structures';
+import { AiResult, BotContext } from './types';
+import { canGrowAt, getCurrentHex, getEscapeRoutes, getOtherUnitObstacles, getPathOptions, getQueueSize, moveAlong, upgradeHere, wait } from './common';
+
+/**
+ * Rivalry reflexes, shared by every personality and scaled by the bot's aggression (AGGRESSION_SETTINGS):
+ * the bot works against what it knows of the player (see scoutPlayer) - their apex and their cycle points.
+ * Only the memory is read, never the live player: out of sight, the bot goes on the last sighting.
+ */
+
+// Player this close to a bot parked on their route: keep the road shut
+const PARK_RADIUS = 4;
+// Rank a bot must still have after the shockwave of a collapse it triggers
+const SABOTAGE_MIN_RANK = 1;
+
+const goal = (memory: BotMemory, type: BotGoalType, hex: Hex): BotMemory =>
+    ({ ...memory, currentGoal: { type, targetHexId: hex.id, targetQ: hex.q, targetR: hex.r, priority: 2, expiresAt: 0 } });
+
+const isFree = (ctx: BotContext, hex: HexCoord) => !getOtherUnitObstacles(ctx).some(o => o.q === hex.q && o.r === hex.r);
+
+/** Walk to `hex` if the bot can pay for the whole trip right now. */
+const goTo = (ctx: BotContext, hex: Hex, debug: string, memory: BotMemory): AiResult | null => {
+    const { bot, grid } = ctx;
+    const path = findPath({ q: bot.q, r: bot.r }, { q: hex.q, r: hex.r }, grid, bot.playerLevel, getOtherUnitObstacles(ctx), getPathOptions(ctx));
+    if (!path || !calculateMovementCost(bot, path, grid).canAfford) return null;
+    return moveAlong(ctx, path, debug, memory);
+};
+
+/** The player's way to their apex at their last known rank, units ignored (the bot is on it when parked). Ends on the apex. */
+const getPlayerRoute = (ctx: BotContext, memory: BotMemory, apex: Hex): HexCoord[] =>
+    findPath(memory.lastPlayerPos!, { q: apex.q, r: apex.r }, ctx.grid, memory.playerRank ?? 0, []) || [];
+
+/** The player is short of cycle points: take the free L0s around their apex first (acquiring one grants the point). */
+const tryRaceForPoints = (ctx: BotContext, memory: BotMemory, apex: Hex, reach: number): AiResult | null => {
+    const { bot, grid } = ctx;
+    const quarry = memory.lastPlayerPos!;
+    if ((memory.playerCyclePoints ?? 0) >= getQueueSize(ctx)) return null;
+
+    const contested = getNeighbors(apex.q, apex.r)
+        .map(n => grid[getHexKey(n.q, n.r)])
+        .filter((h): h is Hex => !!h && h.maxLevel === 0 && h.structureType !== 'VOID' && !isBlockedByStructure(h, bot.id))
+        .filter(h => !ctx.reservedHexKeys?.has(h.id) && cubeDistance(bot, h) <= reach)
+        // Only the races the bot can win
+        .filter(h => cubeDistance(bot, h) <= cubeDistance(quarry, h) && (h.q !== quarry.q || h.r !== quarry.r))
+        .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+    for (const hex of contested) {
+        if (hex.q === bot.q && hex.r === bot.r) {
+            if (canGrowAt(ctx, hex)) return upgradeHere(ctx, 'UPGRADE', 'DENY: Grab L0', goal(memory, 'DENY', hex));
+            continue;
+        }
+        if (!isFree(ctx, hex)) continue;
+        const race = goTo(ctx, hex, 'DENY: Race for L0', goal(memory, 'DENY', hex));
+        if (race) return race;
+    }
+    return null;
+};
+
+/** Park on the player's route to their apex (the apex itself included) before they get there. */
+const tryBlockRoute = (ctx: BotContext, memory: BotMemory, apex: Hex, reach: number): AiResult | null => {
+    const { bot, grid } = ctx;
+    const quarry = memory.lastPlayerPos!;
+    const route = getPlayerRoute(ctx, memory, apex);
+    if (route.length === 0) return null;
+
+    // Already in the way: hold the hex while the player is around
+    if (route.some(step => step.q === bot.q && step.r === bot.r) && cubeDistance(bot, quarry) <= PARK_RADIUS) {
+        const memoryHere = goal(memory, 'BLOCK', getCurrentHex(ctx)!);
+        return bot.recoveredCurrentHex
+            ? wait(ctx, 'BLOCK: Parked on player route', memoryHere)
+            : upgradeHere(ctx, 'RECOVER', 'BLOCK: Parked on player route', memoryHere);
+    }
+
+    const stops = route
+        .map(step => grid[getHexKey(step.q, step.r)])
+        .filter((h): h is Hex => !!h && isFree(ctx, h) && !ctx.reservedHexKeys?.has(h.id))
+        .filter(h => cubeDistance(bot, h) <= reach && cubeDistance(bot, h) < cubeDistance(quarry, h))
+        .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+    for (const hex of stops) {
+        const block = goTo(ctx, hex, 'BLOCK: Cut player route', goal(memory, 'BLOCK', hex));
+        if (block) return block;
+    }
+    return null;
+};
+
+/**
+ * Collapse an L1 sector around the player's apex: step onto one on its last durability point, then off it.
+ * The void breaks the player's staircase; the shockwave costs the bot a rank, so only ranked bots do it.
+ */
+const trySabotage = (ctx: BotContext, memory: BotMemory, apex: Hex, reach: number): AiResult | null => {
+    const { bot, grid } = ctx;
+    const currentHex = getCurrentHex(ctx);
+
+    // On the worn-out sector: step off and let it fall
+    if (memory.currentGoal?.type === 'SABOTAGE' && currentHex && memory.currentGoal.targetHexId === currentHex.id) {
+        if (currentHex.maxLevel === 1 && currentHex.structureType !== 'VOID' && (currentHex.durability ?? GAME_CONFIG.L1_HEX_MAX_DURABILITY) <= 0) {
+            const exit = getEscapeRoutes(ctx).find(n => calculateMovementCost(bot, [n], grid).canAfford);
+            if (exit) return moveAlong(ctx, [exit], 'SABOTAGE: Collapse', goal(memory, 'SABOTAGE', currentHex));
+        }
+        return null;
+    }
+
+    if (bot.playerLevel <= SABOTAGE_MIN_RANK) return null;
+
+    const victims = [apex, ...getNeighbors(apex.q, apex.r).map(n => grid[getHexKey(n.q, n.r)])]
+        .filter((h): h is Hex => !!h && h.maxLevel === 1 && h.structureType !== 'VOID' && !isBlockedByStructure(h, bot.id))
+        // One more step onto it wears it out (durability is only known inside the bot's vision)
+        .filter(h => h.durability === 1 && cubeDistance(bot, h) <= reach && isFree(ctx, h) && (h.q !== bot.q || h.r !== bot.r))
+        .sort((a, b) => cubeDistance(bot, a) - cubeDistance(bot, b));
+
+    for (const hex of victims) {
+        const strike = goTo(ctx, hex, 'SABOTAGE: Wear out L1', goal(memory, 'SABOTAGE', hex));
+        if (strike) return strike;
+    }
+    return null;
+};
+
+/** Work against the player around their apex, as far as the bot's aggression goes. Null = nothing worth it. */
+export const tryCompete = (ctx: BotContext, memory: BotMemory): AiResult | null => {
+    const settings = AGGRESSION_SETTINGS[ctx.bot.aggression || 'PASSIVE'];
+    if (settings.reach <= 0 || !memory.lastPlayerPos) return null;
+    const apex = memory.playerApexId ? ctx.grid[memory.playerApexId] : undefined;
+    if (!apex) return null;
+
+    return (settings.sabotage ? trySabotage(ctx, memory, apex, settings.reach) : null)
+        || (settings.race ? tryRaceForPoints(ctx, memory, apex, settings.reach) : null)
+        || (settings.block ? tryBlockRoute(ctx, memory, apex, settings.reach) : null);
+};
@@ -0,0 +1,37 @@
+import { Entity, Hex, HexCoord, WinCondition, BotAction, Difficulty, BotMemory, BotStrategyId, SessionState } from '../../types';
+import { WorldIndex } from '../../engine/WorldIndex';
+import { SeededRandom } from '../../engine/SeededRandom';
+
+export interface AiResult {
+    action: BotAction | null;
+    debug: string;
+    memory: BotMemory;
+}
+
+/**
+ * Everything a strategy may read to make one decision.
+ * Strategies are pure: they return an action + next memory and never mutate the context.
+ *
+ * Fog of war: `grid` holds full hexes only inside the bot's vision (HexView projections elsewhere, see rules/visibility)
+ * and `obstacles` only the units it can see. `index` answers spatial queries only: read hex details from `grid`,
+ * and check `visibleHexKeys` before trusting another entity's position.
+ */
+export interface BotContext {
+    bot: Entity;
+    grid: Record<string, Hex>;
+    player: Entity;
+    winCondition: WinCondition | null;
+    obstacles: HexCoord[];
+    visibleHexKeys?: Set<string>; // Undefined = omniscient (tests, tools)
+    index: WorldIndex;
+    stateVersion: number;
+    difficulty: Difficulty;
+    rng: SeededRandom;
+    reservedHexKeys?: Set<string>;
+    snapshot?: () => SessionState; // The session as the bot knows it, for planners simulating ahead (see bot/planner)
+}
+
+export interface BotStrategy {
+    id: BotStrategyId;
+    decide(ctx: BotContext): AiResult;
+}
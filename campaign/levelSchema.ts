@@ -0,0 +1,201 @@
+import { LevelDefinition, StatName, Comparison } from './types';
+import { GameAction } from '../types';
+import { TEXT } from '../services/i18n';
+
+/** A level definition that does not match the schema. `issues` lists every problem found, by JSON path. */
+export class LevelSchemaError extends Error {
+  constructor(public readonly levelId: string, public readonly issues: string[]) {
+    super(`Invalid level "${levelId}": ${issues.join('; ')}`);
+    this.name = 'LevelSchemaError';
+  }
+}
+
+const STATS: StatName[] = ['coins', 'moves', 'rank'];
+const COMPARISONS: Comparison[] = ['<', '<=', '>=', '>'];
+const STRUCTURES = ['BARRIER', 'MINE', 'CAPITAL', 'VOID'];
+const ACTION_TYPES: GameAction['type'][] = ['MOVE', 'UPGRADE', 'WAIT', 'RECHARGE_MOVE', 'BREACH', 'ARM_TRAP', 'ATTACK'];
+const HEX_FIELDS = ['q', 'r', 'currentLevel', 'maxLevel', 'ownerId', 'structureType', 'durability', 'structureHp', 'revealed', 'richness'];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects schema issues instead of stopping at the first one,
+ * so a designer sees everything wrong with a level in one go.
+ */
+class Checker {
+  issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  object(value: unknown, path: string): value is Json {
+    if (!isObject(value)) this.fail(path, 'expected an object');
+    return isObject(value);
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value)) this.fail(path, 'expected an array');
+    return Array.isArray(value);
+  }
+
+  string(value: unknown, path: string, optional = false) {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string' || value.length === 0) this.fail(path, 'expected a non-empty string');
+  }
+
+  integer(value: unknown, path: string, min: number = -Infinity, optional = false) {
+    if (value === undefined && optional) return;
+    if (!Number.isInteger(value) || (value as number) < min) {
+      this.fail(path, min > -Infinity ? `expected an integer >= ${min}` : 'expected an integer');
+    }
+  }
+
+  oneOf(value: unknown, allowed: readonly unknown[], path: string, optional = false) {
+    if (value === undefined && optional) return;
+    if (!allowed.includes(value)) this.fail(path, `expected one of ${allowed.map(a => JSON.stringify(a)).join(', ')}`);
+  }
+
+  coord(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    this.integer(value.q, `${path}.q`);
+    this.integer(value.r, `${path}.r`);
+  }
+
+  coords(value: unknown, path: string, allowEmpty = false) {
+    if (!this.array(value, path)) return;
+    if (value.length === 0 && !allowEmpty) this.fail(path, 'expected at least one hex');
+    value.forEach((c, i) => this.coord(c, `${path}[${i}]`));
+  }
+}
+
+const checkCondition = (c: Checker, cond: unknown, path: string) => {
+  if (!c.object(cond, path)) return;
+  switch (cond.type) {
+    case 'OWN_HEXES':
+      c.integer(cond.count, `${path}.count`, 1);
+      c.integer(cond.minLevel, `${path}.minLevel`, 0, true);
+      c.oneOf(cond.anyOwner, [true, false], `${path}.anyOwner`, true);
+      break;
+    case 'REACH_HEX':
+      c.integer(cond.q, `${path}.q`);
+      c.integer(cond.r, `${path}.r`);
+      break;
+    case 'STAND_ON':
+      c.oneOf(cond.structure, STRUCTURES, `${path}.structure`);
+      break;
+    case 'HEXES_AT_LEVEL':
+      c.coords(cond.hexes, `${path}.hexes`);
+      c.integer(cond.level, `${path}.level`, 0);
+      break;
+    case 'HEX_COLLAPSED':
+      c.coords(cond.hexes, `${path}.hexes`);
+      break;
+    case 'STAT':
+      c.oneOf(cond.stat, STATS, `${path}.stat`);
+      c.oneOf(cond.op, COMPARISONS, `${path}.op`);
+      c.integer(cond.value, `${path}.value`);
+      break;
+    case 'TIME_LIMIT':
+      c.integer(cond.seconds, `${path}.seconds`, 1);
+      break;
+    case 'ALL':
+    case 'ANY':
+      if (c.array(cond.conditions, `${path}.conditions`)) {
+        if (cond.conditions.length === 0) c.fail(`${path}.conditions`, 'expected at least one condition');
+        cond.conditions.forEach((sub, i) => checkCondition(c, sub, `${path}.conditions[${i}]`));
+      }
+      break;
+    case 'NOT':
+      checkCondition(c, cond.condition, `${path}.condition`);
+      break;
+    default:
+      c.fail(`${path}.type`, `unknown condition ${JSON.stringify(cond.type)}`);
+  }
+};
+
+const checkRestriction = (c: Checker, rule: unknown, path: string) => {
+  if (!c.object(rule, path)) return;
+  switch (rule.type) {
+    case 'FORBID_ACTION':
+      c.oneOf(rule.action, ACTION_TYPES, `${path}.action`);
+      break;
+    case 'FORBID_UPGRADE_ABOVE':
+      c.integer(rule.level, `${path}.level`, 0);
+      break;
+    case 'REQUIRE_SUPPORTS':
+      c.integer(rule.level, `${path}.level`, 1);
+      c.integer(rule.supports, `${path}.supports`, 1);
+      break;
+    default:
+      c.fail(`${path}.type`, `unknown restriction ${JSON.stringify(rule.type)}`);
+  }
+  c.string(rule.message, `${path}.message`, true);
+  if (rule.messageKey !== undefined && !(typeof rule.messageKey === 'string' && rule.messageKey in TEXT.EN.HUD)) {
+    c.fail(`${path}.messageKey`, `unknown HUD text ${JSON.stringify(rule.messageKey)}`);
+  }
+};
+
+/**
+ * Checks that `data` (typically parsed JSON) is a LevelDefinition.
+ * Throws a LevelSchemaError listing every issue; returns the definition unchanged otherwise.
+ */
+export const validateLevelDefinition = (data: unknown): LevelDefinition => {
+  const c = new Checker();
+  if (!c.object(data, 'level')) throw new LevelSchemaError('?', c.issues);
+  const levelId = typeof data.id === 'string' && data.id ? data.id : '?';
+
+  c.string(data.id, 'id');
+  c.string(data.title, 'title');
+  c.string(data.description, 'description');
+  c.oneOf(data.aiMode, ['none', 'dummy', 'basic'], 'aiMode');
+
+  if (c.object(data.mapConfig, 'mapConfig')) {
+    const map = data.mapConfig;
+    c.integer(map.size, 'mapConfig.size', 1);
+    c.oneOf(map.type, ['procedural', 'fixed'], 'mapConfig.type');
+    c.oneOf(map.generateWalls, [true, false], 'mapConfig.generateWalls', true);
+    c.integer(map.wallStartRadius, 'mapConfig.wallStartRadius', 0, true);
+    c.integer(map.wallStartLevel, 'mapConfig.wallStartLevel', 0, true);
+    c.oneOf(map.wallType, ['classic', 'void_shatter'], 'mapConfig.wallType', true);
+    c.oneOf(map.generator, ['pyramid_run'], 'mapConfig.generator', true);
+    if (map.customLayout !== undefined && c.array(map.customLayout, 'mapConfig.customLayout')) {
+      map.customLayout.forEach((hex, i) => {
+        const path = `mapConfig.customLayout[${i}]`;
+        if (!c.object(hex, path)) return;
+        c.integer(hex.q, `${path}.q`);
+        c.integer(hex.r, `${path}.r`);
+        c.integer(hex.currentLevel, `${path}.currentLevel`, 0, true);
+        c.integer(hex.maxLevel, `${path}.maxLevel`, 0, true);
+        c.oneOf(hex.structureType, ['NONE', ...STRUCTURES], `${path}.structureType`, true);
+        c.string(hex.ownerId, `${path}.ownerId`, true);
+        c.integer(hex.durability, `${path}.durability`, 0, true);
+        Object.keys(hex).filter(k => !HEX_FIELDS.includes(k)).forEach(k => c.fail(`${path}.${k}`, 'unknown hex field'));
+      });
+    }
+    if (map.playerSpawn !== undefined) c.coord(map.playerSpawn, 'mapConfig.playerSpawn');
+    if (map.botSpawns !== undefined) c.coords(map.botSpawns, 'mapConfig.botSpawns', true);
+  }
+
+  if (c.object(data.startState, 'startState')) {
+    c.integer(data.startState.credits, 'startState.credits', 0);
+    c.integer(data.startState.moves, 'startState.moves', 0);
+    c.integer(data.startState.rank, 'startState.rank', 0);
+  }
+
+  if (c.array(data.objectives, 'objectives')) {
+    if (data.objectives.length === 0) c.fail('objectives', 'expected at least one objective');
+    data.objectives.forEach((o, i) => checkCondition(c, o, `objectives[${i}]`));
+  }
+  if (data.lossConditions !== undefined && c.array(data.lossConditions, 'lossConditions')) {
+    data.lossConditions.forEach((o, i) => checkCondition(c, o, `lossConditions[${i}]`));
+  }
+  if (data.restrictions !== undefined && c.array(data.restrictions, 'restrictions')) {
+    data.restrictions.forEach((r, i) => checkRestriction(c, r, `restrictions[${i}]`));
+  }
+
+  if (c.issues.length > 0) throw new LevelSchemaError(levelId, c.issues);
+  return data as unknown as LevelDefinition;
+};
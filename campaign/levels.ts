@@ -1,10 +1,15 @@
 
-import { LevelConfig } from './types';
-import { GameEventFactory } from '../engine/events';
-import { getHexKey, getNeighbors } from '../services/hexUtils';
-import { TEXT } from '../services/i18n';
+import { LevelConfig, LevelDefinition } from './types';
+import { loadLevel } from './scenario';
 
-export const CAMPAIGN_LEVELS: LevelConfig[] = [
+// Level 1.4: the fragile central bridge
+const BRIDGE_1_4 = [{ q: 1, r: 0 }, { q: 2, r: 0 }, { q: 3, r: 0 }];
+
+/**
+ * Campaign levels as plain data (JSON-compatible LevelDefinitions).
+ * Objectives, loss conditions and restrictions are declarative; see campaign/scenario.
+ */
+export const LEVEL_DEFINITIONS: LevelDefinition[] = [
   {
     id: '1.1',
     title: 'Simulation 1.1: Expansion',
@@ -51,14 +56,10 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none', 
 
-    hooks: {
-      checkWinCondition: (state) => {
-        // Win Condition: Player must own 4 hexes total (1 Start + 3 Captured)
-        // This allows capturing ANY 3 neighbors instead of specific ones.
-        const ownedCount = Object.values(state.grid).filter(h => h.ownerId === state.player.id).length;
-        return ownedCount >= 4;
-      }
-    }
+    objectives: [
+      // Own 4 sectors in total (1 Start + 3 Captured): ANY 3 neighbors will do
+      { type: 'OWN_HEXES', count: 4 }
+    ]
   },
   {
     id: '1.2',
@@ -68,7 +69,8 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
     mapConfig: {
       size: 7, // Canvas size, actual hexes are fixed
       type: 'fixed', 
-      generateWalls: false
+      generateWalls: false,
+      generator: 'pyramid_run'
     },
 
     startState: {
@@ -79,22 +81,14 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none', 
 
-    hooks: {
-      checkWinCondition: (state) => {
-        // Target: Reaching the Pyramid Apex (marked as CAPITAL in mapGenerator)
-        const playerHex = state.grid[getHexKey(state.player.q, state.player.r)];
-        if (playerHex && playerHex.structureType === 'CAPITAL') {
-            return true;
-        }
-        return false;
-      },
-      checkLossCondition: (state) => {
-        // LOSS CONDITION: Falling rank (fell into void/collapsed hex)
-        // Player starts at Rank 6. If they trigger collapse, they lose 1 rank per collapse.
-        // Falling below rank 3 means they failed too many steps.
-        return state.player.playerLevel < 3;
-      }
-    }
+    objectives: [
+      // Reach the Pyramid Apex (the CAPITAL built by the pyramid_run generator)
+      { type: 'STAND_ON', structure: 'CAPITAL' }
+    ],
+    lossConditions: [
+      // Every collapse costs a rank: falling below rank 3 means too many missteps
+      { type: 'STAT', stat: 'rank', op: '<', value: 3 }
+    ]
   },
   {
     id: '1.3',
@@ -138,57 +132,27 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none',
 
-    hooks: {
-      checkWinCondition: (state) => {
-          // Win if ANY owned hex is Level 2 or higher
-          return Object.values(state.grid).some(h => 
-              h.ownerId === state.player.id && h.maxLevel >= 2
-          );
-      },
-      checkLossCondition: (state) => {
-          // LOSS 1: Player stepped into VOID
-          const playerHex = state.grid[getHexKey(state.player.q, state.player.r)];
-          if (playerHex && playerHex.structureType === 'VOID') {
-              return true;
-          }
-
-          // LOSS 2: Softlock
-          // If no hex is L2, and we have less than 100 credits (cant build L1) and 0 moves.
-          const hasLevel2 = Object.values(state.grid).some(h => h.maxLevel >= 2);
-          if (!hasLevel2 && state.player.coins < 100 && state.player.moves === 0) {
-              return true;
-          }
-          return false;
-      },
-      
-      onBeforeAction: (state, action) => {
-          // Tutorial Hint Logic: Check ANY upgrade to Level 2 attempt
-          if (action.type === 'UPGRADE') {
-              const hex = state.grid[getHexKey(action.coord.q, action.coord.r)];
-              
-              // If trying to upgrade FROM Level 1 TO Level 2
-              if (hex && hex.maxLevel === 1 && action.intent !== 'RECOVER') {
-                  const requiredLevel = 1; 
-                  const neighbors = getNeighbors(hex.q, hex.r);
-                  
-                  const validSupports = neighbors.filter(n => {
-                      const h = state.grid[getHexKey(n.q, n.r)];
-                      // Must be at least level 1 to support a level 2 structure
-                      return h && h.maxLevel >= requiredLevel;
-                  });
-
-                  if (validSupports.length < 2) {
-                      const lang = state.language || 'EN';
-                      return {
-                          ok: false,
-                          reason: TEXT[lang].HUD.TUT_1_3_ERROR_STAIRCASE
-                      };
-                  }
-              }
-          }
-          return { ok: true };
+    objectives: [
+      // ANY owned sector at Level 2 or higher
+      { type: 'OWN_HEXES', count: 1, minLevel: 2 }
+    ],
+    lossConditions: [
+      // Stepped into the VOID
+      { type: 'STAND_ON', structure: 'VOID' },
+      // Softlock: no L2 anywhere, no credits for an L1 and no moves left
+      {
+        type: 'ALL',
+        conditions: [
+          { type: 'NOT', condition: { type: 'OWN_HEXES', count: 1, minLevel: 2, anyOwner: true } },
+          { type: 'STAT', stat: 'coins', op: '<', value: 100 },
+          { type: 'STAT', stat: 'moves', op: '<=', value: 0 }
+        ]
       }
-    }
+    ],
+    restrictions: [
+      // Tutorial hint: an L2 needs 2 neighbors at Level 1+
+      { type: 'REQUIRE_SUPPORTS', level: 2, supports: 2, messageKey: 'TUT_1_3_ERROR_STAIRCASE' }
+    ]
   },
   {
     id: '1.4',
@@ -268,28 +232,16 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none',
 
-    hooks: {
-      checkWinCondition: (state) => {
-          // Win: The 3 CENTRAL bridge hexes (1,0), (2,0), (3,0) must be Level 2+
-          const bridgeKeys = [getHexKey(1,0), getHexKey(2,0), getHexKey(3,0)];
-          const bridgeHexes = bridgeKeys.map(k => state.grid[k]);
-          
-          // Check if all exist and are L2+
-          const allReinforced = bridgeHexes.every(h => h && h.maxLevel >= 2);
-          return allReinforced;
-      },
-      checkLossCondition: (state) => {
-          // Loss 1: Rank drop (fell into void)
-          if (state.player.playerLevel < 2) return true;
-          
-          // Loss 2: Central Bridge collapsed (Any CENTER bridge hex became VOID)
-          const bridgeKeys = [getHexKey(1,0), getHexKey(2,0), getHexKey(3,0)];
-          const anyCollapsed = bridgeKeys.some(k => state.grid[k]?.structureType === 'VOID');
-          if (anyCollapsed) return true;
-
-          return false;
-      }
-    }
+    objectives: [
+      // The 3 CENTRAL bridge hexes must be Level 2+
+      { type: 'HEXES_AT_LEVEL', hexes: BRIDGE_1_4, level: 2 }
+    ],
+    lossConditions: [
+      // Rank drop (fell into void)
+      { type: 'STAT', stat: 'rank', op: '<', value: 2 },
+      // Central Bridge collapsed
+      { type: 'HEX_COLLAPSED', hexes: BRIDGE_1_4 }
+    ]
   },
   {
     id: '1.5',
@@ -359,23 +311,14 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none',
 
-    hooks: {
-      checkWinCondition: (state) => {
-          return state.player.coins >= 100;
-      },
-      checkLossCondition: (state) => {
-          // TIME LIMIT: 60 Seconds
-          const limit = 60 * 1000; 
-          const elapsed = Date.now() - state.sessionStartTime;
-          
-          if (elapsed > limit) return true;
-
-          // Also lose if fell into void (Rank drop)
-          if (state.player.playerLevel < 8) return true;
-
-          return false;
-      }
-    }
+    objectives: [
+      { type: 'STAT', stat: 'coins', op: '>=', value: 100 }
+    ],
+    lossConditions: [
+      { type: 'TIME_LIMIT', seconds: 60 },
+      // Fell into void (Rank drop)
+      { type: 'STAT', stat: 'rank', op: '<', value: 8 }
+    ]
   },
   {
     id: '1.6',
@@ -415,13 +358,12 @@ export const CAMPAIGN_LEVELS: LevelConfig[] = [
 
     aiMode: 'none',
 
-    hooks: {
-      checkWinCondition: (state) => {
-          // Win: Player owns any hex >= Level 3
-          return Object.values(state.grid).some(h => 
-              h.ownerId === state.player.id && h.maxLevel >= 3
-          );
-      }
-    }
+    objectives: [
+      // Player owns any hex >= Level 3
+      { type: 'OWN_HEXES', count: 1, minLevel: 3 }
+    ]
   }
 ];
+
+// Validated and compiled at load: a broken definition fails fast with a LevelSchemaError
+export const CAMPAIGN_LEVELS: LevelConfig[] = LEVEL_DEFINITIONS.map(loadLevel);
@@ -0,0 +1,123 @@
+import { SessionState, GameAction, ValidationResult } from '../types';
+import { LevelConfig, LevelDefinition, ScenarioCondition, ScenarioHooks, ActionRestriction, StatName, Comparison } from './types';
+import { validateLevelDefinition } from './levelSchema';
+import { getHexKey, getNeighbors } from '../services/hexUtils';
+import { TEXT } from '../services/i18n';
+
+/**
+ * Interpreter for data-driven levels: compiles the declarative objectives,
+ * loss conditions and action restrictions of a LevelDefinition into ScenarioHooks.
+ */
+
+const readStat = (state: SessionState, stat: StatName): number =>
+  stat === 'rank' ? state.player.playerLevel : state.player[stat];
+
+const compare = (a: number, op: Comparison, b: number): boolean => {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>=': return a >= b;
+    case '>': return a > b;
+  }
+};
+
+export const evaluateCondition = (cond: ScenarioCondition, state: SessionState): boolean => {
+  const { player, grid } = state;
+  switch (cond.type) {
+    case 'OWN_HEXES': {
+      const minLevel = cond.minLevel ?? 0;
+      let count = 0;
+      for (const key in grid) {
+        const hex = grid[key];
+        if (hex.maxLevel >= minLevel && (cond.anyOwner || hex.ownerId === player.id)) count++;
+      }
+      return count >= cond.count;
+    }
+    case 'REACH_HEX':
+      return player.q === cond.q && player.r === cond.r;
+    case 'STAND_ON':
+      return grid[getHexKey(player.q, player.r)]?.structureType === cond.structure;
+    case 'HEXES_AT_LEVEL':
+      return cond.hexes.every(c => (grid[getHexKey(c.q, c.r)]?.maxLevel ?? -1) >= cond.level);
+    case 'HEX_COLLAPSED':
+      return cond.hexes.some(c => grid[getHexKey(c.q, c.r)]?.structureType === 'VOID');
+    case 'STAT':
+      return compare(readStat(state, cond.stat), cond.op, cond.value);
+    case 'TIME_LIMIT':
+      return state.simTime - state.sessionStartTime > cond.seconds * 1000;
+    case 'ALL':
+      return cond.conditions.every(c => evaluateCondition(c, state));
+    case 'ANY':
+      return cond.conditions.some(c => evaluateCondition(c, state));
+    case 'NOT':
+      return !evaluateCondition(cond.condition, state);
+  }
+};
+
+// Level-raising UPGRADEs only: recoveries and structure builds are not upgrades
+const isLevelUpgrade = (action: GameAction): action is Extract<GameAction, { type: 'UPGRADE' }> =>
+  action.type === 'UPGRADE' && action.intent !== 'RECOVER' && (!action.upgradeType || action.upgradeType === 'DEFAULT');
+
+const violates = (rule: ActionRestriction, state: SessionState, action: GameAction): boolean => {
+  switch (rule.type) {
+    case 'FORBID_ACTION':
+      return action.type === rule.action;
+    case 'FORBID_UPGRADE_ABOVE': {
+      if (!isLevelUpgrade(action)) return false;
+      const hex = state.grid[getHexKey(action.coord.q, action.coord.r)];
+      return !!hex && hex.currentLevel + 1 > rule.level;
+    }
+    case 'REQUIRE_SUPPORTS': {
+      if (!isLevelUpgrade(action)) return false;
+      const hex = state.grid[getHexKey(action.coord.q, action.coord.r)];
+      if (!hex || hex.maxLevel !== rule.level - 1) return false;
+      const supports = getNeighbors(hex.q, hex.r).filter(n => (state.grid[getHexKey(n.q, n.r)]?.maxLevel ?? -1) >= rule.level - 1);
+      return supports.length < rule.supports;
+    }
+  }
+};
+
+const describeViolation = (rule: ActionRestriction, state: SessionState): string => {
+  if (rule.messageKey) {
+    const hud = TEXT[state.language || 'EN'].HUD as unknown as Record<string, string>;
+    if (hud[rule.messageKey]) return hud[rule.messageKey];
+  }
+  if (rule.message) return rule.message;
+  switch (rule.type) {
+    case 'FORBID_ACTION': return `${rule.action} is disabled in this simulation`;
+    case 'FORBID_UPGRADE_ABOVE': return `Upgrades above L${rule.level} are locked`;
+    case 'REQUIRE_SUPPORTS': return `L${rule.level} needs ${rule.supports} neighbors at L${rule.level - 1}+`;
+  }
+};
+
+export const compileScenarioHooks = (definition: LevelDefinition): ScenarioHooks => {
+  const { objectives, lossConditions = [], restrictions = [] } = definition;
+  const hooks: ScenarioHooks = {
+    // Victory once every objective holds
+    checkWinCondition: (state) => objectives.every(c => evaluateCondition(c, state))
+  };
+
+  if (lossConditions.length > 0) {
+    // Defeat as soon as any loss condition holds
+    hooks.checkLossCondition = (state) => lossConditions.some(c => evaluateCondition(c, state));
+  }
+
+  if (restrictions.length > 0) {
+    hooks.onBeforeAction = (state, action): ValidationResult => {
+      const broken = restrictions.find(rule => violates(rule, state, action));
+      return broken ? { ok: false, reason: describeViolation(broken, state) } : { ok: true };
+    };
+  }
+
+  return hooks;
+};
+
+/**
+ * Validates a level definition (e.g. parsed JSON) and compiles it into a playable LevelConfig.
+ * Throws a LevelSchemaError listing every schema issue.
+ */
+export const loadLevel = (data: unknown): LevelConfig => {
+  const definition = validateLevelDefinition(data);
+  const { objectives, lossConditions, restrictions, ...config } = definition;
+  return { ...config, hooks: compileScenarioHooks(definition), definition };
+};
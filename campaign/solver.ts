@@ -0,0 +1,412 @@
+import { GameAction, SessionState, EntityState, Language } from '../types';
+import { LevelConfig, ScenarioCondition } from './types';
+import { GameEngine } from '../engine/GameEngine';
+import { SeededRandom } from '../engine/SeededRandom';
+import { createInitialSessionData, createLevelWinCondition } from '../services/sessionFactory';
+import { getHexKey, getNeighbors, cubeDistance, PriorityQueue } from '../services/hexUtils';
+import { getLevelConfig } from '../rules/config';
+
+/**
+ * Offline solvability checker for levels.
+ * Shortest-path search over the player's actions: single-step MOVEs, UPGRADE or RECOVER on the
+ * current sector and RECHARGE_MOVE. Every action goes through the real ActionProcessor (so level
+ * restrictions apply) and is then ticked through the real systems until the player is idle again.
+ * The first state where the level's checkWinCondition holds gives the minimal action count and
+ * a witness; defeats are dead ends.
+ *
+ * Decisions are assumed instant: time only passes while actions play out. States are told apart
+ * by the player, the bots' positions and the grid, not by time, so TIME_LIMIT levels are checked
+ * on the fastest line to each state. Likewise more moves and credits are assumed never to hurt:
+ * a state is dropped when the same board was reached as early with at least as much of both
+ * (and a recovery still open on the player's sector, if it has one).
+ */
+
+export type SolveStatus = 'SOLVABLE' | 'UNSOLVABLE' | 'UNKNOWN';
+
+export interface SolveOptions {
+  /** Longest solution searched for, in actions */
+  maxActions: number;
+  /** States expanded before giving up */
+  maxStates: number;
+  /** Ticks one action may take to play out (growth chains included) */
+  maxTicksPerAction: number;
+}
+
+export const DEFAULT_SOLVE_OPTIONS: SolveOptions = {
+  maxActions: 40,
+  maxStates: 20000,
+  maxTicksPerAction: 600
+};
+
+export interface SolveResult {
+  /** UNKNOWN: a bound was hit before the reachable states ran out (typical where recovery farms credits forever) */
+  status: SolveStatus;
+  /** Minimal number of actions, when SOLVABLE */
+  actions: number | null;
+  /** A shortest winning action sequence, when SOLVABLE (see playSolverAction) */
+  solution: GameAction[] | null;
+  statesExplored: number;
+}
+
+// Generated maps (1.2) are re-rolled this many times at most; the last roll is played unverified
+const MAX_REGENERATIONS = 10;
+
+// Kept small: it runs when the level starts. Rolls that need a longer search are simply re-rolled.
+const GENERATOR_SOLVE_OPTIONS: Partial<SolveOptions> = { maxStates: 1000 };
+// States expanded over all the rolls of one level start (a few ms each); once spent, the next roll is played unverified
+export const GENERATOR_STATE_BUDGET = 2000;
+
+interface SearchNode {
+  state: SessionState;
+  action: GameAction | null;
+  parent: SearchNode | null;
+  depth: number;
+  isPruned: boolean;
+}
+
+const isSettled = (state: SessionState): boolean =>
+  state.gameStatus !== 'PLAYING' ||
+  (state.player.state === EntityState.IDLE && state.player.movementQueue.length === 0 && !state.isPlayerGrowing);
+
+// Engines mutate entities (e.g. movementQueue.shift()), so every branch gets its own copies.
+// The logs are output only: searched states drop them to stay small.
+const fork = (state: SessionState): GameEngine =>
+  new GameEngine({
+    ...state,
+    player: structuredClone(state.player),
+    bots: state.bots.map(b => structuredClone(b)),
+    messageLog: [],
+    botActivityLog: []
+  });
+
+/**
+ * Plays one action for the player the way the UI does and ticks until it has played out.
+ * Returns the resulting state, null if the action was rejected, or 'TIMEOUT'.
+ */
+export const playSolverAction = (engine: GameEngine, action: GameAction, maxTicks: number = DEFAULT_SOLVE_OPTIONS.maxTicksPerAction): SessionState | null | 'TIMEOUT' => {
+  const state = engine.state!;
+  // Copied: the engine consumes a MOVE's path in place, and the caller may keep the action as a witness
+  if (!engine.applyAction(state.player.id, { ...structuredClone(action), stateVersion: state.stateVersion }).ok) return null;
+  // The player's growth follows the HUD intent, not the queued command
+  if (action.type === 'UPGRADE') engine.setPlayerIntent(true, action.intent || 'UPGRADE');
+
+  for (let i = 0; i < maxTicks; i++) {
+    if (isSettled(engine.state!)) return engine.state;
+    engine.processTick();
+  }
+  return isSettled(engine.state!) ? engine.state : 'TIMEOUT';
+};
+
+const candidateActions = (state: SessionState): GameAction[] => {
+  const { player, grid } = state;
+  const coord = { q: player.q, r: player.r };
+  const actions: GameAction[] = getNeighbors(player.q, player.r)
+    .filter(n => grid[getHexKey(n.q, n.r)])
+    .map(n => ({ type: 'MOVE', path: [{ q: n.q, r: n.r }] }));
+  actions.push({ type: 'UPGRADE', coord, intent: 'UPGRADE' });
+  if (!player.recoveredCurrentHex) actions.push({ type: 'UPGRADE', coord, intent: 'RECOVER' });
+  actions.push({ type: 'RECHARGE_MOVE' });
+  return actions;
+};
+
+// Everything that tells states apart except the player's moves, credits and spent recovery (see isDominated)
+const boardKey = (state: SessionState): string => {
+  const { player, bots, grid } = state;
+  let key = `${player.q},${player.r},${player.playerLevel},${player.recentUpgrades.join(';')}`;
+  for (const bot of bots) key += `|${bot.q},${bot.r},${bot.playerLevel}`;
+  for (const id in grid) {
+    const hex = grid[id];
+    key += `|${id}:${hex.currentLevel}.${hex.maxLevel}.${hex.ownerId || ''}.${hex.structureType || ''}.${hex.durability ?? ''}`;
+  }
+  return key;
+};
+
+const unwind = (node: SearchNode): GameAction[] => {
+  const actions: GameAction[] = [];
+  for (let n: SearchNode | null = node; n && n.action; n = n.parent) actions.unshift(n.action);
+  return actions;
+};
+
+// Sectors to raise: hex id -> the level each must reach (see raiseCost)
+type Raises = Map<string, number>;
+
+/**
+ * Lower bound on the actions that raise every sector of `raises` to its level. An action raises the sector under
+ * the player by one level at most, and a level past L1 spends an upgrade point, earned by capturing an L0 sector.
+ * The player holds queueSize points at most, so each visit to a sector takes it that many levels past L1 at most.
+ * Visits are a MOVE each, but for the one the player may be on already; every capture is a visit of its own.
+ */
+const raiseCost = (state: SessionState, raises: Raises): number => {
+  const { player, grid } = state;
+  // As in GrowthSystem
+  const queueSize = state.winCondition?.queueSize || 3;
+  let levels = 0;
+  let points = 0;
+  let visits = 0;
+  for (const [id, level] of raises) {
+    const maxLevel = grid[id]?.maxLevel ?? 0;
+    if (maxLevel >= level) continue;
+    const upgrades = level - Math.max(maxLevel, 1);
+    levels += level - maxLevel;
+    // A captured L0 pays its own point
+    points += upgrades - (maxLevel === 0 ? 1 : 0);
+    visits += Math.max(1, Math.ceil(upgrades / queueSize));
+  }
+  const captures = Math.max(0, points - player.recentUpgrades.length);
+  return levels + captures + Math.max(0, visits + captures - 1);
+};
+
+/**
+ * Adds what raising `id` to `level` (L2+) takes beforehand: 2 neighbors at level - 1, the cheapest ones
+ * (a valley needs 5 neighbors above it, so at least as much). Sectors yet to spawn count as L0.
+ */
+const withSupports = (state: SessionState, raises: Raises, id: string, level: number): Raises => {
+  const hex = state.grid[id];
+  if (!hex || level < 2 || hex.maxLevel >= level) return raises;
+  const reached = (n: string) => Math.max(state.grid[n]?.maxLevel ?? 0, raises.get(n) ?? 0);
+  const supports = getNeighbors(hex.q, hex.r)
+    .map(n => getHexKey(n.q, n.r))
+    .sort((a, b) => reached(b) - reached(a))
+    .slice(0, 2);
+  const result = new Map(raises);
+  for (const n of supports) result.set(n, Math.max(reached(n), level - 1));
+  return result;
+};
+
+// Cheapest of raising any one of `candidates` to its level, supports included
+const raiseAnyCost = (state: SessionState, candidates: Raises): number => {
+  let best = Infinity;
+  for (const [id, level] of candidates) best = Math.min(best, raiseCost(state, withSupports(state, new Map([[id, level]]), id, level)));
+  return best === Infinity ? 0 : best;
+};
+
+// As in GrowthSystem
+const recoveryReward = (level: number): number => level * 5 + 5;
+
+/**
+ * Lower bound on the actions that earn `credits` more, or horizon + 1 if no plan of `horizon` actions can.
+ * A plan is m MOVEs, r recoveries, c captures (L0 -> L1) and u level-ups past L1, and earns at most:
+ * - per recovery, the best one within reach: the v-th sector visited is v MOVEs away at most;
+ * - per capture, the L1 income, once the player can reach an L0 (or the edge, where new L0s spawn);
+ * - per level-up (each spends a point, held or captured), the income of the highest level any sector can be
+ *   upgraded to. Supports are the level below, so every level-up lifts that by one at most.
+ * Damaged sectors regrow their lost levels for free; the player's mines pay with time, so they leave no bound.
+ */
+const earnCost = (state: SessionState, credits: number, horizon: number): number => {
+  const { player, grid } = state;
+  let richness = 1;
+  let regrowth = 0;
+  let upgradable = 2; // A capture next to two L1s makes an L2 possible
+  let toCapture = Infinity;
+  const rewardAt: number[] = [];
+  for (const id in grid) {
+    const hex = grid[id];
+    if (hex.structureType === 'MINE' && hex.ownerId === player.id) return 0;
+    const rich = hex.richness || 1;
+    richness = Math.max(richness, rich);
+    for (let level = hex.currentLevel + 1; level <= hex.maxLevel; level++) regrowth += getLevelConfig(level).income * rich;
+    const distance = cubeDistance(player, hex);
+    rewardAt[distance] = Math.max(rewardAt[distance] ?? 0, recoveryReward(hex.maxLevel) * rich);
+    if (hex.maxLevel === 0) toCapture = Math.min(toCapture, distance);
+    let same = 0;
+    let higher = 0;
+    for (const n of getNeighbors(hex.q, hex.r)) {
+      const neighbor = grid[getHexKey(n.q, n.r)];
+      if (!neighbor) toCapture = Math.min(toCapture, cubeDistance(player, n));
+      else if (neighbor.maxLevel === hex.maxLevel) same++;
+      else if (neighbor.maxLevel > hex.maxLevel) higher++;
+    }
+    if (hex.maxLevel >= 1 && (same >= 2 || higher >= 5)) upgradable = Math.max(upgradable, hex.maxLevel + 1);
+  }
+
+  // Best recovery of the v-th visit, nondecreasing in v (the current sector only pays if not recovered yet)
+  const reward = [player.recoveredCurrentHex ? 0 : rewardAt[0] ?? 0];
+  for (let v = 1, best = rewardAt[0] ?? 0; v <= horizon; v++) {
+    best = Math.max(best, rewardAt[v] ?? 0);
+    reward.push(best);
+  }
+  const levelUps = [0];
+  for (let j = 1; j <= horizon; j++) levelUps.push(levelUps[j - 1] + getLevelConfig(upgradable + j - 1).income * richness);
+  const captureIncome = getLevelConfig(1).income * richness;
+  const points = player.recentUpgrades.length;
+
+  for (let k = 0; k <= horizon; k++) {
+    for (let m = 0; m <= k; m++) {
+      const captureVisits = Math.max(0, m - toCapture + 1);
+      for (let c = 0; c <= Math.min(k - m, captureVisits); c++) {
+        for (let u = 0; u <= Math.min(k - m - c, points + c); u++) {
+          const r = Math.min(k - m - c - u, m + (player.recoveredCurrentHex ? 0 : 1));
+          // A sector the plan raised pays its recovery at its new level
+          const raised = recoveryReward(u > 0 ? upgradable + u - 1 : Math.min(c, 1)) * richness;
+          let earned = regrowth + c * captureIncome + levelUps[u];
+          for (let v = m; v > m - r; v--) earned += Math.max(reward[v], raised);
+          if (earned >= credits) return k;
+        }
+      }
+    }
+  }
+  return horizon + 1;
+};
+
+/**
+ * Lower bound on the actions left to satisfy `cond`, `horizon` at most. Each action moves the player one sector
+ * at most and raises one sector at most (see raiseCost and earnCost); conditions without a cheap bound count as 0.
+ */
+const estimate = (cond: ScenarioCondition, state: SessionState, horizon: number): number => {
+  const { player, grid } = state;
+  switch (cond.type) {
+    case 'OWN_HEXES': {
+      if (cond.anyOwner) return 0; // Rivals build too
+      const minLevel = cond.minLevel ?? 0;
+      // Short of the count: the player's own sectors below minLevel, or L0s to capture (other owners' are out of reach)
+      let missing = cond.count;
+      const candidates: Raises = new Map();
+      for (const id in grid) {
+        const hex = grid[id];
+        if (hex.ownerId === player.id) {
+          if (hex.maxLevel >= minLevel) missing--;
+          else candidates.set(id, minLevel);
+        } else if (hex.maxLevel === 0) {
+          candidates.set(id, Math.max(minLevel, 1));
+        }
+      }
+      if (missing <= 0) return 0;
+      if (missing === 1) return raiseAnyCost(state, candidates);
+      const cheapest = [...candidates.entries()].sort(([a, la], [b, lb]) => (la - grid[a].maxLevel) - (lb - grid[b].maxLevel));
+      return raiseCost(state, new Map(cheapest.slice(0, missing)));
+    }
+    case 'HEXES_AT_LEVEL': {
+      const raises: Raises = new Map(cond.hexes.map(c => [getHexKey(c.q, c.r), cond.level]));
+      let best = raiseCost(state, raises);
+      for (const id of raises.keys()) best = Math.max(best, raiseCost(state, withSupports(state, raises, id, cond.level)));
+      return best;
+    }
+    case 'STAT': {
+      // Only minimums have a bound: the stat must still grow
+      if (cond.op === '<' || cond.op === '<=') return 0;
+      const target = cond.op === '>' ? Math.floor(cond.value) + 1 : Math.ceil(cond.value);
+      if (cond.stat === 'coins') return player.coins >= target ? 0 : earnCost(state, target - player.coins, horizon);
+      if (cond.stat === 'rank') {
+        if (player.playerLevel >= target) return 0;
+        // The rank is the highest level the player raised a sector to
+        const candidates: Raises = new Map();
+        for (const id in grid) candidates.set(id, target);
+        return raiseAnyCost(state, candidates);
+      }
+      return 0;
+    }
+    case 'REACH_HEX':
+      return cubeDistance(player, cond);
+    case 'STAND_ON': {
+      let best = Infinity;
+      for (const id in grid) {
+        if (grid[id].structureType === cond.structure) best = Math.min(best, cubeDistance(player, grid[id]));
+      }
+      return best === Infinity ? 0 : best;
+    }
+    case 'ALL':
+      return Math.max(0, ...cond.conditions.map(c => estimate(c, state, horizon)));
+    case 'ANY':
+      return Math.min(...cond.conditions.map(c => estimate(c, state, horizon)));
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Searches for the shortest win from a session (usually a fresh level session).
+ * A* over actions; levels loaded from a LevelDefinition steer it with their objectives,
+ * anything else falls back to breadth-first order.
+ */
+export const solveSession = (initial: SessionState, options: Partial<SolveOptions> = {}): SolveResult => {
+  const { maxActions, maxStates, maxTicksPerAction } = { ...DEFAULT_SOLVE_OPTIONS, ...options };
+  const level = initial.activeLevelConfig;
+  const hooks = level?.hooks;
+  const objectives = level?.definition?.objectives || [];
+  // As in VictorySystem: the win is checked first (the hooks also catch states no tick has judged yet)
+  const isWon = (s: SessionState) => s.gameStatus === 'VICTORY' || (s.gameStatus === 'PLAYING' && !!hooks?.checkWinCondition?.(s));
+  const isLost = (s: SessionState) => s.gameStatus === 'DEFEAT' || (s.gameStatus === 'PLAYING' && !!hooks?.checkLossCondition?.(s));
+  const heuristic = (s: SessionState, horizon: number) => Math.max(0, ...objectives.map(c => estimate(c, s, horizon)));
+
+  // Equal estimates: the deeper node first, so ties dive toward a solution
+  const open = new PriorityQueue<SearchNode>();
+  const enqueue = (node: SearchNode) => open.push(node, node.depth + heuristic(node.state, maxActions - node.depth) - node.depth / (maxActions + 1));
+
+  // Same board, no later, with at least the moves and credits and no fewer recoveries left: the new state cannot do better
+  const seen = new Map<string, SearchNode[]>();
+  const isDominated = (a: SearchNode, b: SearchNode) =>
+    a.depth >= b.depth && a.state.player.moves <= b.state.player.moves && a.state.player.coins <= b.state.player.coins &&
+    (a.state.player.recoveredCurrentHex || !b.state.player.recoveredCurrentHex);
+  const visit = (node: SearchNode): boolean => {
+    const key = boardKey(node.state);
+    const known = seen.get(key) || [];
+    if (known.some(k => isDominated(node, k))) return false;
+    const kept = known.filter(k => {
+      if (!isDominated(k, node)) return true;
+      k.isPruned = true;
+      return false;
+    });
+    seen.set(key, [...kept, node]);
+    enqueue(node);
+    return true;
+  };
+
+  visit({ state: initial, action: null, parent: null, depth: 0, isPruned: false });
+  let explored = 0;
+  let isComplete = true; // false once part of the space was cut off by a bound
+
+  while (open.length > 0) {
+    const node = open.pop()!;
+    if (node.isPruned) continue;
+    if (isWon(node.state)) return { status: 'SOLVABLE', actions: node.depth, solution: unwind(node), statesExplored: explored };
+    if (node.depth >= maxActions) {
+      isComplete = false;
+      continue;
+    }
+    if (explored >= maxStates) return { status: 'UNKNOWN', actions: null, solution: null, statesExplored: explored };
+    explored++;
+
+    for (const action of candidateActions(node.state)) {
+      const result = playSolverAction(fork(node.state), action, maxTicksPerAction);
+      if (result === null) continue;
+      if (result === 'TIMEOUT') {
+        isComplete = false;
+        continue;
+      }
+      // A move that went nowhere (e.g. into the void) only burns resources
+      if (action.type === 'MOVE' && result.player.q === node.state.player.q && result.player.r === node.state.player.r) continue;
+      if (!isWon(result) && isLost(result)) continue;
+      visit({ state: result, action, parent: node, depth: node.depth + 1, isPruned: false });
+    }
+  }
+
+  return { status: isComplete ? 'UNSOLVABLE' : 'UNKNOWN', actions: null, solution: null, statesExplored: explored };
+};
+
+/** The session a level starts from in the game: same growth rules, same seeded map. */
+export const createLevelSession = (level: LevelConfig, language: Language = 'EN', seed: number = SeededRandom.randomSeed()): SessionState =>
+  createInitialSessionData(createLevelWinCondition(level), level, language, seed);
+
+export const solveLevel = (level: LevelConfig, options: Partial<SolveOptions> = {}, seed: number = 1): SolveResult =>
+  solveSession(createLevelSession(level, 'EN', seed), options);
+
+/**
+ * The seed a level starts from: for generated maps (mapConfig.generator), the first of consecutive seeds
+ * whose map the solver proves winnable, within MAX_REGENERATIONS rolls and `stateBudget` expanded states in all.
+ */
+export const findSolvableSeed = (level: LevelConfig, seed: number = SeededRandom.randomSeed(), options: Partial<SolveOptions> = GENERATOR_SOLVE_OPTIONS, stateBudget: number = GENERATOR_STATE_BUDGET): number => {
+  if (!level.mapConfig.generator) return seed;
+  const maxStates = options.maxStates ?? DEFAULT_SOLVE_OPTIONS.maxStates;
+
+  let attempt = 0;
+  for (let budget = stateBudget; attempt < MAX_REGENERATIONS - 1 && budget > 0; attempt++) {
+    const result = solveSession(createLevelSession(level, 'EN', (seed + attempt) >>> 0), { ...options, maxStates: Math.min(maxStates, budget) });
+    if (result.status === 'SOLVABLE') break;
+    budget -= Math.max(1, result.statesExplored);
+  }
+  return (seed + attempt) >>> 0;
+};
+
+/** Starts a level from its solvable seed (see findSolvableSeed). Blocks while it solves: off the UI, see worker/LevelSolver. */
+export const createSolvableLevelSession = (level: LevelConfig, language: Language, seed: number = SeededRandom.randomSeed(), options: Partial<SolveOptions> = GENERATOR_SOLVE_OPTIONS): SessionState =>
+  createLevelSession(level, language, findSolvableSeed(level, seed, options));
@@ -30,9 +30,16 @@ export interface LevelConfig {
     wallStartRadius?: number; 
     wallStartLevel?: number;  
     wallType?: 'classic' | 'void_shatter'; 
+    // Scripted layouts built by mapGenerator (e.g. 'pyramid_run' = the random corridor of level 1.2)
+    generator?: 'pyramid_run';
     
     // NEW: Allow explicit hex definitions for puzzle levels
     customLayout?: Partial<Hex>[];
+
+    // Start positions (default: player at the origin, bots on the radius-2 ring).
+    // aiMode 'none' spawns no bots; otherwise one bot per bot spawn.
+    playerSpawn?: { q: number; r: number };
+    botSpawns?: { q: number; r: number }[];
   };
 
   startState: {
@@ -44,4 +51,56 @@ export interface LevelConfig {
   aiMode: 'none' | 'dummy' | 'basic';
 
   hooks: ScenarioHooks;
+
+  // Source of data-driven levels (see campaign/scenario). Plain JSON, so it survives saves.
+  definition?: LevelDefinition;
+}
+
+// --- DATA-DRIVEN LEVELS ---
+// A LevelDefinition is plain JSON. campaign/scenario validates it and compiles its
+// objectives, loss conditions and restrictions into ScenarioHooks.
+
+export type StatName = 'coins' | 'moves' | 'rank';
+export type Comparison = '<' | '<=' | '>=' | '>';
+
+export type ScenarioCondition =
+  // The player owns at least `count` sectors of level `minLevel`+ (anyOwner: count every sector, owned or not)
+  | { type: 'OWN_HEXES'; count: number; minLevel?: number; anyOwner?: boolean }
+  // The player stands on (q, r)
+  | { type: 'REACH_HEX'; q: number; r: number }
+  // The player stands on a sector with this structure (e.g. the CAPITAL apex, or a VOID)
+  | { type: 'STAND_ON'; structure: 'BARRIER' | 'MINE' | 'CAPITAL' | 'VOID' }
+  // Every listed sector exists at level `level`+
+  | { type: 'HEXES_AT_LEVEL'; hexes: { q: number; r: number }[]; level: number }
+  // Any listed sector has collapsed into the void
+  | { type: 'HEX_COLLAPSED'; hexes: { q: number; r: number }[] }
+  // Compares a player stat, e.g. { stat: 'coins', op: '>=', value: 100 }
+  | { type: 'STAT'; stat: StatName; op: Comparison; value: number }
+  // More than `seconds` of simulation time have passed since the session started
+  | { type: 'TIME_LIMIT'; seconds: number }
+  | { type: 'ALL'; conditions: ScenarioCondition[] }
+  | { type: 'ANY'; conditions: ScenarioCondition[] }
+  | { type: 'NOT'; condition: ScenarioCondition };
+
+// Blocked actions are rejected with `message`, or the HUD text `messageKey` in the session language
+export type ActionRestriction = { message?: string; messageKey?: string } & (
+  // No action of this type at all
+  | { type: 'FORBID_ACTION'; action: GameAction['type'] }
+  // No UPGRADE to a level above `level`
+  | { type: 'FORBID_UPGRADE_ABOVE'; level: number }
+  // Raising a sector to `level` needs `supports` neighbors at level - 1 or higher
+  | { type: 'REQUIRE_SUPPORTS'; level: number; supports: number }
+);
+
+export interface LevelDefinition {
+  id: string;
+  title: string;
+  description: string;
+  mapConfig: LevelConfig['mapConfig'];
+  startState: LevelConfig['startState'];
+  aiMode: LevelConfig['aiMode'];
+
+  objectives: ScenarioCondition[];      // Victory once all of them hold
+  lossConditions?: ScenarioCondition[]; // Defeat as soon as any of them holds
+  restrictions?: ActionRestriction[];
 }
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Group, Line, Circle, Text } from 'react-konva';
+import { useGameStore } from '../store.ts';
+import { getBotDebugInfo } from '../bot/debug.ts';
+import { getAiEntities } from '../rules/entities.ts';
+import { getHexKey, hexToPixel } from '../services/hexUtils.ts';
+import { Hex } from '../types.ts';
+
+// Screen position of a hex top (as the units stand on it)
+const topOf = (grid: Record<string, Hex>, q: number, r: number, rotation: number) => {
+    const { x, y } = hexToPixel(q, r, rotation);
+    const hex = grid[getHexKey(q, r)];
+    return { x, y: y - (hex ? 10 + hex.maxLevel * 6 : 10) };
+};
+
+// DEBUG: what each bot is after, drawn over the map (never fogged). See bot/debug.ts
+const BotDebugOverlay: React.FC<{ rotation: number }> = ({ rotation }) => {
+    const session = useGameStore(state => state.session);
+    const infos = useMemo(() => session ? getBotDebugInfo(session) : [], [session]);
+    if (!session) return null;
+
+    const { grid } = session;
+    const entities = getAiEntities(session);
+
+    return (
+        <Group listening={false}>
+            {infos.map(info => {
+                const entity = entities.find(e => e.id === info.id)!;
+                const color = entity.avatarColor || '#ef4444';
+                const at = topOf(grid, entity.q, entity.r, rotation);
+                const path = [at, ...info.path.map(step => topOf(grid, step.q, step.r, rotation))];
+                const goal = info.masterGoal && topOf(grid, info.masterGoal.q, info.masterGoal.r, rotation);
+                const target = info.target && topOf(grid, info.target.q, info.target.r, rotation);
+                const reserved = info.reserved && topOf(grid, info.reserved.q, info.reserved.r, rotation);
+                const flags = [
+                    info.stuckCounter > 0 && `STUCK ${info.stuckCounter}`,
+                    info.isPanicking && 'PANIC',
+                    info.isOscillating && 'OSC'
+                ].filter(Boolean).join(' · ');
+
+                return (
+                    <Group key={info.id}>
+                        {/* Planned path */}
+                        {path.length > 1 && (
+                            <Line points={path.flatMap(p => [p.x, p.y])} stroke={color} strokeWidth={4} dash={[10, 6]} opacity={0.9} lineCap="round" lineJoin="round" perfectDrawEnabled={false} />
+                        )}
+
+                        {/* Reserved hex: where the path ends */}
+                        {reserved && (
+                            <Circle x={reserved.x} y={reserved.y} radius={9} stroke={color} strokeWidth={2} fill="rgba(15, 23, 42, 0.6)" />
+                        )}
+
+                        {/* Master goal */}
+                        {goal && (
+                            <>
+                                <Line points={[at.x, at.y, goal.x, goal.y]} stroke={color} strokeWidth={1} dash={[2, 4]} opacity={0.5} perfectDrawEnabled={false} />
+                                <Circle x={goal.x} y={goal.y} radius={18} stroke={color} strokeWidth={3} />
+                                <Text x={goal.x - 30} y={goal.y + 20} width={60} align="center" text="GOAL" fontSize={10} fontStyle="bold" fill={color} />
+                            </>
+                        )}
+
+                        {/* Current target (e.g. the bottleneck in front of the goal) */}
+                        {target && (
+                            <>
+                                <Line points={[target.x - 7, target.y - 7, target.x + 7, target.y + 7]} stroke="#f8fafc" strokeWidth={2} />
+                                <Line points={[target.x - 7, target.y + 7, target.x + 7, target.y - 7]} stroke="#f8fafc" strokeWidth={2} />
+                                <Text x={target.x - 50} y={target.y - 22} width={100} align="center" text={info.target!.goal} fontSize={9} fontStyle="bold" fill="#f8fafc" />
+                            </>
+                        )}
+
+                        {/* Stuck / panic / oscillation */}
+                        {flags && (
+                            <Text x={at.x - 60} y={at.y - 70} width={120} align="center" text={flags} fontSize={11} fontStyle="bold" fill={info.isPanicking || info.isOscillating ? '#f87171' : '#fbbf24'} />
+                        )}
+                    </Group>
+                );
+            })}
+        </Group>
+    );
+};
+
+export default BotDebugOverlay;
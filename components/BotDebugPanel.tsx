@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { useGameStore } from '../store.ts';
+import { getBotDebugInfo } from '../bot/debug.ts';
+import { getAiEntities, getEntityName } from '../rules/entities.ts';
+import { TEXT } from '../services/i18n.ts';
+import { Bug } from 'lucide-react';
+
+// DEBUG: every bot's state at a glance; picking one lists its recent decisions (what the map overlay can't show)
+const BotDebugPanel: React.FC = () => {
+  const session = useGameStore(state => state.session);
+  const language = useGameStore(state => state.language);
+  const playUiSound = useGameStore(state => state.playUiSound);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const infos = useMemo(() => session ? getBotDebugInfo(session) : [], [session]);
+  if (!session || infos.length === 0) return null;
+
+  const t = TEXT[language].HUD;
+  const entities = getAiEntities(session);
+  const selected = infos.find(info => info.id === selectedId);
+
+  return (
+    <div className="absolute right-2 md:right-4 bottom-40 md:bottom-48 w-64 md:w-80 pointer-events-auto z-30 bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-xl overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700/50 bg-slate-950/30">
+        <Bug className="w-3.5 h-3.5 text-fuchsia-400" />
+        <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">{t.BOT_DEBUG}</span>
+      </div>
+
+      <div className="flex flex-col gap-1 p-2">
+        {infos.map(info => {
+          const entity = entities.find(e => e.id === info.id)!;
+          const isSelected = info.id === selectedId;
+          return (
+            <button
+              key={info.id}
+              onClick={() => { setSelectedId(isSelected ? null : info.id); playUiSound('CLICK'); }}
+              className={`flex flex-col gap-0.5 px-2 py-1.5 rounded-lg border text-left transition-colors ${isSelected ? 'bg-slate-800 border-slate-500' : 'bg-slate-950/30 border-transparent hover:border-slate-600'}`}
+            >
+              <div className="flex items-center gap-1.5 text-[10px]">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: entity.avatarColor || '#ef4444' }} />
+                <span className="font-bold text-white truncate max-w-[90px]">{getEntityName(entity)}</span>
+                <span className="font-mono text-slate-400 uppercase truncate">{info.target ? `${info.target.goal.replace(/_/g, ' ')} ${info.target.q},${info.target.r}` : '—'}</span>
+                <span className="ml-auto flex gap-1 font-mono font-bold text-[9px]">
+                  {info.stuckCounter > 0 && <span className="text-amber-400">{t.DEBUG_STUCK} {info.stuckCounter}</span>}
+                  {info.isPanicking && <span className="text-red-400">{t.DEBUG_PANIC}</span>}
+                  {info.isOscillating && <span className="text-fuchsia-400">{t.DEBUG_OSCILLATING}</span>}
+                </span>
+              </div>
+              {info.failReason && <span className="text-[9px] text-red-300/80 truncate" title={info.failReason}>{info.failReason}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="flex flex-col gap-1 px-3 py-2 border-t border-slate-700/50 max-h-[30vh] overflow-y-auto no-scrollbar">
+          <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider">{t.DEBUG_TIMELINE}</span>
+          {selected.decisions.length === 0 && <span className="text-[10px] text-slate-600">—</span>}
+          {selected.decisions.map((entry, i) => (
+            <div key={`${entry.timestamp}-${i}`} className="text-[10px] leading-tight">
+              <span className="font-mono text-slate-500">{(entry.timestamp / 1000).toFixed(1)}s</span>
+              <span className="font-mono text-emerald-400 ml-1">{entry.action}{entry.target ? ` → ${entry.target}` : ''}</span>
+              {entry.reason && <div className="text-slate-400 truncate" title={entry.reason}>{entry.reason}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BotDebugPanel;
@@ -3,16 +3,24 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useGameStore } from '../store.ts';
 import { getHexKey, getNeighbors, getSecondsToGrow } from '../services/hexUtils.ts';
 import { checkGrowthCondition } from '../rules/growth.ts';
+import { checkStructureBuild } from '../rules/structures.ts';
+import { checkTrapArm, getArmedPotency } from '../rules/traps.ts';
+import { GAME_CONFIG } from '../rules/config.ts';
+import { getActionsLeft, isTurnResolving } from '../rules/turns.ts';
+import { getEntityName } from '../rules/entities.ts';
 import { EntityState, Hex } from '../types.ts';
 import HexButton from './HexButton.tsx';
+import ObserverPanel from './ObserverPanel.tsx';
+import BotDebugPanel from './BotDebugPanel.tsx';
 import { TEXT } from '../services/i18n.ts';
 import { CAMPAIGN_LEVELS } from '../campaign/levels.ts';
 import { Stage, Layer, Group as KonvaGroup } from 'react-konva';
 import { HexagonVisual } from './Hexagon.tsx';
+import { downloadJson } from '../services/fileIO.ts';
 import { 
   Pause, Trophy, Footprints, LogOut,
   Crown, TrendingUp, ChevronUp, MapPin,
-  RotateCcw, RotateCw, ChevronsUp, Volume2, VolumeX, XCircle, RefreshCw, ArrowRight, Target, Skull, Wallet, Music, Shield, Info, ChevronDown, AlertTriangle, Hexagon as HexIcon, Layers, Zap, Settings, Globe, X, Menu, Swords, Timer, Coins
+  RotateCcw, RotateCw, ChevronsUp, Volume2, VolumeX, XCircle, RefreshCw, ArrowRight, Target, Skull, Wallet, Music, Shield, Info, ChevronDown, AlertTriangle, Hexagon as HexIcon, Layers, Zap, Settings, Globe, X, Menu, Swords, Timer, Coins, Film, Save, Pickaxe, BrickWall, Landmark, Bomb, Hourglass, Eye, Bug
 } from 'lucide-react';
 
 // FIREWORKS COMPONENT
@@ -107,16 +115,24 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   const grid = useGameStore(state => state.session?.grid);
   const player = useGameStore(state => state.session?.player);
   const bots = useGameStore(state => state.session?.bots);
+  const hotSeats = useGameStore(state => state.session?.hotSeats);
+  const winnerId = useGameStore(state => state.session?.winnerId);
   const winCondition = useGameStore(state => state.session?.winCondition);
   const activeLevelConfig = useGameStore(state => state.session?.activeLevelConfig);
   const gameStatus = useGameStore(state => state.session?.gameStatus);
   const isPlayerGrowing = useGameStore(state => state.session?.isPlayerGrowing);
   const playerGrowthIntent = useGameStore(state => state.session?.playerGrowthIntent);
   const sessionStartTime = useGameStore(state => state.session?.sessionStartTime);
+  const simTime = useGameStore(state => state.session?.simTime ?? 0);
+  const turn = useGameStore(state => state.session?.turn);
+  const currentTurn = useGameStore(state => state.session?.currentTurn ?? 0);
   const language = useGameStore(state => state.language);
   const user = useGameStore(state => state.user);
   
   const telemetry = useGameStore(state => state.session?.telemetry);
+  const isReplay = useGameStore(state => state.replay !== null);
+  const network = useGameStore(state => state.network);
+  const observer = useGameStore(state => state.observer);
 
   const isMusicMuted = useGameStore(state => state.isMusicMuted);
   const isSfxMuted = useGameStore(state => state.isSfxMuted);
@@ -125,13 +141,24 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   const setLanguage = useGameStore(state => state.setLanguage);
   const abandonSession = useGameStore(state => state.abandonSession);
   const togglePlayerGrowth = useGameStore(state => state.togglePlayerGrowth);
+  const buildStructure = useGameStore(state => state.buildStructure);
+  const armTrap = useGameStore(state => state.armTrap);
+  const isAttackMode = useGameStore(state => state.isAttackMode);
+  const toggleAttackMode = useGameStore(state => state.toggleAttackMode);
   const toggleMusic = useGameStore(state => state.toggleMusic);
   const toggleSfx = useGameStore(state => state.toggleSfx);
   const playUiSound = useGameStore(state => state.playUiSound);
   const startCampaignLevel = useGameStore(state => state.startCampaignLevel);
   const startMission = useGameStore(state => state.startMission);
+  const endTurn = useGameStore(state => state.endTurn);
+  const exportReplay = useGameStore(state => state.exportReplay);
+  const saveGame = useGameStore(state => state.saveGame);
+  const showBotDebug = useGameStore(state => state.showBotDebug);
+  const toggleBotDebug = useGameStore(state => state.toggleBotDebug);
 
   const [showExitConfirmation, setShowExitConfirmation] = useState(false);
+  // Hot-seat: the seat (turn:seat) whose human confirmed they have the screen
+  const [readySeat, setReadySeat] = useState<string | null>(null);
   const [isRankingsOpen, setIsRankingsOpen] = useState(false);
   const [helpTopic, setHelpTopic] = useState<'RANK' | 'CYCLE' | 'COINS' | 'MOVES' | null>(null);
   
@@ -195,7 +222,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
       if (!isLevel1_5 || gameStatus !== 'PLAYING') return;
       
       const interval = setInterval(() => {
-          const elapsed = Date.now() - sessionStartTime;
+          const elapsed = (useGameStore.getState().session?.simTime ?? 0) - sessionStartTime;
           const remaining = Math.max(0, 60 - Math.floor(elapsed / 1000));
           setTimeLeft(remaining);
       }, 200);
@@ -268,6 +295,18 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
 
   const canUpgrade = upgradeCondition.canGrow;
 
+  // Structure slots: offered on owned, empty sectors; lit once affordable
+  const mineCheck = (currentHex && player) ? checkStructureBuild('MINE', currentHex, player) : null;
+  const barrierCheck = (currentHex && player) ? checkStructureBuild('BARRIER', currentHex, player) : null;
+  const capitalCheck = (currentHex && player) ? checkStructureBuild('CAPITAL', currentHex, player) : null;
+  // Capitals are only pitched where they matter: capital mode, or once the player can afford one
+  const showCapitalSlot = !!player && !player.capitalId && (!!winCondition?.capitalMode || player.coins >= GAME_CONFIG.STRUCTURES.CAPITAL.cost);
+  const isOwnedSector = !!currentHex && !!player && currentHex.ownerId === player.id && currentHex.maxLevel >= 1 && currentHex.structureType !== 'VOID';
+  const isBuildSite = isOwnedSector && (!currentHex!.structureType || currentHex!.structureType === 'NONE');
+  // Trap slot: each press arms one more point of potency
+  const nextTrapPotency = currentHex ? getArmedPotency(currentHex) + 1 : 1;
+  const trapCheck = (currentHex && player && nextTrapPotency <= GAME_CONFIG.TRAPS.maxPotency) ? checkTrapArm(currentHex, player, nextTrapPotency) : null;
+
   // Determine if we are claiming a new sector (Level 0 -> 1)
   const isClaiming = canUpgrade && currentHex && currentHex.maxLevel === 0;
 
@@ -300,6 +339,16 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
     return { totalNeeded, remainingSeconds, percent, mode };
   }, [currentHex, isPlayerGrowing, canUpgrade, playerGrowthIntent]);
 
+  const handleDownloadReplay = () => {
+    const file = exportReplay();
+    if (file) downloadJson(`hexquest-replay-${file.sessionId}.json`, file);
+  };
+
+  const handleSaveGame = () => {
+    const name = window.prompt(t.SAVE_PROMPT, winCondition?.label || 'HexQuest');
+    if (name && name.trim()) saveGame(name.trim());
+  };
+
   const formatTime = (seconds: number) => {
     const totalSeconds = Math.ceil(seconds);
     if (totalSeconds < 60) return `${totalSeconds}s`;
@@ -309,6 +358,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
   };
 
   const winner = useMemo(() => {
+      if (winnerId) return [player, ...(hotSeats || []), ...safeBots].find(h => h?.id === winnerId) || null;
       if (gameStatus === 'VICTORY') return player;
       if (gameStatus === 'DEFEAT' && winCondition && safeBots) {
           const w = safeBots.find(b => {
@@ -320,9 +370,20 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
           return w || safeBots[0];
       }
       return null;
-  }, [gameStatus, player, safeBots, winCondition]);
+  }, [gameStatus, player, hotSeats, winnerId, safeBots, winCondition]);
+
+  // Orders are private in hot-seat: the screen stays covered until the incoming human is ready
+  const handoverSeat = hotSeats && turn && !isTurnResolving(turn) ? `${currentTurn}:${turn.seat}` : null;
+  const isHandingOver = handoverSeat !== null && handoverSeat !== readySeat && gameStatus === 'PLAYING' && !isReplay && !network;
 
-  if (!grid || !player || !bots) return null;
+  // Online every human has a screen: `player` is ours, the turn may be someone else's
+  const activeSeat = network && hotSeats?.find(h => h.id === network.activeSeatId) || player;
+  const isMyTurn = activeSeat === player;
+
+  // Observers read the stats of whoever they follow (the player slot on a free camera)
+  const focus = observer && [player, ...(hotSeats || []), ...safeBots].find(e => e?.id === observer.followId) || player;
+
+  if (!grid || !player || !bots || !focus) return null;
 
   return (
     <div className="absolute inset-0 pointer-events-none z-30 select-none">
@@ -333,6 +394,26 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                
                {/* STATS BAR */}
                <div className="pointer-events-auto flex items-center bg-slate-900/95 backdrop-blur-xl rounded-2xl border border-slate-700/50 shadow-xl px-2 py-2 md:px-6 md:py-3 gap-3 md:gap-8 transition-all duration-300 hover:border-slate-600/50 overflow-x-auto no-scrollbar mask-linear-fade min-w-0 flex-1 md:flex-none md:w-fit md:shrink-0">
+                   {/* Observed entity (observer mode) */}
+                   {observer && (
+                     <>
+                       <div className="flex items-center gap-2 md:gap-3 shrink-0">
+                           <div className="p-1.5 md:p-2 rounded-lg bg-slate-500/10">
+                               <Eye className="w-4 h-4 md:w-5 md:h-5 text-slate-300" />
+                           </div>
+                           <div className="flex flex-col justify-center">
+                               <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1">{t.OBSERVING}</span>
+                               <span className="flex items-center gap-1.5 text-sm md:text-base font-black text-white leading-none">
+                                 <span className="w-2 h-2 rounded-full" style={{ backgroundColor: focus.avatarColor || (focus.type === 'PLAYER' ? '#3b82f6' : '#ef4444') }} />
+                                 <span className="truncate max-w-[100px]">{getEntityName(focus)}</span>
+                               </span>
+                           </div>
+                       </div>
+
+                       <div className="w-px h-6 md:h-10 bg-slate-800 shrink-0"></div>
+                     </>
+                   )}
+
                    {/* Rank */}
                    <div onClick={() => { setHelpTopic('RANK'); playUiSound('CLICK'); }} className="relative flex items-center gap-2 md:gap-3 cursor-pointer group shrink-0">
                        <div className="p-1.5 md:p-2 rounded-lg bg-indigo-500/10 group-hover:bg-indigo-500/20 transition-colors">
@@ -341,7 +422,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                        <div className="flex flex-col justify-center">
                            <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1 group-hover:text-indigo-300 transition-colors">{t.RANK}</span>
                            <div className="flex items-baseline leading-none">
-                             <span className="text-sm md:text-xl font-black text-white">{player.playerLevel}</span>
+                             <span className="text-sm md:text-xl font-black text-white">{focus.playerLevel}</span>
                              <span className="text-[10px] md:text-xs text-slate-600 font-bold ml-px md:ml-1">/{winCondition?.targetLevel || '?'}</span>
                            </div>
                        </div>
@@ -358,7 +439,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                            <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1 group-hover:text-emerald-300 transition-colors">{t.CYCLE}</span>
                            <div className="flex gap-1 md:gap-1.5 h-3 md:h-5 items-center">
                                {Array.from({length: queueSize}).map((_, i) => (
-                                  <div key={i} className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full transition-all duration-500 ${player.recentUpgrades.length > i ? 'bg-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.8)] scale-110' : 'bg-slate-800'}`} />
+                                  <div key={i} className={`w-1.5 h-1.5 md:w-2 md:h-2 rounded-full transition-all duration-500 ${focus.recentUpgrades.length > i ? 'bg-emerald-400 shadow-[0_0_10px_rgba(52,211,153,0.8)] scale-110' : 'bg-slate-800'}`} />
                                ))}
                            </div>
                        </div>
@@ -374,7 +455,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                        <div className="flex flex-col justify-center">
                            <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1 group-hover:text-amber-300 transition-colors">{t.CREDITS}</span>
                            <div className="flex items-baseline leading-none">
-                             <span className="text-sm md:text-xl font-black text-white">{player.coins}</span>
+                             <span className="text-sm md:text-xl font-black text-white">{focus.coins}</span>
                              <span className="hidden md:inline text-xs text-slate-600 font-bold ml-1">/{winCondition?.targetCoins || '?'}</span>
                            </div>
                        </div>
@@ -389,9 +470,55 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                        </div>
                        <div className="flex flex-col justify-center">
                            <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1 group-hover:text-blue-300 transition-colors">{t.MOVES}</span>
-                           <span className="text-sm md:text-xl font-black text-white leading-none">{player.moves}</span>
+                           <span className="text-sm md:text-xl font-black text-white leading-none">{focus.moves}</span>
                        </div>
                    </div>
+
+                   {/* Turn (turn-based sessions) */}
+                   {turn && (
+                     <>
+                       <div className="w-px h-6 md:h-10 bg-slate-800 shrink-0"></div>
+                       <div className="flex items-center gap-2 md:gap-3 shrink-0">
+                           <div className="p-1.5 md:p-2 rounded-lg bg-sky-500/10">
+                               <Hourglass className={`w-4 h-4 md:w-5 md:h-5 text-sky-400 ${isTurnResolving(turn) ? 'animate-pulse' : ''}`} />
+                           </div>
+                           <div className="flex flex-col justify-center">
+                               <span className="hidden md:flex items-center gap-1 text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1">
+                                 {t.TURN} {currentTurn + 1}
+                                 {hotSeats && activeSeat && (<><span className="w-2 h-2 rounded-full ml-1" style={{ backgroundColor: activeSeat.avatarColor }} /><span className="text-white truncate max-w-[80px]">{getEntityName(activeSeat)}</span></>)}
+                               </span>
+                               <span title={t.ACTIONS_LEFT} className="text-sm md:text-xl font-black text-white leading-none">
+                                 {getActionsLeft(turn, player.id)}<span className="text-[10px] md:text-xs text-slate-600 font-bold ml-1">/{GAME_CONFIG.TURNS.actionsPerTurn}</span>
+                               </span>
+                           </div>
+                           <button
+                             onClick={endTurn}
+                             disabled={isReplay || !!observer || isTurnResolving(turn) || gameStatus !== 'PLAYING' || !isMyTurn}
+                             className="px-2 py-1.5 md:px-3 md:py-2 rounded-lg bg-sky-600 hover:bg-sky-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-[10px] md:text-xs font-bold uppercase tracking-wider transition-colors active:scale-95"
+                           >
+                             {isTurnResolving(turn) ? t.TURN_RESOLVING : !isMyTurn && activeSeat ? t.WAITING_FOR.replace('{0}', getEntityName(activeSeat)) : t.END_TURN}
+                           </button>
+                       </div>
+                     </>
+                   )}
+
+                   {/* Connection (online sessions) */}
+                   {network && (
+                     <>
+                       <div className="w-px h-6 md:h-10 bg-slate-800 shrink-0"></div>
+                       <div className="flex items-center gap-2 shrink-0" title={network.error}>
+                           <div className={`p-1.5 md:p-2 rounded-lg ${network.connection === 'ONLINE' ? 'bg-teal-500/10' : 'bg-red-500/10'}`}>
+                               <Globe className={`w-4 h-4 md:w-5 md:h-5 ${network.connection === 'ONLINE' ? 'text-teal-400' : 'text-red-400 animate-pulse'}`} />
+                           </div>
+                           <div className="flex flex-col justify-center">
+                               <span className="hidden md:block text-[10px] text-slate-400 font-bold uppercase tracking-wider leading-none mb-1">
+                                 {network.connection === 'ONLINE' ? t.NET_ONLINE : network.connection === 'OFFLINE' ? t.NET_OFFLINE : t.NET_RECONNECTING}
+                               </span>
+                               <span title={t.ROOM} className="text-sm md:text-base font-mono font-black text-white leading-none select-all">{network.roomId}</span>
+                           </div>
+                       </div>
+                     </>
+                   )}
                </div>
 
                {/* SYSTEM CONTROLS (UNIFIED MENU) */}
@@ -442,6 +569,37 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                                     <span className="text-xs font-bold uppercase">{isRankingsOpen ? 'Hide Ranks' : t.LEADERBOARD_TITLE}</span>
                                 </button>
 
+                                {/* Save Slot */}
+                                {!isReplay && gameStatus === 'PLAYING' && (
+                                    <button 
+                                        onClick={() => { setIsSystemMenuOpen(false); playUiSound('CLICK'); handleSaveGame(); }}
+                                        className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-800/50 hover:bg-slate-800 text-slate-300 hover:text-white transition-colors w-full text-left border border-transparent hover:border-slate-600"
+                                    >
+                                        <Save className="w-4 h-4 text-emerald-400" />
+                                        <span className="text-xs font-bold uppercase">{t.BTN_SAVE_GAME}</span>
+                                    </button>
+                                )}
+
+                                {/* Replay Export */}
+                                {!isReplay && (
+                                    <button 
+                                        onClick={() => { handleDownloadReplay(); setIsSystemMenuOpen(false); playUiSound('CLICK'); }}
+                                        className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-800/50 hover:bg-slate-800 text-slate-300 hover:text-white transition-colors w-full text-left border border-transparent hover:border-slate-600"
+                                    >
+                                        <Film className="w-4 h-4 text-indigo-400" />
+                                        <span className="text-xs font-bold uppercase">{t.BTN_DOWNLOAD_REPLAY}</span>
+                                    </button>
+                                )}
+
+                                {/* Bot Debug Overlay */}
+                                <button 
+                                    onClick={() => { toggleBotDebug(); playUiSound('CLICK'); }}
+                                    className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors w-full text-left border ${showBotDebug ? 'bg-fuchsia-900/20 border-fuchsia-500/50 text-fuchsia-300' : 'bg-slate-800/50 border-transparent hover:bg-slate-800 text-slate-300 hover:text-white'}`}
+                                >
+                                    <Bug className="w-4 h-4 text-fuchsia-400" />
+                                    <span className="text-xs font-bold uppercase">{t.BTN_BOT_DEBUG}</span>
+                                </button>
+
                                 {/* Abort Mission */}
                                 <div className="h-px bg-slate-700/50 my-1"></div>
                                 <button 
@@ -628,7 +786,7 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
       )}
 
       {/* SKIRMISH BRIEFING MODAL (NEW) */}
-      {!activeLevelConfig && gameStatus === 'BRIEFING' && (
+      {!activeLevelConfig && gameStatus === 'BRIEFING' && !isReplay && (
           <div className="absolute inset-0 z-[80] bg-black/90 backdrop-blur-md flex items-center justify-center pointer-events-auto p-6 animate-in fade-in duration-500">
               <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl shadow-2xl max-w-md w-full relative overflow-hidden flex flex-col gap-6">
                   {/* Header */}
@@ -671,9 +829,10 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
 
                   <button 
                       onClick={() => { startMission(); playUiSound('CLICK'); }}
-                      className="w-full py-4 bg-white hover:bg-slate-200 text-slate-900 font-black rounded-xl uppercase tracking-widest shadow-lg active:scale-95 transition-all mt-2"
+                      disabled={!!network && !network.isHost}
+                      className="w-full py-4 bg-white hover:bg-slate-200 disabled:bg-slate-700 disabled:text-slate-400 text-slate-900 font-black rounded-xl uppercase tracking-widest shadow-lg active:scale-95 transition-all mt-2"
                   >
-                      {t.BRIEFING_BTN_START}
+                      {network && !network.isHost ? t.WAITING_HOST : t.BRIEFING_BTN_START}
                   </button>
               </div>
           </div>
@@ -804,8 +963,8 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
             </HexButton>
         </div>
         
-        {/* HIDE ACTION BUTTONS IN LEVEL 1.2 (Movement Only) */}
-        {!isLevel1_2 && (
+        {/* HIDE ACTION BUTTONS IN LEVEL 1.2 (Movement Only) AND FOR OBSERVERS */}
+        {!isLevel1_2 && !observer && (
             <div className="pointer-events-auto flex items-end gap-2 md:gap-3 relative">
             {/* Level 1.1 Hints over Upgrade Button */}
             {isLevel1_1 && isClaiming && !isMoving && !isPlayerGrowing && (
@@ -864,6 +1023,41 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
                             <ChevronsUp className="w-8 h-8 md:w-10 md:h-10" />
                         </HexButton>
                     </div>
+                    {isBuildSite && (
+                        <>
+                            <div title={mineCheck?.ok ? t.BTN_BUILD_MINE : mineCheck?.reason}>
+                                <HexButton onClick={() => !isMoving && buildStructure('MINE')} disabled={isMoving} variant={(mineCheck?.ok && !isMoving) ? 'amber' : 'slate'} size="lg">
+                                    <Pickaxe className="w-6 h-6 md:w-8 md:h-8" />
+                                </HexButton>
+                            </div>
+                            <div title={barrierCheck?.ok ? t.BTN_BUILD_BARRIER : barrierCheck?.reason}>
+                                <HexButton onClick={() => !isMoving && buildStructure('BARRIER')} disabled={isMoving} variant={(barrierCheck?.ok && !isMoving) ? 'blue' : 'slate'} size="lg">
+                                    <BrickWall className="w-6 h-6 md:w-8 md:h-8" />
+                                </HexButton>
+                            </div>
+                            {showCapitalSlot && (
+                                <div title={capitalCheck?.ok ? t.BTN_FOUND_CAPITAL : capitalCheck?.reason}>
+                                    <HexButton onClick={() => !isMoving && buildStructure('CAPITAL')} disabled={isMoving} variant={(capitalCheck?.ok && !isMoving) ? 'amber' : 'slate'} size="lg">
+                                        <Landmark className="w-6 h-6 md:w-8 md:h-8" />
+                                    </HexButton>
+                                </div>
+                            )}
+                        </>
+                    )}
+                    {isOwnedSector && trapCheck && (
+                        <div title={trapCheck.ok ? `${t.BTN_ARM_TRAP} (${nextTrapPotency}/${GAME_CONFIG.TRAPS.maxPotency})` : trapCheck.reason}>
+                            <HexButton onClick={() => !isMoving && armTrap(nextTrapPotency)} disabled={isMoving} variant={(trapCheck.ok && !isMoving) ? 'amber' : 'slate'} size="lg">
+                                <Bomb className="w-6 h-6 md:w-8 md:h-8" />
+                            </HexButton>
+                        </div>
+                    )}
+                    {player && ((player.attackTokens || 0) > 0 || isAttackMode) && (
+                        <div title={`${t.BTN_ATTACK} (${player.attackTokens || 0}/${GAME_CONFIG.COMBAT.maxTokens})`}>
+                            <HexButton onClick={() => !isMoving && toggleAttackMode()} disabled={isMoving} active={isAttackMode} variant={isMoving ? 'slate' : 'red'} size="lg" pulsate={isAttackMode}>
+                                <div className="flex flex-col items-center gap-1"><Swords className="w-6 h-6 md:w-8 md:h-8" /><span className="text-[10px] font-mono font-bold">{player.attackTokens || 0}</span></div>
+                            </HexButton>
+                        </div>
+                    )}
                 </>
             )}
             </div>
@@ -876,7 +1070,30 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
         </div>
       </div>
 
+      {observer && gameStatus === 'PLAYING' && <ObserverPanel />}
+      {showBotDebug && gameStatus === 'PLAYING' && <BotDebugPanel />}
+
       {/* MODALS */}
+      {/* HOT-SEAT HANDOVER (opaque: the previous human's orders stay private) */}
+      {isHandingOver && (
+        <div className="absolute inset-0 z-[75] bg-slate-950 flex items-center justify-center pointer-events-auto p-6 animate-in fade-in duration-300">
+            <div className="flex flex-col items-center text-center gap-4 max-w-sm w-full">
+                <div className="w-20 h-20 rounded-full border-4 border-slate-800 flex items-center justify-center text-3xl font-black text-white" style={{ backgroundColor: player.avatarColor }}>
+                    {getEntityName(player).charAt(0)}
+                </div>
+                <p className="text-slate-500 text-xs font-bold uppercase tracking-[0.2em]">{t.TURN} {currentTurn + 1}</p>
+                <h2 className="text-2xl font-black text-white uppercase tracking-wider">{t.HANDOVER_TITLE.replace('{0}', getEntityName(player))}</h2>
+                <p className="text-slate-400 text-sm">{t.HANDOVER_DESC}</p>
+                <button
+                  onClick={() => { setReadySeat(handoverSeat); playUiSound('CLICK'); }}
+                  className="w-full mt-2 py-4 bg-sky-600 hover:bg-sky-500 rounded-xl text-white font-bold text-sm uppercase tracking-wider transition-colors active:scale-95"
+                >
+                  {t.HANDOVER_READY}
+                </button>
+            </div>
+        </div>
+      )}
+
       {helpTopic && (
         <div className="absolute inset-0 z-[70] bg-black/70 backdrop-blur-sm flex items-center justify-center pointer-events-auto p-4" onClick={() => setHelpTopic(null)}>
             <div className="bg-slate-900 border border-slate-700 p-6 rounded-3xl shadow-2xl max-w-sm w-full relative max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
@@ -914,19 +1131,22 @@ const GameHUD: React.FC<GameHUDProps> = ({ hoveredHexId, onRotateCamera, onCente
         </div>
       )}
 
-      { (gameStatus === 'VICTORY' || gameStatus === 'DEFEAT') && (
+      { (gameStatus === 'VICTORY' || gameStatus === 'DEFEAT') && !isReplay && (
         <div className="absolute inset-0 z-[80] bg-black/80 backdrop-blur-lg flex items-center justify-center pointer-events-auto p-4 animate-in fade-in duration-500">
             {gameStatus === 'VICTORY' && <FireworksOverlay />}
             <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl shadow-2xl max-w-lg w-full text-center relative overflow-hidden z-10 max-h-[90vh] overflow-y-auto">
                 <div className={`mx-auto w-16 h-16 rounded-full flex items-center justify-center mb-4 border-2 ${gameStatus === 'VICTORY' ? 'bg-amber-500/10 border-amber-500/30' : 'bg-red-500/10 border-red-500/30'}`}>{gameStatus === 'VICTORY' ? <Trophy className="w-8 h-8 text-amber-500" /> : <Shield className="w-8 h-8 text-red-500" />}</div>
-                <h2 className={`text-4xl font-black mb-2 uppercase ${gameStatus === 'VICTORY' ? 'text-amber-400' : 'text-red-500'}`}>{gameStatus === 'VICTORY' ? t.VICTORY : t.DEFEAT}</h2>
-                <p className="text-slate-400 text-sm mb-4">{`${winCondition?.label} ${gameStatus === 'VICTORY' ? 'Complete' : 'Failed'}`}</p>
-                {gameStatus === 'DEFEAT' && winner && winner.type !== 'PLAYER' && (<div className="bg-red-950/20 border border-red-900/30 p-3 rounded-xl mb-6 flex items-center justify-between px-6"><div className="flex items-center gap-3"><div className="w-8 h-8 rounded-full" style={{ backgroundColor: winner.avatarColor }} /><div className="text-left"><div className="text-[10px] font-bold text-red-300 uppercase">{t.WINNER}</div><div className="text-white font-bold text-sm">{winner.id.toUpperCase()}</div></div></div><div className="text-right flex flex-col"><span className="text-amber-400 font-mono font-bold text-sm">{winner.coins} CR</span><span className="text-indigo-400 font-mono font-bold text-sm">L{winner.playerLevel} RANK</span></div></div>)}
+                <h2 className={`text-4xl font-black mb-2 uppercase ${gameStatus === 'VICTORY' ? 'text-amber-400' : 'text-red-500'}`}>{observer ? t.MATCH_OVER : gameStatus === 'VICTORY' ? t.VICTORY : t.DEFEAT}</h2>
+                <p className="text-slate-400 text-sm mb-4">{observer ? winCondition?.label : `${winCondition?.label} ${gameStatus === 'VICTORY' ? 'Complete' : 'Failed'}`}</p>
+                {winner && (winnerId || observer || (gameStatus === 'DEFEAT' && winner.type !== 'PLAYER')) && (<div className="bg-red-950/20 border border-red-900/30 p-3 rounded-xl mb-6 flex items-center justify-between px-6"><div className="flex items-center gap-3"><div className="w-8 h-8 rounded-full" style={{ backgroundColor: winner.avatarColor }} /><div className="text-left"><div className="text-[10px] font-bold text-red-300 uppercase">{t.WINNER}</div><div className="text-white font-bold text-sm">{getEntityName(winner)}</div></div></div><div className="text-right flex flex-col"><span className="text-amber-400 font-mono font-bold text-sm">{winner.coins} CR</span><span className="text-indigo-400 font-mono font-bold text-sm">L{winner.playerLevel} RANK</span></div></div>)}
                 <div className="bg-slate-950 p-4 rounded-xl border border-slate-800 mb-8 flex justify-around text-left">
-                    <div className="flex flex-col"><span className="text-xs font-bold text-slate-500 uppercase">{t.TIME}</span><span className="text-white font-mono font-bold text-lg">{formatTime((Date.now() - sessionStartTime) / 1000)}</span></div>
+                    <div className="flex flex-col"><span className="text-xs font-bold text-slate-500 uppercase">{t.TIME}</span><span className="text-white font-mono font-bold text-lg">{formatTime((simTime - sessionStartTime) / 1000)}</span></div>
                     <div className="flex flex-col"><span className="text-xs font-bold text-slate-500 uppercase">{t.CREDITS}</span><span className="text-amber-400 font-mono font-bold text-lg">{player.coins}</span></div>
                     <div className="flex flex-col"><span className="text-xs font-bold text-slate-500 uppercase">{t.RANK}</span><span className="text-indigo-400 font-mono font-bold text-lg">L{player.playerLevel}</span></div>
                 </div>
+                <button onClick={handleDownloadReplay} className="w-full mb-4 py-3 bg-slate-950 border border-slate-800 hover:border-indigo-500/50 rounded-xl text-indigo-300 font-bold text-xs uppercase flex items-center justify-center gap-2 transition-colors">
+                    <Film className="w-4 h-4" /> <span>{t.BTN_DOWNLOAD_REPLAY}</span>
+                </button>
                 <div className="flex gap-4">
                     <button onClick={abandonSession} className="flex-1 py-4 bg-slate-800 rounded-xl text-slate-300 font-bold text-xs uppercase">{t.BTN_MENU}</button>
                     {gameStatus === 'VICTORY' && nextLevelId ? (
@@ -3,22 +3,27 @@ import React, { useEffect, useCallback, useState, useMemo, useRef, useLayoutEffe
 import { Stage, Layer, Line, Group, Text, Circle } from 'react-konva';
 import Konva from 'konva';
 import { useGameStore } from '../store.ts';
-import { getHexKey, getNeighbors, hexToPixel, pixelToHex, getCoordinatesFromKey } from '../services/hexUtils.ts';
+import { getHexKey, getNeighbors, hexToPixel, pixelToHex, getCoordinatesFromKey, cubeDistance } from '../services/hexUtils.ts';
 import Hexagon from './Hexagon.tsx'; 
 import Unit from './Unit.tsx';
 import Background from './Background.tsx';
 import GameHUD from './GameHUD.tsx';
-import { EXCHANGE_RATE_COINS_PER_MOVE, GAME_CONFIG } from '../rules/config.ts';
+import ReplayControls from './ReplayControls.tsx';
+import LevelEditorPanel from './LevelEditorPanel.tsx';
+import BotDebugOverlay from './BotDebugOverlay.tsx';
+import { EXCHANGE_RATE_COINS_PER_MOVE, GAME_CONFIG, HEX_SIZE } from '../rules/config.ts';
 import { Hex, EntityType, EntityState, FloatingText } from '../types.ts';
 import { checkGrowthCondition } from '../rules/growth.ts';
+import { checkAttack } from '../rules/combat.ts';
 import { audioService } from '../services/audioService.ts';
 
 const VIEWPORT_PADDING = 100;
 
 type RenderItem = 
   | { type: 'HEX'; id: string; depth: number; q: number; r: number }
-  | { type: 'UNIT'; id: string; depth: number; q: number; r: number; isPlayer: boolean; avatarColor?: string; totalCoinsEarned: number; upgradePointCount: number }
-  | { type: 'CONN'; id: string; depth: number; points: number[]; color: string; dash: number[]; opacity: number };
+  | { type: 'UNIT'; id: string; depth: number; q: number; r: number; isPlayer: boolean; isHuman: boolean; avatarColor?: string; totalCoinsEarned: number; upgradePointCount: number }
+  | { type: 'CONN'; id: string; depth: number; points: number[]; color: string; dash: number[]; opacity: number }
+  | { type: 'SLOT'; id: string; depth: number; q: number; r: number };
 
 // --- PARTICLES ---
 interface VisualParticle {
@@ -78,6 +83,27 @@ const DustCloud: React.FC<VisualParticle & { onComplete: (id: number) => void }>
 });
 
 
+// LEVEL EDITOR: an empty cell inside the map radius, painted by clicking it
+const EditorSlot: React.FC<{ q: number; r: number; rotation: number; onClick: (q: number, r: number) => void }> = React.memo(({ q, r, rotation, onClick }) => {
+    const { x, y } = hexToPixel(q, r, rotation);
+    const points = useMemo(() => {
+        const p: number[] = [];
+        for (let i = 0; i < 6; i++) {
+            const angle = ((60 * i + 30 + rotation) * Math.PI) / 180;
+            p.push(HEX_SIZE * Math.cos(angle), HEX_SIZE * Math.sin(angle) * 0.8);
+        }
+        return p;
+    }, [rotation]);
+
+    return (
+        <Line
+            x={x} y={y} points={points} closed
+            stroke="#334155" strokeWidth={1} dash={[4, 4]} fill="rgba(15, 23, 42, 0.3)"
+            onClick={() => onClick(q, r)} onTap={() => onClick(q, r)}
+        />
+    );
+});
+
 const FloatingEffect: React.FC<{ effect: FloatingText; rotation: number }> = React.memo(({ effect, rotation }) => {
     const animRef = useRef<Konva.Group>(null);
     const { x, y } = hexToPixel(effect.q, effect.r, rotation);
@@ -138,7 +164,17 @@ const GameView: React.FC = () => {
   // though some re-renders are expected with standard Zustand selectors.
   const player = useGameStore(state => state.session?.player);
   const bots = useGameStore(state => state.session?.bots);
+  const hotSeats = useGameStore(state => state.session?.hotSeats);
   const effects = useGameStore(state => state.session?.effects);
+  const showBotDebug = useGameStore(state => state.showBotDebug);
+
+  // OBSERVER: nobody here gives orders; the camera follows any entity (or none)
+  const observer = useGameStore(state => state.observer);
+  const followEntity = useGameStore(state => state.followEntity);
+  const followed = useMemo(() => {
+      if (!observer?.followId || !player) return null;
+      return [player, ...(hotSeats || []), ...(bots || [])].find(e => e.id === observer.followId) || null;
+  }, [observer?.followId, player, hotSeats, bots]);
 
   // Derived state for rendering
   const playerPos = useMemo(() => player ? { 
@@ -146,17 +182,24 @@ const GameView: React.FC = () => {
       r: player.r, 
       id: player.id,
       state: player.state,
+      avatarColor: player.avatarColor, // Hot-seat seat color (otherwise the profile's)
       totalCoinsEarned: player.totalCoinsEarned,
       recentUpgrades: player.recentUpgrades
   } : null, [player]);
 
-  const botPositions = useMemo(() => bots?.map(b => ({ 
+  // FOG OF WAR: what the player sees right now (everything until the first MovementSystem pass; observers see it all)
+  const playerVisibleKeys = useMemo(() => player?.visibility && !observer ? new Set(player.visibility.hexKeys) : null, [player?.visibility, observer]);
+  const isSeen = useCallback((q: number, r: number) => !playerVisibleKeys || playerVisibleKeys.has(getHexKey(q, r)), [playerVisibleKeys]);
+
+  // Everyone but the player: hot-seat humans waiting for the screen, then the bots
+  const botPositions = useMemo(() => [...(hotSeats || []), ...(bots || [])].map(b => ({ 
       q: b.q, r: b.r, id: b.id, 
       movementQueue: b.movementQueue, 
+      isHuman: b.type === EntityType.PLAYER,
       avatarColor: b.avatarColor,
       totalCoinsEarned: b.totalCoinsEarned,
       recentUpgrades: b.recentUpgrades
-  })) || [], [bots]);
+  })), [bots, hotSeats]);
 
   const playerStats = useMemo(() => player ? { 
       moves: player.moves, 
@@ -169,6 +212,8 @@ const GameView: React.FC = () => {
   const activeLevelConfig = useGameStore(state => state.session?.activeLevelConfig);
   
   const pendingConfirmation = useGameStore(state => state.pendingConfirmation);
+  const isAttackMode = useGameStore(state => state.isAttackMode);
+  const toggleAttackMode = useGameStore(state => state.toggleAttackMode);
   const cancelPendingAction = useGameStore(state => state.cancelPendingAction);
 
   const tick = useGameStore(state => state.tick);
@@ -176,6 +221,11 @@ const GameView: React.FC = () => {
   const hideToast = useGameStore(state => state.hideToast);
   const toast = useGameStore(state => state.toast);
   const checkTutorialCamera = useGameStore(state => state.checkTutorialCamera);
+
+  // LEVEL EDITOR: the canvas shows the draft; clicks paint instead of moving
+  const isEditing = useGameStore(state => state.uiState === 'EDITOR');
+  const editorMapSize = useGameStore(state => state.editor?.definition.mapConfig.size || 0);
+  const paintEditorHex = useGameStore(state => state.paintEditorHex);
   
   if (!grid || !playerPos) return null;
   
@@ -263,8 +313,14 @@ const GameView: React.FC = () => {
         if (latest.icon === 'DOWN') { 
             triggerShake();
         }
+        if (latest.icon === 'CLASH' || latest.icon === 'DOWN') {
+            // Sparks on the contested sector's top face
+            const { x, y } = hexToPixel(latest.q, latest.r, cameraRotation);
+            const level = grid[getHexKey(latest.q, latest.r)]?.maxLevel || 0;
+            setParticles(prev => [...prev, { id: Date.now() + Math.random(), x, y: y - 10 - level * 6, color: latest.color }]);
+        }
     }
-  }, [effects, triggerShake]);
+  }, [effects, triggerShake, cameraRotation, grid]);
 
   const spawnDust = useCallback((x: number, y: number, color: string) => {
       const id = Date.now() + Math.random();
@@ -298,20 +354,38 @@ const GameView: React.FC = () => {
       checkTutorialCamera(100); 
   }, [cameraRotation, checkTutorialCamera]);
 
+  // Observers center on whoever they follow
+  const cameraTarget = observer ? followed : playerPos;
+
   const centerOnPlayer = useCallback(() => {
-    if (!playerPos) return;
-    const { x: px, y: py } = hexToPixel(playerPos.q, playerPos.r, cameraRotation);
+    if (!cameraTarget) return;
+    const { x: px, y: py } = hexToPixel(cameraTarget.q, cameraTarget.r, cameraRotation);
     setViewState(prev => ({
       ...prev,
       x: (dimensions.width / 2) - (px * prev.scale),
       y: (dimensions.height / 2) - (py * prev.scale)
     }));
-  }, [playerPos?.q, playerPos?.r, dimensions, cameraRotation]);
+  }, [cameraTarget?.q, cameraTarget?.r, dimensions, cameraRotation]);
+
+  // OBSERVER: the camera stays on the followed entity as it moves
+  useEffect(() => {
+      if (followed) centerOnPlayer();
+  }, [followed?.id, followed?.q, followed?.r]);
 
   const handleHexClick = useCallback((q: number, r: number) => {
+      if (isEditing) {
+          paintEditorHex(q, r);
+          return;
+      }
       setSelectedHexId(getHexKey(q, r));
+      if (observer) {
+          // Clicking a unit follows it, clicking anywhere else frees the camera
+          const entity = [playerPos, ...botPositions].find(e => e.q === q && e.r === r);
+          followEntity(entity ? entity.id : null);
+          return;
+      }
       movePlayer(q, r);
-  }, [movePlayer]);
+  }, [movePlayer, isEditing, paintEditorHex, observer, followEntity, playerPos, botPositions]);
 
   const handleWheel = useCallback((e: Konva.KonvaEventObject<WheelEvent>) => {
     e.evt.preventDefault();
@@ -337,6 +411,7 @@ const GameView: React.FC = () => {
   const handleStageClick = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
      if (e.target === e.target.getStage()) {
          cancelPendingAction();
+         if (isAttackMode) toggleAttackMode();
          setSelectedHexId(null);
      }
   };
@@ -386,7 +461,8 @@ const GameView: React.FC = () => {
      }
   };
 
-  const neighbors = useMemo(() => playerPos ? getNeighbors(playerPos.q, playerPos.r) : [], [playerPos?.q, playerPos?.r]);
+  // Observers have no moves to offer, so no neighbors to highlight
+  const neighbors = useMemo(() => playerPos && !observer ? getNeighbors(playerPos.q, playerPos.r) : [], [playerPos?.q, playerPos?.r, observer]);
 
   const isMoving = playerPos?.state === EntityState.MOVING;
   
@@ -452,12 +528,18 @@ const GameView: React.FC = () => {
          for (let r = minR; r <= maxR; r++) {
              const key = getHexKey(q, r);
              const hex = grid[key];
-             if (!hex) continue;
+             const isSlot = !hex && isEditing && cubeDistance({ q, r }, { q: 0, r: 0 }) <= editorMapSize;
+             if (!isSlot && (!hex || !hex.revealed)) continue;
 
              const { x, y } = hexToPixel(q, r, cameraRotation);
              
              if (x < x0 || x > x1 || y < y0 || y > y1) continue;
 
+             if (isSlot) {
+                 items.push({ type: 'SLOT', id: `slot-${key}`, depth: y, q, r });
+                 continue;
+             }
+
              items.push({ 
                  type: 'HEX', 
                  id: hex.id, 
@@ -468,7 +550,9 @@ const GameView: React.FC = () => {
          }
      }
 
-     const allUnits = [{ ...playerPos, isPlayer: true, avatarColor: undefined }, ...botPositions.map(b => ({ ...b, isPlayer: false }))];
+     // Rivals outside the player's vision are not drawn
+     const seenBots = botPositions.filter(b => isSeen(b.q, b.r));
+     const allUnits = [{ ...playerPos, isPlayer: true, isHuman: true }, ...seenBots.map(b => ({ ...b, isPlayer: false }))];
      const now = Date.now();
      const zSortThreshold = GAME_CONFIG.MOVEMENT_LOGIC_INTERVAL_MS + 50; 
 
@@ -503,13 +587,14 @@ const GameView: React.FC = () => {
              q: u.q, 
              r: u.r, 
              isPlayer: u.isPlayer,
+             isHuman: u.isHuman,
              avatarColor: (u as any).avatarColor,
              totalCoinsEarned: (u as any).totalCoinsEarned || 0,
              upgradePointCount: (u as any).recentUpgrades?.length || 0
          });
      }
 
-     for (const b of botPositions) {
+     for (const b of seenBots) {
          if (b.movementQueue && b.movementQueue.length > 0) {
              const startHex = grid[getHexKey(b.q, b.r)];
              const startH = startHex ? 10 + (startHex.maxLevel * 6) : 10;
@@ -531,7 +616,22 @@ const GameView: React.FC = () => {
          }
      }
 
-     if (!isMoving && !isPlayerGrowing && playerPos && playerStats) {
+     // Attack mode: mark the sectors the next click can hit instead of the walkable ones (no paths in the editor)
+     if (!isEditing && isAttackMode && !isMoving && player) {
+        const startHex = grid[getHexKey(player.q, player.r)];
+        const start = hexToPixel(player.q, player.r, cameraRotation);
+        const sY = start.y - (startHex ? 10 + startHex.maxLevel * 6 : 10);
+        neighbors.forEach(neighbor => {
+            const hex = grid[getHexKey(neighbor.q, neighbor.r)];
+            if (!hex || !checkAttack(hex, player, player.attackTokens || 0).ok) return;
+            const end = hexToPixel(neighbor.q, neighbor.r, cameraRotation);
+            items.push({
+                type: 'CONN', id: `attack-${hex.id}`, depth: 999999,
+                points: [start.x, sY, end.x, end.y - (10 + hex.maxLevel * 6)], color: '#ef4444',
+                dash: [2, 3], opacity: 0.9
+            });
+        });
+     } else if (!isEditing && !isMoving && !isPlayerGrowing && playerPos && playerStats) {
         const startHex = grid[getHexKey(playerPos.q, playerPos.r)];
         const startLevel = startHex ? startHex.maxLevel : 0;
         neighbors.forEach(neighbor => {
@@ -567,7 +667,7 @@ const GameView: React.FC = () => {
         });
      }
      return items.sort((a, b) => a.depth - b.depth);
-  }, [grid, playerPos, playerStats, botPositions, cameraRotation, isMoving, isPlayerGrowing, viewState, dimensions, neighbors, movementTracker, winCondition]);
+  }, [grid, player, playerPos, playerStats, botPositions, isSeen, cameraRotation, isMoving, isPlayerGrowing, isAttackMode, viewState, dimensions, neighbors, movementTracker, winCondition, isEditing, editorMapSize]);
 
   return (
     <div className="relative h-full w-full overflow-hidden bg-[#020617]" onContextMenu={(e) => e.preventDefault()}>
@@ -605,7 +705,8 @@ const GameView: React.FC = () => {
           <Layer>
             {renderList.map((item) => {
                 if (item.type === 'HEX') {
-                    const isOccupied = (item.q === playerPos?.q && item.r === playerPos?.r) || botPositions.some(b => b.q === item.q && b.r === item.r);
+                    const isFogged = !isSeen(item.q, item.r);
+                    const isOccupied = (item.q === playerPos?.q && item.r === playerPos?.r) || (!isFogged && botPositions.some(b => b.q === item.q && b.r === item.r));
                     const isPending = item.id === pendingTargetKey;
                     const isMissingSupport = missingSupportSet.has(item.id);
                     
@@ -654,6 +755,7 @@ const GameView: React.FC = () => {
                             isMissingSupport={isMissingSupport}
                             isObjective={isObjective}
                             isNeighbor={isNeighbor}
+                            isFogged={isFogged}
                         />
                     );
                 } else if (item.type === 'UNIT') {
@@ -664,8 +766,9 @@ const GameView: React.FC = () => {
                             id={item.id}
                             q={item.q} 
                             r={item.r} 
-                            type={item.isPlayer ? EntityType.PLAYER : EntityType.BOT}
+                            type={item.isHuman ? EntityType.PLAYER : EntityType.BOT}
                             color={item.avatarColor}
+                            isActive={observer ? item.id === observer.followId : item.isPlayer}
                             rotation={cameraRotation} 
                             hexLevel={hLevel} 
                             totalCoinsEarned={item.totalCoinsEarned}
@@ -673,6 +776,8 @@ const GameView: React.FC = () => {
                             onMoveComplete={spawnDust}
                         />
                     );
+                } else if (item.type === 'SLOT') {
+                    return <EditorSlot key={item.id} q={item.q} r={item.r} rotation={cameraRotation} onClick={handleHexClick} />;
                 } else if (item.type === 'CONN') {
                     return <Line key={item.id} points={item.points} stroke={item.color} strokeWidth={2} dash={item.dash} opacity={item.opacity} listening={false} perfectDrawEnabled={false} />;
                 }
@@ -683,18 +788,26 @@ const GameView: React.FC = () => {
                 <DustCloud key={p.id} {...p} onComplete={removeParticle} />
             ))}
 
-            {effects && effects.map((eff) => (
+            {effects && effects.filter(eff => isSeen(eff.q, eff.r)).map((eff) => (
                 <FloatingEffect key={eff.id} effect={eff} rotation={cameraRotation} />
             ))}
+
+            {showBotDebug && !isEditing && <BotDebugOverlay rotation={cameraRotation} />}
           </Layer>
         </Stage>
       </div>
 
-      <GameHUD 
-        hoveredHexId={hoveredHexId} 
-        onRotateCamera={rotateCamera} 
-        onCenterPlayer={centerOnPlayer} 
-      />
+      {isEditing ? (
+        <LevelEditorPanel />
+      ) : (
+        <GameHUD 
+          hoveredHexId={hoveredHexId} 
+          onRotateCamera={rotateCamera} 
+          onCenterPlayer={centerOnPlayer} 
+        />
+      )}
+
+      <ReplayControls />
 
     </div>
   );
@@ -5,6 +5,8 @@ import Konva from 'konva';
 import { useShallow } from 'zustand/react/shallow';
 import { Hex } from '../types.ts';
 import { HEX_SIZE, GAME_CONFIG } from '../rules/config.ts';
+import { getStructureMaxHp } from '../rules/structures.ts';
+import { isTrapVisibleTo } from '../rules/traps.ts';
 import { getSecondsToGrow, hexToPixel } from '../services/hexUtils.ts';
 import { useGameStore } from '../store.ts';
 
@@ -23,6 +25,8 @@ export interface HexagonVisualProps {
   isMissingSupport?: boolean; 
   isObjective?: boolean; 
   isNeighbor?: boolean; 
+  viewerId?: string; // Traps are drawn only for their owner until sprung
+  isFogged?: boolean; // Outside the viewer's vision: dimmed, transient details hidden
 }
 
 // --- COLOR THEMES (GRADIENTS) ---
@@ -48,6 +52,10 @@ const getTheme = (level: number) => {
 };
 
 const ARROW_UP_PATH = "M12 4l-8 8h6v8h4v-8h6z";
+const MINE_GEM_PATH = "M -7 -3 L -3 -8 L 3 -8 L 7 -3 L 0 7 Z";
+const CAPITAL_CROWN_PATH = "M -8 5 L -8 -4 L -4 0 L 0 -7 L 4 0 L 8 -4 L 8 5 Z";
+const FOG_OPACITY = 0.35;
+const BARRIER_WALL_PATH = "M -8 -6 L 8 -6 L 8 6 L -8 6 Z M -8 0 L 8 0 M -3 -6 L -3 0 M 3 0 L 3 6";
 
 // --- PROCEDURAL HELPERS ---
 
@@ -206,7 +214,7 @@ const generateIntegritySegments = (durability: number, max: number, size: number
 };
 
 // VISUAL COMPONENT (Dumb, receives raw hex data)
-export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation, playerRank, isOccupied, isSelected, isPendingConfirm, pendingCost, onHexClick, onHover, isTutorialTarget, tutorialHighlightColor = 'blue', isMissingSupport, isObjective, isNeighbor }) => {
+export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, rotation, playerRank, isOccupied, isSelected, isPendingConfirm, pendingCost, onHexClick, onHover, isTutorialTarget, tutorialHighlightColor = 'blue', isMissingSupport, isObjective, isNeighbor, viewerId, isFogged }) => {
   const groupRef = useRef<Konva.Group>(null);
   
   // STATIC GEOMETRY REF (For Caching)
@@ -247,6 +255,9 @@ export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, ro
   const isFragile = hex.maxLevel === 1 && !isRealVoid;
   const maxLives = GAME_CONFIG.L1_HEX_MAX_DURABILITY;
   const currentLives = hex.durability !== undefined ? hex.durability : maxLives;
+  const showTrap = isTrapVisibleTo(hex, viewerId) && (!isFogged || hex.ownerId === viewerId);
+  const structureMaxHp = getStructureMaxHp(hex);
+  const structureHpRatio = Math.max(0, Math.min(1, (hex.structureHp ?? structureMaxHp) / structureMaxHp));
   
   const { topPoints, sortedFaces, selectionPathData, integrityVisuals, voidPaths, voidSpikes, topFacePath } = useMemo(() => {
     const getPoint = (i: number, cy: number, radius: number = HEX_SIZE) => {
@@ -413,7 +424,7 @@ export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, ro
   }
 
   return (
-    <Group ref={groupRef} x={x} y={y} onClick={handleClick} onTap={handleClick} onMouseEnter={() => onHover(hex.id)} onMouseLeave={() => onHover(null)} onTouchStart={() => onHover(hex.id)} onTouchEnd={() => onHover(null)} listening={true}>
+    <Group ref={groupRef} x={x} y={y} opacity={isFogged ? FOG_OPACITY : 1} onClick={handleClick} onTap={handleClick} onMouseEnter={() => onHover(hex.id)} onMouseLeave={() => onHover(null)} onTouchStart={() => onHover(hex.id)} onTouchEnd={() => onHover(null)} listening={true}>
       
       <Group ref={cachedGeometryRef}>
           {showVoid ? (
@@ -522,6 +533,61 @@ export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, ro
          </Group>
       )}
 
+      {hex.structureType === 'MINE' && (
+          <Group x={0} y={offsetY - 12} listening={false}>
+              <Circle radius={11} fill="#1e293b" stroke="#fbbf24" strokeWidth={2} shadowColor="black" shadowBlur={6} shadowOpacity={0.6} perfectDrawEnabled={false} />
+              <Path data={MINE_GEM_PATH} fill="#fbbf24" stroke="#92400e" strokeWidth={1} perfectDrawEnabled={false} />
+              {!isFogged && (
+                  <Group y={16}>
+                      <Line points={[-14, 0, 14, 0]} stroke="rgba(0,0,0,0.8)" strokeWidth={5} lineCap="round" perfectDrawEnabled={false} />
+                      <Line points={[-14, 0, -14 + 28 * structureHpRatio, 0]} stroke={structureHpRatio > 0.3 ? '#fbbf24' : '#ef4444'} strokeWidth={3} lineCap="round" perfectDrawEnabled={false} />
+                  </Group>
+              )}
+          </Group>
+      )}
+
+      {/* Resource-rich sector (procedural world): income multiplier */}
+      {!!hex.richness && hex.richness > 1 && (!hex.structureType || hex.structureType === 'NONE') && (
+          <Group x={0} y={offsetY - 10} listening={false}>
+              <Path data={MINE_GEM_PATH} scaleX={0.7} scaleY={0.7} fill="#fbbf24" stroke="#92400e" strokeWidth={1} opacity={0.85} perfectDrawEnabled={false} />
+              <Text text={`x${hex.richness}`} y={8} fontSize={9} fontStyle="bold" fontFamily="monospace" fill="#fbbf24" align="center" width={30} offsetX={15} shadowColor="black" shadowBlur={4} />
+          </Group>
+      )}
+
+      {hex.structureType === 'BARRIER' && (
+          <Group x={0} y={offsetY - 12} listening={false}>
+              <Circle radius={11} fill="#1e293b" stroke="#38bdf8" strokeWidth={2} shadowColor="black" shadowBlur={6} shadowOpacity={0.6} perfectDrawEnabled={false} />
+              <Path data={BARRIER_WALL_PATH} stroke="#38bdf8" strokeWidth={1.5} perfectDrawEnabled={false} />
+              {!isFogged && (
+                  <Group y={16}>
+                      <Line points={[-14, 0, 14, 0]} stroke="rgba(0,0,0,0.8)" strokeWidth={5} lineCap="round" perfectDrawEnabled={false} />
+                      <Line points={[-14, 0, -14 + 28 * structureHpRatio, 0]} stroke={structureHpRatio > 0.3 ? '#38bdf8' : '#ef4444'} strokeWidth={3} lineCap="round" perfectDrawEnabled={false} />
+                  </Group>
+              )}
+          </Group>
+      )}
+
+      {showTrap && (
+          <Group listening={false}>
+              <Path data={selectionPathData} stroke={hex.trap?.revealed ? '#ef4444' : '#f59e0b'} strokeWidth={1.5} dash={[2, 4]} fill={hex.trap?.revealed ? 'rgba(239, 68, 68, 0.15)' : 'rgba(245, 158, 11, 0.08)'} perfectDrawEnabled={false} />
+              <Text text={'!'.repeat(hex.trap?.potency || 1)} y={offsetY + 8} fontSize={10} fontStyle="bold" fontFamily="monospace" fill={hex.trap?.revealed ? '#ef4444' : '#f59e0b'} align="center" width={30} offsetX={15} />
+          </Group>
+      )}
+
+      {/* Founded capitals only: the unowned campaign apex has its own objective marker */}
+      {hex.structureType === 'CAPITAL' && hex.ownerId && (
+          <Group x={0} y={offsetY - 14} listening={false}>
+              <Circle radius={13} fill="#1e293b" stroke="#a78bfa" strokeWidth={2} shadowColor="#a78bfa" shadowBlur={10} shadowOpacity={0.6} perfectDrawEnabled={false} />
+              <Path data={CAPITAL_CROWN_PATH} fill="#a78bfa" stroke="#4c1d95" strokeWidth={1} perfectDrawEnabled={false} />
+              {!isFogged && (
+                  <Group y={18}>
+                      <Line points={[-16, 0, 16, 0]} stroke="rgba(0,0,0,0.8)" strokeWidth={5} lineCap="round" perfectDrawEnabled={false} />
+                      <Line points={[-16, 0, -16 + 32 * structureHpRatio, 0]} stroke={structureHpRatio > 0.3 ? '#a78bfa' : '#ef4444'} strokeWidth={3} lineCap="round" perfectDrawEnabled={false} />
+                  </Group>
+              )}
+          </Group>
+      )}
+
       {isSelected && (
           <Path ref={selectionRef} data={selectionPathData} stroke="#22d3ee" strokeWidth={1.5} fillEnabled={false} perfectDrawEnabled={false} shadowColor="#22d3ee" shadowBlur={5} shadowOpacity={1} listening={false} />
       )}
@@ -539,7 +605,7 @@ export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, ro
         </Group>
       )}
 
-      {isGrowing && (
+      {isGrowing && !isFogged && (
         <Group x={0} y={offsetY - 15} listening={false}>
           <Shape ref={progressShapeRef} visualProgress={progressPercent} sceneFunc={(ctx, shape) => {
                 const p = shape.getAttr('visualProgress') || 0;
@@ -558,8 +624,12 @@ export const HexagonVisual: React.FC<HexagonVisualProps> = React.memo(({ hex, ro
     if (prev.hex.maxLevel !== next.hex.maxLevel) return false;
     if (prev.hex.structureType !== next.hex.structureType) return false;
     if (prev.hex.durability !== next.hex.durability) return false;
+    if (prev.hex.structureHp !== next.hex.structureHp) return false;
     if (prev.hex.progress !== next.hex.progress) return false;
     if (prev.hex.ownerId !== next.hex.ownerId) return false;
+    if (prev.hex.trap !== next.hex.trap) return false;
+    if (prev.viewerId !== next.viewerId) return false;
+    if (prev.isFogged !== next.isFogged) return false;
     
     if (prev.rotation !== next.rotation) return false;
     if (prev.playerRank !== next.playerRank) return false;
@@ -593,6 +663,7 @@ interface SmartHexagonProps {
   isMissingSupport?: boolean;
   isObjective?: boolean;
   isNeighbor?: boolean;
+  isFogged?: boolean;
 }
 
 const SmartHexagon: React.FC<SmartHexagonProps> = React.memo((props) => {
@@ -601,9 +672,11 @@ const SmartHexagon: React.FC<SmartHexagonProps> = React.memo((props) => {
     useShallow((state) => state.session?.grid[props.id])
   );
 
+  const viewerId = useGameStore(state => state.session?.player.id);
+
   if (!hex) return null;
 
-  return <HexagonVisual hex={hex} {...props} />;
+  return <HexagonVisual hex={hex} viewerId={viewerId} {...props} />;
 });
 
 export default SmartHexagon;
@@ -0,0 +1,259 @@
+import React, { useRef, useState } from 'react';
+import { useGameStore } from '../store.ts';
+import { TEXT } from '../services/i18n.ts';
+import { GAME_CONFIG } from '../rules/config.ts';
+import { downloadJson, readJsonFile } from '../services/fileIO.ts';
+import { EditorTool, EditorBrush } from '../services/levelEditor.ts';
+import { LevelDefinition, ScenarioCondition } from '../campaign/types.ts';
+import { Paintbrush, Eraser, UserCircle, Bot, Play, Download, Upload, FilePlus, X, Plus, AlertTriangle, PencilRuler } from 'lucide-react';
+
+const TOOLS: { id: EditorTool; icon: React.ReactNode }[] = [
+  { id: 'PAINT', icon: <Paintbrush className="w-4 h-4" /> },
+  { id: 'ERASE', icon: <Eraser className="w-4 h-4" /> },
+  { id: 'PLAYER_SPAWN', icon: <UserCircle className="w-4 h-4" /> },
+  { id: 'BOT_SPAWN', icon: <Bot className="w-4 h-4" /> },
+];
+const LEVELS = [0, 1, 2, 3, 4, 5];
+const STRUCTURES: EditorBrush['structureType'][] = ['NONE', 'BARRIER', 'MINE', 'CAPITAL', 'VOID'];
+const AI_MODES: LevelDefinition['aiMode'][] = ['none', 'dummy', 'basic'];
+
+type ObjectiveKind = 'OWN_HEXES' | 'REACH_HEX' | 'STAND_ON' | 'COINS';
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-2 border-t border-slate-800 pt-3">
+    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{title}</span>
+    {children}
+  </div>
+);
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode; title?: string }> = ({ active, onClick, children, title }) => (
+  <button
+    title={title}
+    onClick={onClick}
+    className={`cursor-pointer px-2 py-1 rounded-lg text-[10px] font-bold uppercase border transition-colors flex items-center gap-1 ${active ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+  >
+    {children}
+  </button>
+);
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; onChange: (value: number) => void }> = ({ label, value, min = 0, onChange }) => (
+  <label className="flex items-center justify-between gap-2 text-[10px] text-slate-400 uppercase">
+    {label}
+    <input
+      type="number"
+      min={min}
+      value={value}
+      onChange={(e) => onChange(Math.max(min, Math.floor(Number(e.target.value) || 0)))}
+      className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-right font-mono text-white"
+    />
+  </label>
+);
+
+const TextField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col gap-1 text-[10px] text-slate-400 uppercase">
+    {label}
+    <input value={value} onChange={(e) => onChange(e.target.value)} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs normal-case text-white" />
+  </label>
+);
+
+const LevelEditorPanel: React.FC = () => {
+  const editor = useGameStore(state => state.editor);
+  const language = useGameStore(state => state.language);
+  const setEditorBrush = useGameStore(state => state.setEditorBrush);
+  const updateEditorLevel = useGameStore(state => state.updateEditorLevel);
+  const resetEditorLevel = useGameStore(state => state.resetEditorLevel);
+  const importEditorLevel = useGameStore(state => state.importEditorLevel);
+  const exportEditorLevel = useGameStore(state => state.exportEditorLevel);
+  const playtestEditorLevel = useGameStore(state => state.playtestEditorLevel);
+  const closeEditor = useGameStore(state => state.closeEditor);
+  const playUiSound = useGameStore(state => state.playUiSound);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [objectiveKind, setObjectiveKind] = useState<ObjectiveKind>('OWN_HEXES');
+  const [objectiveA, setObjectiveA] = useState(4);
+  const [objectiveB, setObjectiveB] = useState(1);
+
+  if (!editor) return null;
+
+  const t = TEXT[language].EDITOR;
+  const { definition, brush, issues } = editor;
+  const { mapConfig, startState, objectives, lossConditions = [], restrictions = [] } = definition;
+  const timeLimit = lossConditions.find(c => c.type === 'TIME_LIMIT');
+  const owners = [null, 'player-1', ...(mapConfig.botSpawns || []).map((_, i) => `bot-${i + 1}`)];
+
+  const describe = (cond: ScenarioCondition): string => {
+    switch (cond.type) {
+      case 'OWN_HEXES': return t.OBJ_OWN_HEXES.replace('{0}', String(cond.count)).replace('{1}', String(cond.minLevel ?? 0));
+      case 'REACH_HEX': return t.OBJ_REACH_HEX.replace('{0}', `${cond.q},${cond.r}`);
+      case 'STAND_ON': return t.OBJ_STAND_ON.replace('{0}', cond.structure);
+      case 'STAT':
+        if (cond.stat === 'coins' && cond.op === '>=') return t.OBJ_COINS.replace('{0}', String(cond.value));
+        return t.OBJ_CUSTOM.replace('{0}', `${cond.stat} ${cond.op} ${cond.value}`);
+      default: return t.OBJ_CUSTOM.replace('{0}', cond.type);
+    }
+  };
+
+  const addObjective = () => {
+    playUiSound('CLICK');
+    const objective: ScenarioCondition =
+      objectiveKind === 'OWN_HEXES' ? { type: 'OWN_HEXES', count: Math.max(1, objectiveA), minLevel: objectiveB } :
+      objectiveKind === 'REACH_HEX' ? { type: 'REACH_HEX', q: objectiveA, r: objectiveB } :
+      objectiveKind === 'STAND_ON' ? { type: 'STAND_ON', structure: 'CAPITAL' } :
+      { type: 'STAT', stat: 'coins', op: '>=', value: objectiveA };
+    updateEditorLevel({ objectives: [...objectives, objective] });
+  };
+
+  const setTimeLimit = (seconds: number) => {
+    const others = lossConditions.filter(c => c.type !== 'TIME_LIMIT');
+    updateEditorLevel({ lossConditions: seconds > 0 ? [...others, { type: 'TIME_LIMIT', seconds }] : others });
+  };
+
+  const handleExport = () => {
+    playUiSound('CLICK');
+    const level = exportEditorLevel();
+    if (level) downloadJson(`hexquest-level-${level.id}.json`, level);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+    try {
+      importEditorLevel(await readJsonFile(file));
+    } catch (err) {
+      playUiSound('ERROR');
+      alert(err instanceof Error ? err.message : 'Failed to read level file');
+    }
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 z-40 w-72 flex flex-col bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl pointer-events-auto overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-indigo-300">
+          <PencilRuler className="w-4 h-4" />
+          <span className="text-xs font-bold uppercase tracking-wider">{t.TITLE}</span>
+        </div>
+        <button onClick={closeEditor} title={t.BTN_EXIT} className="cursor-pointer text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 flex flex-col gap-3">
+        <p className="text-[10px] text-slate-500">{t.HINT}</p>
+
+        <Section title={t.TOOLS}>
+          <div className="flex flex-wrap gap-1">
+            {TOOLS.map(tool => (
+              <Chip key={tool.id} active={brush.tool === tool.id} onClick={() => { setEditorBrush({ tool: tool.id }); playUiSound('CLICK'); }}>
+                {tool.icon}{t[`TOOL_${tool.id}`]}
+              </Chip>
+            ))}
+          </div>
+        </Section>
+
+        {brush.tool === 'PAINT' && (
+          <>
+            <Section title={t.STRUCTURE}>
+              <div className="flex flex-wrap gap-1">
+                {STRUCTURES.map(s => (
+                  <Chip key={s} active={brush.structureType === s} onClick={() => setEditorBrush({ structureType: s })}>
+                    {s === 'NONE' ? t.STRUCTURE_NONE : s}
+                  </Chip>
+                ))}
+              </div>
+            </Section>
+            {brush.structureType !== 'VOID' && (
+              <>
+                <Section title={t.LEVEL}>
+                  <div className="flex flex-wrap gap-1">
+                    {LEVELS.map(l => <Chip key={l} active={brush.level === l} onClick={() => setEditorBrush({ level: l })}>L{l}</Chip>)}
+                  </div>
+                </Section>
+                <Section title={t.OWNER}>
+                  <div className="flex flex-wrap gap-1">
+                    {owners.map(o => (
+                      <Chip key={o || 'none'} active={brush.ownerId === o} onClick={() => setEditorBrush({ ownerId: o })}>
+                        {o === null ? t.OWNER_NONE : o === 'player-1' ? t.OWNER_PLAYER : o}
+                      </Chip>
+                    ))}
+                  </div>
+                </Section>
+                {brush.level === 1 && (
+                  <NumberField label={t.DURABILITY} value={brush.durability} min={1} onChange={(v) => setEditorBrush({ durability: Math.min(v, GAME_CONFIG.L1_HEX_MAX_DURABILITY) })} />
+                )}
+              </>
+            )}
+          </>
+        )}
+
+        <Section title={t.SECTION_LEVEL}>
+          <TextField label={t.LEVEL_ID} value={definition.id} onChange={(id) => updateEditorLevel({ id })} />
+          <TextField label={t.LEVEL_TITLE} value={definition.title} onChange={(title) => updateEditorLevel({ title })} />
+          <TextField label={t.DESCRIPTION} value={definition.description} onChange={(description) => updateEditorLevel({ description })} />
+          <NumberField label={t.MAP_SIZE} value={mapConfig.size} min={1} onChange={(size) => updateEditorLevel({ mapConfig: { ...mapConfig, size } })} />
+          <label className="flex items-center justify-between gap-2 text-[10px] text-slate-400 uppercase">
+            {t.AI_MODE}
+            <select value={definition.aiMode} onChange={(e) => updateEditorLevel({ aiMode: e.target.value as LevelDefinition['aiMode'] })} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white">
+              {AI_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </label>
+        </Section>
+
+        <Section title={t.SECTION_START}>
+          <NumberField label={t.CREDITS} value={startState.credits} onChange={(credits) => updateEditorLevel({ startState: { ...startState, credits } })} />
+          <NumberField label={t.MOVES} value={startState.moves} onChange={(moves) => updateEditorLevel({ startState: { ...startState, moves } })} />
+          <NumberField label={t.RANK} value={startState.rank} onChange={(rank) => updateEditorLevel({ startState: { ...startState, rank } })} />
+        </Section>
+
+        <Section title={t.OBJECTIVES}>
+          {objectives.map((o, i) => (
+            <div key={i} className="flex items-center justify-between gap-2 text-xs text-slate-200">
+              <span>{describe(o)}</span>
+              <button onClick={() => updateEditorLevel({ objectives: objectives.filter((_, j) => j !== i) })} className="cursor-pointer text-slate-500 hover:text-red-400"><X className="w-3 h-3" /></button>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <select value={objectiveKind} onChange={(e) => setObjectiveKind(e.target.value as ObjectiveKind)} className="flex-1 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-[10px] text-white">
+              <option value="OWN_HEXES">OWN_HEXES</option>
+              <option value="REACH_HEX">REACH_HEX</option>
+              <option value="STAND_ON">STAND_ON CAPITAL</option>
+              <option value="COINS">CREDITS</option>
+            </select>
+            {objectiveKind !== 'STAND_ON' && (
+              <input type="number" value={objectiveA} onChange={(e) => setObjectiveA(Math.floor(Number(e.target.value) || 0))} className="w-12 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-[10px] font-mono text-white" />
+            )}
+            {(objectiveKind === 'OWN_HEXES' || objectiveKind === 'REACH_HEX') && (
+              <input type="number" value={objectiveB} onChange={(e) => setObjectiveB(Math.floor(Number(e.target.value) || 0))} className="w-12 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-[10px] font-mono text-white" />
+            )}
+            <button onClick={addObjective} title={t.ADD_OBJECTIVE} className="cursor-pointer p-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white"><Plus className="w-3 h-3" /></button>
+          </div>
+          <NumberField label={t.TIME_LIMIT} value={timeLimit?.type === 'TIME_LIMIT' ? timeLimit.seconds : 0} onChange={setTimeLimit} />
+          {restrictions.length > 0 && <p className="text-[10px] text-slate-500">{t.RESTRICTIONS_KEPT.replace('{0}', String(restrictions.length))}</p>}
+        </Section>
+
+        {issues.length > 0 && (
+          <div className="flex flex-col gap-1 rounded-lg border border-red-500/40 bg-red-950/40 p-2">
+            <span className="flex items-center gap-1 text-[10px] font-bold uppercase text-red-400"><AlertTriangle className="w-3 h-3" />{t.ISSUES}</span>
+            {issues.map((issue, i) => <span key={i} className="font-mono text-[10px] text-red-200 break-words">{issue}</span>)}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 px-4 py-3 border-t border-slate-800">
+        <button onClick={playtestEditorLevel} className="cursor-pointer col-span-2 flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold uppercase">
+          <Play className="w-4 h-4" />{t.BTN_PLAYTEST}
+        </button>
+        <button onClick={handleExport} className="cursor-pointer flex items-center justify-center gap-1 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-200 text-[10px] font-bold uppercase">
+          <Download className="w-3 h-3" />{t.BTN_EXPORT}
+        </button>
+        <button onClick={() => { playUiSound('CLICK'); importInputRef.current?.click(); }} className="cursor-pointer flex items-center justify-center gap-1 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-200 text-[10px] font-bold uppercase">
+          <Upload className="w-3 h-3" />{t.BTN_IMPORT}
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+        <button onClick={() => { playUiSound('CLICK'); if (window.confirm(t.NEW_CONFIRM)) resetEditorLevel(); }} className="cursor-pointer col-span-2 flex items-center justify-center gap-1 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-400 text-[10px] font-bold uppercase">
+          <FilePlus className="w-3 h-3" />{t.BTN_NEW}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditorPanel;
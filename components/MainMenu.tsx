@@ -1,10 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useGameStore } from '../store.ts';
-import { Trophy, LogOut, Ghost, Play, ArrowRight, Zap, Shield, UserCircle, X, LogIn, Lock, Target, Gem, Crown, Bot, Skull, Activity, Signal, Volume2, VolumeX, BookOpen, Globe, Music, Sliders, ChevronLeft, ChevronRight } from 'lucide-react';
-import { WinCondition, Difficulty } from '../types.ts';
+import { Trophy, LogOut, Ghost, Play, ArrowRight, Zap, Shield, UserCircle, X, LogIn, Lock, Target, Gem, Crown, Bot, Skull, Activity, Signal, Volume2, VolumeX, BookOpen, Globe, Music, Sliders, ChevronLeft, ChevronRight, Film, FolderOpen, Trash2, PencilRuler, Cpu, Eye } from 'lucide-react';
+import { WinCondition, Difficulty, BotStrategyId, BotAggression, SeatProfile } from '../types.ts';
 import { TEXT } from '../services/i18n.ts';
 import { audioService } from '../services/audioService.ts';
+import { readJsonFile } from '../services/fileIO.ts';
+import { parseReplayFile } from '../engine/ReplayRecorder.ts';
+import { BOT_STRATEGY_IDS, DEFAULT_BOT_STRATEGY } from '../bot/strategies/index.ts';
+import { MAX_SEATS } from '../services/sessionFactory.ts';
+import { NET_CONFIG } from '../net/protocol.ts';
 
 const AVATAR_COLORS = [
   '#ef4444', // Red
@@ -67,9 +72,12 @@ const MainMenu: React.FC = () => {
   const hasActiveSession = useGameStore(state => state.hasActiveSession);
   const isMusicMuted = useGameStore(state => state.isMusicMuted);
   const isSfxMuted = useGameStore(state => state.isSfxMuted);
+  const useEngineWorker = useGameStore(state => state.useEngineWorker);
   const language = useGameStore(state => state.language);
   
   const startNewGame = useGameStore(state => state.startNewGame);
+  const connectToServer = useGameStore(state => state.connectToServer);
+  const network = useGameStore(state => state.network);
   const setUIState = useGameStore(state => state.setUIState);
   const setLanguage = useGameStore(state => state.setLanguage);
   const logout = useGameStore(state => state.logout);
@@ -79,10 +87,17 @@ const MainMenu: React.FC = () => {
   const abandonSession = useGameStore(state => state.abandonSession);
   const toggleMusic = useGameStore(state => state.toggleMusic);
   const toggleSfx = useGameStore(state => state.toggleSfx);
+  const toggleEngineWorker = useGameStore(state => state.toggleEngineWorker);
   const playUiSound = useGameStore(state => state.playUiSound);
+  const loadReplay = useGameStore(state => state.loadReplay);
+  const saves = useGameStore(state => state.saves);
+  const loadGame = useGameStore(state => state.loadGame);
+  const deleteSave = useGameStore(state => state.deleteSave);
+  const openEditor = useGameStore(state => state.openEditor);
 
   const [authMode, setAuthMode] = useState<AuthMode>(null);
   const [showMissionConfig, setShowMissionConfig] = useState(false);
+  const [showLoadGame, setShowLoadGame] = useState(false);
   const [inputName, setInputName] = useState('');
   const [inputPassword, setInputPassword] = useState('');
   const [selectedColor, setSelectedColor] = useState(AVATAR_COLORS[5]); 
@@ -94,11 +109,23 @@ const MainMenu: React.FC = () => {
   // Track name is no longer displayed, but kept for internal consistency if needed
   const [trackName, setTrackName] = useState("Loading...");
   const soundMenuRef = useRef<HTMLDivElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
 
   // Mission Config State
   const [selectedTier, setSelectedTier] = useState<1 | 2 | 3>(1);
   const [difficulty, setDifficulty] = useState<Difficulty>('MEDIUM');
   const [botCount, setBotCount] = useState<number>(1);
+  const [botStrategies, setBotStrategies] = useState<BotStrategyId[]>([DEFAULT_BOT_STRATEGY, DEFAULT_BOT_STRATEGY, DEFAULT_BOT_STRATEGY, DEFAULT_BOT_STRATEGY]);
+  const [botAggression, setBotAggression] = useState<BotAggression[]>(['RIVAL', 'RIVAL', 'RIVAL', 'RIVAL']);
+  const [capitalMode, setCapitalMode] = useState(false);
+  const [turnBased, setTurnBased] = useState(false);
+  // Hot-seat: humans sharing the screen after the signed-in one (seats 2+)
+  const [guestSeats, setGuestSeats] = useState<SeatProfile[]>([]);
+  const isHotSeat = guestSeats.length > 0;
+  // No humans at all: the bots play and the screen watches
+  const [observe, setObserve] = useState(false);
+  const [serverUrl, setServerUrl] = useState(`ws://localhost:${NET_CONFIG.DEFAULT_PORT}`);
+  const [roomCode, setRoomCode] = useState('');
 
   const t = TEXT[language].MENU;
 
@@ -168,10 +195,24 @@ const MainMenu: React.FC = () => {
     }
   };
 
-  const confirmMissionStart = () => {
+  const setHumanCount = (count: number) => {
+    const colors = AVATAR_COLORS.filter(c => c !== user?.avatarColor);
+    setObserve(count === 0);
+    setGuestSeats(Array.from({ length: Math.max(0, count - 1) }, (_, i) => guestSeats[i] || {
+      nickname: `${t.SEAT} ${i + 2}`, avatarColor: colors[(i * 3 + 2) % colors.length], avatarIcon: AVATAR_ICONS[(i + 1) % AVATAR_ICONS.length].id
+    }));
+    // Humans can play without rivals, a lone human (or the AI in their place) cannot
+    if (count <= 1 && botCount === 0) setBotCount(1);
     playUiSound('CLICK');
+  };
+
+  const updateGuestSeat = (index: number, seat: Partial<SeatProfile>) => {
+    setGuestSeats(guestSeats.map((s, i) => i === index ? { ...s, ...seat } : s));
+  };
+
+  const buildWinCondition = (): WinCondition => {
     const tier = MISSION_TIERS[selectedTier];
-    const winCondition: WinCondition = {
+    return {
       levelId: -1,
       targetLevel: tier.level,
       targetCoins: tier.coins,
@@ -179,12 +220,73 @@ const MainMenu: React.FC = () => {
       difficulty: difficulty,
       label: `${tier.label} (L${tier.level} + ${tier.coins}c)`,
       queueSize: difficulty === 'EASY' ? 1 : difficulty === 'MEDIUM' ? 2 : 3,
-      winType: 'AND' // Enforce AND condition
+      winType: 'AND', // Enforce AND condition
+      botStrategies: botStrategies.slice(0, botCount),
+      botAggression: botAggression.slice(0, botCount),
+      capitalMode,
+      turnBased: !observe && (turnBased || isHotSeat),
+      observe: observe || undefined,
+      hotSeat: isHotSeat && !observe ? [{ nickname: user?.nickname || `${t.SEAT} 1`, avatarColor: user?.avatarColor || AVATAR_COLORS[5], avatarIcon: user?.avatarIcon || 'user' }, ...guestSeats.map(s => ({ ...s, nickname: s.nickname.trim() || t.SEAT }))] : undefined
     };
-    startNewGame(winCondition);
+  };
+
+  const confirmMissionStart = () => {
+    playUiSound('CLICK');
+    startNewGame(buildWinCondition());
     setShowMissionConfig(false);
   };
 
+  // Online: the humans' seats are played from their own screens, on a room of the server
+  const hostOnline = () => {
+    connectToServer(serverUrl.trim(), { type: 'HOST', winCondition: buildWinCondition() });
+  };
+
+  const joinOnline = () => {
+    if (!roomCode.trim()) return;
+    connectToServer(serverUrl.trim(), { type: 'JOIN', roomId: roomCode.trim().toUpperCase() });
+  };
+
+  // Follow a room without a seat
+  const watchOnline = () => {
+    if (!roomCode.trim()) return;
+    connectToServer(serverUrl.trim(), { type: 'WATCH', roomId: roomCode.trim().toUpperCase() });
+  };
+
+  const handleLoadSave = (id: string) => {
+    if (hasActiveSession && !window.confirm(t.ABANDON_CONFIRM)) return;
+    setShowLoadGame(false);
+    loadGame(id);
+  };
+
+  const handleDeleteSave = (id: string) => {
+    playUiSound('CLICK');
+    if (window.confirm(t.DELETE_SAVE_CONFIRM)) deleteSave(id);
+  };
+
+  const handleReplayClick = () => {
+    playUiSound('CLICK');
+    if (hasActiveSession && !window.confirm(t.ABANDON_CONFIRM)) return;
+    replayInputRef.current?.click();
+  };
+
+  const handleEditorClick = () => {
+    playUiSound('CLICK');
+    if (hasActiveSession && !window.confirm(t.ABANDON_CONFIRM)) return;
+    openEditor();
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+    try {
+      loadReplay(parseReplayFile(await readJsonFile(file)));
+    } catch (err) {
+      playUiSound('ERROR');
+      alert(err instanceof Error ? err.message : 'Failed to load replay');
+    }
+  };
+
   const handleLogout = () => {
     playUiSound('CLICK');
     if (hasActiveSession) {
@@ -309,6 +411,15 @@ const MainMenu: React.FC = () => {
                             {isSfxMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
                             <span className="text-xs font-bold uppercase">SFX</span>
                         </button>
+
+                        <button 
+                            onClick={() => { toggleEngineWorker(); playUiSound('CLICK'); }}
+                            title="Run the simulation in a background thread (applies to the next game)"
+                            className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors w-full text-left ${!useEngineWorker ? 'text-slate-500 hover:bg-slate-800' : 'text-emerald-400 bg-emerald-900/20 hover:bg-emerald-900/30'}`}
+                        >
+                            <Cpu className="w-4 h-4" />
+                            <span className="text-xs font-bold uppercase">Worker</span>
+                        </button>
                     </div>
                 )}
                 
@@ -408,6 +519,30 @@ const MainMenu: React.FC = () => {
             />
           )}
 
+          {saves.length > 0 && (
+            <MenuButton 
+              onClick={() => { setShowLoadGame(true); playUiSound('CLICK'); }}
+              icon={<FolderOpen className="w-5 h-5" />}
+              label={t.LOAD_GAME}
+              subLabel={t.LOAD_GAME_SUB}
+            />
+          )}
+
+          <MenuButton 
+            onClick={handleReplayClick}
+            icon={<Film className="w-5 h-5" />}
+            label={t.REPLAY}
+            subLabel={t.REPLAY_SUB}
+          />
+          <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+
+          <MenuButton 
+            onClick={handleEditorClick}
+            icon={<PencilRuler className="w-5 h-5" />}
+            label={t.EDITOR}
+            subLabel={t.EDITOR_SUB}
+          />
+
           <MenuButton 
             onClick={() => { setUIState('LEADERBOARD'); playUiSound('CLICK'); }}
             icon={<Trophy className="w-5 h-5" />}
@@ -550,6 +685,44 @@ const MainMenu: React.FC = () => {
         </div>
       )}
 
+      {/* LOAD GAME MODAL */}
+      {showLoadGame && (
+        <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl shadow-2xl w-full max-w-sm relative max-h-[85vh] overflow-y-auto">
+             <button onClick={() => { setShowLoadGame(false); playUiSound('CLICK'); }} className="cursor-pointer absolute top-4 right-4 text-slate-500 hover:text-white"><X className="w-5 h-5"/></button>
+             <h2 className="text-2xl font-bold text-white mb-6">{t.LOAD_TITLE}</h2>
+
+             <div className="flex flex-col gap-2">
+                {saves.length === 0 && (
+                  <div className="text-xs text-slate-500 text-center py-6">{t.LOAD_EMPTY}</div>
+                )}
+                {saves.map(save => (
+                  <div key={save.id} className="w-full p-3 rounded-xl border bg-slate-950 border-slate-800 flex items-center gap-3">
+                     <div className="flex-1 min-w-0 text-left">
+                       <div className="text-xs font-bold text-slate-200 truncate">{save.name}</div>
+                       <div className="text-[10px] text-slate-500 font-mono truncate">
+                         {new Date(save.savedAt).toLocaleString()} • Rank {save.playerLevel} • {save.coins} Credits
+                       </div>
+                     </div>
+                     <button
+                       onClick={() => handleLoadSave(save.id)}
+                       className="px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold uppercase transition-colors"
+                     >
+                       {t.BTN_LOAD}
+                     </button>
+                     <button
+                       onClick={() => handleDeleteSave(save.id)}
+                       className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                     >
+                       <Trash2 className="w-4 h-4" />
+                     </button>
+                  </div>
+                ))}
+             </div>
+          </div>
+        </div>
+      )}
+
       {/* CONFIG MODAL */}
       {showMissionConfig && (
         <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -598,11 +771,54 @@ const MainMenu: React.FC = () => {
                    </div>
                 </div>
                 
+                {/* Hot-Seat Humans */}
+                <div>
+                   <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">{t.HOT_SEAT}</label>
+                   <div className="flex gap-2">
+                      {Array.from({ length: MAX_SEATS + 1 }, (_, i) => i).map(c => (
+                         <button 
+                           key={c} 
+                           onClick={() => setHumanCount(c)}
+                           title={c === 0 ? t.OBSERVE : undefined}
+                           className={`flex-1 py-2 flex items-center justify-center gap-1 rounded-lg border text-[10px] font-bold uppercase ${(observe ? 0 : guestSeats.length + 1) === c ? 'bg-emerald-900/40 border-emerald-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                         >
+                           {c} {c === 0 ? <Eye className="w-3 h-3" /> : <UserCircle className="w-3 h-3" />}
+                         </button>
+                      ))}
+                   </div>
+                   {observe && <p className="mt-2 text-[10px] text-slate-400">{t.OBSERVE}</p>}
+                   {isHotSeat && (
+                     <div className="flex flex-col gap-2 mt-2">
+                        {guestSeats.map((seat, i) => (
+                           <div key={i} className="flex items-center gap-2">
+                             <span className="w-10 text-[10px] font-mono font-bold text-emerald-400">P{i + 2}</span>
+                             <input
+                               value={seat.nickname}
+                               maxLength={12}
+                               onChange={(e) => updateGuestSeat(i, { nickname: e.target.value })}
+                               className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-[10px] font-bold text-slate-300 focus:outline-none focus:border-indigo-500"
+                             />
+                             <div className="flex gap-1">
+                               {AVATAR_COLORS.map(c => (
+                                 <button
+                                   key={c}
+                                   onClick={() => updateGuestSeat(i, { avatarColor: c })}
+                                   className={`w-3 h-3 rounded-full ${seat.avatarColor === c ? 'ring-2 ring-white' : 'opacity-50 hover:opacity-100'}`}
+                                   style={{ backgroundColor: c }}
+                                 />
+                               ))}
+                             </div>
+                           </div>
+                        ))}
+                     </div>
+                   )}
+                </div>
+
                 {/* Bot Count */}
                 <div>
                    <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">Rivals</label>
                    <div className="flex gap-2">
-                      {[1, 2, 3, 4].map(c => (
+                      {(isHotSeat ? [0, 1, 2, 3, 4] : [1, 2, 3, 4]).map(c => (
                          <button 
                            key={c} 
                            onClick={() => { setBotCount(c); playUiSound('CLICK'); }}
@@ -614,6 +830,113 @@ const MainMenu: React.FC = () => {
                    </div>
                 </div>
 
+                {/* Bot Personalities */}
+                <div>
+                   <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">{t.RIVAL_STRATEGY}</label>
+                   <div className="flex flex-col gap-2">
+                      {botStrategies.slice(0, botCount).map((strategyId, i) => (
+                         <div key={i} className="flex items-center gap-2">
+                           <span className="w-10 text-[10px] font-mono font-bold text-red-400">AI {i + 1}</span>
+                           <select
+                             value={strategyId}
+                             onChange={(e) => {
+                               const next = [...botStrategies];
+                               next[i] = e.target.value as BotStrategyId;
+                               setBotStrategies(next);
+                               playUiSound('CLICK');
+                             }}
+                             className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-[10px] font-bold uppercase text-slate-300 focus:outline-none focus:border-indigo-500"
+                           >
+                             {BOT_STRATEGY_IDS.map(id => (
+                               <option key={id} value={id}>{TEXT[language].STRATEGIES[id]}</option>
+                             ))}
+                           </select>
+                           <select
+                             value={botAggression[i]}
+                             onChange={(e) => {
+                               const next = [...botAggression];
+                               next[i] = e.target.value as BotAggression;
+                               setBotAggression(next);
+                               playUiSound('CLICK');
+                             }}
+                             className="w-24 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-[10px] font-bold uppercase text-slate-300 focus:outline-none focus:border-indigo-500"
+                           >
+                             {(['PASSIVE', 'RIVAL', 'HOSTILE'] as BotAggression[]).map(level => (
+                               <option key={level} value={level}>{TEXT[language].AGGRESSION[level]}</option>
+                             ))}
+                           </select>
+                         </div>
+                      ))}
+                   </div>
+                </div>
+
+                {/* Capital Mode */}
+                <div>
+                   <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">{t.CAPITAL_MODE}</label>
+                   <button
+                     onClick={() => { setCapitalMode(!capitalMode); playUiSound('CLICK'); }}
+                     className={`w-full py-2 rounded-lg border text-[10px] font-bold uppercase ${capitalMode ? 'bg-violet-900/40 border-violet-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                   >
+                     {capitalMode ? t.CAPITAL_MODE_ON : t.CAPITAL_MODE_OFF}
+                   </button>
+                </div>
+
+                {/* Turn-Based */}
+                <div>
+                   <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">{t.TURN_MODE}</label>
+                   <button
+                     onClick={() => { setTurnBased(!turnBased); playUiSound('CLICK'); }}
+                     disabled={isHotSeat || observe}
+                     className={`w-full py-2 rounded-lg border text-[10px] font-bold uppercase disabled:cursor-not-allowed ${(turnBased || isHotSeat) && !observe ? 'bg-sky-900/40 border-sky-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                   >
+                     {(turnBased || isHotSeat) && !observe ? t.TURN_MODE_ON : t.TURN_MODE_OFF}
+                   </button>
+                </div>
+
+                {/* Online */}
+                <div>
+                   <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider mb-2 block">{t.ONLINE}</label>
+                   <input
+                     value={serverUrl}
+                     onChange={(e) => setServerUrl(e.target.value)}
+                     placeholder={t.ONLINE_SERVER}
+                     className="w-full mb-2 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-indigo-500"
+                   />
+                   <div className="flex gap-2">
+                     <button
+                       onClick={hostOnline}
+                       disabled={network?.connection === 'CONNECTING'}
+                       className="flex-1 py-2 rounded-lg border border-teal-500/50 bg-teal-900/30 hover:bg-teal-900/60 disabled:opacity-50 text-[10px] font-bold uppercase text-teal-200 flex items-center justify-center gap-1"
+                     >
+                       <Globe className="w-3 h-3" /> {t.ONLINE_HOST}
+                     </button>
+                     <input
+                       value={roomCode}
+                       onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                       placeholder={t.ONLINE_ROOM}
+                       maxLength={6}
+                       className="w-20 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-[10px] font-mono font-bold text-center text-slate-300 focus:outline-none focus:border-indigo-500"
+                     />
+                     <button
+                       onClick={joinOnline}
+                       disabled={!roomCode.trim() || network?.connection === 'CONNECTING'}
+                       className="px-3 py-2 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-[10px] font-bold uppercase text-slate-300"
+                     >
+                       {t.ONLINE_JOIN}
+                     </button>
+                     <button
+                       onClick={watchOnline}
+                       disabled={!roomCode.trim() || network?.connection === 'CONNECTING'}
+                       title={t.ONLINE_WATCH}
+                       className="px-3 py-2 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-slate-300 flex items-center justify-center"
+                     >
+                       <Eye className="w-3 h-3" />
+                     </button>
+                   </div>
+                   {network?.connection === 'CONNECTING' && <p className="mt-2 text-[10px] text-slate-400 animate-pulse">{t.ONLINE_CONNECTING}</p>}
+                   {network?.connection === 'OFFLINE' && network.error && <p className="mt-2 text-[10px] text-red-400">{network.error}</p>}
+                </div>
+
                 <button 
                   onClick={confirmMissionStart}
                   onMouseEnter={() => playUiSound('HOVER')}
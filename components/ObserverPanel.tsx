@@ -0,0 +1,98 @@
+import React from 'react';
+import { useGameStore } from '../store.ts';
+import { getEntityName, isHuman } from '../rules/entities.ts';
+import { TEXT } from '../services/i18n.ts';
+import { Eye, Footprints, Video, Activity } from 'lucide-react';
+
+const LOG_LINES = 8;
+
+// OBSERVER: every entity's standing side by side (clicking one follows it) and what the bots are up to
+const ObserverPanel: React.FC = () => {
+  const player = useGameStore(state => state.session?.player);
+  const hotSeats = useGameStore(state => state.session?.hotSeats);
+  const bots = useGameStore(state => state.session?.bots);
+  const botActivityLog = useGameStore(state => state.session?.botActivityLog);
+  const queueSize = useGameStore(state => state.session?.winCondition?.queueSize || 3);
+  const observer = useGameStore(state => state.observer);
+  const followEntity = useGameStore(state => state.followEntity);
+  const playUiSound = useGameStore(state => state.playUiSound);
+  const language = useGameStore(state => state.language);
+
+  if (!observer || !player || !bots) return null;
+
+  const t = TEXT[language].HUD;
+  const entities = [player, ...(hotSeats || []), ...bots];
+  const nameOf = (id: string) => {
+    const entity = entities.find(e => e.id === id);
+    return entity ? getEntityName(entity) : id.toUpperCase();
+  };
+
+  const follow = (id: string | null) => {
+    followEntity(id);
+    playUiSound('CLICK');
+  };
+
+  return (
+    <>
+      {/* ENTITY STRIP */}
+      <div className="absolute inset-x-0 bottom-28 md:bottom-36 flex justify-center px-2 pointer-events-none z-40">
+        <div className="pointer-events-auto flex items-stretch gap-2 overflow-x-auto no-scrollbar max-w-full">
+          <button
+            onClick={() => follow(null)}
+            className={`flex flex-col items-center justify-center gap-1 px-3 rounded-xl border backdrop-blur-xl text-[9px] font-bold uppercase shrink-0 ${observer.followId === null ? 'bg-slate-800 border-slate-400 text-white' : 'bg-slate-900/90 border-slate-700/50 text-slate-500 hover:text-slate-300'}`}
+          >
+            <Video className="w-4 h-4" />
+            {t.FREE_CAMERA}
+          </button>
+          {entities.map(e => {
+            const isFollowed = observer.followId === e.id;
+            const goal = e.memory?.currentGoal?.type;
+            return (
+              <button
+                key={e.id}
+                onClick={() => follow(e.id)}
+                className={`flex flex-col gap-1 px-3 py-2 rounded-xl border backdrop-blur-xl text-left min-w-[110px] shrink-0 transition-colors ${isFollowed ? 'bg-slate-800 border-slate-400' : 'bg-slate-900/90 border-slate-700/50 hover:border-slate-500'}`}
+              >
+                <div className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: e.avatarColor || (isHuman(e) ? '#3b82f6' : '#ef4444') }} />
+                  <span className="text-[10px] font-bold text-white truncate max-w-[80px]">{getEntityName(e)}</span>
+                  {isFollowed && <Eye className="w-3 h-3 text-slate-300 ml-auto" />}
+                </div>
+                <div className="flex items-center gap-2 font-mono text-[10px] font-bold">
+                  <span className="text-indigo-400" title={t.RANK}>L{e.playerLevel}</span>
+                  <span className="text-amber-400" title={t.CREDITS}>{e.coins}</span>
+                  <span className="text-blue-400 flex items-center gap-0.5" title={t.MOVES}><Footprints className="w-2.5 h-2.5 opacity-70" />{e.moves}</span>
+                </div>
+                <div className="flex items-center gap-1" title={t.CYCLE}>
+                  {Array.from({ length: queueSize }).map((_, i) => (
+                    <div key={i} className={`w-1.5 h-1.5 rounded-full ${e.recentUpgrades.length > i ? 'bg-emerald-400' : 'bg-slate-700'}`} />
+                  ))}
+                </div>
+                <span className="text-[9px] font-mono uppercase text-slate-400 truncate" title={t.GOAL}>{goal ? goal.replace(/_/g, ' ') : '—'}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* BOT ACTIVITY */}
+      <div className="absolute left-2 md:left-4 top-[80px] md:top-[110px] w-60 md:w-72 pointer-events-auto z-30 bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-xl overflow-hidden">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700/50 bg-slate-950/30">
+          <Activity className="w-3.5 h-3.5 text-emerald-400" />
+          <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">{t.BOT_ACTIVITY}</span>
+        </div>
+        <div className="flex flex-col gap-1 p-2 max-h-[30vh] overflow-y-auto no-scrollbar">
+          {(botActivityLog || []).slice(0, LOG_LINES).map((entry, i) => (
+            <div key={`${entry.timestamp}-${entry.botId}-${i}`} className="text-[10px] leading-tight">
+              <span className="font-bold text-white">{nameOf(entry.botId)}</span>
+              <span className="font-mono text-emerald-400 ml-1">{entry.action}{entry.target ? ` → ${entry.target}` : ''}</span>
+              {entry.reason && <div className="text-slate-500 truncate" title={entry.reason}>{entry.reason}</div>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ObserverPanel;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useGameStore } from '../store.ts';
+import { Play, Pause, X, Film } from 'lucide-react';
+import { TEXT } from '../services/i18n.ts';
+import { GAME_CONFIG } from '../rules/config.ts';
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+const formatTicks = (ticks: number) => {
+  const totalSeconds = Math.floor((ticks * GAME_CONFIG.TICK_INTERVAL_MS) / 1000);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC = () => {
+  const replay = useGameStore(state => state.replay);
+  const language = useGameStore(state => state.language);
+  const toggleReplayPlayback = useGameStore(state => state.toggleReplayPlayback);
+  const setReplaySpeed = useGameStore(state => state.setReplaySpeed);
+  const seekReplay = useGameStore(state => state.seekReplay);
+  const abandonSession = useGameStore(state => state.abandonSession);
+  const playUiSound = useGameStore(state => state.playUiSound);
+
+  if (!replay) return null;
+
+  const t = TEXT[language].REPLAY;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[90] w-[min(720px,calc(100%-2rem))] pointer-events-auto">
+      <div className="bg-slate-900/90 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl px-4 py-3 flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-indigo-300">
+            <Film className="w-4 h-4" />
+            <span className="text-[10px] font-bold uppercase tracking-wider">{t.TITLE}</span>
+          </div>
+          <span className="font-mono text-[10px] text-slate-400">
+            {t.TICK} {replay.tick} / {replay.length} · {formatTicks(replay.tick)} / {formatTicks(replay.length)}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => { toggleReplayPlayback(); playUiSound('CLICK'); }}
+            className="w-10 h-10 shrink-0 flex items-center justify-center rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+          >
+            {replay.isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+
+          <input
+            type="range"
+            min={0}
+            max={replay.length}
+            value={replay.tick}
+            onChange={(e) => seekReplay(Number(e.target.value))}
+            className="flex-1 accent-indigo-500 cursor-pointer"
+          />
+
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="hidden md:block text-[10px] text-slate-500 font-bold uppercase mr-1">{t.SPEED}</span>
+            {SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => { setReplaySpeed(speed); playUiSound('CLICK'); }}
+                className={`px-2 py-1 rounded-lg text-[10px] font-mono font-bold border transition-colors ${replay.speed === speed ? 'bg-indigo-900/40 border-indigo-500/50 text-indigo-300' : 'bg-slate-800/50 border-transparent text-slate-400 hover:text-white'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => { abandonSession(); playUiSound('CLICK'); }}
+            title={t.BTN_EXIT}
+            className="w-10 h-10 shrink-0 flex items-center justify-center rounded-xl bg-red-900/10 hover:bg-red-900/30 text-red-400 border border-red-900/30 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
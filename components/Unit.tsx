@@ -13,6 +13,7 @@ interface UnitProps {
   r: number;
   type: EntityType;
   color?: string; 
+  isActive?: boolean; // Ring under the unit the screen controls (defaults to every PLAYER)
   rotation: number;
   hexLevel: number;
   totalCoinsEarned: number;
@@ -161,7 +162,7 @@ const PointPopup: React.FC<{ y: number }> = ({ y }) => {
   );
 };
 
-const Unit: React.FC<UnitProps> = React.memo(({ q, r, type, color, rotation, hexLevel, totalCoinsEarned, upgradePointCount, onMoveComplete }) => {
+const Unit: React.FC<UnitProps> = React.memo(({ q, r, type, color, isActive, rotation, hexLevel, totalCoinsEarned, upgradePointCount, onMoveComplete }) => {
   const groupRef = useRef<Konva.Group>(null);
   const elevationGroupRef = useRef<Konva.Group>(null);
   const bodyRef = useRef<Konva.Group>(null);
@@ -352,7 +353,7 @@ const Unit: React.FC<UnitProps> = React.memo(({ q, r, type, color, rotation, hex
                 </Group>
             </Group>
 
-            {isPlayer && (
+            {(isActive ?? isPlayer) && (
               <Ellipse y={0} radiusX={16} radiusY={10} stroke="white" strokeWidth={1} opacity={0.6} dash={[4, 4]} />
             )}
             
@@ -1,10 +1,16 @@
 
-import { GameState, GameAction, EntityType, EntityState, ValidationResult, SessionState } from '../types';
+import { GameState, GameAction, GameEvent, Entity, EntityType, EntityState, HexCoord, ValidationResult, SessionState } from '../types';
 import { WorldIndex } from './WorldIndex';
-import { getHexKey } from '../services/hexUtils';
+import { getHexKey, getNeighbors } from '../services/hexUtils';
 import { checkGrowthCondition } from '../rules/growth';
 import { GAME_CONFIG, SAFETY_CONFIG, DIFFICULTY_SETTINGS } from '../rules/config';
 import { calculateMovementCost } from '../rules/movement';
+import { checkStructureBuild, checkBreach, getStructureMaxHp, getBreachDamage, isBlockedByStructure, BuildableStructure } from '../rules/structures';
+import { checkTrapArm, getTrapArmCost } from '../rules/traps';
+import { checkAttack } from '../rules/combat';
+import { costsTurnAction, getActionsLeft, isTurnResolving, spendTurnAction } from '../rules/turns';
+import { findEntity, getLogPrefix } from '../rules/entities';
+import { GameEventFactory } from './events';
 
 /**
  * ActionProcessor is now a STATELESS service.
@@ -14,8 +20,10 @@ export class ActionProcessor {
   constructor() {}
   
   public validateAction(state: SessionState, index: WorldIndex, actorId: string, action: GameAction): ValidationResult {
-    const actor = state.player.id === actorId ? state.player : state.bots.find(b => b.id === actorId);
+    const actor = findEntity(state, actorId);
     if (!actor) return { ok: false, reason: 'Entity not found' };
+    // HOT-SEAT: only the human at the screen gives orders
+    if (state.hotSeats?.some(h => h.id === actorId)) return { ok: false, reason: 'Not your turn' };
 
     // CAMPAIGN HOOK: Check if the current level has custom validation rules
     if (state.activeLevelConfig?.hooks?.onBeforeAction) {
@@ -29,6 +37,12 @@ export class ActionProcessor {
          return { ok: false, reason: `STALE STATE (v${action.stateVersion} vs v${state.stateVersion})` };
     }
 
+    // TURN-BASED: orders are given between turns, and every action but WAIT spends one of the turn's actions
+    if (state.turn && costsTurnAction(action)) {
+        if (isTurnResolving(state.turn)) return { ok: false, reason: 'Turn is resolving' };
+        if (getActionsLeft(state.turn, actorId) <= 0) return { ok: false, reason: 'No actions left this turn' };
+    }
+
     if (actor.state === EntityState.LOCKED) return { ok: false, reason: 'Actor Locked' };
     if (actor.state === EntityState.MOVING && action.type === 'MOVE') return { ok: false, reason: 'Already moving' };
 
@@ -38,6 +52,11 @@ export class ActionProcessor {
             const hex = state.grid[key];
             if (!hex) return { ok: false, reason: 'Invalid Coord' };
 
+            // STRUCTURES: Built instantly on the actor's hex, paid in credits
+            if (action.upgradeType && action.upgradeType !== 'DEFAULT') {
+                return checkStructureBuild(action.upgradeType, hex, actor);
+            }
+
             // Special Case: RECOVER intent.
             // Allowed on ANY hex (Common ownership concept).
             if (action.intent === 'RECOVER') {
@@ -68,6 +87,11 @@ export class ActionProcessor {
                 return { ok: false, reason: `Destination (${destination.q},${destination.r}) is occupied by ${entityAtDest.id}` };
             }
 
+            const walled = action.path.find(step => isBlockedByStructure(state.grid[getHexKey(step.q, step.r)], actor.id));
+            if (walled) {
+                return { ok: false, reason: `Path blocked by barrier at (${walled.q},${walled.r})` };
+            }
+
             // CENTRALIZED COST CHECK
             const costResult = calculateMovementCost(actor, action.path, state.grid);
             if (!costResult.canAfford) {
@@ -81,6 +105,15 @@ export class ActionProcessor {
             }
             break;
         }
+        case 'BREACH': {
+            return checkBreach(state.grid[getHexKey(action.coord.q, action.coord.r)], actor);
+        }
+        case 'ARM_TRAP': {
+            return checkTrapArm(state.grid[getHexKey(action.coord.q, action.coord.r)], actor, action.potency);
+        }
+        case 'ATTACK': {
+            return checkAttack(state.grid[getHexKey(action.coord.q, action.coord.r)], actor, action.tokens);
+        }
     }
 
     return { ok: true };
@@ -89,10 +122,11 @@ export class ActionProcessor {
   /**
    * Applies an action by MUTATING the passed-in state object.
    * This is safe because the GameEngine provides a deep copy.
+   * Events caused by the action (e.g. STRUCTURE_BUILT) are pushed to `events`, stamped with state.simTime.
    */
-  public applyAction(state: SessionState, index: WorldIndex, actorId: string, action: GameAction): ValidationResult {
+  public applyAction(state: SessionState, index: WorldIndex, actorId: string, action: GameAction, events: GameEvent[] = []): ValidationResult {
     const validation = this.validateAction(state, index, actorId, action);
-    const actor = state.player.id === actorId ? state.player : state.bots.find(b => b.id === actorId);
+    const actor = findEntity(state, actorId);
     
     if (!validation.ok) {
         if (actor && actor.type === EntityType.BOT) {
@@ -138,17 +172,137 @@ export class ActionProcessor {
         actor.movementQueue = action.path;
         break;
       }
-      case 'UPGRADE':
+      case 'UPGRADE': {
+        if (action.upgradeType && action.upgradeType !== 'DEFAULT') {
+            this.buildStructure(state, index, actor, action.upgradeType, action.coord, events);
+            break;
+        }
         actor.movementQueue = [{ q: action.coord.q, r: action.coord.r, upgrade: true, intent: action.intent }];
         break;
+      }
       case 'RECHARGE_MOVE':
         actor.coins = Math.max(0, actor.coins - GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE);
         actor.moves += 1;
         break;
+      case 'BREACH': {
+        // A breach costs one move (or its credit equivalent), like a single step
+        if (actor.moves >= 1) {
+            actor.moves -= 1;
+        } else {
+            actor.coins = Math.max(0, actor.coins - GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE);
+        }
+        this.damageStructure(state, index, actor, action.coord, events);
+        break;
+      }
+      case 'ARM_TRAP': {
+        const key = getHexKey(action.coord.q, action.coord.r);
+        const hex = state.grid[key];
+        const cost = getTrapArmCost(hex, action.potency);
+        actor.coins -= cost;
+        // Re-arming hides a sprung trap again
+        state.grid = { ...state.grid, [key]: { ...hex, trap: { active: true, potency: action.potency, revealed: false } } };
+
+        if (actor.type === EntityType.PLAYER) {
+            state.messageLog.unshift({
+                id: `trap-${state.simTime}`,
+                text: `${getLogPrefix(state, actor)} Trap Armed (Potency ${action.potency}, -${cost} Credits)`,
+                type: 'SUCCESS',
+                source: actor.id,
+                timestamp: state.simTime
+            });
+        }
+        break;
+      }
+      case 'ATTACK':
+        // Paid now, resolved by the CombatSystem on the next tick (same tick for bots)
+        actor.attackTokens = (actor.attackTokens || 0) - action.tokens;
+        actor.pendingAttack = { q: action.coord.q, r: action.coord.r, tokens: action.tokens };
+        break;
       case 'WAIT':
         break;
     }
+
+    if (state.turn && costsTurnAction(action)) {
+        state.turn = spendTurnAction(state.turn, actor.id);
+    }
     
     return { ok: true };
   }
+
+  private buildStructure(state: SessionState, index: WorldIndex, actor: Entity, type: BuildableStructure, coord: HexCoord, events: GameEvent[]) {
+    const key = getHexKey(coord.q, coord.r);
+    const previous = state.grid[key].structureType;
+    const built = { ...state.grid[key], structureType: type };
+    const label = type.charAt(0) + type.slice(1).toLowerCase();
+    const cost = GAME_CONFIG.STRUCTURES[type].cost;
+
+    actor.coins -= cost;
+    built.structureHp = getStructureMaxHp(built);
+    if (type === 'MINE') built.mineTimer = 0;
+    if (type === 'CAPITAL') {
+        actor.capitalId = key;
+        actor.capitalLostTo = undefined;
+    }
+    state.grid = { ...state.grid, [key]: built };
+    index.updateStructure(key, previous, type);
+
+    const prefix = getLogPrefix(state, actor);
+    const msg = `${prefix} ${label} Built (-${cost} Credits)`;
+    state.messageLog.unshift({
+        id: `build-${state.simTime}-${actor.id}`,
+        text: msg,
+        type: 'SUCCESS',
+        source: actor.id,
+        timestamp: state.simTime
+    });
+    events.push(GameEventFactory.create('STRUCTURE_BUILT', msg, actor.id, { q: coord.q, r: coord.r, structureType: type }, state.simTime));
+  }
+
+  private damageStructure(state: SessionState, index: WorldIndex, actor: Entity, coord: HexCoord, events: GameEvent[]) {
+    const key = getHexKey(coord.q, coord.r);
+    const hex = state.grid[key];
+    const neighbors = getNeighbors(coord.q, coord.r).map(n => state.grid[getHexKey(n.q, n.r)]);
+    const hp = (hex.structureHp ?? getStructureMaxHp(hex)) - getBreachDamage(hex, neighbors);
+    const label = hex.structureType === 'CAPITAL' ? 'Capital' : 'Barrier';
+    const data = { q: coord.q, r: coord.r, structureType: hex.structureType, ownerId: hex.ownerId, hp: Math.max(0, hp) };
+
+    if (hp > 0) {
+        state.grid = { ...state.grid, [key]: { ...hex, structureHp: hp } };
+        events.push(GameEventFactory.create('STRUCTURE_DAMAGED', `${label} hit (${hp} HP left)`, actor.id, data, state.simTime));
+        return;
+    }
+
+    state.grid = { ...state.grid, [key]: { ...hex, structureType: 'NONE', structureHp: undefined } };
+    index.updateStructure(key, hex.structureType, 'NONE');
+
+    if (hex.structureType === 'CAPITAL') {
+        const owner = hex.ownerId ? findEntity(state, hex.ownerId) : undefined;
+        if (owner) {
+            owner.capitalId = undefined;
+            owner.capitalLostTo = actor.id;
+        }
+    }
+
+    const prefix = getLogPrefix(state, actor);
+    const msg = `${prefix} ${hex.structureType === 'CAPITAL' ? 'Razed' : 'Breached'} ${label} (${coord.q},${coord.r})`;
+    state.messageLog.unshift({
+        id: `breach-${state.simTime}-${actor.id}`,
+        text: msg,
+        type: hex.ownerId === state.player.id ? 'WARN' : 'INFO',
+        source: actor.id,
+        timestamp: state.simTime
+    });
+    events.push(GameEventFactory.create('STRUCTURE_DESTROYED', msg, actor.id, data, state.simTime));
+  }
 }
+
+/**
+ * Actions given on a mirrored state (a RemoteEngine's or a WorkerEngine's) carry the version it had,
+ * which the engine's own state has moved past meanwhile. Within `maxLag` versions that is close enough:
+ * the action is moved onto the current version and validated as usual.
+ */
+export const rebaseAction = (action: GameAction, stateVersion: number, maxLag: number): GameAction => {
+  if (action.stateVersion === undefined) return action;
+  const lag = stateVersion - action.stateVersion;
+  return lag >= 0 && lag <= maxLag ? { ...action, stateVersion } : action;
+};
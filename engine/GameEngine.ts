@@ -1,40 +1,87 @@
 
-import { GameState, GameAction, GameEvent, ValidationResult, SessionState, EntityState, LeaderboardEntry, Hex } from '../types';
+import { GameState, GameAction, GameEvent, ValidationResult, SessionState, Entity, EntityState, LeaderboardEntry, Hex } from '../types';
 import { WorldIndex } from './WorldIndex';
-import { System } from './systems/System';
+import { System, SimulationContext } from './systems/System';
 import { MovementSystem } from './systems/MovementSystem';
 import { GrowthSystem } from './systems/GrowthSystem';
 import { AiSystem } from './systems/AiSystem';
 import { VictorySystem } from './systems/VictorySystem';
+import { EconomySystem } from './systems/EconomySystem';
+import { CombatSystem } from './systems/CombatSystem';
 import { ActionProcessor } from './ActionProcessor';
-import { SAFETY_CONFIG } from '../rules/config';
+import { SAFETY_CONFIG, GAME_CONFIG } from '../rules/config';
+import { startTurn, isTurnResolving, hasSeatsToPlay, passSeat } from '../rules/turns';
+import { getEntities } from '../rules/entities';
 import { GameEventFactory } from './events';
+import { SimulationClock, FixedStepClock } from './SimulationClock';
+import { SeededRandom } from './SeededRandom';
+import { ReplayRecorder } from './ReplayRecorder';
+import { PatchBase, SessionPatch, createPatchBase, diffSession } from './SessionPatch';
 
 export interface TickResult {
-  state: SessionState;
+  /** Null when there is no state to show: the engine was destroyed (or a remote one has not received its first yet). */
+  state: SessionState | null;
   events: GameEvent[];
+  /** Everything that changed since the previous TickResult (actions in between included); with `options.patches` only. */
+  patch?: SessionPatch;
 }
 
+export interface GameEngineOptions {
+  /** Defaults to a FixedStepClock continuing from initialState.simTime */
+  clock?: SimulationClock;
+  /** Defaults to a SeededRandom restored from initialState.rngState */
+  rng?: SeededRandom;
+  /** Receives every external input (actions, intents, mission start, turn ends) for replays */
+  recorder?: ReplayRecorder;
+  /** Take a SessionPatch on every tick (TickResult.patch), for subscribers that follow the state remotely */
+  patches?: boolean;
+}
+
+/**
+ * What the store drives a session through: a local GameEngine, or a RemoteEngine
+ * relaying the same calls to a GameServer (net/).
+ */
+export type SessionEngine = Pick<GameEngine, 'state' | 'applyAction' | 'setPlayerIntent' | 'startMission' | 'endTurn' | 'processTick' | 'destroy'>;
+
 export class GameEngine {
   private _state: SessionState | null;
   private _index: WorldIndex | null;
   private _systems: System[];
   private _actionProcessor: ActionProcessor | null;
+  private _ai: AiSystem;
+  private _context: SimulationContext;
+  private _recorder: ReplayRecorder | null;
+  // Events raised by external actions between ticks; delivered with the next TickResult
+  private _pendingEvents: GameEvent[] = [];
+  // The state as of the last patch taken (when taking patches)
+  private _patchBase: PatchBase | null;
 
-  constructor(initialState: SessionState) {
+  constructor(initialState: SessionState, options: GameEngineOptions = {}) {
     // CRITICAL: Use object spread (shallow copy) for the top-level session state
     // instead of JSON serialization to preserve function references in activeLevelConfig.
     // Deep properties (grid, player, bots) will be cloned separately if modified by systems via Copy-On-Write.
     this._state = { ...initialState };
     this._state.stateVersion = this._state.stateVersion || 0;
+
+    // DETERMINISM: Time and randomness are owned by the engine and restored from the state,
+    // so the same seed + the same action stream always produces the same states.
+    this._context = {
+      clock: options.clock || new FixedStepClock(this._state.simTime),
+      rng: options.rng || new SeededRandom(this._state.rngState)
+    };
+    this._recorder = options.recorder || null;
     
-    this._index = new WorldIndex(this._state!.grid, [this._state!.player, ...this._state!.bots]);
+    this._index = new WorldIndex(this._state!.grid, getEntities(this._state!));
+    this._patchBase = options.patches ? createPatchBase(this._state) : null;
     this._actionProcessor = new ActionProcessor();
+    this._ai = new AiSystem(this._actionProcessor);
     
     this._systems = [
       new GrowthSystem(),
-      new AiSystem(this._actionProcessor!),
+      this._ai,
+      new CombatSystem(),
       new MovementSystem(),
+      new EconomySystem(),
       new VictorySystem()
     ];
   }
@@ -43,6 +90,11 @@ export class GameEngine {
     return this._state;
   }
 
+  /** Current simulation time. Use instead of Date.now() for anything compared against state timestamps. */
+  public now(): number {
+    return this._context.clock.now();
+  }
+
   /**
    * Safe Grid Update Helper
    * Ensures the grid container is copied (Copy-On-Write) before applying updates.
@@ -73,8 +125,9 @@ export class GameEngine {
       
       player: { ...source.player }, // Shallow copy
       
-      // OPTIMIZATION: Shallow copy bots array.
+      // OPTIMIZATION: Shallow copy bots array (and the waiting hot-seat humans).
       bots: [...source.bots], 
+      hotSeats: source.hotSeats ? [...source.hotSeats] : undefined,
       
       // Shallow copy logs to prevent mutation of history
       messageLog: [...source.messageLog], 
@@ -92,28 +145,89 @@ export class GameEngine {
     };
   }
 
+  /**
+   * An independent engine continuing from this one's state, e.g. for planners simulating ahead (see bot/planner).
+   * Cheap: the copy-on-write grid is shared, only the entities (mutated in place by the systems) are copied.
+   * Same clock and random state, so a fork replays the same ticks as the original would.
+   */
+  public fork(): GameEngine | null {
+    if (!this._state) return null;
+    const copy = (entity: Entity): Entity => ({ ...entity, movementQueue: [...entity.movementQueue], recentUpgrades: [...entity.recentUpgrades], memory: entity.memory && { ...entity.memory } });
+    const state = this.cloneState(this._state);
+    state.player = copy(state.player);
+    state.bots = state.bots.map(copy);
+    if (state.hotSeats) state.hotSeats = state.hotSeats.map(copy);
+    return new GameEngine({ ...state, simTime: this._context.clock.now(), rngState: this._context.rng.state });
+  }
+
   public setPlayerIntent(isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
       if (!this._state) return;
+      this._recorder?.recordIntent(this._state.tick, isGrowing, intent);
       const nextState = this.cloneState(this._state);
       nextState.isPlayerGrowing = isGrowing;
       nextState.playerGrowthIntent = intent;
+      // Stopping also drops a queued growth order (turn-based sessions queue one with the toggle)
+      const order = nextState.player.movementQueue[0];
+      if (!isGrowing && order?.upgrade) nextState.player.movementQueue = nextState.player.movementQueue.slice(1);
       nextState.stateVersion++;
       this._state = nextState;
   }
 
   public startMission() {
       if (!this._state) return;
+      this._recorder?.recordStartMission(this._state.tick);
       const nextState = this.cloneState(this._state);
       nextState.gameStatus = 'PLAYING';
       nextState.stateVersion++;
       this._state = nextState;
   }
 
+  /**
+   * Turn-based sessions: bots plan their whole turn, then the next TURNS.ticksPerTurn ticks resolve it.
+   * Once they have, every entity gets a fresh action budget and the engine idles until the next call.
+   * Hot-seat: each human ends their turn in seat order; only the last seat's End Turn resolves it.
+   */
+  public endTurn(): ValidationResult {
+    if (!this._state || !this._index) return { ok: false, reason: "Engine Destroyed" };
+    if (!this._state.turn) return { ok: false, reason: 'Not a turn-based session' };
+    if (isTurnResolving(this._state.turn)) return { ok: false, reason: 'Turn is resolving' };
+    this._recorder?.recordEndTurn(this._state.tick);
+
+    const nextState = this.cloneState(this._state);
+    passSeat(nextState); // Hot-seat: the next human, or back to seat 1 for the resolution
+    if (hasSeatsToPlay(this._state)) {
+        nextState.turn = { ...nextState.turn!, seat: nextState.turn!.seat + 1 };
+        nextState.stateVersion++;
+        this._state = nextState;
+        return { ok: true };
+    }
+
+    this._ai.planTurn(nextState, this._index, this._pendingEvents, this._context);
+    nextState.turn = { ...nextState.turn!, seat: 0, ticksLeft: GAME_CONFIG.TURNS.ticksPerTurn };
+    nextState.rngState = this._context.rng.state;
+    nextState.stateVersion++;
+    this._state = nextState;
+    return { ok: true };
+  }
+
+  /**
+   * Changes since the last TickResult or takePatch. For a sync point between ticks, e.g. before
+   * handing a snapshot to a new subscriber that will follow the next ticks' patches.
+   */
+  public takePatch(): SessionPatch | undefined {
+    if (!this._state || !this._patchBase) return undefined;
+    const patch = diffSession(this._patchBase, this._state);
+    this._patchBase = createPatchBase(this._state);
+    return patch;
+  }
+
   public applyAction(actorId: string, action: GameAction): ValidationResult {
     if (!this._state || !this._index || !this._actionProcessor) return { ok: false, reason: "Engine Destroyed" };
+    // Rejected actions are recorded too: validation is deterministic, so they are rejected again on replay.
+    this._recorder?.recordAction(this._state.tick, actorId, action);
     const nextState = this.cloneState(this._state);
     this._index.syncState(nextState);
-    const result = this._actionProcessor.applyAction(nextState, this._index, actorId, action);
+    const result = this._actionProcessor.applyAction(nextState, this._index, actorId, action, this._pendingEvents);
     if (result.ok) {
         nextState.stateVersion++;
         this._state = nextState;
@@ -122,15 +236,27 @@ export class GameEngine {
   }
   
   public processTick(): TickResult {
-    if (!this._state || !this._index) return { state: {} as any, events: [] };
+    if (!this._state || !this._index) return { state: null, events: [] };
+
+    // TURN-BASED: time stands still between turns (see endTurn)
+    if (this._state.turn && !isTurnResolving(this._state.turn)) {
+        const events = this._pendingEvents;
+        this._pendingEvents = [];
+        return { state: this._state, events, patch: this.takePatch() };
+    }
 
     const nextState = this.cloneState(this._state);
     this._index.syncGrid(nextState.grid); // Still sync grid structure for pathfinding safety
 
-    const tickEvents: GameEvent[] = [];
+    const tickEvents: GameEvent[] = this._pendingEvents;
+    this._pendingEvents = [];
+
+    this._context.clock.advance();
+    const now = this._context.clock.now();
+    nextState.tick = (nextState.tick || 0) + 1;
+    nextState.simTime = now;
 
     // 1. Cleanup old effects
-    const now = Date.now();
     const activeEffects = nextState.effects.filter(e => now - e.startTime < e.lifetime);
     if (activeEffects.length !== nextState.effects.length) {
         nextState.effects = activeEffects;
@@ -138,7 +264,19 @@ export class GameEngine {
 
     // 2. Update Systems
     for (const system of this._systems) {
-        system.update(nextState, this._index, tickEvents);
+        system.update(nextState, this._index, tickEvents, this._context);
+    }
+
+    nextState.rngState = this._context.rng.state;
+
+    if (nextState.turn) {
+        const ticksLeft = nextState.turn.ticksLeft - 1;
+        if (ticksLeft > 0) {
+            nextState.turn = { ...nextState.turn, ticksLeft };
+        } else {
+            nextState.currentTurn++;
+            nextState.turn = startTurn(getEntities(nextState));
+        }
     }
 
     this.enforceSafetyLimits(nextState);
@@ -148,7 +286,8 @@ export class GameEngine {
 
     return {
         state: this._state,
-        events: tickEvents
+        events: tickEvents,
+        patch: this.takePatch()
     };
   }
 
@@ -163,8 +302,7 @@ export class GameEngine {
           state.telemetry = state.telemetry.slice(state.telemetry.length - SAFETY_CONFIG.MAX_LOG_SIZE);
       }
 
-      const entities = [state.player, ...state.bots];
-      for (const ent of entities) {
+      for (const ent of getEntities(state)) {
           if (ent.movementQueue.length > SAFETY_CONFIG.MAX_MOVEMENT_QUEUE) {
               ent.movementQueue = ent.movementQueue.slice(0, SAFETY_CONFIG.MAX_MOVEMENT_QUEUE);
               ent.state = EntityState.IDLE; 
@@ -174,8 +312,11 @@ export class GameEngine {
 
   public destroy() {
     this._systems = [];
+    this._recorder = null;
+    this._pendingEvents = [];
     this._index = null;
     this._state = null;
+    this._patchBase = null;
     this._actionProcessor = null;
   }
 }
@@ -0,0 +1,123 @@
+
+import { SessionState } from '../types';
+import { GameEngine } from './GameEngine';
+import { ReplayEntry, ReplayFile } from './ReplayRecorder';
+import { SerializedSession, serializeSession, deserializeSession } from '../services/sessionSnapshot';
+
+// Snapshot every N ticks so scrubbing backwards does not re-simulate from tick 0
+const CHECKPOINT_INTERVAL = 100;
+
+interface Checkpoint {
+  snapshot: SerializedSession;
+  cursor: number; // Index of the first entry not yet applied
+}
+
+/**
+ * Reconstructs a recorded match by re-feeding its inputs into a fresh GameEngine.
+ * Relies on engine determinism (seeded PRNG + fixed-step clock).
+ */
+export class ReplayPlayer {
+  private readonly file: ReplayFile;
+  private engine: GameEngine;
+  private cursor = 0;
+  private checkpoints: Map<number, Checkpoint> = new Map();
+
+  constructor(file: ReplayFile) {
+    this.file = file;
+    this.engine = new GameEngine(deserializeSession(file.initialState));
+    this.checkpoints.set(0, { snapshot: file.initialState, cursor: 0 });
+    this.seek(0);
+  }
+
+  public get length(): number {
+    return this.file.finalTick;
+  }
+
+  public get tick(): number {
+    return this.engine.state?.tick || 0;
+  }
+
+  public get state(): SessionState | null {
+    return this.engine.state;
+  }
+
+  public get isFinished(): boolean {
+    return this.tick >= this.length;
+  }
+
+  /** Moves the reconstruction to `target` (clamped to the recording length). */
+  public seek(target: number): SessionState | null {
+    const tick = Math.max(0, Math.min(this.length, Math.floor(target)));
+
+    if (tick < this.tick) {
+      this.restoreCheckpoint(tick);
+    }
+
+    while (true) {
+      this.applyEntriesUpTo(this.tick);
+      if (this.tick >= tick) break;
+
+      const before = this.tick;
+      this.engine.processTick();
+      // A turn-based recording that stops between turns: nothing left to play
+      if (this.tick === before) break;
+      this.saveCheckpoint();
+    }
+
+    return this.engine.state;
+  }
+
+  public step(ticks: number = 1): SessionState | null {
+    return this.seek(this.tick + ticks);
+  }
+
+  public destroy() {
+    this.engine.destroy();
+    this.checkpoints.clear();
+  }
+
+  private applyEntriesUpTo(tick: number) {
+    const entries = this.file.entries;
+    while (this.cursor < entries.length && entries[this.cursor].tick <= tick) {
+      this.applyEntry(entries[this.cursor]);
+      this.cursor++;
+    }
+  }
+
+  private applyEntry(entry: ReplayEntry) {
+    switch (entry.kind) {
+      case 'ACTION':
+        // The engine adopts action payloads (e.g. MOVE paths become the movement queue),
+        // so hand it a copy to keep entries intact for the next pass after a seek.
+        this.engine.applyAction(entry.actorId, JSON.parse(JSON.stringify(entry.action)));
+        break;
+      case 'INTENT':
+        this.engine.setPlayerIntent(entry.isGrowing, entry.intent);
+        break;
+      case 'START_MISSION':
+        this.engine.startMission();
+        break;
+      case 'END_TURN':
+        this.engine.endTurn();
+        break;
+    }
+  }
+
+  private saveCheckpoint() {
+    const tick = this.tick;
+    if (tick % CHECKPOINT_INTERVAL !== 0 || this.checkpoints.has(tick) || !this.engine.state) return;
+    this.checkpoints.set(tick, { snapshot: serializeSession(this.engine.state), cursor: this.cursor });
+  }
+
+  private restoreCheckpoint(target: number) {
+    let best = 0;
+    for (const tick of this.checkpoints.keys()) {
+      if (tick <= target && tick > best) best = tick;
+    }
+    const checkpoint = this.checkpoints.get(best)!;
+
+    this.engine.destroy();
+    this.engine = new GameEngine(deserializeSession(checkpoint.snapshot));
+    this.cursor = checkpoint.cursor;
+  }
+}
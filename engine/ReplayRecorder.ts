@@ -0,0 +1,94 @@
+
+import { GameAction, SessionState } from '../types';
+import { SerializedSession, serializeSession } from '../services/sessionSnapshot';
+
+export const REPLAY_FORMAT = 'hexquest-replay';
+export const REPLAY_FORMAT_VERSION = 1;
+
+/**
+ * Every external input the engine received, stamped with the tick it arrived on
+ * (state.tick = number of ticks processed before the input).
+ * Bot actions are NOT recorded - they are re-derived by the AiSystem on replay.
+ */
+export type ReplayEntry =
+  | { tick: number; kind: 'ACTION'; actorId: string; action: GameAction }
+  | { tick: number; kind: 'INTENT'; isGrowing: boolean; intent: 'RECOVER' | 'UPGRADE' | null }
+  | { tick: number; kind: 'START_MISSION' }
+  | { tick: number; kind: 'END_TURN' };
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  sessionId: string;
+  seed: number;
+  recordedAt: number; // Wall-clock date of export (metadata only)
+  finalTick: number;
+  initialState: SerializedSession;
+  entries: ReplayEntry[];
+}
+
+export class ReplayRecorder {
+  private readonly initialState: SerializedSession;
+  private readonly entries: ReplayEntry[] = [];
+
+  constructor(initialState: SessionState) {
+    // Snapshot immediately - the engine mutates entities in place.
+    this.initialState = serializeSession(initialState);
+  }
+
+  public recordAction(tick: number, actorId: string, action: GameAction) {
+    this.entries.push({ tick, kind: 'ACTION', actorId, action: JSON.parse(JSON.stringify(action)) });
+  }
+
+  public recordIntent(tick: number, isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
+    this.entries.push({ tick, kind: 'INTENT', isGrowing, intent });
+  }
+
+  public recordStartMission(tick: number) {
+    this.entries.push({ tick, kind: 'START_MISSION' });
+  }
+
+  public recordEndTurn(tick: number) {
+    this.entries.push({ tick, kind: 'END_TURN' });
+  }
+
+  /** Entries recorded elsewhere, e.g. by the recorder of an engine hosted in a Web Worker. */
+  public append(entries: ReplayEntry[]) {
+    this.entries.push(...entries);
+  }
+
+  public entriesSince(index: number): ReplayEntry[] {
+    return this.entries.slice(index);
+  }
+
+  public toFile(finalTick: number): ReplayFile {
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_FORMAT_VERSION,
+      sessionId: this.initialState.sessionId,
+      seed: this.initialState.seed,
+      recordedAt: Date.now(),
+      finalTick,
+      initialState: this.initialState,
+      entries: [...this.entries]
+    };
+  }
+}
+
+/**
+ * Validates untrusted JSON (e.g. an uploaded file) as a replay.
+ * Throws with a readable message if the file cannot be played.
+ */
+export const parseReplayFile = (data: unknown): ReplayFile => {
+  const file = data as Partial<ReplayFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== REPLAY_FORMAT) {
+    throw new Error('Not a HexQuest replay file');
+  }
+  if (file.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version ${file.version} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+  if (!file.initialState || !Array.isArray(file.entries) || typeof file.finalTick !== 'number') {
+    throw new Error('Replay file is corrupted');
+  }
+  return file as ReplayFile;
+};
@@ -0,0 +1,59 @@
+
+/**
+ * Seeded PRNG (mulberry32).
+ * The whole generator state is a single uint32, so it can be stored on
+ * SessionState (rngState) and restored with `new SeededRandom(state.rngState)`.
+ */
+export class SeededRandom {
+  private _state: number;
+
+  constructor(seed: number) {
+    this._state = seed >>> 0;
+  }
+
+  /** Picks a fresh seed for a new session. The only place allowed to use Math.random. */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+  }
+
+  public get state(): number {
+    return this._state;
+  }
+
+  /** Float in [0, 1) */
+  public next(): number {
+    this._state = (this._state + 0x6D2B79F5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [0, max) */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  public pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /** Fisher-Yates shuffle. Returns a new array. */
+  public shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /** Base36 identifier, e.g. for session ids. */
+  public nextId(length: number = 13): string {
+    let id = '';
+    while (id.length < length) {
+      id += this.nextInt(36).toString(36);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,195 @@
+import { BotLogEntry, Entity, Hex, LogEntry, SessionState } from '../types';
+import { getEntities } from '../rules/entities';
+
+/**
+ * Structured diff between two engine states: the hexes that changed, the entity fields that changed,
+ * the log entries added and any other session field that changed (whole). The GameEngine takes one
+ * per tick (TickResult.patch); applying them in order onto a copy of an earlier state rebuilds the later
+ * ones, without re-sending or re-rendering what stayed the same.
+ */
+
+export interface LogPatch<T> {
+  added: T[];      // Newest first, like the log itself
+  size: number;    // Log length afterwards: older entries drop off the end
+  reset?: boolean; // None of the previous entries are left
+}
+
+export interface EntityPatch {
+  set?: Partial<Entity>;
+  unset?: (keyof Entity)[];
+}
+
+export interface SessionRoster {
+  player: string;
+  hotSeats?: string[];
+  bots: string[];
+}
+
+// Patched per hex, per entity or per entry rather than whole
+type StructuredKey = 'grid' | 'player' | 'hotSeats' | 'bots' | 'messageLog' | 'botActivityLog' | 'activeLevelConfig';
+const STRUCTURED_KEYS: string[] = ['grid', 'player', 'hotSeats', 'bots', 'messageLog', 'botActivityLog', 'activeLevelConfig'];
+
+export interface SessionPatch {
+  baseVersion: number;
+  version: number;
+  hexes?: Record<string, Hex>; // Changed or new
+  removedHexes?: string[];
+  entities?: Record<string, EntityPatch>;
+  roster?: SessionRoster; // Which entity is the player, a waiting human or a bot - when that changed
+  messageLog?: LogPatch<LogEntry>;
+  botActivityLog?: LogPatch<BotLogEntry>;
+  fields?: Partial<Omit<SessionState, StructuredKey>>;
+  unsetFields?: string[];
+}
+
+/**
+ * What a state looked like when the last patch was taken. Entities are mutated in place by the
+ * systems, so they (and the plain fields) are kept as JSON; grid and log entries are copy-on-write
+ * and kept by reference.
+ */
+export interface PatchBase {
+  version: number;
+  grid: Record<string, Hex>;
+  entities: Map<string, Record<string, string>>;
+  roster: string;
+  messageHead: LogEntry | undefined;
+  botActivityHead: BotLogEntry | undefined;
+  fields: Record<string, string>;
+}
+
+const toJsonFields = (source: object, skip: string[] = []): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined || skip.includes(key)) continue;
+    fields[key] = JSON.stringify(value);
+  }
+  return fields;
+};
+
+const getRoster = (state: SessionState): SessionRoster => ({
+  player: state.player.id,
+  ...(state.hotSeats ? { hotSeats: state.hotSeats.map(h => h.id) } : {}),
+  bots: state.bots.map(b => b.id)
+});
+
+/** Changed and removed keys of two JSON field maps; values are fresh copies, never live engine objects. */
+const diffJsonFields = (before: Record<string, string>, after: Record<string, string>) => {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  for (const key of Object.keys(after)) {
+    if (before[key] !== after[key]) set[key] = JSON.parse(after[key]);
+  }
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) unset.push(key);
+  }
+  return { set, unset };
+};
+
+const diffLog = <T>(head: T | undefined, log: T[]): LogPatch<T> | undefined => {
+  if (log[0] === head) return undefined;
+  if (head === undefined) return { added: [...log], size: log.length };
+  const kept = log.indexOf(head);
+  return kept === -1 ? { added: [...log], size: log.length, reset: true } : { added: log.slice(0, kept), size: log.length };
+};
+
+const applyLog = <T>(log: T[], patch: LogPatch<T> | undefined): T[] => {
+  if (!patch) return log;
+  return patch.reset ? patch.added : [...patch.added, ...log].slice(0, patch.size);
+};
+
+export const createPatchBase = (state: SessionState): PatchBase => {
+  const entities = new Map<string, Record<string, string>>();
+  for (const entity of getEntities(state)) entities.set(entity.id, toJsonFields(entity));
+  return {
+    version: state.stateVersion,
+    grid: state.grid,
+    entities,
+    roster: JSON.stringify(getRoster(state)),
+    messageHead: state.messageLog[0],
+    botActivityHead: state.botActivityLog[0],
+    fields: toJsonFields(state, STRUCTURED_KEYS)
+  };
+};
+
+export const diffSession = (base: PatchBase, state: SessionState): SessionPatch => {
+  const patch: SessionPatch = { baseVersion: base.version, version: state.stateVersion };
+
+  if (state.grid !== base.grid) {
+    const hexes: Record<string, Hex> = {};
+    for (const key of Object.keys(state.grid)) {
+      if (state.grid[key] !== base.grid[key]) hexes[key] = state.grid[key];
+    }
+    const removed = Object.keys(base.grid).filter(key => !state.grid[key]);
+    if (Object.keys(hexes).length > 0) patch.hexes = hexes;
+    if (removed.length > 0) patch.removedHexes = removed;
+  }
+
+  const entities: Record<string, EntityPatch> = {};
+  for (const entity of getEntities(state)) {
+    const { set, unset } = diffJsonFields(base.entities.get(entity.id) || {}, toJsonFields(entity));
+    if (Object.keys(set).length === 0 && unset.length === 0) continue;
+    entities[entity.id] = {
+      ...(Object.keys(set).length > 0 ? { set: set as Partial<Entity> } : {}),
+      ...(unset.length > 0 ? { unset: unset as (keyof Entity)[] } : {})
+    };
+  }
+  if (Object.keys(entities).length > 0) patch.entities = entities;
+
+  const roster = getRoster(state);
+  if (JSON.stringify(roster) !== base.roster) patch.roster = roster;
+
+  const messageLog = diffLog(base.messageHead, state.messageLog);
+  if (messageLog) patch.messageLog = messageLog;
+  const botActivityLog = diffLog(base.botActivityHead, state.botActivityLog);
+  if (botActivityLog) patch.botActivityLog = botActivityLog;
+
+  const { set, unset } = diffJsonFields(base.fields, toJsonFields(state, STRUCTURED_KEYS));
+  if (Object.keys(set).length > 0) patch.fields = set;
+  if (unset.length > 0) patch.unsetFields = unset;
+
+  return patch;
+};
+
+export const isEmptyPatch = (patch: SessionPatch): boolean =>
+  patch.baseVersion === patch.version && Object.keys(patch).length === 2;
+
+/**
+ * A new state with the patch applied (the given one is left untouched).
+ * Returns null when the patch was not taken against `state` (one was missed on the way).
+ */
+export const applySessionPatch = (state: SessionState, patch: SessionPatch): SessionState | null => {
+  if (patch.baseVersion !== state.stateVersion) return null;
+  const next: SessionState = { ...state, ...patch.fields };
+  for (const key of patch.unsetFields || []) delete (next as unknown as Record<string, unknown>)[key];
+
+  if (patch.hexes || patch.removedHexes) {
+    next.grid = { ...state.grid, ...patch.hexes };
+    for (const key of patch.removedHexes || []) delete next.grid[key];
+  }
+
+  if (patch.entities || patch.roster) {
+    const byId = new Map(getEntities(state).map(e => [e.id, e]));
+    for (const [id, change] of Object.entries(patch.entities || {})) {
+      const entity = { ...byId.get(id), ...change.set } as Entity;
+      for (const key of change.unset || []) delete entity[key];
+      byId.set(id, entity);
+    }
+    const roster = patch.roster || getRoster(state);
+    next.player = byId.get(roster.player)!;
+    next.hotSeats = roster.hotSeats?.map(id => byId.get(id)!);
+    next.bots = roster.bots.map(id => byId.get(id)!);
+  }
+
+  next.messageLog = applyLog(state.messageLog, patch.messageLog);
+  next.botActivityLog = applyLog(state.botActivityLog, patch.botActivityLog);
+  return next;
+};
+
+/**
+ * Floating texts are added by the store to the state it is handed. A mirrored state never gets them
+ * back from its engine's patches, so its holder expires them itself, as the engine does on every tick.
+ */
+export const expireEffects = (state: SessionState): SessionState => {
+  const active = state.effects.filter(e => state.simTime - e.startTime < e.lifetime);
+  return active.length === state.effects.length ? state : { ...state, effects: active };
+};
@@ -0,0 +1,57 @@
+
+import { GAME_CONFIG } from '../rules/config';
+
+/**
+ * Source of simulation time for the GameEngine.
+ * Systems must read time from here instead of Date.now() so that a session
+ * can be re-simulated tick-for-tick.
+ */
+export interface SimulationClock {
+  /** Current simulation time in milliseconds. */
+  now(): number;
+  /** Called by GameEngine once at the start of every processTick. */
+  advance(): void;
+}
+
+/**
+ * Deterministic clock: every tick moves time forward by a fixed step,
+ * regardless of how long the tick actually took to run.
+ * This is the default clock of the GameEngine.
+ */
+export class FixedStepClock implements SimulationClock {
+  private time: number;
+  private readonly stepMs: number;
+
+  constructor(startTime: number = 0, stepMs: number = GAME_CONFIG.TICK_INTERVAL_MS) {
+    this.time = startTime;
+    this.stepMs = stepMs;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(): void {
+    this.time += this.stepMs;
+  }
+}
+
+/**
+ * Real-time clock. Continues from `startTime` at wall-clock pace.
+ * NOT deterministic - only useful for debugging timing issues.
+ */
+export class WallClock implements SimulationClock {
+  private readonly startTime: number;
+  private readonly createdAt: number;
+
+  constructor(startTime: number = 0) {
+    this.startTime = startTime;
+    this.createdAt = Date.now();
+  }
+
+  now(): number {
+    return this.startTime + (Date.now() - this.createdAt);
+  }
+
+  advance(): void {}
+}
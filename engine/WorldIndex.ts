@@ -1,6 +1,7 @@
 
-import { Hex, Entity, HexCoord } from '../types';
+import { Hex, Entity, HexCoord, SessionState } from '../types';
 import { getHexKey, getNeighbors, cubeDistance } from '../services/hexUtils';
+import { generateChunk, getChunkKey, getChunksInRadius } from '../services/worldGenerator';
 
 /**
  * WorldIndex optimizes queries that otherwise require iterating over the entire grid.
@@ -12,8 +13,10 @@ export class WorldIndex {
   
   // Indices
   private occupiedHexes: Map<string, string> = new Map(); // HexKey -> EntityID
-  private structureLocations: Map<string, string[]> = new Map(); // Type -> HexIDs[]
+  private structureLocations: Map<string, Set<string>> = new Map(); // Type -> Set<HexIDs>
   private hexesByOwner: Map<string, Set<string>> = new Map(); // OwnerID -> Set<HexIDs>
+  private loadedChunks: Set<string> = new Set(); // Mirrors SessionState.world.loadedChunks
+  private loadedChunksSource: string[] | null = null;
   
   constructor(grid: Record<string, Hex>, entities: Entity[]) {
     this.grid = grid;
@@ -28,12 +31,12 @@ export class WorldIndex {
    * Call this immediately after cloning state in GameEngine to prevent
    * systems from reading stale entity data (coins, moves, state) via the index.
    */
-  public syncState(state: { grid: Record<string, Hex>; player: Entity; bots: Entity[] }) {
+  public syncState(state: { grid: Record<string, Hex>; player: Entity; hotSeats?: Entity[]; bots: Entity[] }) {
       this.grid = state.grid;
       
       // Update Entity Map with NEW object references
       this.entities.clear();
-      const allEntities = [state.player, ...state.bots];
+      const allEntities = [state.player, ...(state.hotSeats || []), ...state.bots];
       for (const e of allEntities) {
           this.entities.set(e.id, e);
       }
@@ -79,11 +82,7 @@ export class WorldIndex {
 
   private indexHex(hex: Hex) {
       // Structures
-      if (hex.structureType && hex.structureType !== 'NONE') {
-        const list = this.structureLocations.get(hex.structureType) || [];
-        list.push(hex.id);
-        this.structureLocations.set(hex.structureType, list);
-      }
+      this.addStructure(hex.id, hex.structureType);
 
       // Ownership (inferred or explicit)
       if (hex.ownerId) {
@@ -94,8 +93,26 @@ export class WorldIndex {
       }
   }
 
+  private addStructure(hexId: string, type: Hex['structureType']) {
+      if (!type || type === 'NONE') return;
+      if (!this.structureLocations.has(type)) {
+          this.structureLocations.set(type, new Set());
+      }
+      this.structureLocations.get(type)?.add(hexId);
+  }
+
   // --- Incremental Updates ---
 
+  /**
+   * Call whenever a hex gains, loses or changes its structure (built, destroyed, depleted, collapsed),
+   * so getStructureLocations never has to fall back on scanning the grid.
+   */
+  public updateStructure(hexId: string, from: Hex['structureType'], to: Hex['structureType']) {
+      if (from === to) return;
+      if (from) this.structureLocations.get(from)?.delete(hexId);
+      this.addStructure(hexId, to);
+  }
+
   public updateEntityPosition(entityId: string, oldQ: number, oldR: number, newQ: number, newR: number) {
       const oldKey = getHexKey(oldQ, oldR);
       const newKey = getHexKey(newQ, newR);
@@ -114,6 +131,40 @@ export class WorldIndex {
       }
   }
 
+  // --- World Streaming ---
+
+  /**
+   * Generates the procedural chunks within `radius` of `center` that are not loaded yet and records them
+   * on state.world (copy-on-write). Returns the new hexes for the caller to merge into the grid;
+   * hexes that already exist are left out. No-op on fixed maps (no state.world).
+   */
+  public loadChunksAround(state: SessionState, center: HexCoord, radius: number): Record<string, Hex> {
+      const world = state.world;
+      if (!world) return {};
+
+      if (this.loadedChunksSource !== world.loadedChunks) {
+          this.loadedChunks = new Set(world.loadedChunks);
+          this.loadedChunksSource = world.loadedChunks;
+      }
+
+      const chunks = getChunksInRadius(center, radius).filter(c => !this.loadedChunks.has(getChunkKey(c)));
+      if (chunks.length === 0) return {};
+
+      const hexes: Record<string, Hex> = {};
+      for (const chunk of chunks) {
+          for (const hex of generateChunk(world.seed, chunk)) {
+              if (state.grid[hex.id]) continue;
+              hexes[hex.id] = hex;
+              this.indexHex(hex);
+          }
+          this.loadedChunks.add(getChunkKey(chunk));
+      }
+
+      state.world = { ...world, loadedChunks: [...world.loadedChunks, ...chunks.map(getChunkKey)] };
+      this.loadedChunksSource = state.world.loadedChunks;
+      return hexes;
+  }
+
   // --- Queries ---
 
   public isOccupied(q: number, r: number): boolean {
@@ -133,6 +184,12 @@ export class WorldIndex {
     return coords;
   }
 
+  /** Keys of the hexes holding a `type` structure. */
+  public getStructureLocations(type: NonNullable<Hex['structureType']>): string[] {
+      const keys = this.structureLocations.get(type);
+      return keys ? [...keys] : [];
+  }
+
   public getValidNeighbors(q: number, r: number): Hex[] {
     const neighbors = getNeighbors(q, r);
     const valid: Hex[] = [];
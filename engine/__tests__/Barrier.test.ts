@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { findPath, getHexKey } from '../../services/hexUtils';
+import { SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const BARRIER = GAME_CONFIG.STRUCTURES.BARRIER;
+
+/** Flat L0 field with a wall owned by the player at (1,0); bot-1 parked at (2,0). */
+const createWalledSession = (): SessionState => {
+  const state = createTestSession(9);
+  const grid = createSquareGrid(3);
+  grid[getHexKey(1, 0)] = { ...grid[getHexKey(1, 0)], currentLevel: 1, maxLevel: 1, ownerId: state.player.id, structureType: 'BARRIER', structureHp: BARRIER.hpPerLevel };
+  state.grid = grid;
+  state.player = { ...state.player, q: 0, r: 0, moves: 10 };
+  state.bots = [{ ...state.bots[0], q: 2, r: 0, moves: 10, coins: 0, lastActionTime: Infinity }];
+  return state;
+};
+
+describe('Barriers', () => {
+  it('block pathfinding for everyone but the owner', () => {
+    const { grid, player, bots } = createWalledSession();
+    const target = { q: 1, r: 0 };
+
+    expect(findPath(player, target, grid, 1, [], { moverId: player.id })).toEqual([target]);
+    expect(findPath(bots[0], target, grid, 1, [], { moverId: bots[0].id })).toBeNull();
+
+    // Detours around the wall instead of through it
+    const detour = findPath(bots[0], { q: 0, r: 0 }, grid, 1, [], { moverId: bots[0].id })!;
+    expect(detour.some(step => step.q === 1 && step.r === 0)).toBe(false);
+  });
+
+  it('rejects rival moves through the wall', () => {
+    const engine = new GameEngine(createWalledSession());
+    const res = engine.applyAction('bot-1', { type: 'MOVE', path: [{ q: 1, r: 0 }, { q: 0, r: 1 }], stateVersion: engine.state!.stateVersion });
+    expect(res.ok).toBe(false);
+    expect(res.reason).toMatch(/barrier/);
+  });
+
+  it('breaks after enough breaches and pays a move per hit', () => {
+    const engine = new GameEngine(createWalledSession());
+    const key = getHexKey(1, 0);
+    const breach = () => engine.applyAction('bot-1', { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion: engine.state!.stateVersion });
+
+    expect(engine.applyAction(engine.state!.player.id, { type: 'BREACH', coord: { q: 1, r: 0 } }).ok).toBe(false);
+
+    expect(breach().ok).toBe(true);
+    expect(engine.state!.grid[key].structureHp).toBe(BARRIER.hpPerLevel - BARRIER.breachDamage);
+    expect(engine.state!.bots[0].moves).toBe(9);
+
+    expect(breach().ok).toBe(true);
+    expect(engine.state!.grid[key].structureType).toBe('NONE');
+    expect(engine.processTick().events.map(e => e.type)).toContain('STRUCTURE_DESTROYED');
+  });
+
+  it('refuses breaches that cannot land and leaves the state untouched', () => {
+    const state = createWalledSession();
+    state.grid[getHexKey(-1, 0)] = { ...state.grid[getHexKey(-1, 0)], maxLevel: 1, structureType: 'BARRIER', ownerId: 'bot-1' };
+    const engine = new GameEngine(state);
+    const breach = (actorId: string, q: number, r: number) =>
+      engine.applyAction(actorId, { type: 'BREACH', coord: { q, r }, stateVersion: engine.state!.stateVersion });
+
+    expect(breach('bot-1', 3, 0).reason).toBe('Nothing to breach');
+    expect(breach('bot-1', 9, 9).reason).toBe('Invalid Hex');
+    expect(breach('bot-1', -1, 0).reason).toBe('Cannot breach your own structure');
+    // The rival's wall at (-1,0) is two steps from the player's at (1,0)
+    expect(breach(engine.state!.player.id, -1, 0).ok).toBe(true);
+    expect(breach(engine.state!.player.id, 2, 0).reason).toBe('Nothing to breach');
+
+    const broke = createWalledSession();
+    broke.bots[0] = { ...broke.bots[0], moves: 0, coins: GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE - 1 };
+    const stuck = new GameEngine(broke);
+    const res = stuck.applyAction('bot-1', { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion: stuck.state!.stateVersion });
+    expect(res.reason).toMatch(/Insufficient credits/);
+    expect(stuck.state!.stateVersion).toBe(broke.stateVersion);
+    expect(stuck.state!.grid[getHexKey(1, 0)].structureHp).toBe(BARRIER.hpPerLevel);
+  });
+
+  it('charges credits for a breach once the moves run out', () => {
+    const state = createWalledSession();
+    state.bots[0] = { ...state.bots[0], moves: 0, coins: GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE };
+    const engine = new GameEngine(state);
+
+    expect(engine.applyAction('bot-1', { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion: engine.state!.stateVersion }).ok).toBe(true);
+    expect(engine.state!.bots[0]).toMatchObject({ moves: 0, coins: 0 });
+  });
+
+  it('gives map-generated walls HP by their level', () => {
+    const state = createWalledSession();
+    const key = getHexKey(1, 0);
+    state.grid[key] = { ...state.grid[key], maxLevel: 3, ownerId: undefined, structureHp: undefined };
+    const engine = new GameEngine(state);
+
+    engine.applyAction('bot-1', { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion: engine.state!.stateVersion });
+    expect(engine.state!.grid[key].structureHp).toBe(3 * BARRIER.hpPerLevel - BARRIER.breachDamage);
+  });
+
+  it('can only be raised on an owned L1+ sector the builder can pay for', () => {
+    const here = getHexKey(0, 0);
+    const build = (state: SessionState) => {
+      const engine = new GameEngine(state);
+      const res = engine.applyAction(state.player.id, { type: 'UPGRADE', coord: { q: 0, r: 0 }, upgradeType: 'BARRIER', stateVersion: state.stateVersion });
+      return { res, state: engine.state! };
+    };
+    const onOwnedSector = (coins: number) => {
+      const state = createWalledSession();
+      state.grid[here] = { ...state.grid[here], currentLevel: 1, maxLevel: 1, ownerId: state.player.id };
+      state.player.coins = coins;
+      return state;
+    };
+
+    expect(build(createWalledSession()).res.reason).toBe('BARRIER REQUIRES OWNED SECTOR (L1+)');
+    expect(build(onOwnedSector(BARRIER.cost - 1)).res.reason).toMatch(/Insufficient credits/);
+
+    const { res, state } = build(onOwnedSector(BARRIER.cost));
+    expect(res.ok).toBe(true);
+    expect(state.grid[here]).toMatchObject({ structureType: 'BARRIER', structureHp: BARRIER.hpPerLevel });
+    expect(state.player.coins).toBe(0);
+  });
+});
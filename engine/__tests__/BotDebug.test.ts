@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { getBotDebugInfo, isOscillating } from '../../bot/debug';
+import { getCoordinatesFromKey } from '../../services/hexUtils';
+import { BotLogEntry } from '../../types';
+import { createTestSession } from './helpers';
+
+const move = (target: string, timestamp: number): BotLogEntry => ({ botId: 'bot-1', action: 'MOVE', reason: 'test', target, timestamp });
+
+describe('Bot debug overlay', () => {
+  it('reads each bot\'s goals, path and reservation back from the session', () => {
+    const engine = new GameEngine(createTestSession(5, { botCount: 2 }));
+    let walking = false;
+    for (let i = 0; i < 200 && !walking; i++) {
+      engine.processTick();
+      walking = engine.state!.bots.some(b => b.movementQueue.some(step => !step.upgrade));
+    }
+    expect(walking).toBe(true);
+
+    const state = engine.state!;
+    const infos = getBotDebugInfo(state);
+    expect(infos.map(info => info.id)).toEqual(state.bots.map(b => b.id));
+    for (const info of infos) {
+      const bot = state.bots.find(b => b.id === info.id)!;
+      expect(info.reserved).toEqual(info.path.length > 0 ? info.path[info.path.length - 1] : null);
+      expect(info.masterGoal).toEqual(bot.memory?.masterGoalId ? getCoordinatesFromKey(bot.memory.masterGoalId) : null);
+      expect(info.decisions.every(entry => entry.botId === bot.id)).toBe(true);
+    }
+  });
+
+  it('spots a bot walking back and forth between two hexes', () => {
+    expect(isOscillating([move('1,0', 4), move('0,0', 3), move('1,0', 2), move('0,0', 1)])).toBe(true);
+    expect(isOscillating([move('1,0', 4), move('0,0', 3), move('1,0', 2)])).toBe(false);
+    expect(isOscillating([move('2,0', 4), move('1,0', 3), move('0,0', 2), move('1,0', 1)])).toBe(false);
+    expect(isOscillating([move('1,0', 4), move('1,0', 3), move('1,0', 2), move('1,0', 1)])).toBe(false);
+  });
+
+  it('flags a bot as panicking once it has failed often enough in a row', () => {
+    const session = createTestSession(5, { botCount: 1 });
+    const bot = session.bots[0];
+    bot.memory = { lastPlayerPos: null, currentGoal: null, stuckCounter: 2, lastActionFailed: true, failReason: 'Hex is occupied' };
+    expect(getBotDebugInfo(session)[0]).toMatchObject({ stuckCounter: 2, isPanicking: false, failReason: 'Hex is occupied' });
+
+    bot.memory.stuckCounter = 3;
+    expect(getBotDebugInfo(session)[0].isPanicking).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { WorldIndex } from '../WorldIndex';
+import { SeededRandom } from '../SeededRandom';
+import { BOT_STRATEGIES, BOT_STRATEGY_IDS, getBotStrategy } from '../../bot/strategies';
+import { getHexKey } from '../../services/hexUtils';
+import { createTestSession } from './helpers';
+
+describe('Bot strategies', () => {
+  it('every registered strategy produces a decision for a fresh bot', () => {
+    const state = createTestSession(21);
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+
+    for (const id of BOT_STRATEGY_IDS) {
+      expect(BOT_STRATEGIES[id].id).toBe(id);
+      const result = BOT_STRATEGIES[id].decide({
+        bot: state.bots[0],
+        grid: state.grid,
+        player: state.player,
+        winCondition: state.winCondition,
+        obstacles: index.getOccupiedHexesList(),
+        index,
+        stateVersion: state.stateVersion,
+        difficulty: state.difficulty,
+        rng: new SeededRandom(1)
+      });
+      expect(result.action).not.toBeNull();
+      expect(result.memory).toBeDefined();
+    }
+  });
+
+  it('falls back to the nomad strategy for unknown ids', () => {
+    expect(getBotStrategy(undefined).id).toBe('nomad');
+  });
+
+  it('AiSystem runs the strategy assigned to each bot', () => {
+    const state = createTestSession(21);
+    state.bots[0].strategyId = 'farmer';
+    state.bots[0].coins = 0;
+    // Stand on an owned L1 so the farmer has nothing cheap to grab
+    const home = state.grid[getHexKey(state.bots[0].q, state.bots[0].r)];
+    state.grid = { ...state.grid, [home.id]: { ...home, currentLevel: 1, maxLevel: 1 } };
+
+    const engine = new GameEngine(state);
+    engine.processTick();
+    const log = engine.state!.botActivityLog.find(l => l.botId === 'bot-1');
+    expect(log?.reason).toMatch(/^(Farming|Go Farm|Scrounging)/);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const { CAPITAL, BARRIER } = GAME_CONFIG.STRUCTURES;
+
+/** Flat field of player-owned L1 sectors; player at (0,0), bot-1 parked next to it at (1,0). */
+const createCapitalSession = (capitalMode: boolean): SessionState => {
+  const state = createTestSession(13);
+  const grid = createSquareGrid(3, { currentLevel: 1, maxLevel: 1, ownerId: state.player.id });
+  state.grid = grid;
+  state.winCondition = { ...state.winCondition!, capitalMode };
+  state.player = { ...state.player, q: 0, r: 0, coins: CAPITAL.cost + 100 };
+  state.bots = [{ ...state.bots[0], q: 1, r: 0, moves: 100, coins: 0, lastActionTime: Infinity }];
+  return state;
+};
+
+const foundCapital = (engine: GameEngine) => {
+  const { player, stateVersion } = engine.state!;
+  return engine.applyAction(player.id, { type: 'UPGRADE', coord: { q: player.q, r: player.r }, upgradeType: 'CAPITAL', stateVersion });
+};
+
+const breach = (engine: GameEngine, q: number, r: number) =>
+  engine.applyAction('bot-1', { type: 'BREACH', coord: { q, r }, stateVersion: engine.state!.stateVersion });
+
+describe('Capitals', () => {
+  it('can be founded once per entity', () => {
+    const engine = new GameEngine(createCapitalSession(false));
+    expect(foundCapital(engine).ok).toBe(true);
+    expect(engine.state!.player.coins).toBe(100);
+    expect(engine.state!.player.capitalId).toBe(getHexKey(0, 0));
+    expect(engine.state!.grid[getHexKey(0, 0)].structureHp).toBe(CAPITAL.maxHp);
+
+    // A fresh sector elsewhere: still no second capital
+    const state = createCapitalSession(false);
+    state.player = { ...state.player, q: -1, capitalId: getHexKey(0, 0) };
+    expect(foundCapital(new GameEngine(state)).reason).toBe('Capital already founded');
+  });
+
+  it('shields adjacent owned sectors with its defense bonus', () => {
+    const state = createCapitalSession(false);
+    const wallKey = getHexKey(1, -1); // Next to both the capital (0,0) and bot-1 (1,0)
+    state.grid[getHexKey(0, 0)] = { ...state.grid[getHexKey(0, 0)], structureType: 'CAPITAL', structureHp: CAPITAL.maxHp };
+    state.grid[wallKey] = { ...state.grid[wallKey], structureType: 'BARRIER', structureHp: BARRIER.hpPerLevel };
+
+    const engine = new GameEngine(state);
+    expect(breach(engine, 1, -1).ok).toBe(true);
+    expect(engine.state!.grid[wallKey].structureHp).toBe(BARRIER.hpPerLevel - (BARRIER.breachDamage - CAPITAL.defenseBonus));
+  });
+
+  it('losing the capital in capital mode is a DEFEAT', () => {
+    const engine = new GameEngine(createCapitalSession(true));
+    foundCapital(engine);
+
+    const hits = Math.ceil(CAPITAL.maxHp / (BARRIER.breachDamage - CAPITAL.defenseBonus));
+    for (let i = 0; i < hits; i++) expect(breach(engine, 0, 0).ok).toBe(true);
+    expect(engine.state!.grid[getHexKey(0, 0)].structureType).toBe('NONE');
+
+    const defeat = engine.processTick().events.find(e => e.type === 'DEFEAT');
+    expect(defeat?.entityId).toBe('bot-1');
+    expect(engine.state!.gameStatus).toBe('DEFEAT');
+  });
+
+  it('outside capital mode, razing one only costs its owner the capital', () => {
+    const engine = new GameEngine(createCapitalSession(false));
+    foundCapital(engine);
+
+    const hits = Math.ceil(CAPITAL.maxHp / (BARRIER.breachDamage - CAPITAL.defenseBonus));
+    for (let i = 0; i < hits; i++) breach(engine, 0, 0);
+    const { events } = engine.processTick();
+
+    expect(events.some(e => e.type === 'DEFEAT')).toBe(false);
+    expect(engine.state!.gameStatus).toBe('PLAYING');
+    expect(engine.state!.player).toMatchObject({ capitalId: undefined, capitalLostTo: 'bot-1' });
+  });
+
+  it('razing the last rival capital wins capital mode', () => {
+    const state = createCapitalSession(true);
+    const rivalKey = getHexKey(1, 0);
+    state.grid[rivalKey] = { ...state.grid[rivalKey], ownerId: 'bot-1', structureType: 'CAPITAL', structureHp: 1 };
+    state.grid[getHexKey(0, 0)] = { ...state.grid[getHexKey(0, 0)], structureType: 'CAPITAL', structureHp: CAPITAL.maxHp };
+    state.player = { ...state.player, moves: 1, capitalId: getHexKey(0, 0) };
+    state.bots[0] = { ...state.bots[0], capitalId: rivalKey };
+    const engine = new GameEngine(state);
+
+    expect(engine.applyAction(state.player.id, { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion: state.stateVersion }).ok).toBe(true);
+    expect(engine.state!.bots[0]).toMatchObject({ capitalId: undefined, capitalLostTo: state.player.id });
+
+    expect(engine.processTick().events.find(e => e.type === 'VICTORY')?.entityId).toBe(state.player.id);
+    expect(engine.state!.gameStatus).toBe('VICTORY');
+  });
+
+  it('cannot be breached by its owner, and unowned ones (campaign apex) not at all', () => {
+    const state = createCapitalSession(false);
+    const apexKey = getHexKey(1, -1);
+    state.grid[getHexKey(0, 0)] = { ...state.grid[getHexKey(0, 0)], structureType: 'CAPITAL', structureHp: CAPITAL.maxHp };
+    state.grid[apexKey] = { ...state.grid[apexKey], ownerId: undefined, structureType: 'CAPITAL' };
+    state.player = { ...state.player, q: 1, r: 0, moves: 10 };
+    state.bots[0] = { ...state.bots[0], q: 2, r: -1 };
+    const engine = new GameEngine(state);
+
+    expect(engine.applyAction(state.player.id, { type: 'BREACH', coord: { q: 0, r: 0 }, stateVersion: state.stateVersion }).reason).toBe('Cannot breach your own structure');
+    expect(breach(engine, 1, -1).reason).toBe('Nothing to breach');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const TARGET = getHexKey(1, 0);
+
+/** Flat L0 field; bot-1 (parked at 3,0) owns an L2 sector at (1,0) next to the player at (0,0). */
+const createFrontSession = (): SessionState => {
+  const state = createTestSession(23);
+  const grid = createSquareGrid(3);
+  grid[TARGET] = { ...grid[TARGET], currentLevel: 2, maxLevel: 2, ownerId: 'bot-1' };
+  state.grid = grid;
+  state.player = { ...state.player, q: 0, r: 0, attackTokens: 4 };
+  state.bots = [{ ...state.bots[0], q: 3, r: 0, lastActionTime: Infinity }];
+  return state;
+};
+
+const attack = (engine: GameEngine, tokens: number) => {
+  const { player, stateVersion } = engine.state!;
+  const result = engine.applyAction(player.id, { type: 'ATTACK', coord: { q: 1, r: 0 }, tokens, stateVersion });
+  const events = engine.processTick().events.filter(e => e.type === 'SECTOR_ATTACKED');
+  return { result, event: events[0] };
+};
+
+describe('Combat', () => {
+  it('builds up siege pressure until the sector loses a level', () => {
+    const engine = new GameEngine(createFrontSession());
+
+    const first = attack(engine, 1);
+    expect(first.result.ok).toBe(true);
+    expect(first.event?.data).toMatchObject({ outcome: 'PRESSURE', pressure: 1, defense: 2 });
+    expect(engine.state!.grid[TARGET].attackPoint).toBe(1);
+
+    const second = attack(engine, 1);
+    expect(second.event?.data).toMatchObject({ outcome: 'DOWNGRADED', level: 1 });
+    expect(engine.state!.grid[TARGET]).toMatchObject({ maxLevel: 1, currentLevel: 1, ownerId: 'bot-1' });
+    expect(engine.state!.grid[TARGET].attackPoint).toBeUndefined();
+    expect(engine.state!.player.attackTokens).toBe(2);
+  });
+
+  it('captures a falling L1 sector, harder while its owner garrisons it', () => {
+    const state = createFrontSession();
+    state.grid[TARGET] = { ...state.grid[TARGET], currentLevel: 1, maxLevel: 1, trap: { active: true, potency: 1 } };
+    state.bots[0] = { ...state.bots[0], q: 1, r: 0 };
+    const engine = new GameEngine(state);
+
+    // Garrisoned: defense 1 + garrisonBonus
+    expect(attack(engine, 1).event?.data).toMatchObject({ outcome: 'PRESSURE', defense: 1 + GAME_CONFIG.COMBAT.garrisonBonus });
+    expect(attack(engine, 1).event?.data).toMatchObject({ outcome: 'CAPTURED' });
+    expect(engine.state!.grid[TARGET]).toMatchObject({ ownerId: engine.state!.player.id, trap: null, durability: GAME_CONFIG.L1_HEX_MAX_DURABILITY });
+  });
+
+  it('validates targets and tokens, which are earned through recovery', () => {
+    const state = createFrontSession();
+    state.player.attackTokens = 0;
+    const far = getHexKey(2, 0);
+    state.grid[far] = { ...state.grid[far], currentLevel: 1, maxLevel: 1, ownerId: 'bot-1' };
+    const engine = new GameEngine(state);
+    const act = (q: number, r: number, tokens: number) =>
+      engine.applyAction(engine.state!.player.id, { type: 'ATTACK', coord: { q, r }, tokens, stateVersion: engine.state!.stateVersion });
+
+    expect(act(1, 0, 1).reason).toMatch(/Insufficient attack tokens/);
+
+    engine.setPlayerIntent(true, 'RECOVER');
+    for (let i = 0; i < 40 && !engine.state!.player.recoveredCurrentHex; i++) engine.processTick();
+    expect(engine.state!.player.attackTokens).toBe(GAME_CONFIG.COMBAT.tokensPerRecovery);
+
+    expect(act(-1, 0, 1).reason).toMatch(/unclaimed/);
+    expect(act(2, 0, 1).reason).toMatch(/out of reach/);
+    expect(act(1, 0, 1).ok).toBe(true);
+    expect(act(1, 0, 1).reason).toMatch(/already under way/);
+  });
+
+  it('carries pressure through several levels in one assault, down to a capture', () => {
+    const engine = new GameEngine(createFrontSession());
+
+    // Defense 2 at L2, then 1 at L1: 4 tokens knock it down and take it
+    const { event } = attack(engine, 4);
+    expect(event?.data).toMatchObject({ outcome: 'CAPTURED', level: 1, pressure: 0 });
+    expect(engine.state!.grid[TARGET]).toMatchObject({ maxLevel: 1, ownerId: engine.state!.player.id });
+    expect(engine.state!.grid[TARGET].attackPoint).toBeUndefined();
+    expect(engine.state!.player.attackTokens).toBe(0);
+  });
+
+  it('refuses own sectors, fortified ones and odd token counts', () => {
+    const state = createFrontSession();
+    const own = getHexKey(0, 1);
+    const wall = getHexKey(-1, 0);
+    state.grid[own] = { ...state.grid[own], currentLevel: 1, maxLevel: 1, ownerId: state.player.id };
+    state.grid[wall] = { ...state.grid[wall], currentLevel: 1, maxLevel: 1, ownerId: 'bot-1', structureType: 'BARRIER' };
+    const engine = new GameEngine(state);
+    const act = (q: number, r: number, tokens: number) =>
+      engine.applyAction(state.player.id, { type: 'ATTACK', coord: { q, r }, tokens, stateVersion: engine.state!.stateVersion });
+
+    expect(act(0, 1, 1).reason).toBe('Cannot attack your own sector');
+    expect(act(-1, 0, 1).reason).toBe('Fortified sector: breach it instead');
+    expect(act(1, 0, 0).reason).toBe('Attack needs at least 1 token');
+    expect(act(1, 0, 1.5).reason).toBe('Attack needs at least 1 token');
+    expect(act(1, 0, 5).reason).toMatch(/Insufficient attack tokens/);
+    expect(engine.state!.player.attackTokens).toBe(4);
+  });
+
+  it('calls an attack off and refunds its tokens when the target is fortified before it lands', () => {
+    const state = createFrontSession();
+    state.bots[0] = { ...state.bots[0], q: 1, r: 0, coins: GAME_CONFIG.STRUCTURES.BARRIER.cost };
+    const engine = new GameEngine(state);
+
+    expect(engine.applyAction(state.player.id, { type: 'ATTACK', coord: { q: 1, r: 0 }, tokens: 3, stateVersion: engine.state!.stateVersion }).ok).toBe(true);
+    expect(engine.state!.player.attackTokens).toBe(1);
+    expect(engine.applyAction('bot-1', { type: 'UPGRADE', coord: { q: 1, r: 0 }, upgradeType: 'BARRIER', stateVersion: engine.state!.stateVersion }).ok).toBe(true);
+
+    const { events } = engine.processTick();
+    expect(events.find(e => e.type === 'ACTION_DENIED')?.message).toBe('Attack called off: Fortified sector: breach it instead');
+    expect(events.some(e => e.type === 'SECTOR_ATTACKED')).toBe(false);
+    expect(engine.state!.player).toMatchObject({ attackTokens: 4, pendingAttack: undefined });
+    expect(engine.state!.grid[TARGET]).toMatchObject({ maxLevel: 2, ownerId: 'bot-1' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { WorldIndex } from '../WorldIndex';
+import { SeededRandom } from '../SeededRandom';
+import { blockerStrategy } from '../../bot/strategies/blocker';
+import { getBotActionInterval } from '../../rules/config';
+import { BotLogEntry, Difficulty } from '../../types';
+import { createTestSession } from './helpers';
+
+// Every decision the bots logged over `ticks` ticks (the session log only keeps the latest ones)
+const playDecisions = (difficulty: Difficulty, ticks: number) => {
+  const engine = new GameEngine(createTestSession(8, { difficulty, botCount: 3 }));
+  const decisions = new Set<BotLogEntry>();
+  for (let i = 0; i < ticks; i++) {
+    engine.processTick();
+    engine.state!.botActivityLog.forEach(entry => decisions.add(entry));
+  }
+  return [...decisions];
+};
+
+describe('Difficulty', () => {
+  it('makes easier bots think slower', () => {
+    expect(getBotActionInterval(1, 'EASY')).toBeGreaterThan(getBotActionInterval(1, 'MEDIUM'));
+    expect(getBotActionInterval(1, 'HARD')).toBeLessThan(getBotActionInterval(1, 'MEDIUM'));
+    expect(getBotActionInterval(3, 'MEDIUM')).toBe(getBotActionInterval(1, 'MEDIUM') / 2);
+
+    const counts = (['EASY', 'MEDIUM', 'HARD'] as Difficulty[]).map(d => playDecisions(d, 150).length);
+    expect(counts[0]).toBeLessThan(counts[1]);
+    expect(counts[1]).toBeLessThan(counts[2]);
+  });
+
+  it('lets only easy bots blunder on purpose', () => {
+    expect(playDecisions('EASY', 400).some(entry => entry.reason.startsWith('MISTAKE'))).toBe(true);
+    expect(playDecisions('MEDIUM', 400).some(entry => entry.reason.startsWith('MISTAKE'))).toBe(false);
+  });
+
+  it('keeps blockers on the player\'s trail from MEDIUM up', () => {
+    const decide = (difficulty: Difficulty) => {
+      const state = createTestSession(8, { difficulty, botCount: 1 });
+      const bot = state.bots[0];
+      bot.memory = { lastPlayerPos: { q: bot.q + 4, r: bot.r }, currentGoal: null, stuckCounter: 0 };
+      const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+      return blockerStrategy.decide({
+        bot, grid: state.grid, player: state.player, winCondition: state.winCondition,
+        obstacles: index.getOccupiedHexesList(), visibleHexKeys: new Set(), index,
+        stateVersion: state.stateVersion, difficulty, rng: new SeededRandom(1)
+      });
+    };
+
+    expect(decide('EASY').memory.lastPlayerPos).toBeNull();
+    expect(decide('MEDIUM').memory.lastPlayerPos).not.toBeNull();
+    expect(decide('HARD').memory.lastPlayerPos).not.toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { SessionState } from '../../types';
+import { createTestSession } from './helpers';
+
+const MINE = GAME_CONFIG.STRUCTURES.MINE;
+
+/** Player alone on an owned L1, rich enough for a mine. */
+const createMineSession = (): SessionState => {
+  const state = createTestSession(5);
+  state.bots = [];
+  state.player.coins = 100;
+  const key = getHexKey(state.player.q, state.player.r);
+  state.grid = { ...state.grid, [key]: { ...state.grid[key], currentLevel: 1, maxLevel: 1, ownerId: state.player.id } };
+  return state;
+};
+
+const buildMine = (engine: GameEngine) => {
+  const { player, stateVersion } = engine.state!;
+  return engine.applyAction(player.id, { type: 'UPGRADE', coord: { q: player.q, r: player.r }, upgradeType: 'MINE', stateVersion });
+};
+
+describe('EconomySystem', () => {
+  it('building a mine deducts its cost and reports it with the next tick', () => {
+    const engine = new GameEngine(createMineSession());
+    expect(buildMine(engine).ok).toBe(true);
+
+    const state = engine.state!;
+    const hex = state.grid[getHexKey(state.player.q, state.player.r)];
+    expect(state.player.coins).toBe(100 - MINE.cost);
+    expect(hex.structureType).toBe('MINE');
+    expect(hex.structureHp).toBe(MINE.maxHp);
+
+    expect(engine.processTick().events.map(e => e.type)).toContain('STRUCTURE_BUILT');
+    // Only one mine per sector
+    expect(buildMine(engine).ok).toBe(false);
+  });
+
+  it('pays its owner every payout interval and wears down over time', () => {
+    const engine = new GameEngine(createMineSession());
+    buildMine(engine);
+    const coinsAfterBuild = engine.state!.player.coins;
+
+    for (let i = 0; i < MINE.wearIntervalTicks; i++) engine.processTick();
+
+    const state = engine.state!;
+    expect(state.player.coins - coinsAfterBuild).toBe((MINE.wearIntervalTicks / MINE.payoutIntervalTicks) * MINE.incomePerTick);
+    expect(state.grid[getHexKey(state.player.q, state.player.r)].structureHp).toBe(MINE.maxHp - 1);
+  });
+
+  it('collapses back to plain land at 0 HP', () => {
+    const state = createMineSession();
+    const key = getHexKey(state.player.q, state.player.r);
+    state.grid[key] = { ...state.grid[key], structureType: 'MINE', structureHp: 1, mineTimer: MINE.wearIntervalTicks - 1 };
+
+    const engine = new GameEngine(state);
+    const { events } = engine.processTick();
+
+    expect(engine.state!.grid[key].structureType).toBe('NONE');
+    expect(events.find(e => e.type === 'STRUCTURE_DESTROYED')?.entityId).toBe(state.player.id);
+  });
+
+  it('pays a mine rebuilt on the same sector after the last one collapsed', () => {
+    const state = createMineSession();
+    const key = getHexKey(state.player.q, state.player.r);
+    state.grid[key] = { ...state.grid[key], structureType: 'MINE', structureHp: 1, mineTimer: MINE.wearIntervalTicks - 1 };
+
+    const engine = new GameEngine(state);
+    engine.processTick();
+    expect(buildMine(engine).ok).toBe(true);
+    const coinsAfterBuild = engine.state!.player.coins;
+
+    for (let i = 0; i < MINE.payoutIntervalTicks; i++) engine.processTick();
+
+    expect(engine.state!.player.coins - coinsAfterBuild).toBe(MINE.incomePerTick);
+    expect(engine.state!.grid[key].mineTimer).toBe(MINE.payoutIntervalTicks);
+  });
+});
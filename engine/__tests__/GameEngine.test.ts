@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { SessionState } from '../../types';
+import { createTestSession } from './helpers';
+
+const simulate = (seed: number, ticks: number): string => {
+  const engine = new GameEngine(createTestSession(seed));
+  engine.setPlayerIntent(true, 'UPGRADE');
+  for (let i = 0; i < ticks; i++) {
+    engine.processTick();
+  }
+  return JSON.stringify(engine.state);
+};
+
+describe('GameEngine determinism', () => {
+  it('produces identical states for the same seed and actions', () => {
+    expect(simulate(42, 300)).toEqual(simulate(42, 300));
+  });
+
+  it('advances simulation time by a fixed step per tick', () => {
+    const engine = new GameEngine(createTestSession(7));
+    engine.processTick();
+    engine.processTick();
+    expect(engine.state!.tick).toBe(2);
+    expect(engine.state!.simTime).toBe(200);
+    expect(engine.now()).toBe(200);
+  });
+
+  it('persists the PRNG state so a restored engine continues the same sequence', () => {
+    const engine = new GameEngine(createTestSession(99));
+    for (let i = 0; i < 50; i++) engine.processTick();
+    const snapshot = JSON.parse(JSON.stringify(engine.state)) as SessionState;
+
+    const restored = new GameEngine(snapshot);
+    for (let i = 0; i < 50; i++) {
+      engine.processTick();
+      restored.processTick();
+    }
+    expect(JSON.stringify(restored.state)).toEqual(JSON.stringify(engine.state));
+  });
+});
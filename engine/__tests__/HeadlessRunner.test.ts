@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { runMatch, resultsToCsv } from '../../sim/HeadlessRunner';
+
+describe('HeadlessRunner', () => {
+  it('plays the same match for the same seed', () => {
+    const a = runMatch({ seed: 11, maxTicks: 600 });
+    const b = runMatch({ seed: 11, maxTicks: 600 });
+    expect(a).toEqual(b);
+    expect(a.entities.map(e => e.id)).toEqual(['player-1', 'bot-1', 'bot-2']);
+    expect(a.entities[0].coinsCurve.length).toBe(a.ticks / 50);
+  });
+
+  it('drives the player with the autopilot', () => {
+    const autopilot = runMatch({ seed: 3, maxTicks: 600 });
+    const idle = runMatch({ seed: 3, maxTicks: 600, playerMode: 'idle' });
+    expect(autopilot.entities[0].totalCoinsEarned).toBeGreaterThan(idle.entities[0].totalCoinsEarned);
+  });
+
+  it('writes one CSV row per entity', () => {
+    const csv = resultsToCsv([runMatch({ seed: 1, maxTicks: 100, botCount: 1 })]);
+    expect(csv.split('\n')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getSeats } from '../../rules/entities';
+import { SeatProfile } from '../../types';
+import { createTestSession } from './helpers';
+
+const { ticksPerTurn } = GAME_CONFIG.TURNS;
+
+const SEATS: SeatProfile[] = [
+  { nickname: 'Ada', avatarColor: '#3b82f6', avatarIcon: 'user' },
+  { nickname: 'Bo', avatarColor: '#22c55e', avatarIcon: 'zap' },
+  { nickname: 'Cy', avatarColor: '#ec4899', avatarIcon: 'ghost' }
+];
+
+describe('Hot-seat', () => {
+  it('seats every human with their profile on a turn-based session', () => {
+    const session = createTestSession(3, { hotSeat: SEATS, botCount: 1 });
+    expect(session.player).toMatchObject({ id: 'player-1', nickname: 'Ada', avatarColor: '#3b82f6', q: 0, r: 0 });
+    expect(session.hotSeats!.map(h => h.nickname)).toEqual(['Bo', 'Cy']);
+    expect(new Set([session.player, ...session.hotSeats!].map(h => `${h.q},${h.r}`)).size).toBe(3);
+    expect(session.turn).toMatchObject({ seat: 0, actionsLeft: { 'player-1': 3, 'player-2': 3, 'player-3': 3, 'bot-1': 3 } });
+
+    // A lone human plays as before
+    const single = createTestSession(3, { hotSeat: SEATS.slice(0, 1) });
+    expect(single.hotSeats).toBeUndefined();
+    expect(single.turn).toBeUndefined();
+  });
+
+  it('hands the screen to each human before the turn resolves', () => {
+    const engine = new GameEngine(createTestSession(3, { hotSeat: SEATS.slice(0, 2), botCount: 1 }));
+    expect(engine.applyAction('player-2', { type: 'RECHARGE_MOVE' })).toEqual({ ok: false, reason: 'Not your turn' });
+
+    expect(engine.endTurn().ok).toBe(true);
+    expect(engine.state!.player.id).toBe('player-2');
+    expect(engine.state!.turn).toMatchObject({ seat: 1, ticksLeft: 0 });
+    expect(engine.state!.botActivityLog).toHaveLength(0); // Bots wait for the last human
+    expect(engine.applyAction('player-1', { type: 'WAIT' })).toEqual({ ok: false, reason: 'Not your turn' });
+
+    expect(engine.endTurn().ok).toBe(true);
+    expect(engine.state!.player.id).toBe('player-1');
+    expect(engine.state!.turn).toMatchObject({ seat: 0, ticksLeft: ticksPerTurn });
+    for (let i = 0; i < ticksPerTurn; i++) engine.processTick();
+    expect(engine.state!.currentTurn).toBe(1);
+    expect(getSeats(engine.state!).map(h => h.id)).toEqual(['player-1', 'player-2']);
+  });
+
+  it('gives every human their own action budget and growth toggle', () => {
+    const engine = new GameEngine(createTestSession(3, { hotSeat: SEATS.slice(0, 2), botCount: 0 }));
+    const { q, r } = engine.state!.player;
+    expect(engine.applyAction('player-1', { type: 'UPGRADE', coord: { q, r }, intent: 'RECOVER' }).ok).toBe(true);
+    engine.setPlayerIntent(true, 'RECOVER');
+
+    engine.endTurn();
+    expect(engine.state!).toMatchObject({ isPlayerGrowing: false, playerGrowthIntent: null });
+    expect(engine.state!.turn!.actionsLeft).toMatchObject({ 'player-1': 2, 'player-2': 3 });
+
+    engine.endTurn();
+    expect(engine.state!.player.id).toBe('player-1');
+    expect(engine.state!).toMatchObject({ isPlayerGrowing: true, playerGrowthIntent: 'RECOVER' });
+  });
+
+  it('names the winning human and keeps hot-seat games off the leaderboard', () => {
+    const session = createTestSession(3, { hotSeat: SEATS.slice(0, 2), botCount: 0, targetLevel: 3, targetCoins: 10 });
+    Object.assign(session.hotSeats![0], { playerLevel: 3, coins: 10 });
+    const engine = new GameEngine(session);
+
+    engine.endTurn();
+    engine.endTurn();
+    const events = engine.processTick().events.map(e => e.type);
+    expect(engine.state!.gameStatus).toBe('VICTORY');
+    expect(engine.state!.winnerId).toBe('player-2');
+    expect(engine.state!.messageLog[0].text).toBe('Bo Wins: Mission Accomplished');
+    expect(events).toContain('VICTORY');
+    expect(events).not.toContain('LEADERBOARD_UPDATE');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createBlankLevel, createPreviewSession, paintHex, DEFAULT_BRUSH, EditorBrush } from '../../services/levelEditor';
+import { loadLevel } from '../../campaign/scenario';
+import { LevelSchemaError } from '../../campaign/levelSchema';
+import { CAMPAIGN_LEVELS } from '../../campaign/levels';
+import { createInitialSessionData } from '../../services/sessionFactory';
+import { getHexKey } from '../../services/hexUtils';
+import { GAME_CONFIG } from '../../rules/config';
+
+const brush = (patch: Partial<EditorBrush>): EditorBrush => ({ ...DEFAULT_BRUSH, ...patch });
+
+describe('Level editor', () => {
+  it('paints levels, structures, ownership and durability into the layout', () => {
+    let level = createBlankLevel();
+    level = paintHex(level, 1, 0, brush({ level: 2, ownerId: 'player-1' }));
+    level = paintHex(level, 0, 1, brush({ level: 1, structureType: 'MINE', durability: 2 }));
+    level = paintHex(level, 4, 0, brush({ structureType: 'VOID' })); // Outside the blank disc: added
+    level = paintHex(level, -1, 0, brush({ tool: 'ERASE' }));
+
+    const preview = createPreviewSession(level, 'EN').grid;
+    expect(preview[getHexKey(1, 0)]).toMatchObject({ maxLevel: 2, currentLevel: 2, ownerId: 'player-1' });
+    expect(preview[getHexKey(0, 1)]).toMatchObject({ maxLevel: 1, structureType: 'MINE', durability: 2, ownerId: undefined });
+    expect(preview[getHexKey(4, 0)]).toMatchObject({ maxLevel: 0, structureType: 'VOID' });
+    expect(preview[getHexKey(-1, 0)]).toBeUndefined();
+    expect(level.mapConfig.customLayout).toHaveLength(19); // 19-hex disc, -1 erased, +1 void
+
+    // Repainting replaces the cell; the start can be neither voided nor erased
+    expect(paintHex(level, 1, 0, brush({ level: 1 })).mapConfig.customLayout!.find(h => h.q === 1 && h.r === 0))
+      .toEqual({ q: 1, r: 0, currentLevel: 1, maxLevel: 1, revealed: true, durability: GAME_CONFIG.L1_HEX_MAX_DURABILITY });
+    expect(paintHex(level, 0, 0, brush({ structureType: 'VOID' }))).toBe(level);
+    expect(paintHex(level, 0, 0, brush({ tool: 'ERASE' }))).toBe(level);
+  });
+
+  it('places player and bot spawns that sessions start from', () => {
+    let level = createBlankLevel();
+    level = paintHex(level, 3, 0, brush({ tool: 'PLAYER_SPAWN' })); // Outside the disc: nothing to stand on
+    expect(level.mapConfig.playerSpawn).toEqual({ q: 0, r: 0 });
+
+    level = paintHex(level, 1, 0, brush({ tool: 'PLAYER_SPAWN' }));
+    level = paintHex(level, -2, 0, brush({ tool: 'BOT_SPAWN' }));
+    level = paintHex(level, 0, 2, brush({ tool: 'BOT_SPAWN' }));
+    level = paintHex(level, 1, 0, brush({ tool: 'BOT_SPAWN' })); // Taken by the player
+    expect(level.aiMode).toBe('basic');
+    expect(level.mapConfig.botSpawns).toEqual([{ q: -2, r: 0 }, { q: 0, r: 2 }]);
+
+    // Toggling removes a bot, voiding its sector too
+    level = paintHex(level, 0, 2, brush({ tool: 'BOT_SPAWN' }));
+    level = paintHex(level, 2, -2, brush({ tool: 'BOT_SPAWN' }));
+    level = paintHex(level, 2, -2, brush({ structureType: 'VOID' }));
+    expect(level.mapConfig.botSpawns).toEqual([{ q: -2, r: 0 }]);
+
+    const session = createInitialSessionData(null, loadLevel(level), 'EN', 3);
+    expect(session.player).toMatchObject({ q: 1, r: 0 });
+    expect(session.bots.map(b => ({ q: b.q, r: b.r }))).toEqual([{ q: -2, r: 0 }]);
+    expect(session.grid[getHexKey(0, 0)]).toMatchObject({ maxLevel: 0 });
+  });
+
+  it('round-trips drafts and campaign levels through level files', () => {
+    const draft = paintHex(createBlankLevel(), 0, 0, brush({ level: 1, ownerId: 'player-1' }));
+    const file = JSON.parse(JSON.stringify(draft));
+    expect(loadLevel(file).definition).toEqual(draft);
+
+    const campaign = CAMPAIGN_LEVELS.find(l => l.id === '1.1')!.definition!;
+    expect(createPreviewSession(campaign, 'EN').grid).toEqual(createInitialSessionData(null, loadLevel(campaign), 'EN', 1).grid);
+
+    const broken = { ...draft, mapConfig: { ...draft.mapConfig, playerSpawn: { q: 'x' }, botSpawns: [{ q: 1, r: 1.5 }] } };
+    expect(() => loadLevel(broken)).toThrow(LevelSchemaError);
+    try { loadLevel(broken); } catch (e) {
+      expect((e as LevelSchemaError).issues).toEqual([
+        'mapConfig.playerSpawn.q: expected an integer',
+        'mapConfig.playerSpawn.r: expected an integer',
+        'mapConfig.botSpawns[0].r: expected an integer'
+      ]);
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { GameServer } from '../../net/GameServer';
+import { RemoteEngine, RoomRequest } from '../../net/RemoteEngine';
+import { serializeSession } from '../../services/sessionSnapshot';
+import { ServerMessage } from '../../net/protocol';
+import { WinCondition } from '../../types';
+
+const HOT_SEAT: WinCondition = {
+  levelId: -1, targetLevel: 99, targetCoins: 9999, label: 'net', botCount: 1, difficulty: 'MEDIUM', queueSize: 2, winType: 'AND',
+  hotSeat: [{ nickname: 'Ada', avatarColor: '#3b82f6', avatarIcon: 'user' }, { nickname: 'Bo', avatarColor: '#22c55e', avatarIcon: 'zap' }]
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('Networked sessions', () => {
+  let server: GameServer;
+  let url: string;
+  const clients: RemoteEngine[] = [];
+  const connect = (request: RoomRequest, sockets: WebSocket[] = []) => {
+    const client = new RemoteEngine(url, request, {
+      createSocket: u => {
+        const socket = new WebSocket(u);
+        sockets.push(socket);
+        return socket;
+      },
+      reconnectDelayMs: 10
+    });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = new GameServer({ port: 0, tickMs: 5 });
+    url = `ws://localhost:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(c => c.destroy());
+    await server.close();
+  });
+
+  it('hosts a room whose seats play their own humans, validated by the server', async () => {
+    const host = connect({ type: 'HOST', winCondition: HOT_SEAT, seed: 3 });
+    expect(host.processTick()).toEqual({ state: null, events: [] }); // Nothing from the server yet
+    await waitFor(() => host.status.connection === 'ONLINE');
+    const guest = connect({ type: 'JOIN', roomId: host.status.roomId!.toLowerCase() });
+    await waitFor(() => guest.status.connection === 'ONLINE');
+
+    expect(host.status).toMatchObject({ seatId: 'player-1', isHost: true, activeSeatId: 'player-1' });
+    expect(guest.status).toMatchObject({ seatId: 'player-2', isHost: false });
+    expect(guest.state!.player.nickname).toBe('Bo'); // Everyone sees their own human as the player
+    expect(guest.applyAction('player-2', { type: 'WAIT' })).toEqual({ ok: false, reason: 'Not your turn' });
+
+    guest.startMission(); // Only the host may
+    await waitFor(() => guest.processTick().events.some(e => e.type === 'ACTION_DENIED'));
+    host.startMission();
+    await waitFor(() => guest.state!.gameStatus === 'PLAYING');
+
+    expect(host.endTurn().ok).toBe(true);
+    await waitFor(() => guest.status.activeSeatId === 'player-2');
+    expect(guest.endTurn().ok).toBe(true);
+    await waitFor(() => host.state!.currentTurn === 1);
+    expect(serializeSession(guest.state!).grid).toEqual(serializeSession(host.state!).grid);
+
+    const late = connect({ type: 'JOIN', roomId: host.status.roomId! });
+    await waitFor(() => late.status.connection === 'OFFLINE');
+    expect(late.status.error).toBe('Room is full');
+  });
+
+  it('resumes the same seat after the connection drops', async () => {
+    const sockets: WebSocket[] = [];
+    const host = connect({ type: 'HOST', winCondition: { ...HOT_SEAT, hotSeat: undefined }, seed: 3 }, sockets);
+    await waitFor(() => host.status.connection === 'ONLINE');
+    host.startMission();
+    await waitFor(() => host.state!.tick > 0);
+
+    sockets[0].terminate();
+    await waitFor(() => host.status.connection === 'RECONNECTING');
+    await waitFor(() => host.status.connection === 'ONLINE');
+    expect(sockets).toHaveLength(2);
+    expect(host.status.seatId).toBe('player-1');
+    expect(server.roomCount).toBe(1);
+
+    // The server kept playing meanwhile; the snapshot and the following patches catch up
+    const tick = host.state!.tick;
+    await waitFor(() => host.state!.tick > tick);
+    expect(host.applyAction('player-1', { type: 'WAIT', stateVersion: host.state!.stateVersion }).ok).toBe(true);
+
+    const stranger = connect({ type: 'JOIN', roomId: 'NOPE' });
+    await waitFor(() => stranger.status.connection === 'OFFLINE');
+    expect(stranger.status.error).toBe('Room not found');
+  });
+
+  it('turns malformed frames away and keeps every room running', async () => {
+    // A raw socket, to send what no RemoteEngine would
+    const open = async () => {
+      const socket = new WebSocket(url);
+      const received: ServerMessage[] = [];
+      socket.on('message', data => received.push(JSON.parse(String(data))));
+      await new Promise(resolve => socket.once('open', resolve));
+      return { socket, received, send: (frame: unknown) => socket.send(typeof frame === 'string' ? frame : JSON.stringify(frame)) };
+    };
+
+    const host = connect({ type: 'HOST', winCondition: HOT_SEAT, seed: 3 });
+    await waitFor(() => host.status.connection === 'ONLINE');
+
+    // Out of range or mistyped setups host nothing
+    for (const winCondition of [null, { ...HOT_SEAT, botCount: 1e9 }, { ...HOT_SEAT, difficulty: 'GODLIKE' }, { ...HOT_SEAT, hotSeat: 'Ada' }]) {
+      const intruder = await open();
+      intruder.send({ type: 'HOST', winCondition });
+      await waitFor(() => intruder.socket.readyState === WebSocket.CLOSED);
+      expect(intruder.received).toEqual([{ type: 'ERROR', reason: 'Malformed message' }]);
+    }
+
+    const guest = await open();
+    guest.send({ type: 'JOIN', roomId: host.status.roomId });
+    await waitFor(() => guest.received.length === 1);
+    const frames: unknown[] = [
+      'not json', { type: 'ACTION', action: null }, { type: 'ACTION', action: { type: 'MOVE', path: 'east' } },
+      { type: 'ACTION', action: { type: 'UPGRADE', coord: { q: 'a', r: 0 } } }, { type: 'ACTION', action: { type: 'TELEPORT' } },
+      { type: 'INTENT', isGrowing: 'yes', intent: null }
+    ];
+    frames.forEach(guest.send);
+    await waitFor(() => guest.received.filter(m => m.type === 'DENIED').length === frames.length);
+    expect(guest.received.slice(1).every(m => m.type === 'DENIED' && m.reason === 'Malformed message')).toBe(true);
+    expect(guest.socket.readyState).toBe(WebSocket.OPEN);
+
+    // The server is still up: the room plays on and new rooms open
+    expect(server.roomCount).toBe(1);
+    host.startMission();
+    await waitFor(() => host.state!.gameStatus === 'PLAYING');
+    const other = connect({ type: 'HOST', winCondition: { ...HOT_SEAT, hotSeat: undefined }, seed: 4 });
+    await waitFor(() => other.status.connection === 'ONLINE');
+    expect(server.roomCount).toBe(2);
+    guest.socket.close();
+  });
+});
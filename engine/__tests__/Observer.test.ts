@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { GameEngine } from '../GameEngine';
+import { GameServer } from '../../net/GameServer';
+import { RemoteEngine, RoomRequest } from '../../net/RemoteEngine';
+import { EntityState, WinCondition } from '../../types';
+import { createTestSession } from './helpers';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('Observer mode', () => {
+  it('lets the bot AI play the player slot of an observed skirmish, in real time', () => {
+    const session = createTestSession(4, { observe: true, botCount: 2, turnBased: true, hotSeat: [{ nickname: 'Ada', avatarColor: '#3b82f6', avatarIcon: 'user' }, { nickname: 'Bo', avatarColor: '#22c55e', avatarIcon: 'zap' }] });
+    expect(session.turn).toBeUndefined();
+    expect(session.hotSeats).toBeUndefined();
+
+    const engine = new GameEngine(session);
+    const start = { q: session.player.q, r: session.player.r };
+    let acted = false;
+    for (let i = 0; i < 300 && !acted; i++) {
+      engine.processTick();
+      const { player } = engine.state!;
+      acted = player.q !== start.q || player.r !== start.r || player.state === EntityState.GROWING || player.playerLevel > session.player.playerLevel;
+    }
+
+    expect(acted).toBe(true);
+    expect(engine.state!.botActivityLog.some(entry => entry.botId === 'player-1')).toBe(true);
+    expect(engine.state!.player.memory?.currentGoal).toBeDefined();
+  });
+
+  it('names whoever wins and keeps observed matches off the leaderboard', () => {
+    const session = createTestSession(4, { observe: true, botCount: 2, targetLevel: 3, targetCoins: 10 });
+    Object.assign(session.bots[1], { playerLevel: 3, coins: 10 });
+    const engine = new GameEngine(session);
+
+    const events = engine.processTick().events.map(e => e.type);
+    expect(engine.state!.gameStatus).toBe('DEFEAT');
+    expect(engine.state!.winnerId).toBe(session.bots[1].id);
+    expect(events).not.toContain('LEADERBOARD_UPDATE');
+  });
+});
+
+describe('Watching a room', () => {
+  let server: GameServer;
+  let url: string;
+  const clients: RemoteEngine[] = [];
+  const connect = (request: RoomRequest) => {
+    const client = new RemoteEngine(url, request, { createSocket: u => new WebSocket(u), reconnectDelayMs: 10 });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = new GameServer({ port: 0, tickMs: 5 });
+    url = `ws://localhost:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(c => c.destroy());
+    await server.close();
+  });
+
+  it('follows a running room read-only, without taking a seat', async () => {
+    const winCondition: WinCondition = { levelId: -1, targetLevel: 99, targetCoins: 9999, label: 'watch', botCount: 1, difficulty: 'MEDIUM', queueSize: 2, winType: 'AND' };
+    const host = connect({ type: 'HOST', winCondition, seed: 3 });
+    await waitFor(() => host.status.connection === 'ONLINE');
+    host.startMission();
+    await waitFor(() => host.state!.tick > 0);
+
+    const watcher = connect({ type: 'WATCH', roomId: host.status.roomId!.toLowerCase() });
+    await waitFor(() => watcher.status.connection === 'ONLINE');
+    expect(watcher.status).toMatchObject({ roomId: host.status.roomId, seatId: null, isHost: false });
+    const joinedAt = watcher.state!.tick;
+    await waitFor(() => watcher.state!.tick > joinedAt + 5);
+    expect(watcher.state!.player.id).toBe('player-1');
+    expect(watcher.applyAction('player-1', { type: 'WAIT' })).toEqual({ ok: false, reason: 'Observers give no orders' });
+    expect(watcher.endTurn().ok).toBe(false);
+
+    // The watcher holds no seat: the only one is still the host's
+    const late = connect({ type: 'JOIN', roomId: host.status.roomId! });
+    await waitFor(() => late.status.connection === 'OFFLINE');
+    expect(late.status.error).toBe('Room is full');
+
+    const missing = connect({ type: 'WATCH', roomId: 'NOPE00' });
+    await waitFor(() => missing.status.connection === 'OFFLINE');
+    expect(missing.status.error).toBe('Room not found');
+  });
+});
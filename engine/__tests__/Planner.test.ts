@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { WorldIndex } from '../WorldIndex';
+import { SeededRandom } from '../SeededRandom';
+import { createPlannerSnapshot } from '../../bot/planner/ForwardModel';
+import { DEFAULT_PLANNER_CONFIG, plan } from '../../bot/planner/mcts';
+import { plannerStrategy } from '../../bot/strategies/planner';
+import { getVisibleKeys } from '../../rules/visibility';
+import { SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+/** Flat L0 field: the player far off, bot-1 standing on a free L0 at the center. */
+const createFieldSession = (): SessionState => {
+  const state = createTestSession(3, { botCount: 1 });
+  const grid = createSquareGrid(6);
+  state.grid = grid;
+  state.player = { ...state.player, q: 6, r: -6 };
+  state.bots = [{ ...state.bots[0], q: 0, r: 0, playerLevel: 0, coins: 0, moves: 10, memory: undefined }];
+  return state;
+};
+
+const snapshotOf = (state: SessionState) => createPlannerSnapshot(state, state.bots[0], getVisibleKeys(state.bots[0], state.grid));
+
+describe('MCTS planner', () => {
+  it('forks the engine: a fork plays on without touching the original, and replays it exactly', () => {
+    const engine = new GameEngine(createTestSession(5, { botCount: 2 }));
+    for (let i = 0; i < 20; i++) engine.processTick();
+    const before = JSON.stringify(engine.state);
+
+    const fork = engine.fork()!;
+    for (let i = 0; i < 100; i++) fork.processTick();
+    expect(JSON.stringify(engine.state)).toBe(before);
+    expect(fork.state!.tick).toBe(engine.state!.tick + 100);
+
+    for (let i = 0; i < 100; i++) engine.processTick();
+    expect(fork.state!.bots).toEqual(engine.state!.bots);
+    expect(fork.state!.grid).toEqual(engine.state!.grid);
+  });
+
+  it('grabs the free L0 it stands on, the same way every time under an iteration cap', () => {
+    const snapshot = snapshotOf(createFieldSession());
+    const config = { ...DEFAULT_PLANNER_CONFIG, iterations: 60, tickBudget: Infinity, depth: 2 };
+
+    const result = plan(snapshot, 'bot-1', 7, config)!;
+    expect(result.action).toEqual({ type: 'UPGRADE', coord: { q: 0, r: 0 }, intent: 'UPGRADE' });
+    expect(result.iterations).toBe(60);
+    expect(plan(snapshot, 'bot-1', 7, config)).toEqual(result);
+
+    // In a session: the planner bot acts on its simulations and grows
+    const state = createFieldSession();
+    state.bots[0].strategyId = 'planner';
+    const engine = new GameEngine(state);
+    for (let i = 0; i < 300; i++) engine.processTick();
+    expect(engine.state!.botActivityLog.some(entry => entry.reason.startsWith('MCTS:'))).toBe(true);
+    const bot = engine.state!.bots[0];
+    expect(bot.playerLevel).toBeGreaterThan(0);
+    expect({ q: bot.q, r: bot.r }).not.toEqual({ q: 0, r: 0 });
+  });
+
+  it('thinks for a budget of simulated ticks, so a session plays the same on any machine', () => {
+    const config = { ...DEFAULT_PLANNER_CONFIG, tickBudget: 100 };
+    const result = plan(snapshotOf(createFieldSession()), 'bot-1', 7, config)!;
+    expect(result.ticks).toBeGreaterThanOrEqual(100);
+    expect(result.ticks).toBeLessThan(100 + config.depth * config.maxTicksPerStep); // The last simulation runs to its end
+    expect(result.iterations).toBeLessThan(config.iterations);
+
+    const play = () => {
+      const state = createTestSession(5, { botCount: 2, difficulty: 'HARD', botStrategies: ['planner', 'planner'] });
+      const engine = new GameEngine(state);
+      for (let i = 0; i < 200; i++) engine.processTick();
+      return engine.state!;
+    };
+    const [first, second] = [play(), play()];
+    expect(first.botActivityLog.some(entry => entry.reason.startsWith('MCTS:'))).toBe(true);
+    expect(second.bots).toEqual(first.bots);
+    expect(second.botActivityLog).toEqual(first.botActivityLog);
+  });
+
+  it('only watches the wall clock offline, and falls back on the nomad without a session to simulate', () => {
+    let clock = 0;
+    const now = () => (clock += 10);
+    const result = plan(snapshotOf(createFieldSession()), 'bot-1', 7, { ...DEFAULT_PLANNER_CONFIG, tickBudget: Infinity, timeBudgetMs: 35, now })!;
+    expect(result.iterations).toBeLessThanOrEqual(3);
+
+    const state = createFieldSession();
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    const decision = plannerStrategy.decide({
+      bot: state.bots[0], grid: state.grid, player: state.player, winCondition: state.winCondition,
+      obstacles: index.getOccupiedHexesList(), index, stateVersion: state.stateVersion,
+      difficulty: state.difficulty, rng: new SeededRandom(1)
+    });
+    expect(decision.action).not.toBeNull();
+    expect(decision.debug).not.toMatch(/^MCTS/);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { ReplayRecorder, parseReplayFile } from '../ReplayRecorder';
+import { ReplayPlayer } from '../ReplayPlayer';
+import { serializeSession } from '../../services/sessionSnapshot';
+import { createTestSession } from './helpers';
+
+const recordMatch = () => {
+  const initial = createTestSession(1234);
+  initial.gameStatus = 'BRIEFING';
+  const recorder = new ReplayRecorder(initial);
+  const engine = new GameEngine(initial, { recorder });
+
+  engine.startMission();
+  engine.setPlayerIntent(true, 'UPGRADE');
+  for (let i = 0; i < 120; i++) engine.processTick();
+
+  engine.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }], stateVersion: engine.state!.stateVersion });
+  for (let i = 0; i < 10; i++) engine.processTick();
+
+  engine.setPlayerIntent(true, 'RECOVER');
+  for (let i = 0; i < 130; i++) engine.processTick();
+
+  return { engine, file: recorder.toFile(engine.state!.tick) };
+};
+
+describe('Replay', () => {
+  it('reconstructs the recorded match exactly', () => {
+    const { engine, file } = recordMatch();
+    // Round-trip through JSON like a downloaded file
+    const player = new ReplayPlayer(parseReplayFile(JSON.parse(JSON.stringify(file))));
+
+    player.seek(player.length);
+    expect(serializeSession(player.state!)).toEqual(serializeSession(engine.state!));
+  });
+
+  it('produces the same state when scrubbing backwards', () => {
+    const { file } = recordMatch();
+    const player = new ReplayPlayer(file);
+
+    const atTick150 = serializeSession(player.seek(150)!);
+    player.seek(player.length);
+    expect(serializeSession(player.seek(150)!)).toEqual(atTick150);
+  });
+
+  it('rejects files from an unknown format version', () => {
+    const { file } = recordMatch();
+    expect(() => parseReplayFile({ ...file, version: 99 })).toThrow(/Unsupported replay version/);
+  });
+
+  it('rejects anything that is not a complete replay file', () => {
+    const { file } = recordMatch();
+    expect(() => parseReplayFile(null)).toThrow('Not a HexQuest replay file');
+    expect(() => parseReplayFile({ ...file, format: 'save' })).toThrow('Not a HexQuest replay file');
+    expect(() => parseReplayFile({ ...file, entries: undefined })).toThrow('Replay file is corrupted');
+    expect(() => parseReplayFile({ ...file, finalTick: '260' })).toThrow('Replay file is corrupted');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { WorldIndex } from '../WorldIndex';
+import { SeededRandom } from '../SeededRandom';
+import { createNextMemory } from '../../bot/strategies/common';
+import { tryCompete } from '../../bot/strategies/rival';
+import { BotContext } from '../../bot/strategies';
+import { getHexKey, cubeDistance } from '../../services/hexUtils';
+import { BotAggression, SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const APEX = { q: -1, r: 0 };
+
+/** Flat L0 field; the player (at 2,0) builds up their L1 apex at (-1,0); bot-1 stands at (-3,1). */
+const createRivalSession = (aggression: BotAggression): SessionState => {
+  const state = createTestSession(11);
+  const grid = createSquareGrid(5);
+  grid[getHexKey(APEX.q, APEX.r)] = { ...grid[getHexKey(APEX.q, APEX.r)], currentLevel: 1, maxLevel: 1, ownerId: state.player.id, durability: 99 };
+  state.grid = grid;
+  state.player = { ...state.player, q: 2, r: 0, playerLevel: 1, recentUpgrades: [] };
+  state.bots = [{ ...state.bots[0], q: -3, r: 1, playerLevel: 3, coins: 0, moves: 10, aggression, memory: undefined }];
+  return state;
+};
+
+const createContext = (state: SessionState): BotContext => {
+  const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+  return {
+    bot: state.bots[0], grid: state.grid, player: state.player, winCondition: state.winCondition,
+    obstacles: index.getOccupiedHexesList(), index, stateVersion: state.stateVersion,
+    difficulty: state.difficulty, rng: new SeededRandom(1)
+  };
+};
+
+const compete = (state: SessionState) => {
+  const ctx = createContext(state);
+  return tryCompete(ctx, createNextMemory(ctx));
+};
+
+describe('Bot rivalry', () => {
+  it('keeps track of the player\'s position, apex and cycle points', () => {
+    const state = createRivalSession('RIVAL');
+    state.player.recentUpgrades = ['a'];
+    const ctx = createContext(state);
+    expect(createNextMemory(ctx)).toMatchObject({ lastPlayerPos: { q: 2, r: 0 }, playerApexId: getHexKey(APEX.q, APEX.r), playerCyclePoints: 1, playerRank: 1 });
+
+    // Out of sight, easy bots forget about the player
+    const blind = { ...ctx, difficulty: 'EASY' as const, visibleHexKeys: new Set<string>() };
+    expect(createNextMemory({ ...blind, bot: { ...ctx.bot, memory: createNextMemory(ctx) } }).lastPlayerPos).toBeNull();
+  });
+
+  it('races the player for the L0s around their apex, or else parks on their way', () => {
+    expect(compete(createRivalSession('PASSIVE'))).toBeNull();
+
+    // Short of cycle points: the player needs those L0s
+    const race = compete(createRivalSession('RIVAL'))!;
+    expect(race.debug).toBe('DENY: Race for L0');
+    const target = race.action?.type === 'MOVE' ? race.action.path[race.action.path.length - 1] : null;
+    expect(cubeDistance(target!, APEX)).toBe(1);
+    expect(race.memory.currentGoal?.type).toBe('DENY');
+
+    // Points in hand: the bot gets to the apex before the player and holds it
+    const state = createRivalSession('RIVAL');
+    state.player.recentUpgrades = ['a', 'b'];
+    const block = compete(state)!;
+    expect(block.debug).toBe('BLOCK: Cut player route');
+    expect(block.action?.type === 'MOVE' && block.action.path[block.action.path.length - 1]).toEqual(APEX);
+
+    state.bots[0] = { ...state.bots[0], ...APEX, recoveredCurrentHex: true };
+    expect(compete(state)).toMatchObject({ action: { type: 'WAIT' }, debug: 'BLOCK: Parked on player route' });
+  });
+
+  it('plays against the last sighting, not the live player, once out of sight', () => {
+    const ctx = createContext(createRivalSession('RIVAL'));
+    const memory = createNextMemory(ctx);
+    const inTheDark = (player: typeof ctx.player) => {
+      const blind: BotContext = { ...ctx, player, bot: { ...ctx.bot, memory }, visibleHexKeys: new Set([getHexKey(ctx.bot.q, ctx.bot.r)]), obstacles: [{ q: ctx.bot.q, r: ctx.bot.r }] };
+      return tryCompete(blind, createNextMemory(blind));
+    };
+
+    const race = inTheDark(ctx.player)!;
+    expect(race.debug).toBe('DENY: Race for L0');
+    expect(race.memory).toMatchObject({ lastPlayerPos: { q: 2, r: 0 }, playerRank: 1 });
+
+    // Meanwhile the player took the very hex the bot is racing for, and lost a rank: the bot can't know
+    const target = race.action?.type === 'MOVE' ? race.action.path[race.action.path.length - 1] : null;
+    expect(inTheDark({ ...ctx.player, ...target!, playerLevel: 0, recentUpgrades: ['a', 'b'] })).toEqual(race);
+  });
+
+  it('collapses a worn L1 next to the player\'s apex at the cost of a rank', () => {
+    const state = createRivalSession('HOSTILE');
+    const victim = getHexKey(-2, 1);
+    state.grid[victim] = { ...state.grid[victim], currentLevel: 1, maxLevel: 1, durability: 1 };
+    // The bot starts on an L1 of its own, with no cycle points to upgrade anything
+    const home = getHexKey(-3, 1);
+    state.grid[home] = { ...state.grid[home], currentLevel: 1, maxLevel: 1, ownerId: 'bot-1', durability: 99 };
+    expect(compete(createRivalSession('RIVAL'))?.debug).not.toMatch(/^SABOTAGE/);
+
+    const engine = new GameEngine(state);
+    for (let i = 0; i < 200 && engine.state!.grid[victim].structureType !== 'VOID'; i++) engine.processTick();
+
+    expect(engine.state!.grid[victim].structureType).toBe('VOID');
+    expect(engine.state!.bots[0].playerLevel).toBe(2);
+    expect(engine.state!.botActivityLog.map(entry => entry.reason)).toEqual(expect.arrayContaining(['SABOTAGE: Wear out L1', 'SABOTAGE: Collapse']));
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { createSaveFile, isSaveData, restoreSaveFile, SAVE_MIGRATIONS, SAVE_SCHEMA_VERSION } from '../../services/saveService';
+import { createTestSession } from './helpers';
+
+describe('Save files', () => {
+  afterEach(() => {
+    delete SAVE_MIGRATIONS[0];
+  });
+
+  it('restores into a new engine that continues identically', () => {
+    const engine = new GameEngine(createTestSession(5));
+    engine.setPlayerIntent(true, 'UPGRADE');
+    for (let i = 0; i < 80; i++) engine.processTick();
+
+    const save = JSON.parse(JSON.stringify(createSaveFile('slot', 'test', engine.state!)));
+    const restored = new GameEngine(restoreSaveFile(save));
+    expect(restored.state!.bots[0].memory).toEqual(engine.state!.bots[0].memory);
+
+    for (let i = 0; i < 80; i++) {
+      engine.processTick();
+      restored.processTick();
+    }
+    expect(JSON.stringify(restored.state)).toEqual(JSON.stringify(engine.state));
+  });
+
+  it('runs migrations for older schema versions', () => {
+    const save = createSaveFile('slot', 'test', createTestSession(5));
+    const legacy = { ...save, schemaVersion: 0, session: { ...save.session, tick: undefined, ticks: 42 } };
+    SAVE_MIGRATIONS[0] = (old) => {
+      if (!isSaveData(old.session)) return old;
+      const { ticks, ...session } = old.session;
+      return { ...old, session: { ...session, tick: ticks } };
+    };
+
+    expect(SAVE_SCHEMA_VERSION).toBe(1);
+    expect(restoreSaveFile(legacy).tick).toBe(42);
+  });
+
+  it('rejects saves from a newer schema', () => {
+    const save = createSaveFile('slot', 'test', createTestSession(5));
+    expect(() => restoreSaveFile({ ...save, schemaVersion: SAVE_SCHEMA_VERSION + 1 })).toThrow(/newer version/);
+  });
+
+  it('rejects corrupted saves and gaps in the migration chain', () => {
+    const save = createSaveFile('slot', 'test', createTestSession(5));
+    expect(() => restoreSaveFile(null)).toThrow('Save data is corrupted');
+    expect(() => restoreSaveFile([save])).toThrow('Save data is corrupted');
+    expect(() => restoreSaveFile({ ...save, schemaVersion: '1' })).toThrow('Save data is corrupted');
+    expect(() => restoreSaveFile({ ...save, session: { ...save.session, grid: undefined } })).toThrow('Save data is corrupted');
+    expect(() => restoreSaveFile({ ...save, schemaVersion: 0 })).toThrow('No migration from save schema 0');
+
+    // A migration that breaks the session is caught too
+    SAVE_MIGRATIONS[0] = (old) => ({ ...old, session: 'lost' });
+    expect(() => restoreSaveFile({ ...save, schemaVersion: 0 })).toThrow('Save data is corrupted');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { CAMPAIGN_LEVELS, LEVEL_DEFINITIONS } from '../../campaign/levels';
+import { loadLevel } from '../../campaign/scenario';
+import { LevelSchemaError } from '../../campaign/levelSchema';
+import { LevelDefinition } from '../../campaign/types';
+import { createInitialSessionData } from '../../services/sessionFactory';
+import { getHexKey } from '../../services/hexUtils';
+import { TEXT } from '../../services/i18n';
+
+const startLevel = (id: string) => createInitialSessionData(null, CAMPAIGN_LEVELS.find(l => l.id === id), 'EN', 7);
+
+describe('Data-driven levels', () => {
+  it('compiles the campaign from plain JSON', () => {
+    for (const def of LEVEL_DEFINITIONS) {
+      const level = loadLevel(JSON.parse(JSON.stringify(def)));
+      expect(level.definition).toEqual(def);
+      expect(level.hooks.checkWinCondition).toBeDefined();
+    }
+
+    // 1.1: own 4 sectors
+    const state = startLevel('1.1');
+    const { hooks } = CAMPAIGN_LEVELS.find(l => l.id === '1.1')!;
+    expect(hooks.checkWinCondition!(state)).toBe(false);
+    for (const key of [getHexKey(1, 0), getHexKey(0, 1), getHexKey(-1, 0)]) {
+      state.grid[key] = { ...state.grid[key], maxLevel: 1, currentLevel: 1, ownerId: state.player.id };
+    }
+    expect(hooks.checkWinCondition!(state)).toBe(true);
+
+    // 1.5: 60s time limit
+    const timed = startLevel('1.5');
+    const loss = CAMPAIGN_LEVELS.find(l => l.id === '1.5')!.hooks.checkLossCondition!;
+    expect(loss(timed)).toBe(false);
+    expect(loss({ ...timed, simTime: timed.sessionStartTime + 61000 })).toBe(true);
+  });
+
+  it('reports every schema issue at load', () => {
+    const broken = {
+      ...LEVEL_DEFINITIONS[0],
+      aiMode: 'smart',
+      startState: { credits: -5, moves: 1, rank: 1 },
+      objectives: [{ type: 'OWN_HEXES', count: 0 }, { type: 'WIN_EVENTUALLY' }],
+      restrictions: [{ type: 'FORBID_ACTION', action: 'FLY', messageKey: 'NO_SUCH_TEXT' }]
+    };
+
+    let error: unknown;
+    try { loadLevel(broken); } catch (e) { error = e; }
+
+    expect(error).toBeInstanceOf(LevelSchemaError);
+    expect((error as LevelSchemaError).levelId).toBe('1.1');
+    expect((error as LevelSchemaError).issues).toEqual([
+      'aiMode: expected one of "none", "dummy", "basic"',
+      'startState.credits: expected an integer >= 0',
+      'objectives[0].count: expected an integer >= 1',
+      'objectives[1].type: unknown condition "WIN_EVENTUALLY"',
+      'restrictions[0].action: expected one of "MOVE", "UPGRADE", "WAIT", "RECHARGE_MOVE", "BREACH", "ARM_TRAP", "ATTACK"',
+      'restrictions[0].messageKey: unknown HUD text "NO_SUCH_TEXT"'
+    ]);
+  });
+
+  it('enforces action restrictions through the ActionProcessor', () => {
+    // 1.3: an L2 needs two L1 supports (localized tutorial hint)
+    const engine = new GameEngine(startLevel('1.3'));
+    const upgrade = () => engine.applyAction(engine.state!.player.id, { type: 'UPGRADE', coord: { q: 0, r: 0 }, stateVersion: engine.state!.stateVersion });
+    expect(upgrade()).toEqual({ ok: false, reason: TEXT.EN.HUD.TUT_1_3_ERROR_STAIRCASE });
+
+    // Custom: no upgrades above L1
+    const def: LevelDefinition = {
+      ...LEVEL_DEFINITIONS[0],
+      id: 'custom',
+      restrictions: [{ type: 'FORBID_UPGRADE_ABOVE', level: 1 }, { type: 'FORBID_ACTION', action: 'BREACH', message: 'No breaching' }]
+    };
+    const custom = new GameEngine(createInitialSessionData(null, loadLevel(def), 'EN', 7));
+    const { player, stateVersion } = custom.state!;
+    expect(custom.applyAction(player.id, { type: 'UPGRADE', coord: { q: 0, r: 0 }, stateVersion })).toEqual({ ok: false, reason: 'Upgrades above L1 are locked' });
+    expect(custom.applyAction(player.id, { type: 'BREACH', coord: { q: 1, r: 0 }, stateVersion })).toEqual({ ok: false, reason: 'No breaching' });
+  });
+});
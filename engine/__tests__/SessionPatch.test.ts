@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { SessionPatch, applySessionPatch, isEmptyPatch } from '../SessionPatch';
+import { serializeSession, deserializeSession } from '../../services/sessionSnapshot';
+import { SessionState } from '../../types';
+import { SAFETY_CONFIG } from '../../rules/config';
+import { createTestSession } from './helpers';
+
+// Patches travel as JSON (network, files): apply them the way a remote consumer would
+const follow = (state: SessionState, patch: SessionPatch | undefined) => applySessionPatch(state, JSON.parse(JSON.stringify(patch)))!;
+
+describe('Session patches', () => {
+  it('rebuild every engine state, actions between ticks included', () => {
+    const engine = new GameEngine(createTestSession(6), { patches: true });
+    let mirror = deserializeSession(serializeSession(engine.state!));
+
+    for (let i = 0; i < 80; i++) {
+      if (i === 10) engine.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }] });
+      if (i === 40) engine.setPlayerIntent(true, 'RECOVER');
+      mirror = follow(mirror, engine.processTick().patch);
+      expect(mirror.stateVersion).toBe(engine.state!.stateVersion);
+    }
+    expect(serializeSession(mirror)).toEqual(serializeSession(engine.state!));
+    expect(engine.state!.botActivityLog.length).toBeGreaterThan(0);
+  });
+
+  it('carry only what changed and refuse states they were not taken against', () => {
+    const engine = new GameEngine(createTestSession(6), { patches: true });
+    const initial = engine.state!;
+    engine.processTick();
+    const first = serializeSession(engine.state!);
+    const { patch } = engine.processTick();
+
+    expect(patch!.baseVersion).toBe(first.stateVersion);
+    expect(Object.keys(patch!.hexes || {}).length).toBeLessThan(Object.keys(initial.grid).length);
+    expect(patch!.fields).toMatchObject({ tick: 2 });
+    expect(patch!.fields).not.toHaveProperty('sessionId');
+    for (const change of Object.values(patch!.entities || {})) {
+      expect(Object.keys(change.set || {})).not.toContain('id');
+    }
+
+    expect(applySessionPatch(initial, patch!)).toBeNull();
+    const mirror = deserializeSession(first);
+    expect(follow(mirror, patch).tick).toBe(2);
+    expect(serializeSession(mirror)).toEqual(first); // Patched into a new state
+    expect(isEmptyPatch(engine.takePatch()!)).toBe(true); // Nothing new since the last tick
+  });
+
+  it('follow hot-seat handovers and truncated logs', () => {
+    const session = createTestSession(3, {
+      hotSeat: [{ nickname: 'Ada', avatarColor: '#3b82f6', avatarIcon: 'user' }, { nickname: 'Bo', avatarColor: '#22c55e', avatarIcon: 'zap' }]
+    });
+    // A full log: every new message pushes the oldest out
+    session.messageLog = Array.from({ length: SAFETY_CONFIG.MAX_LOG_SIZE }, (_, i) => ({ ...session.messageLog[0], id: `old-${i}` }));
+    const engine = new GameEngine(session, { patches: true });
+    let mirror = deserializeSession(serializeSession(engine.state!));
+
+    engine.endTurn();
+    const handover = engine.takePatch()!;
+    expect(handover.roster).toEqual({ player: 'player-2', hotSeats: ['player-1'], bots: ['bot-1', 'bot-2', 'bot-3'] });
+    mirror = follow(mirror, handover);
+    expect(mirror.player.nickname).toBe('Bo');
+
+    engine.endTurn();
+    for (let i = 0; i < 250; i++) {
+      mirror = follow(mirror, engine.processTick().patch);
+      if (engine.state!.turn!.ticksLeft === 0) engine.endTurn(), engine.endTurn();
+    }
+    expect(serializeSession(mirror)).toEqual(serializeSession(engine.state!));
+    expect(mirror.messageLog).toHaveLength(SAFETY_CONFIG.MAX_LOG_SIZE);
+    expect(mirror.messageLog[0].id).not.toMatch(/^old-/);
+  });
+});
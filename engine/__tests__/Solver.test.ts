@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { CAMPAIGN_LEVELS } from '../../campaign/levels';
+import { loadLevel } from '../../campaign/scenario';
+import { LevelDefinition } from '../../campaign/types';
+import { solveLevel, createLevelSession, createSolvableLevelSession, findSolvableSeed, playSolverAction, DEFAULT_SOLVE_OPTIONS } from '../../campaign/solver';
+import { SolverWorker, solveLevelSeed } from '../../worker/LevelSolver';
+import { SolverRequest } from '../../worker/protocol';
+import { createBlankLevel } from '../../services/levelEditor';
+
+const level = (id: string) => CAMPAIGN_LEVELS.find(l => l.id === id)!;
+
+// Open disc: sectors are discovered while walking, so (3,0) is three steps away
+const walkTo = (moves: number): LevelDefinition => ({
+  ...createBlankLevel(1),
+  startState: { credits: 0, moves, rank: 1 },
+  objectives: [{ type: 'REACH_HEX', q: 3, r: 0 }],
+  restrictions: [{ type: 'FORBID_ACTION', action: 'UPGRADE' }]
+});
+
+describe('Level solver', () => {
+  it('finds a shortest solution that wins when replayed', () => {
+    const result = solveLevel(level('1.3'));
+    expect(result.status).toBe('SOLVABLE');
+    expect(result.actions).toBe(5); // 2 supports (move + acquire each), then the L2
+    expect(result.solution).toHaveLength(5);
+
+    const engine = new GameEngine(createLevelSession(level('1.3'), 'EN', 1));
+    for (const action of result.solution!) expect(playSolverAction(engine, action)).not.toBeNull();
+    engine.processTick();
+    expect(engine.state!.gameStatus).toBe('VICTORY');
+  });
+
+  it('proves every campaign level solvable within the default bounds', () => {
+    // The objective bounds steer the search: searched (nearly) breadth-first, 1.4-1.6 ran out of states
+    for (const campaignLevel of CAMPAIGN_LEVELS) {
+      expect(solveLevel(campaignLevel, DEFAULT_SOLVE_OPTIONS).status, campaignLevel.id).toBe('SOLVABLE');
+    }
+  }, 60_000);
+
+  it('tells unsolvable levels from exhausted search bounds', () => {
+    expect(solveLevel(loadLevel(walkTo(3)))).toMatchObject({ status: 'SOLVABLE', actions: 3 });
+    expect(solveLevel(loadLevel(walkTo(2)))).toMatchObject({ status: 'UNSOLVABLE', actions: null, solution: null });
+    expect(solveLevel(loadLevel(walkTo(3)), { maxActions: 2 }).status).toBe('UNKNOWN');
+    expect(solveLevel(level('1.3'), { maxStates: 3 }).status).toBe('UNKNOWN');
+  });
+
+  it('re-rolls generated maps until one is proven solvable', () => {
+    // Seed 29 rolls a pyramid run too long to prove on the level-start budget
+    const session = createSolvableLevelSession(level('1.2'), 'EN', 29);
+    expect(session.seed).toBe(30);
+    expect(solveLevel(level('1.2'), {}, 30).status).toBe('SOLVABLE');
+
+    // Fixed layouts start as seeded, with the level's growth rules
+    const fixed = createSolvableLevelSession(level('1.6'), 'EN', 29);
+    expect(fixed.seed).toBe(29);
+    expect(fixed.winCondition).toMatchObject({ difficulty: 'EASY', queueSize: 1 });
+  });
+
+  it('bounds the re-rolls of a level start by the states solved in all', () => {
+    // Seed 29 spends the whole budget without a proof: seed 30 is played unverified, not solved
+    expect(findSolvableSeed(level('1.2'), 29, { maxStates: 1000 }, 1000)).toBe(30);
+    expect(findSolvableSeed(level('1.2'), 29, { maxStates: 1000 }, 1)).toBe(30);
+    // Out of rolls before the budget: the last roll is played
+    expect(findSolvableSeed(level('1.2'), 29, { maxStates: 1 })).toBe(29 + 9);
+  });
+
+  describe('off the UI thread', () => {
+    afterEach(() => { vi.unstubAllGlobals(); });
+
+    // A worker that answers like solver.worker, or fails
+    const fakeWorker = (answer: (request: SolverRequest) => unknown) => {
+      const worker: SolverWorker & { requests: SolverRequest[]; terminated: boolean } = {
+        onmessage: null, onerror: null, requests: [], terminated: false,
+        postMessage(request) {
+          worker.requests.push(request);
+          setTimeout(() => {
+            try {
+              worker.onmessage?.({ data: answer(request) });
+            } catch (e) {
+              worker.onerror?.(e);
+            }
+          }, 0);
+        },
+        terminate() { worker.terminated = true; }
+      };
+      return worker;
+    };
+
+    it('solves generated maps in a worker and starts fixed layouts as seeded', async () => {
+      vi.stubGlobal('Worker', class {});
+      const worker = fakeWorker(request => ({ type: 'SOLVED', seed: findSolvableSeed(loadLevel(request.definition), request.seed) }));
+
+      expect(await solveLevelSeed(level('1.2'), 29, () => worker)).toBe(30);
+      expect(worker.requests).toEqual([{ type: 'SOLVE', definition: level('1.2').definition, seed: 29 }]);
+      expect(worker.terminated).toBe(true);
+
+      const unused = fakeWorker(() => { throw new Error('not called'); });
+      expect(await solveLevelSeed(level('1.6'), 29, () => unused)).toBe(29);
+      expect(unused.requests).toHaveLength(0);
+    });
+
+    it('plays the roll unverified when the worker fails, and solves in place without Workers', async () => {
+      vi.stubGlobal('Worker', class {});
+      expect(await solveLevelSeed(level('1.2'), 29, () => fakeWorker(() => { throw new Error('crashed'); }))).toBe(29);
+      expect(await solveLevelSeed(level('1.2'), 29, () => fakeWorker(() => ({ type: 'ERROR', reason: 'bad level' })))).toBe(29);
+
+      vi.unstubAllGlobals();
+      expect(await solveLevelSeed(level('1.2'), 29)).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey, findPath } from '../../services/hexUtils';
+import { SessionState } from '../../types';
+import { getPathOptions } from '../../bot/strategies/common';
+import { WorldIndex } from '../WorldIndex';
+import { SeededRandom } from '../SeededRandom';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const TRAPS = GAME_CONFIG.TRAPS;
+
+/** Flat L1 field owned by the player (at 0,0); bot-1 at (2,0). */
+const createTrapSession = (): SessionState => {
+  const state = createTestSession(17);
+  const grid = createSquareGrid(3, { currentLevel: 1, maxLevel: 1, ownerId: state.player.id, durability: 99 });
+  state.grid = grid;
+  state.player = { ...state.player, q: 0, r: 0, coins: 100 };
+  state.bots = [{ ...state.bots[0], q: 2, r: 0, moves: 10, coins: 50, lastActionTime: Infinity }];
+  return state;
+};
+
+const armTrap = (engine: GameEngine, potency: number) => {
+  const { player, stateVersion } = engine.state!;
+  return engine.applyAction(player.id, { type: 'ARM_TRAP', coord: { q: player.q, r: player.r }, potency, stateVersion });
+};
+
+const runUntilIdle = (engine: GameEngine) => {
+  const events = [];
+  for (let i = 0; i < 40; i++) events.push(...engine.processTick().events);
+  return events;
+};
+
+describe('Traps', () => {
+  it('arming charges per potency point and re-arming only the difference', () => {
+    const engine = new GameEngine(createTrapSession());
+    expect(armTrap(engine, 1).ok).toBe(true);
+    expect(armTrap(engine, 1).ok).toBe(false);
+    expect(armTrap(engine, 3).ok).toBe(true);
+    expect(engine.state!.player.coins).toBe(100 - 3 * TRAPS.costPerPotency);
+    expect(engine.state!.grid[getHexKey(0, 0)].trap).toEqual({ active: true, potency: 3, revealed: false });
+  });
+
+  it('refuses arming off owned land, outside the potency range or beyond the purse', () => {
+    const arm = (patch: (state: SessionState) => void, potency: number) => {
+      const state = createTrapSession();
+      patch(state);
+      return armTrap(new GameEngine(state), potency).reason;
+    };
+    const here = getHexKey(0, 0);
+
+    expect(arm(state => { state.grid[here] = { ...state.grid[here], ownerId: 'bot-1' }; }, 1)).toBe('TRAP REQUIRES OWNED SECTOR (L1+)');
+    expect(arm(state => { state.grid[here] = { ...state.grid[here], currentLevel: 0, maxLevel: 0 }; }, 1)).toBe('TRAP REQUIRES OWNED SECTOR (L1+)');
+    expect(arm(() => {}, 0)).toBe(`Trap potency must be 1-${TRAPS.maxPotency}`);
+    expect(arm(() => {}, TRAPS.maxPotency + 1)).toBe(`Trap potency must be 1-${TRAPS.maxPotency}`);
+    expect(arm(() => {}, 1.5)).toBe(`Trap potency must be 1-${TRAPS.maxPotency}`);
+    expect(arm(state => { state.player.coins = 2 * TRAPS.costPerPotency - 1; }, 2)).toMatch(/Insufficient credits/);
+  });
+
+  it('springs on rivals: drains, halts and reveals itself', () => {
+    const state = createTrapSession();
+    const trapKey = getHexKey(1, 0);
+    state.grid[trapKey] = { ...state.grid[trapKey], trap: { active: true, potency: 2 } };
+
+    const engine = new GameEngine(state);
+    engine.applyAction('bot-1', { type: 'MOVE', path: [{ q: 1, r: 0 }, { q: 0, r: 1 }], stateVersion: engine.state!.stateVersion });
+    const sprung = runUntilIdle(engine).find(e => e.type === 'TRAP_TRIGGERED');
+
+    const bot = engine.state!.bots[0];
+    expect(sprung?.entityId).toBe('bot-1');
+    expect({ q: bot.q, r: bot.r }).toEqual({ q: 1, r: 0 }); // Halted on the trap
+    expect(bot.moves).toBe(10 - 2 - 2 * TRAPS.movesDrainPerPotency);
+    expect(bot.coins).toBe(50 - 2 * TRAPS.coinsDrainPerPotency);
+    expect(engine.state!.grid[trapKey].trap).toEqual({ active: true, potency: 1, revealed: true });
+  });
+
+  it('bots route around traps they have seen spring', () => {
+    const state = createTrapSession();
+    const trapKey = getHexKey(1, 0);
+    state.grid[trapKey] = { ...state.grid[trapKey], trap: { active: true, potency: 1, revealed: true } };
+    const index = new WorldIndex(state.grid, [state.player, ...state.bots]);
+    const ctx = {
+      bot: state.bots[0], grid: state.grid, player: state.player, winCondition: state.winCondition,
+      obstacles: [], index, stateVersion: 0, difficulty: state.difficulty, rng: new SeededRandom(1)
+    };
+
+    expect(getPathOptions(ctx).avoid).toEqual(new Set([trapKey]));
+    const path = findPath({ q: 2, r: 0 }, { q: 0, r: 0 }, state.grid, 1, [], getPathOptions(ctx));
+    expect(path).not.toBeNull();
+    expect(path!.some(c => c.q === 1 && c.r === 0)).toBe(false);
+    // The owner never fears its own traps
+    expect(getPathOptions({ ...ctx, bot: state.player }).avoid?.size).toBe(0);
+  });
+
+  it('a weak trap drains only what the victim has, lets it walk on and is used up', () => {
+    const state = createTrapSession();
+    const trapKey = getHexKey(1, 0);
+    state.grid[trapKey] = { ...state.grid[trapKey], trap: { active: true, potency: 1 } };
+    state.bots[0] = { ...state.bots[0], coins: 3 };
+
+    const engine = new GameEngine(state);
+    engine.applyAction('bot-1', { type: 'MOVE', path: [{ q: 1, r: 0 }, { q: 0, r: 1 }], stateVersion: engine.state!.stateVersion });
+    const sprung = runUntilIdle(engine).find(e => e.type === 'TRAP_TRIGGERED');
+
+    const bot = engine.state!.bots[0];
+    expect(sprung?.data).toMatchObject({ potency: 1, movesLost: TRAPS.movesDrainPerPotency, coinsLost: 3, halted: false });
+    expect({ q: bot.q, r: bot.r }).toEqual({ q: 0, r: 1 });
+    expect(bot.coins).toBe(0);
+    expect(engine.state!.grid[trapKey].trap).toBeNull();
+  });
+
+  it('never springs on its owner', () => {
+    const state = createTrapSession();
+    const trapKey = getHexKey(-1, 0);
+    state.grid[trapKey] = { ...state.grid[trapKey], trap: { active: true, potency: 3 } };
+    state.player = { ...state.player, moves: 10 };
+
+    const engine = new GameEngine(state);
+    expect(engine.applyAction(state.player.id, { type: 'MOVE', path: [{ q: -1, r: 0 }, { q: -2, r: 0 }], stateVersion: state.stateVersion }).ok).toBe(true);
+    const events = runUntilIdle(engine);
+
+    expect(events.some(e => e.type === 'TRAP_TRIGGERED')).toBe(false);
+    expect(engine.state!.player).toMatchObject({ q: -2, r: 0, coins: 100 });
+    expect(engine.state!.grid[trapKey].trap).toEqual({ active: true, potency: 3 });
+  });
+});
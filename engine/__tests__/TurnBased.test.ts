@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { ReplayRecorder } from '../ReplayRecorder';
+import { ReplayPlayer } from '../ReplayPlayer';
+import { serializeSession } from '../../services/sessionSnapshot';
+import { getHexKey } from '../../services/hexUtils';
+import { GAME_CONFIG } from '../../rules/config';
+import { runMatch } from '../../sim/HeadlessRunner';
+import { createTestSession } from './helpers';
+
+const { ticksPerTurn } = GAME_CONFIG.TURNS;
+
+const growHome = (engine: GameEngine) => {
+  const { player, stateVersion } = engine.state!;
+  const res = engine.applyAction(player.id, { type: 'UPGRADE', coord: { q: player.q, r: player.r }, intent: 'UPGRADE', stateVersion });
+  engine.setPlayerIntent(true, 'UPGRADE');
+  return res;
+};
+
+const resolveTurn = (engine: GameEngine) => {
+  expect(engine.endTurn().ok).toBe(true);
+  for (let i = 0; i < ticksPerTurn; i++) engine.processTick();
+};
+
+describe('Turn-based mode', () => {
+  it('spends a budget of actions per turn and only advances on End Turn', () => {
+    const session = createTestSession(5, { turnBased: true });
+    session.player.coins = 50;
+    const engine = new GameEngine(session);
+    engine.processTick();
+    expect(engine.state!.tick).toBe(0); // No clock between turns
+
+    expect(engine.applyAction('player-1', { type: 'WAIT' }).ok).toBe(true); // Free
+    expect(growHome(engine).ok).toBe(true);
+    expect(engine.applyAction('player-1', { type: 'RECHARGE_MOVE' }).ok).toBe(true);
+    expect(engine.applyAction('player-1', { type: 'RECHARGE_MOVE' }).ok).toBe(true);
+    expect(engine.applyAction('player-1', { type: 'RECHARGE_MOVE' })).toEqual({ ok: false, reason: 'No actions left this turn' });
+    expect(engine.state!.player.moves).toBe(2);
+
+    expect(engine.endTurn().ok).toBe(true);
+    expect(engine.endTurn()).toEqual({ ok: false, reason: 'Turn is resolving' });
+    expect(engine.applyAction('player-1', { type: 'RECHARGE_MOVE' })).toEqual({ ok: false, reason: 'Turn is resolving' });
+
+    for (let i = 0; i < ticksPerTurn + 5; i++) engine.processTick();
+    expect(engine.state!.tick).toBe(ticksPerTurn);
+    expect(engine.state!.currentTurn).toBe(1);
+    expect(Object.values(engine.state!.turn!.actionsLeft).every(n => n === GAME_CONFIG.TURNS.actionsPerTurn)).toBe(true);
+
+    // Real-time sessions are unaffected
+    const realTime = new GameEngine(createTestSession(5));
+    realTime.processTick();
+    expect(realTime.state!.tick).toBe(1);
+    expect(realTime.state!.turn).toBeUndefined();
+  });
+
+  it('charges no action for refused orders', () => {
+    const engine = new GameEngine(createTestSession(5, { turnBased: true }));
+    const actionsLeft = () => engine.state!.turn!.actionsLeft['player-1'];
+
+    expect(engine.applyAction('player-1', { type: 'RECHARGE_MOVE' }).ok).toBe(false); // No credits
+    expect(engine.applyAction('player-1', { type: 'MOVE', path: [{ q: 5, r: 5 }] }).ok).toBe(false);
+    expect(actionsLeft()).toBe(GAME_CONFIG.TURNS.actionsPerTurn);
+
+    expect(growHome(engine).ok).toBe(true);
+    expect(actionsLeft()).toBe(GAME_CONFIG.TURNS.actionsPerTurn - 1);
+  });
+
+  it('lets bots plan their whole turn at once and grows sectors per turn', () => {
+    const engine = new GameEngine(createTestSession(5, { turnBased: true }));
+    const home = getHexKey(0, 0);
+    growHome(engine);
+
+    engine.endTurn();
+    const planned = engine.state!.botActivityLog.length;
+    expect(planned).toBeGreaterThanOrEqual(engine.state!.bots.length);
+    expect(engine.state!.bots.every(b => engine.state!.turn!.actionsLeft[b.id] < GAME_CONFIG.TURNS.actionsPerTurn)).toBe(true);
+
+    for (let i = 0; i < ticksPerTurn - 1; i++) engine.processTick();
+    expect(engine.state!.botActivityLog.length).toBe(planned); // Bots do not decide mid-turn
+    expect(engine.state!.grid[home]).toMatchObject({ maxLevel: 0, progress: 0 });
+
+    engine.processTick(); // The turn's closing tick
+    expect(engine.state!.grid[home]).toMatchObject({ maxLevel: 1, ownerId: 'player-1' });
+  });
+
+  it('plays deterministic headless matches and replays', () => {
+    const a = runMatch({ seed: 4, maxTicks: 600, turnBased: true });
+    expect(runMatch({ seed: 4, maxTicks: 600, turnBased: true })).toEqual(a);
+    expect(a.ticks % ticksPerTurn).toBe(0);
+
+    const initial = createTestSession(9, { turnBased: true });
+    const recorder = new ReplayRecorder(initial);
+    const engine = new GameEngine(initial, { recorder });
+    growHome(engine);
+    resolveTurn(engine);
+    engine.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }], stateVersion: engine.state!.stateVersion });
+    resolveTurn(engine);
+    resolveTurn(engine);
+
+    const player = new ReplayPlayer(JSON.parse(JSON.stringify(recorder.toFile(engine.state!.tick))));
+    player.seek(player.length);
+    expect(serializeSession(player.state!)).toEqual(serializeSession(engine.state!));
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG } from '../../rules/config';
+import { getHexKey } from '../../services/hexUtils';
+import { getVisionRadius, computeVisibility, fogHex, getFoggedGrid, isVisibilityStale } from '../../rules/visibility';
+import { BOT_STRATEGIES } from '../../bot/strategies';
+import { BotContext } from '../../bot/strategies/types';
+import { Hex, SessionState } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const VISION = GAME_CONFIG.VISION;
+
+/** Flat L0 field q, r = -12..12; the player at (0,0), bot-1 at (10,0). */
+const createStripSession = (): SessionState => {
+  const state = createTestSession(31);
+  const grid = createSquareGrid(12);
+  state.grid = grid;
+  state.player = { ...state.player, q: 0, r: 0, moves: 10, playerLevel: 0 };
+  state.bots = [{ ...state.bots[0], q: 10, r: 0, playerLevel: 0, lastActionTime: undefined }];
+  return state;
+};
+
+describe('Fog of war', () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('vision grows with rank and high ground', () => {
+    const { player } = createStripSession();
+    const flat: Hex = { id: '0,0', q: 0, r: 0, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true };
+    const peak: Hex = { ...flat, maxLevel: VISION.highGroundLevel };
+
+    expect(getVisionRadius(player, flat)).toBe(VISION.baseRadius);
+    expect(getVisionRadius({ ...player, playerLevel: VISION.ranksPerRadius }, flat)).toBe(VISION.baseRadius + 1);
+    expect(getVisionRadius(player, peak)).toBe(VISION.baseRadius + VISION.highGroundBonus);
+    expect(getVisionRadius({ ...player, playerLevel: 99 }, peak)).toBe(VISION.maxRadius);
+
+    const r = VISION.baseRadius;
+    expect(computeVisibility(player, { '0,0': flat }).hexKeys).toHaveLength(3 * r * (r + 1) + 1);
+  });
+
+  it('the void grants no high ground, and a rank-up alone makes the cached vision stale', () => {
+    const { player, grid } = createStripSession();
+    const here = getHexKey(0, 0);
+    const rift: Hex = { ...grid[here], maxLevel: VISION.highGroundLevel, structureType: 'VOID' };
+    expect(getVisionRadius(player, rift)).toBe(VISION.baseRadius);
+    expect(getVisionRadius(player, undefined)).toBe(VISION.baseRadius);
+
+    const seeing = { ...player, visibility: computeVisibility(player, grid) };
+    expect(isVisibilityStale(seeing, grid)).toBe(false);
+    expect(isVisibilityStale({ ...seeing, playerLevel: VISION.ranksPerRadius - 1 }, grid)).toBe(false);
+    expect(isVisibilityStale({ ...seeing, playerLevel: VISION.ranksPerRadius }, grid)).toBe(true);
+    expect(isVisibilityStale(seeing, { ...grid, [here]: { ...grid[here], maxLevel: VISION.highGroundLevel } })).toBe(true);
+  });
+
+  it('fogged hexes hide traps, HP and pressure, and are reused until the hex changes', () => {
+    const { grid } = createStripSession();
+    const hex: Hex = { ...grid[getHexKey(5, 0)], maxLevel: 1, ownerId: 'bot-1', structureType: 'BARRIER', structureHp: 4, attackPoint: 1, durability: 2, trap: { active: true, potency: 2 } };
+
+    const fogged = fogHex(hex);
+    expect(fogged).toEqual({ id: hex.id, q: 5, r: 0, currentLevel: 0, maxLevel: 1, ownerId: 'bot-1', structureType: 'BARRIER', richness: undefined, progress: 0, revealed: true });
+    expect(fogHex(hex)).toBe(fogged);
+    expect(fogHex({ ...hex, structureHp: 3 })).not.toBe(fogged);
+  });
+
+  it('fogged grids are read-only views that fog a hex when it is read', () => {
+    const { grid } = createStripSession();
+    const near = getHexKey(1, 0);
+    const far = getHexKey(9, 0);
+    grid[far] = { ...grid[far], maxLevel: 1, durability: 2 };
+    const view = getFoggedGrid(grid, new Set([near]));
+
+    expect(view[near]).toBe(grid[near]);
+    expect(view[far]).toBe(fogHex(grid[far]));
+    expect(view[far].durability).toBeUndefined();
+    expect(view[getHexKey(99, 0)]).toBeUndefined();
+    expect(Object.keys(view)).toEqual(Object.keys(grid));
+    expect(Object.values(view)).toContain(fogHex(grid[far]));
+    expect(() => { view[near] = grid[far]; }).toThrow(TypeError);
+    expect(grid[near].id).toBe(near);
+  });
+
+  it('MovementSystem keeps each entity\'s visibility in step with its position', () => {
+    const engine = new GameEngine(createStripSession());
+    engine.processTick();
+    expect(engine.state!.player.visibility).toMatchObject({ q: 0, r: 0, radius: VISION.baseRadius });
+
+    engine.applyAction(engine.state!.player.id, { type: 'MOVE', path: [{ q: 1, r: 0 }, { q: 2, r: 0 }], stateVersion: engine.state!.stateVersion });
+    for (let i = 0; i < 20; i++) engine.processTick();
+
+    const visible = new Set(engine.state!.player.visibility!.hexKeys);
+    expect(engine.state!.player.visibility).toMatchObject({ q: 2, r: 0 });
+    expect(visible.has(getHexKey(2 + VISION.baseRadius, 0))).toBe(true);
+    expect(visible.has(getHexKey(-VISION.baseRadius, 0))).toBe(false);
+  });
+
+  it('bots decide on a fogged grid and only see units in range', () => {
+    const state = createStripSession();
+    const farKey = getHexKey(-8, 0);
+    state.grid[farKey] = { ...state.grid[farKey], currentLevel: 1, maxLevel: 2, progress: 7, ownerId: 'player-1', structureType: 'MINE', structureHp: 3 };
+
+    const decide = vi.spyOn(BOT_STRATEGIES.nomad, 'decide');
+    new GameEngine(state).processTick();
+
+    const ctx = decide.mock.calls[0][0] as BotContext;
+    // HexView only: terrain and owner are public, the rest is hidden
+    expect(ctx.grid[farKey]).toEqual({ id: farKey, q: -8, r: 0, currentLevel: 1, maxLevel: 2, structureType: 'MINE', ownerId: 'player-1', progress: 0, revealed: true });
+    expect(ctx.grid[getHexKey(9, 0)]).toBe(state.grid[getHexKey(9, 0)]);
+    expect(ctx.obstacles).toEqual([{ q: 10, r: 0 }]); // Itself; the player at (0,0) is out of sight
+    expect(ctx.visibleHexKeys?.has(getHexKey(0, 0))).toBe(false);
+  });
+});
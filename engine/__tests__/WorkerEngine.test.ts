@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { ReplayRecorder } from '../ReplayRecorder';
+import { EngineHost } from '../../worker/EngineHost';
+import { WorkerEngine, EngineWorker } from '../../worker/WorkerEngine';
+import { WORKER_CONFIG } from '../../worker/protocol';
+import { serializeSession, deserializeSession } from '../../services/sessionSnapshot';
+import { SessionState } from '../../types';
+import { GAME_CONFIG } from '../../rules/config';
+import { createTestSession } from './helpers';
+
+// Stands in for the Web Worker: the real EngineHost, with messages copied and delivered asynchronously
+const createFakeWorker = (): EngineWorker => {
+  let alive = true;
+  const worker: EngineWorker = {
+    onmessage: null,
+    postMessage: message => {
+      const copy = structuredClone(message);
+      setTimeout(() => alive && host.receive(copy));
+    },
+    terminate: () => { alive = false; }
+  };
+  const host = new EngineHost(message => {
+    const copy = structuredClone(message);
+    setTimeout(() => alive && worker.onmessage?.({ data: copy }));
+  });
+  return worker;
+};
+
+// Every message posted so far has been answered
+const settle = async () => {
+  for (let i = 0; i < 3; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+const copyOf = (state: SessionState) => deserializeSession(serializeSession(state));
+
+const createFundedSession = () => {
+  const session = createTestSession(6);
+  session.player.coins = 50; // Moves beyond the free ones are paid
+  return session;
+};
+
+describe('Engine in a Web Worker', () => {
+  it('plays the same match as a local engine', async () => {
+    const session = createFundedSession();
+    const localRecorder = new ReplayRecorder(session);
+    const local = new GameEngine(copyOf(session), { recorder: localRecorder });
+    const recorder = new ReplayRecorder(session);
+    const worker = new WorkerEngine(session, { createWorker: createFakeWorker, recorder });
+    const localEvents: string[] = [];
+    const workerEvents: string[] = [];
+
+    for (let i = 0; i < 60; i++) {
+      localEvents.push(...local.processTick().events.map(e => e.type));
+      workerEvents.push(...worker.processTick().events.map(e => e.type));
+      if (i === 10) {
+        // Given on the state before the tick the worker is still running: rebased onto it
+        expect(worker.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }], stateVersion: worker.state!.stateVersion }).ok).toBe(true);
+        local.applyAction('player-1', { type: 'MOVE', path: [{ q: 1, r: 0 }], stateVersion: local.state!.stateVersion });
+      }
+      if (i === 30) {
+        worker.setPlayerIntent(true, 'RECOVER');
+        local.setPlayerIntent(true, 'RECOVER');
+      }
+      await settle();
+    }
+    workerEvents.push(...worker.processTick().events.map(e => e.type));
+
+    expect(serializeSession(worker.state!)).toEqual(serializeSession(local.state!));
+    expect(worker.state!.player.q).toBe(1);
+    expect(workerEvents).toEqual(localEvents);
+    expect(recorder.toFile(60).entries).toEqual(localRecorder.toFile(60).entries);
+    worker.destroy();
+  });
+
+  it('skips ticks while the worker is busy and reports what it denies', async () => {
+    const session = createTestSession(6, { botCount: 2 });
+    session.player.coins = GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE; // Credits for one recharge
+    const worker = new WorkerEngine(session, { createWorker: createFakeWorker });
+    for (let i = 0; i < 5; i++) worker.processTick();
+    await settle();
+    expect(worker.state!.tick).toBe(WORKER_CONFIG.MAX_TICKS_IN_FLIGHT);
+
+    // Both pass the check against the posted state; the worker has spent the credits on the first
+    const recharge = () => worker.applyAction('player-1', { type: 'RECHARGE_MOVE', stateVersion: worker.state!.stateVersion });
+    expect(recharge().ok).toBe(true);
+    expect(recharge().ok).toBe(true);
+    await settle();
+    const denied = worker.processTick().events.filter(e => e.type === 'ACTION_DENIED');
+    expect(denied).toHaveLength(1);
+    expect(denied[0].entityId).toBe('player-1');
+    worker.destroy();
+  });
+
+  it('stops the session where it was when the worker fails', async () => {
+    const errors: string[] = [];
+    const session = { ...createTestSession(2), activeLevelConfig: { id: 'missing-level' } } as SessionState;
+    const worker = new WorkerEngine(session, { createWorker: createFakeWorker, onError: reason => errors.push(reason) });
+    worker.processTick();
+    await settle();
+
+    expect(errors).toEqual(['Unknown level "missing-level"']);
+    expect(worker.state!.tick).toBe(0);
+    expect(worker.applyAction('player-1', { type: 'WAIT' })).toEqual({ ok: false, reason: 'Engine Destroyed' });
+    expect(worker.endTurn().ok).toBe(false);
+
+    worker.destroy();
+    expect(worker.processTick()).toEqual({ state: null, events: [] });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine';
+import { GAME_CONFIG, getLevelConfig } from '../../rules/config';
+import { getHexKey, cubeDistance } from '../../services/hexUtils';
+import { generateChunk, getChunkKey, getChunkOf } from '../../services/worldGenerator';
+import { Hex } from '../../types';
+import { createSquareGrid, createTestSession } from './helpers';
+
+const WORLD = GAME_CONFIG.WORLD;
+
+describe('Procedural world', () => {
+  it('generates chunks from the seed alone, with terrain features outside the start area', () => {
+    expect(createTestSession(12).grid).toEqual(createTestSession(12).grid);
+    expect(generateChunk(12, { cq: 3, cr: -2 })).toEqual(generateChunk(12, { cq: 3, cr: -2 }));
+
+    const hexes: Hex[] = [];
+    for (let cq = -4; cq < 4; cq++) {
+      for (let cr = -4; cr < 4; cr++) hexes.push(...generateChunk(12, { cq, cr }));
+    }
+    expect(hexes.some(h => h.maxLevel >= 2)).toBe(true);
+    expect(hexes.some(h => h.structureType === 'VOID')).toBe(true);
+    expect(hexes.some(h => h.structureType === 'BARRIER' && !h.ownerId)).toBe(true);
+    expect(hexes.some(h => h.richness === WORLD.richIncomeMultiplier)).toBe(true);
+    expect(hexes.filter(h => h.maxLevel === 1).every(h => h.durability === GAME_CONFIG.L1_HEX_MAX_DURABILITY)).toBe(true);
+
+    const start = hexes.filter(h => cubeDistance(h, { q: 0, r: 0 }) <= WORLD.safeRadius);
+    expect(start.every(h => h.maxLevel === 0 && !h.structureType && !h.richness)).toBe(true);
+    // Another seed, another world
+    expect(generateChunk(13, { cq: 3, cr: -2 })).not.toEqual(generateChunk(12, { cq: 3, cr: -2 }));
+  });
+
+  it('streams in the chunks around a moving entity without touching known hexes', () => {
+    const state = createTestSession(12);
+    state.bots = [];
+    state.player = { ...state.player, q: 3, r: 0, moves: 10 };
+    const edge = getHexKey(4, 0);
+    state.grid = { ...state.grid, [edge]: { ...state.grid[edge], currentLevel: 0, maxLevel: 0, structureType: undefined, revealed: false } };
+
+    const beyond = getChunkOf(4 + WORLD.loadRadius, 0);
+    expect(state.world!.loadedChunks).not.toContain(getChunkKey(beyond));
+    const loadedBefore = state.world!.loadedChunks;
+
+    const engine = new GameEngine(state);
+    engine.applyAction(state.player.id, { type: 'MOVE', path: [{ q: 4, r: 0 }], stateVersion: state.stateVersion });
+    for (let i = 0; i < 10; i++) engine.processTick();
+
+    const { grid, world, player } = engine.state!;
+    expect(player).toMatchObject({ q: 4, r: 0 });
+    expect(world!.loadedChunks).toContain(getChunkKey(beyond));
+    expect(loadedBefore).not.toContain(getChunkKey(beyond)); // Copy-on-write
+    expect(grid[edge]).toMatchObject({ maxLevel: 0, revealed: true });
+
+    // Far corner of the new chunk: generated, not yet revealed
+    const corner = generateChunk(world!.seed, beyond).find(h => cubeDistance(h, player) > 1)!;
+    expect(grid[corner.id]).toEqual(corner);
+  });
+
+  it('grows fixed maps only by blank hexes next to the mover', () => {
+    const state = createTestSession(12);
+    state.bots = [];
+    state.world = undefined;
+    state.grid = createSquareGrid(2);
+    state.player = { ...state.player, q: 1, r: 0, moves: 10 };
+
+    const engine = new GameEngine(state);
+    engine.applyAction(state.player.id, { type: 'MOVE', path: [{ q: 2, r: 0 }], stateVersion: state.stateVersion });
+    for (let i = 0; i < 10; i++) engine.processTick();
+
+    const { grid, player, world } = engine.state!;
+    expect(player).toMatchObject({ q: 2, r: 0 });
+    expect(world).toBeUndefined();
+    const added = Object.values(grid).filter(h => !state.grid[h.id]);
+    expect(added.map(h => h.id).sort()).toEqual([getHexKey(3, -1), getHexKey(3, 0)]);
+    expect(added.every(h => h.maxLevel === 0 && !h.structureType && !h.richness)).toBe(true);
+  });
+
+  it('rich sectors multiply their payout', () => {
+    const state = createTestSession(12);
+    state.bots = [];
+    const key = getHexKey(state.player.q, state.player.r);
+    state.grid = { ...state.grid, [key]: { ...state.grid[key], richness: WORLD.richIncomeMultiplier } };
+
+    const engine = new GameEngine(state);
+    engine.setPlayerIntent(true, 'UPGRADE');
+    for (let i = 0; i < getLevelConfig(1).growthTime + 5; i++) engine.processTick();
+
+    expect(engine.state!.grid[key]).toMatchObject({ maxLevel: 1, ownerId: state.player.id });
+    expect(engine.state!.player.totalCoinsEarned).toBe(getLevelConfig(1).income * WORLD.richIncomeMultiplier);
+  });
+});
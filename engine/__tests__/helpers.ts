@@ -0,0 +1,28 @@
+import { Hex, SessionState, WinCondition } from '../../types';
+import { createInitialSessionData } from '../../services/sessionFactory';
+import { getHexKey } from '../../services/hexUtils';
+
+export const createTestSession = (seed: number, overrides: Partial<WinCondition> = {}): SessionState => {
+  const session = createInitialSessionData(
+    { levelId: -1, targetLevel: 99, targetCoins: 9999, label: 'test', botCount: 3, difficulty: 'MEDIUM', queueSize: 2, winType: 'AND', ...overrides },
+    undefined,
+    'EN',
+    seed
+  );
+  session.gameStatus = 'PLAYING';
+  return session;
+};
+
+/**
+ * Revealed L0 hexes on every axial q, r = -size..size (a rhombus in cube terms, not a disc);
+ * `overrides` apply to every hex (e.g. a level and an owner).
+ */
+export const createSquareGrid = (size: number, overrides: Partial<Hex> = {}): Record<string, Hex> => {
+  const grid: Record<string, Hex> = {};
+  for (let q = -size; q <= size; q++) {
+    for (let r = -size; r <= size; r++) {
+      grid[getHexKey(q, r)] = { id: getHexKey(q, r), q, r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true, ...overrides };
+    }
+  }
+  return grid;
+};
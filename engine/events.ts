@@ -1,14 +1,16 @@
-
 import { GameEvent, GameEventType } from '../types';
 
 export class GameEventFactory {
-  static create(type: GameEventType, message?: string, entityId?: string, data?: Record<string, unknown>): GameEvent {
+  /**
+   * @param timestamp Simulation time (ctx.clock.now()), never wall-clock time.
+   */
+  static create(type: GameEventType, message: string | undefined, entityId: string | undefined, data: Record<string, unknown> | undefined, timestamp: number): GameEvent {
     return {
       type,
       message,
       entityId,
       data,
-      timestamp: Date.now()
+      timestamp
     };
   }
 }
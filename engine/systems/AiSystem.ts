@@ -1,11 +1,16 @@
 
-import { System } from './System';
-import { GameState, GameEvent, EntityState, EntityType, SessionState } from '../../types';
+import { System, SimulationContext } from './System';
+import { GameState, GameEvent, Entity, EntityState, EntityType, HexCoord, SessionState } from '../../types';
 import { WorldIndex } from '../WorldIndex';
-import { calculateBotMove } from '../../bot/calculateBotMove';
+import { getBotStrategy, BotContext } from '../../bot/strategies';
+import { createNextMemory, tryMistake } from '../../bot/strategies/common';
 import { ActionProcessor } from '../ActionProcessor';
-import { GAME_CONFIG } from '../../rules/config';
+import { getBotActionInterval } from '../../rules/config';
 import { getHexKey } from '../../services/hexUtils';
+import { getVisibleKeys, getFoggedGrid, filterVisible } from '../../rules/visibility';
+import { getActionsLeft } from '../../rules/turns';
+import { getAiEntities } from '../../rules/entities';
+import { createPlannerSnapshot } from '../../bot/planner/ForwardModel';
 
 export class AiSystem implements System {
   private actionProcessor: ActionProcessor;
@@ -14,48 +19,92 @@ export class AiSystem implements System {
     this.actionProcessor = actionProcessor;
   }
 
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
-    const now = Date.now();
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const now = ctx.clock.now();
     
-    // Global throttling is now handled per-bot to allow variable speeds
+    // Throttling is handled per-bot to allow variable speeds (rank and difficulty, see getBotActionInterval)
     // We only use state.lastBotActionTime for high-level debug or fallback
-    // if (now - state.lastBotActionTime < GAME_CONFIG.BOT_ACTION_INTERVAL_MS) { return; }
 
     // CRITICAL: Sync full state (Grid + Entities) here.
     // We removed the unconditional sync from GameEngine to optimize performance.
     // The AI needs accurate entity references (coins, moves, level) to make decisions.
     index.syncState(state);
+
+    // Turn-based: bots plan their whole turn at once (see planTurn), not on ticks
+    if (state.turn) return;
     
     const tickObstacles = index.getOccupiedHexesList();
     const tickReservedKeys = new Set<string>();
 
-    const shuffledBots = [...state.bots].sort(() => Math.random() - 0.5);
+    const shuffledBots = ctx.rng.shuffle(getAiEntities(state));
 
     for (const bot of shuffledBots) {
       if (!bot) continue; // Safety check for undefined entities
       if (bot.state !== EntityState.IDLE) continue;
       
       // --- SPEED THROTTLE ---
-      // Bots below level 3 act at half speed (2x interval)
-      const baseInterval = GAME_CONFIG.BOT_ACTION_INTERVAL_MS;
-      const interval = bot.playerLevel < 3 ? baseInterval * 2 : baseInterval;
+      // Bots below level 3 act at half speed (2x interval); easier bots think slower
+      const interval = getBotActionInterval(bot.playerLevel, state.difficulty);
       
-      const lastAct = bot.lastActionTime || 0;
-      if (now - lastAct < interval) {
+      if (bot.lastActionTime !== undefined && now - bot.lastActionTime < interval) {
           continue; 
       }
+
+      this.act(bot, state, index, events, ctx, tickObstacles, tickReservedKeys);
       
-      const aiResult = calculateBotMove(
-        bot, 
-        state.grid, 
-        state.player, 
-        state.winCondition, 
-        tickObstacles, 
-        index, 
-        state.stateVersion,
-        state.difficulty,
-        tickReservedKeys 
-      );
+      // Update individual timestamp
+      bot.lastActionTime = now;
+    }
+
+    state.lastBotActionTime = now;
+  }
+
+  /**
+   * Turn-based: each bot spends its actions for the turn in one go. Instant actions (recharges, builds,
+   * attacks) chain; a standing order (a path to walk, a sector to grow) ends the bot's turn, as does a WAIT.
+   */
+  planTurn(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    if (!state.turn) return;
+    index.syncState(state);
+
+    const obstacles = index.getOccupiedHexesList();
+    const reservedKeys = new Set<string>();
+
+    for (const bot of ctx.rng.shuffle(getAiEntities(state))) {
+      if (!bot || bot.state !== EntityState.IDLE) continue;
+      while (getActionsLeft(state.turn, bot.id) > 0 && bot.movementQueue.length === 0) {
+        if (!this.act(bot, state, index, events, ctx, obstacles, reservedKeys)) break;
+      }
+      bot.lastActionTime = ctx.clock.now();
+    }
+
+    state.lastBotActionTime = ctx.clock.now();
+  }
+
+  /** One decision of `bot`'s strategy, applied through the ActionProcessor. Returns whether an action went through. */
+  private act(bot: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext, obstacles: HexCoord[], reservedKeys: Set<string>): boolean {
+      const now = ctx.clock.now();
+
+      // FOG OF WAR: strategies only get full detail (and other units) inside the bot's vision
+      const visible = getVisibleKeys(bot, state.grid);
+      const isPlayerSlot = bot.id === state.player.id; // Observed sessions: the AI plays the player too
+
+      const strategyCtx: BotContext = {
+        bot,
+        grid: getFoggedGrid(state.grid, visible),
+        player: isPlayerSlot ? state.bots[0] || bot : state.player,
+        winCondition: state.winCondition,
+        obstacles: filterVisible(obstacles, visible),
+        visibleHexKeys: visible,
+        index,
+        stateVersion: state.stateVersion,
+        difficulty: state.difficulty,
+        rng: ctx.rng,
+        reservedHexKeys: reservedKeys,
+        snapshot: () => createPlannerSnapshot(state, bot, visible)
+      };
+      // Easier difficulties blunder now and then instead of following the strategy
+      const aiResult = tryMistake(strategyCtx, createNextMemory(strategyCtx)) || getBotStrategy(bot.strategyId).decide(strategyCtx);
 
       // PERSIST MEMORY (Crucial for Master Goal logic)
       if (aiResult.memory) {
@@ -74,36 +123,38 @@ export class AiSystem implements System {
       });
       if (state.botActivityLog.length > 50) state.botActivityLog.pop();
 
-      if (aiResult.action && aiResult.action.type !== 'WAIT') {
-         // The `state` object passed here is the mutable copy from the GameEngine tick.
-         const res = this.actionProcessor.applyAction(state, index, bot.id, aiResult.action);
-         if (!res.ok) {
-             events.push({
-                 type: 'ERROR',
-                 message: `Bot ${bot.id} action failed: ${res.reason}`,
-                 timestamp: now
-             });
-             // If action failed, maybe reset memory/goal to force rethink next tick?
-             if (bot.memory) {
-                 bot.memory.lastActionFailed = true;
-                 bot.memory.stuckCounter = (bot.memory.stuckCounter || 0) + 1;
-             }
-         } else {
-             if (aiResult.action.type === 'MOVE') {
-                 const target = aiResult.action.path[aiResult.action.path.length - 1];
-                 if (target) {
-                     tickReservedKeys.add(getHexKey(target.q, target.r));
-                 }
-             }
-             // Reset stuck counter on success
-             if (bot.memory) bot.memory.stuckCounter = 0;
-         }
+      if (!aiResult.action || aiResult.action.type === 'WAIT') return false;
+
+      // The `state` object passed here is the mutable copy from the GameEngine tick.
+      const res = this.actionProcessor.applyAction(state, index, bot.id, aiResult.action, events);
+      if (!res.ok) {
+          events.push({
+              type: 'ERROR',
+              message: `Bot ${bot.id} action failed: ${res.reason}`,
+              timestamp: now
+          });
+          // If action failed, maybe reset memory/goal to force rethink next tick?
+          if (bot.memory) {
+              bot.memory.lastActionFailed = true;
+              bot.memory.stuckCounter = (bot.memory.stuckCounter || 0) + 1;
+          }
+          return false;
       }
-      
-      // Update individual timestamp
-      bot.lastActionTime = now;
-    }
 
-    state.lastBotActionTime = now;
+      // GrowthSystem reads the player's growth from the intent flags (as toggled by the HUD), not from the queue
+      if (isPlayerSlot && aiResult.action.type === 'UPGRADE' && !aiResult.action.upgradeType) {
+          state.isPlayerGrowing = true;
+          state.playerGrowthIntent = aiResult.action.intent || 'UPGRADE';
+      }
+
+      if (aiResult.action.type === 'MOVE') {
+          const target = aiResult.action.path[aiResult.action.path.length - 1];
+          if (target) {
+              reservedKeys.add(getHexKey(target.q, target.r));
+          }
+      }
+      // Reset stuck counter on success
+      if (bot.memory) bot.memory.stuckCounter = 0;
+      return true;
   }
 }
@@ -0,0 +1,113 @@
+import { System, SimulationContext } from './System';
+import { GameEvent, Entity, Hex, SessionState } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { GameEventFactory } from '../events';
+import { getHexKey, getNeighbors } from '../../services/hexUtils';
+import { GAME_CONFIG } from '../../rules/config';
+import { checkAttack, getSectorDefense, AssaultOutcome } from '../../rules/combat';
+import { getEntities, findEntity, getLogPrefix, isHuman } from '../../rules/entities';
+
+/**
+ * Resolves queued ATTACKs (Entity.pendingAttack).
+ * Tokens become siege pressure on the target (Hex.attackPoint). Every full defense worth of pressure
+ * takes a level off the sector; an L1 sector that falls is captured by the attacker.
+ * Runs after the AiSystem, so bot attacks land on the tick they are ordered.
+ */
+export class CombatSystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const now = ctx.clock.now();
+
+    for (const attacker of getEntities(state)) {
+      const order = attacker.pendingAttack;
+      if (!order) continue;
+      attacker.pendingAttack = undefined;
+
+      const key = getHexKey(order.q, order.r);
+      const hex = state.grid[key];
+      // Tokens were paid when the order was given: hand them back and re-validate,
+      // so an order that no longer holds up (target lost, attacker gone) fizzles for free
+      attacker.attackTokens = (attacker.attackTokens || 0) + order.tokens;
+      const check = checkAttack(hex, attacker, order.tokens);
+      if (!check.ok) {
+        if (isHuman(attacker)) {
+          events.push(GameEventFactory.create('ACTION_DENIED', `Attack called off: ${check.reason}`, attacker.id, undefined, now));
+        }
+        continue;
+      }
+      attacker.attackTokens -= order.tokens;
+
+      this.resolveAssault(state, index, attacker, hex, order.tokens, events, now);
+    }
+  }
+
+  private resolveAssault(state: SessionState, index: WorldIndex, attacker: Entity, hex: Hex, tokens: number, events: GameEvent[], now: number) {
+    const defenderId = hex.ownerId;
+    const occupant = index.getEntityAt(hex.q, hex.r);
+    const garrisoned = !!occupant && occupant.id === defenderId;
+
+    let target: Hex = { ...hex };
+    let pressure = (hex.attackPoint || 0) + tokens;
+    let outcome: AssaultOutcome = 'PRESSURE';
+    let defense = this.getDefense(state, target, garrisoned);
+
+    while (pressure >= defense) {
+      pressure -= defense;
+      if (target.maxLevel > 1) {
+        const maxLevel = target.maxLevel - 1;
+        target = {
+          ...target,
+          maxLevel,
+          currentLevel: Math.min(target.currentLevel, maxLevel),
+          progress: 0,
+          durability: maxLevel === 1 ? GAME_CONFIG.L1_HEX_MAX_DURABILITY : target.durability
+        };
+        outcome = 'DOWNGRADED';
+        defense = this.getDefense(state, target, garrisoned);
+        continue;
+      }
+      // Captured: the owner's traps go with it, leftover pressure is lost
+      target = { ...target, ownerId: attacker.id, progress: 0, durability: GAME_CONFIG.L1_HEX_MAX_DURABILITY, trap: null };
+      pressure = 0;
+      outcome = 'CAPTURED';
+      break;
+    }
+
+    target.attackPoint = pressure > 0 ? pressure : undefined;
+    state.grid = { ...state.grid, [hex.id]: target };
+
+    const prefix = getLogPrefix(state, attacker);
+    const coords = `(${hex.q},${hex.r})`;
+    const msg = outcome === 'CAPTURED'
+      ? `${prefix} Captured Sector ${coords}`
+      : outcome === 'DOWNGRADED'
+        ? `${prefix} Sector ${coords} knocked down to L${target.maxLevel}`
+        : `${prefix} Attacked Sector ${coords} (${pressure}/${defense})`;
+
+    const defender = defenderId ? findEntity(state, defenderId) : undefined;
+    const isHumanDefender = !!defender && isHuman(defender);
+    if (isHuman(attacker) || isHumanDefender) {
+      state.messageLog.unshift({
+        id: `attack-${now}-${attacker.id}`,
+        text: msg,
+        type: isHumanDefender ? 'WARN' : 'SUCCESS',
+        source: attacker.id,
+        timestamp: now
+      });
+    }
+
+    events.push(GameEventFactory.create('SECTOR_ATTACKED', msg, attacker.id, {
+      q: hex.q,
+      r: hex.r,
+      ownerId: defenderId,
+      outcome,
+      level: target.maxLevel,
+      pressure,
+      defense
+    }, now));
+  }
+
+  private getDefense(state: SessionState, hex: Hex, garrisoned: boolean): number {
+    const neighbors = getNeighbors(hex.q, hex.r).map(n => state.grid[getHexKey(n.q, n.r)]);
+    return getSectorDefense(hex, neighbors, garrisoned);
+  }
+}
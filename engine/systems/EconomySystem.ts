@@ -0,0 +1,64 @@
+import { System, SimulationContext } from './System';
+import { GameEvent, Hex, SessionState } from '../../types';
+import { WorldIndex } from '../WorldIndex';
+import { GameEventFactory } from '../events';
+import { GAME_CONFIG } from '../../rules/config';
+import { getEntities, getLogPrefix, isHuman } from '../../rules/entities';
+
+/**
+ * Passive income from structures.
+ * MINE: pays its owner on a timer and wears down (age + raiding rivals). At 0 HP it collapses back to plain land.
+ */
+export class EconomySystem implements System {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const mine = GAME_CONFIG.STRUCTURES.MINE;
+    const entities = getEntities(state);
+    const now = ctx.clock.now();
+    // Copy-on-write: collect changed hexes and swap the grid once
+    const updates: Record<string, Hex> = {};
+
+    for (const key of index.getStructureLocations('MINE')) {
+      const hex = state.grid[key];
+      if (!hex || hex.structureType !== 'MINE') continue;
+
+      const timer = (hex.mineTimer || 0) + 1;
+      let hp = hex.structureHp ?? mine.maxHp;
+
+      if (timer % mine.payoutIntervalTicks === 0) {
+        const occupant = index.getEntityAt(hex.q, hex.r);
+        const owner = entities.find(e => e.id === hex.ownerId);
+
+        if (occupant && occupant.id !== hex.ownerId) {
+          hp -= 1;
+        } else if (owner) {
+          owner.coins += mine.incomePerTick;
+          owner.totalCoinsEarned += mine.incomePerTick;
+        }
+      }
+      if (timer % mine.wearIntervalTicks === 0) hp -= 1;
+
+      if (hp <= 0) {
+        updates[key] = { ...hex, structureType: 'NONE', structureHp: undefined, mineTimer: undefined };
+        index.updateStructure(key, 'MINE', 'NONE');
+        const owner = entities.find(e => e.id === hex.ownerId);
+        const isPlayerMine = !!owner && isHuman(owner);
+        const msg = `${owner ? getLogPrefix(state, owner) : `[${hex.ownerId}]`} Mine Depleted`;
+        state.messageLog.unshift({
+          id: `mine-lost-${now}-${key}`,
+          text: msg,
+          type: isPlayerMine ? 'WARN' : 'INFO',
+          source: 'SYSTEM',
+          timestamp: now
+        });
+        events.push(GameEventFactory.create('STRUCTURE_DESTROYED', msg, hex.ownerId, { q: hex.q, r: hex.r, structureType: 'MINE' }, now));
+        continue;
+      }
+
+      updates[key] = { ...hex, structureHp: hp, mineTimer: timer };
+    }
+
+    if (Object.keys(updates).length > 0) {
+      state.grid = { ...state.grid, ...updates };
+    }
+  }
+}
@@ -1,32 +1,36 @@
 
-import { System } from './System';
+import { System, SimulationContext } from './System';
 import { GameState, GameEvent, EntityState, Entity, EntityType, SessionState } from '../../types';
 import { WorldIndex } from '../WorldIndex';
 import { getHexKey } from '../../services/hexUtils';
 import { GameEventFactory } from '../events';
 import { checkGrowthCondition } from '../../rules/growth';
 import { getLevelConfig, GAME_CONFIG, DIFFICULTY_SETTINGS } from '../../rules/config';
+import { grantAttackTokens } from '../../rules/combat';
+import { getGrowthTurns, isTurnClosingTick } from '../../rules/turns';
+import { getEntities, getLogPrefix } from '../../rules/entities';
 
 export class GrowthSystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
-    const entities = [state.player, ...state.bots];
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const entities = getEntities(state);
+    const now = ctx.clock.now();
     const newGrowingBotIds: string[] = [];
 
     // Resolve Queue Size from WinCondition if available, otherwise Fallback
     const queueSize = state.winCondition?.queueSize || 3;
 
     for (const entity of entities) {
-      const isGrowing = this.processEntity(entity, state, index, events, queueSize);
+      const isGrowing = this.processEntity(entity, state, index, events, queueSize, now);
       
       // Update tracking flags for state
       if (isGrowing) {
-        if (entity.type === EntityType.PLAYER) {
+        if (entity.id === state.player.id) {
            state.isPlayerGrowing = true;
         } else {
            newGrowingBotIds.push(entity.id);
         }
       } else {
-        if (entity.type === EntityType.PLAYER) {
+        if (entity.id === state.player.id) {
            state.isPlayerGrowing = false;
         }
       }
@@ -35,17 +39,19 @@ export class GrowthSystem implements System {
     state.growingBotIds = newGrowingBotIds;
   }
 
-  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], queueSize: number): boolean {
+  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], queueSize: number, now: number): boolean {
     const hasUpgradeCmd = entity.movementQueue.length > 0 && entity.movementQueue[0].upgrade;
     const queuedIntent = hasUpgradeCmd ? entity.movementQueue[0].intent : null;
     const key = getHexKey(entity.q, entity.r);
     const hex = state.grid[key];
     
-    // Determine Intent
-    let isUserIntentActive = entity.type === EntityType.PLAYER && state.isPlayerGrowing;
-    let userIntentType = entity.type === EntityType.PLAYER ? state.playerGrowthIntent : null;
+    // Determine Intent. The HUD toggle drives the human at the screen; everyone else
+    // (bots, and hot-seat humans waiting their turn) follows their queued growth order.
+    const isActiveSeat = entity.id === state.player.id;
+    let isUserIntentActive = isActiveSeat && state.isPlayerGrowing;
+    let userIntentType = isActiveSeat ? state.playerGrowthIntent : null;
     
-    const shouldBeGrowing = hasUpgradeCmd || (entity.type === EntityType.PLAYER && isUserIntentActive);
+    const shouldBeGrowing = hasUpgradeCmd || isUserIntentActive;
 
     // FSM: Transition out of GROWING if not actively growing
     if (!shouldBeGrowing) {
@@ -68,7 +74,7 @@ export class GrowthSystem implements System {
     // Determine Effective Intent
     let effectiveIntent: 'UPGRADE' | 'RECOVER' = 'RECOVER';
     
-    if (entity.type === EntityType.PLAYER) {
+    if (isActiveSeat) {
         effectiveIntent = userIntentType || 'RECOVER';
     } else {
         effectiveIntent = queuedIntent || 'UPGRADE';
@@ -78,7 +84,7 @@ export class GrowthSystem implements System {
     if (effectiveIntent === 'RECOVER') {
         if (entity.recoveredCurrentHex) {
              // Already done for this visit/turn
-             if (entity.type === EntityType.PLAYER) {
+             if (isActiveSeat) {
                 state.isPlayerGrowing = false;
              }
              if (hasUpgradeCmd) entity.movementQueue.shift();
@@ -86,34 +92,36 @@ export class GrowthSystem implements System {
              return false;
         }
 
-        const config = getLevelConfig(hex.maxLevel); 
-        const needed = config.growthTime;
+        // Turn-based: progress counts turns
+        const needed = state.turn ? getGrowthTurns(hex.maxLevel) : getLevelConfig(hex.maxLevel).growthTime;
+        if (state.turn && !isTurnClosingTick(state.turn)) return true;
 
         if (hex.progress + 1 >= needed) {
             // FINISH RECOVERY
-            const coinReward = (hex.maxLevel || 0) * 5 + 5; // Base + Scale
+            const coinReward = ((hex.maxLevel || 0) * 5 + 5) * (hex.richness || 1); // Base + Scale, x rich sector
             entity.moves += 1;
             entity.coins += coinReward;
             entity.totalCoinsEarned += coinReward;
             entity.recoveredCurrentHex = true; // Mark used
+            grantAttackTokens(entity, GAME_CONFIG.COMBAT.tokensPerRecovery);
 
-            const prefix = entity.type === EntityType.PLAYER ? "[YOU]" : `[${entity.id}]`;
+            const prefix = getLogPrefix(state, entity);
             const msg = `${prefix} Recovered 1 Move + ${coinReward} Credits`;
             
             state.messageLog.unshift({
-                id: `rec-${Date.now()}-${entity.id}`,
+                id: `rec-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
             });
             
-            events.push(GameEventFactory.create('RECOVERY_USED', msg, entity.id));
+            events.push(GameEventFactory.create('RECOVERY_USED', msg, entity.id, undefined, now));
             
             // Reset Progress and Stop (Copy-On-Write)
             state.grid = { ...state.grid, [key]: { ...hex, progress: 0 } };
             
-            if (entity.type === EntityType.PLAYER) {
+            if (isActiveSeat) {
                  state.isPlayerGrowing = false;
             }
             if (hasUpgradeCmd) entity.movementQueue.shift();
@@ -142,15 +150,15 @@ export class GrowthSystem implements System {
       if (entity.type === EntityType.PLAYER) {
          const msg = condition.reason || "Growth Conditions Not Met";
          state.messageLog.unshift({
-             id: `denied-${Date.now()}`,
+             id: `denied-${now}`,
              text: `Growth Failed: ${msg}`,
              type: 'WARN',
              source: 'SYSTEM',
-             timestamp: Date.now()
+             timestamp: now
          });
          
-         events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id));
-         state.isPlayerGrowing = false; 
+         events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id, undefined, now));
+         if (isActiveSeat) state.isPlayerGrowing = false; 
       }
       return false;
     }
@@ -158,7 +166,8 @@ export class GrowthSystem implements System {
     // Calculate Growth
     const targetLevel = hex.currentLevel + 1;
     const config = getLevelConfig(targetLevel);
-    const needed = config.growthTime;
+    const needed = state.turn ? getGrowthTurns(targetLevel) : config.growthTime;
+    if (state.turn && !isTurnClosingTick(state.turn)) return true;
 
     // Check Progress
     if (hex.progress + 1 >= needed) {
@@ -168,7 +177,7 @@ export class GrowthSystem implements System {
       let newOwnerId = hex.ownerId; 
       let newDurability = hex.durability;
 
-      const prefix = entity.type === EntityType.PLAYER ? "[YOU]" : `[${entity.id}]`;
+      const prefix = getLogPrefix(state, entity);
 
       if (targetLevel > hex.maxLevel) {
         newMaxLevel = targetLevel;
@@ -188,14 +197,14 @@ export class GrowthSystem implements System {
              
              const msg = `${prefix} Sector L1 Acquired (+1 Point)`;
              state.messageLog.unshift({
-                id: `acq-${Date.now()}-${entity.id}`,
+                id: `acq-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
              });
              
-             events.push(GameEventFactory.create('SECTOR_ACQUIRED', msg, entity.id));
+             events.push(GameEventFactory.create('SECTOR_ACQUIRED', msg, entity.id, undefined, now));
         } else {
              // UPGRADE (L1 -> L2+)
              // Rule: SPEND 1 Upgrade Point (Was: Spend All)
@@ -205,24 +214,26 @@ export class GrowthSystem implements System {
              if (entity.recentUpgrades.length > 0) {
                  entity.recentUpgrades.shift();
              }
+             grantAttackTokens(entity, GAME_CONFIG.COMBAT.tokensPerLevelUp);
 
              const msg = `${prefix} Reached Rank L${targetLevel} (-1 Point)`;
              
              state.messageLog.unshift({
-                id: `lvl-${Date.now()}-${entity.id}`,
+                id: `lvl-${now}-${entity.id}`,
                 text: msg,
                 type: 'SUCCESS',
                 source: entity.id,
-                timestamp: Date.now()
+                timestamp: now
              });
 
-             events.push(GameEventFactory.create('LEVEL_UP', msg, entity.id));
+             events.push(GameEventFactory.create('LEVEL_UP', msg, entity.id, undefined, now));
         }
       }
 
       // Rewards
-      entity.coins += config.income;
-      entity.totalCoinsEarned += config.income;
+      const income = config.income * (hex.richness || 1);
+      entity.coins += income;
+      entity.totalCoinsEarned += income;
       entity.moves += 1;
       
       // Update Hex (Copy-On-Write)
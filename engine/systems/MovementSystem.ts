@@ -1,21 +1,33 @@
 
-import { System } from './System';
+import { System, SimulationContext } from './System';
 import { GameState, GameEvent, EntityState, Entity, SessionState, Hex, EntityType } from '../../types';
 import { WorldIndex } from '../WorldIndex';
 import { getHexKey, getNeighbors } from '../../services/hexUtils';
 import { GameEventFactory } from '../events';
 import { GAME_CONFIG } from '../../rules/config';
+import { isBlockedByStructure } from '../../rules/structures';
+import { isTrapTriggeredBy, getTrapEffect } from '../../rules/traps';
+import { computeVisibility, isVisibilityStale } from '../../rules/visibility';
+import { getEntities } from '../../rules/entities';
 
 export class MovementSystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
-    const entities = [state.player, ...state.bots];
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const entities = getEntities(state);
+    const now = ctx.clock.now();
 
     for (const entity of entities) {
-      this.processEntity(entity, state, index, events);
+      this.processEntity(entity, state, index, events, now);
+    }
+
+    // FOG OF WAR: refresh what each entity sees after this tick's steps and rank changes
+    for (const entity of entities) {
+      if (isVisibilityStale(entity, state.grid)) {
+        entity.visibility = computeVisibility(entity, state.grid);
+      }
     }
   }
 
-  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[]) {
+  private processEntity(entity: Entity, state: SessionState, index: WorldIndex, events: GameEvent[], now: number) {
     if (entity.state !== EntityState.IDLE && entity.state !== EntityState.MOVING) {
       return;
     }
@@ -25,17 +37,15 @@ export class MovementSystem implements System {
       if (entity.state === EntityState.MOVING) {
          entity.state = EntityState.IDLE;
          entity.recoveredCurrentHex = false;
-         events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id));
+         events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id, undefined, now));
       }
       return;
     }
 
     // --- ANIMATION THROTTLE ---
-    const now = Date.now();
-    if (entity.state === EntityState.MOVING) {
-        const lastMove = entity.lastMoveTime || 0;
+    if (entity.state === EntityState.MOVING && entity.lastMoveTime !== undefined) {
         // Ensure this constant (e.g., 300) matches animation duration in Unit.tsx
-        if (now - lastMove < (GAME_CONFIG.MOVEMENT_LOGIC_INTERVAL_MS || 300)) {
+        if (now - entity.lastMoveTime < (GAME_CONFIG.MOVEMENT_LOGIC_INTERVAL_MS || 300)) {
             return; 
         }
     }
@@ -55,14 +65,34 @@ export class MovementSystem implements System {
         const msg = "Path Collapsed: Destination is Void";
         if (entity.type === EntityType.PLAYER) {
             state.messageLog.unshift({
-                id: `void-stop-${Date.now()}`,
+                id: `void-stop-${now}`,
+                text: msg,
+                type: 'WARN',
+                source: 'SYSTEM',
+                timestamp: now
+            });
+        }
+        events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id, undefined, now));
+        return;
+    }
+
+    // --- TARGET VALIDATION: BARRIER CHECK ---
+    // A rival wall went up on our route after the path was planned.
+    if (isBlockedByStructure(targetHex, entity.id)) {
+        entity.movementQueue = [];
+        entity.state = EntityState.IDLE;
+
+        const msg = `Path Blocked by Barrier (${nextStep.q},${nextStep.r})`;
+        if (entity.type === EntityType.PLAYER) {
+            state.messageLog.unshift({
+                id: `barrier-stop-${now}`,
                 text: msg,
                 type: 'WARN',
                 source: 'SYSTEM',
-                timestamp: Date.now()
+                timestamp: now
             });
         }
-        events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id));
+        events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id, undefined, now));
         return;
     }
 
@@ -76,14 +106,14 @@ export class MovementSystem implements System {
           const msg = `Path Blocked by ${blockerId}`;
           
           state.messageLog.unshift({
-             id: `col-${Date.now()}-${entity.id}`,
+             id: `col-${now}-${entity.id}`,
              text: msg,
              type: 'WARN',
              source: entity.id,
-             timestamp: Date.now()
+             timestamp: now
           });
           
-          events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id));
+          events.push(GameEventFactory.create('ACTION_DENIED', msg, entity.id, undefined, now));
           return;
       }
     }
@@ -121,6 +151,7 @@ export class MovementSystem implements System {
             };
             
             gridUpdates[oldHexKey] = collapsedHex;
+            index.updateStructure(oldHexKey, oldHex.structureType, 'VOID');
             
             // --- PENALTY LOGIC: SHOCKWAVE DAMAGE ---
             if (entity.playerLevel > 0) {
@@ -141,25 +172,25 @@ export class MovementSystem implements System {
                     const stumbleMsg = "Stumbled by Shockwave! Movement Halted.";
                     if (entity.type === EntityType.PLAYER) {
                         state.messageLog.unshift({
-                            id: `stumble-${Date.now()}`,
+                            id: `stumble-${now}`,
                             text: stumbleMsg,
                             type: 'WARN',
                             source: 'SYSTEM',
-                            timestamp: Date.now()
+                            timestamp: now
                         });
                     }
                 }
             }
 
-            events.push(GameEventFactory.create('HEX_COLLAPSE', undefined, entity.id, { q: oldHex.q, r: oldHex.r }));
+            events.push(GameEventFactory.create('HEX_COLLAPSE', undefined, entity.id, { q: oldHex.q, r: oldHex.r }, now));
             
             if (entity.type === EntityType.PLAYER) {
                 state.messageLog.unshift({
-                    id: `collapse-${Date.now()}`,
+                    id: `collapse-${now}`,
                     text: `CRITICAL: Shockwave hit! Rank -1`,
                     type: 'ERROR',
                     source: 'SYSTEM',
-                    timestamp: Date.now()
+                    timestamp: now
                 });
             }
         }
@@ -177,7 +208,15 @@ export class MovementSystem implements System {
         gridUpdates[newHexKey] = { ...newHex, durability: newDurability };
     }
 
-    // C. FOG OF WAR
+    // C. TRAP (ON ENTRY)
+    const trapHex = gridUpdates[newHexKey] || state.grid[newHexKey];
+    if (isTrapTriggeredBy(trapHex, entity)) {
+        this.springTrap(entity, trapHex, state, events, gridUpdates, now);
+    }
+
+    // D. EXPLORATION (reveal and extend the map around the new position)
+    // Procedural worlds stream in the surrounding chunks; fixed maps grow blank L0 hexes
+    Object.assign(gridUpdates, index.loadChunksAround(state, entity, GAME_CONFIG.WORLD.loadRadius));
     const neighbors = getNeighbors(entity.q, entity.r);
     [...neighbors, { q: entity.q, r: entity.r }].forEach(n => {
       const k = getHexKey(n.q, n.r);
@@ -205,9 +244,33 @@ export class MovementSystem implements System {
     if (!hasMoreMoves) {
         entity.state = EntityState.IDLE;
         entity.recoveredCurrentHex = false;
-        events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id));
+        events.push(GameEventFactory.create('MOVE_COMPLETE', undefined, entity.id, undefined, now));
     } else {
         entity.state = EntityState.MOVING;
     }
   }
+
+  private springTrap(entity: Entity, hex: Hex, state: SessionState, events: GameEvent[], gridUpdates: Record<string, Hex>, now: number) {
+    const potency = hex.trap?.potency || 1;
+    const effect = getTrapEffect(entity, potency);
+
+    entity.moves -= effect.movesLost;
+    entity.coins -= effect.coinsLost;
+    if (effect.halted) entity.movementQueue = []; // Step 4 below settles the entity to IDLE
+
+    // Each trigger spends one point of potency; the sprung trap stays visible to everyone
+    gridUpdates[hex.id] = { ...hex, trap: potency > 1 ? { active: true, potency: potency - 1, revealed: true } : null };
+
+    const msg = `Trap sprung at (${hex.q},${hex.r}): -${effect.movesLost} Moves, -${effect.coinsLost} Credits${effect.halted ? ', Movement Halted' : ''}`;
+    if (entity.type === EntityType.PLAYER || hex.ownerId === state.player.id) {
+        state.messageLog.unshift({
+            id: `trap-${now}-${entity.id}`,
+            text: entity.type === EntityType.PLAYER ? msg : `[${entity.id}] ${msg}`,
+            type: entity.type === EntityType.PLAYER ? 'WARN' : 'SUCCESS',
+            source: 'SYSTEM',
+            timestamp: now
+        });
+    }
+    events.push(GameEventFactory.create('TRAP_TRIGGERED', msg, entity.id, { q: hex.q, r: hex.r, potency, ownerId: hex.ownerId, ...effect }, now));
+  }
 }
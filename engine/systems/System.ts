@@ -1,7 +1,17 @@
 
-
 import { GameState, GameEvent, SessionState } from '../../types';
 import { WorldIndex } from '../WorldIndex';
+import { SimulationClock } from '../SimulationClock';
+import { SeededRandom } from '../SeededRandom';
+
+/**
+ * Engine-owned sources of time and randomness.
+ * Systems must never call Date.now() or Math.random() directly.
+ */
+export interface SimulationContext {
+  clock: SimulationClock;
+  rng: SeededRandom;
+}
 
 export interface System {
   /**
@@ -9,6 +19,7 @@ export interface System {
    * @param state The mutable game state.
    * @param index The spatial index for queries.
    * @param events A list to push new game events into.
+   * @param ctx Simulation clock and PRNG.
    */
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void;
-}
\ No newline at end of file
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void;
+}
@@ -1,15 +1,18 @@
 
-import { System } from './System';
-import { GameEvent, LeaderboardEntry, SessionState } from '../../types';
+import { System, SimulationContext } from './System';
+import { Entity, GameEvent, LeaderboardEntry, SessionState } from '../../types';
 import { WorldIndex } from '../WorldIndex';
 import { GameEventFactory } from '../events';
+import { getEntities, getHumans, getSeats, getEntityName } from '../../rules/entities';
 
 export class VictorySystem implements System {
-  update(state: SessionState, index: WorldIndex, events: GameEvent[]): void {
+  update(state: SessionState, index: WorldIndex, events: GameEvent[], ctx: SimulationContext): void {
+    const now = ctx.clock.now();
+
     if (state.gameStatus === 'VICTORY' || state.gameStatus === 'DEFEAT') {
         const alreadyUpdated = events.some(e => e.type === 'LEADERBOARD_UPDATE');
         if (!alreadyUpdated) {
-            this.generateLeaderboardEvent(state, events);
+            this.generateLeaderboardEvent(state, events, now);
         }
         return;
     }
@@ -23,14 +26,14 @@ export class VictorySystem implements System {
                  state.gameStatus = 'VICTORY';
                  const msg = 'Campaign Objective Achieved';
                  state.messageLog.unshift({
-                    id: `win-camp-${Date.now()}`,
+                    id: `win-camp-${now}`,
                     text: msg,
                     type: 'SUCCESS',
                     source: 'SYSTEM',
-                    timestamp: Date.now()
+                    timestamp: now
                  });
-                 events.push(GameEventFactory.create('VICTORY', msg, state.player.id));
-                 this.generateLeaderboardEvent(state, events);
+                 events.push(GameEventFactory.create('VICTORY', msg, state.player.id, undefined, now));
+                 this.generateLeaderboardEvent(state, events, now);
                  return;
             }
         }
@@ -42,14 +45,14 @@ export class VictorySystem implements System {
                  state.gameStatus = 'DEFEAT';
                  const msg = 'Critical Mission Failure';
                  state.messageLog.unshift({
-                    id: `lose-camp-${Date.now()}`,
+                    id: `lose-camp-${now}`,
                     text: msg,
                     type: 'ERROR',
                     source: 'SYSTEM',
-                    timestamp: Date.now()
+                    timestamp: now
                  });
-                 events.push(GameEventFactory.create('DEFEAT', msg, state.player.id));
-                 this.generateLeaderboardEvent(state, events);
+                 events.push(GameEventFactory.create('DEFEAT', msg, state.player.id, undefined, now));
+                 this.generateLeaderboardEvent(state, events, now);
                  return;
             }
         }
@@ -58,62 +61,105 @@ export class VictorySystem implements System {
     // --- LEGACY/SKIRMISH WIN CONDITION ---
     if (!state.winCondition) return;
 
+    // --- CAPITAL MODE ---
+    if (state.winCondition.capitalMode && this.checkCapitals(state, events, now)) return;
+
     const { targetLevel, targetCoins, winType } = state.winCondition;
-    const pLevel = state.player.playerLevel;
-    const pCoins = state.player.coins;
-    
-    let isVictory = false;
-    if (winType === 'AND') {
-        isVictory = pLevel >= targetLevel && pCoins >= targetCoins;
-    } else {
-        isVictory = pLevel >= targetLevel || pCoins >= targetCoins;
-    }
+    const hasReachedObjective = (e: Entity) => winType === 'AND'
+        ? e.playerLevel >= targetLevel && e.coins >= targetCoins
+        : e.playerLevel >= targetLevel || e.coins >= targetCoins;
+
+    // Hot-seat: the first human in seat order to get there wins
+    const winner = getSeats(state).find(hasReachedObjective);
     
-    if (isVictory) {
-        state.gameStatus = 'VICTORY';
-        const msg = 'Mission Accomplished';
+    if (winner) {
+        this.declareWinner(state, winner);
+        const msg = state.hotSeats || state.winCondition.observe ? `${getEntityName(winner)} Wins: Mission Accomplished` : 'Mission Accomplished';
         
         state.messageLog.unshift({
-            id: `win-${Date.now()}`,
+            id: `win-${now}`,
             text: msg,
             type: 'SUCCESS',
             source: 'SYSTEM',
-            timestamp: Date.now()
+            timestamp: now
         });
 
-        events.push(GameEventFactory.create('VICTORY', msg, state.player.id));
-        this.generateLeaderboardEvent(state, events);
+        events.push(GameEventFactory.create('VICTORY', msg, winner.id, undefined, now));
+        this.generateLeaderboardEvent(state, events, now);
         return;
     }
 
-    const winningBot = state.bots.find(b => {
-         const bLevel = b.playerLevel;
-         const bCoins = b.coins;
-         if (winType === 'AND') {
-             return bLevel >= targetLevel && bCoins >= targetCoins;
-         } else {
-             return bLevel >= targetLevel || bCoins >= targetCoins;
-         }
-    });
+    const winningBot = state.bots.find(hasReachedObjective);
 
     if (winningBot) {
         state.gameStatus = 'DEFEAT';
+        if (state.winCondition.observe) state.winnerId = winningBot.id;
         const msg = `Mission Failed: Rival ${winningBot.id.toUpperCase()} reached the objective.`;
         
         state.messageLog.unshift({
-            id: `lose-${Date.now()}`,
+            id: `lose-${now}`,
             text: msg,
             type: 'ERROR',
             source: 'SYSTEM',
-            timestamp: Date.now()
+            timestamp: now
         });
         
-        events.push(GameEventFactory.create('DEFEAT', msg, winningBot.id));
-        this.generateLeaderboardEvent(state, events);
+        events.push(GameEventFactory.create('DEFEAT', msg, winningBot.id, undefined, now));
+        this.generateLeaderboardEvent(state, events, now);
+    }
+  }
+
+  /**
+   * Capital mode: the player falls with their capital and wins once every rival capital is razed.
+   * Hot-seat: the humans lose once all their capitals fell; a human wins when theirs is the last one standing.
+   */
+  private checkCapitals(state: SessionState, events: GameEvent[], now: number): boolean {
+    const fallen = getHumans(state).filter(h => h.capitalLostTo);
+    if (fallen.length === getHumans(state).length) {
+        const conqueror = fallen[0].capitalLostTo!;
+        state.gameStatus = 'DEFEAT';
+        if (state.winCondition?.observe) state.winnerId = conqueror;
+        const msg = `Mission Failed: Capital razed by ${conqueror.toUpperCase()}.`;
+        state.messageLog.unshift({
+            id: `lose-capital-${now}`,
+            text: msg,
+            type: 'ERROR',
+            source: 'SYSTEM',
+            timestamp: now
+        });
+        events.push(GameEventFactory.create('DEFEAT', msg, conqueror, undefined, now));
+        this.generateLeaderboardEvent(state, events, now);
+        return true;
+    }
+
+    const entities = getEntities(state);
+    const winner = getSeats(state).find(h => !h.capitalLostTo && entities.length > 1 && entities.every(e => e === h || e.capitalLostTo));
+    if (winner) {
+        this.declareWinner(state, winner);
+        const msg = state.hotSeats ? `${getEntityName(winner)} Wins: All rival capitals razed` : 'Mission Accomplished: All rival capitals razed';
+        state.messageLog.unshift({
+            id: `win-capital-${now}`,
+            text: msg,
+            type: 'SUCCESS',
+            source: 'SYSTEM',
+            timestamp: now
+        });
+        events.push(GameEventFactory.create('VICTORY', msg, winner.id, undefined, now));
+        this.generateLeaderboardEvent(state, events, now);
+        return true;
     }
+    return false;
   }
 
-  private generateLeaderboardEvent(state: SessionState, events: GameEvent[]): void {
+  private declareWinner(state: SessionState, winner: Entity): void {
+    state.gameStatus = 'VICTORY';
+    if (state.hotSeats || state.winCondition?.observe) state.winnerId = winner.id;
+  }
+
+  private generateLeaderboardEvent(state: SessionState, events: GameEvent[], now: number): void {
+    // Hot-seat matches share one screen (and one profile), so they are not ranked; nor are bot-only ones
+    if (state.hotSeats || state.winCondition?.observe) return;
+
     const statsEntry: LeaderboardEntry = {
         nickname: 'Player', 
         avatarColor: '#000', 
@@ -121,14 +167,15 @@ export class VictorySystem implements System {
         maxCoins: state.player.coins, 
         maxLevel: state.player.playerLevel,
         difficulty: state.difficulty,
-        timestamp: Date.now()
+        timestamp: now
     };
 
     events.push(GameEventFactory.create(
         'LEADERBOARD_UPDATE', 
         'Stats submitted', 
         state.player.id, 
-        { entry: statsEntry }
+        { entry: statsEntry },
+        now
     ));
   }
 }
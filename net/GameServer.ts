@@ -0,0 +1,256 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GameEvent, ValidationResult } from '../types';
+import { GameEngine } from '../engine/GameEngine';
+import { rebaseAction } from '../engine/ActionProcessor';
+import { SessionPatch, isEmptyPatch } from '../engine/SessionPatch';
+import { createInitialSessionData } from '../services/sessionFactory';
+import { serializeSession } from '../services/sessionSnapshot';
+import { getSeats } from '../rules/entities';
+import { GAME_CONFIG } from '../rules/config';
+import { ClientMessage, ServerMessage, NET_CONFIG, encodeMessage, parseClientMessage } from './protocol';
+
+export interface GameServerOptions {
+  port?: number; // 0 picks a free port
+  tickMs?: number;
+  roomIdleMs?: number;
+}
+
+interface Seat {
+  id: string;    // The human entity this seat plays
+  token: string; // Proves the seat on reconnect
+  socket: WebSocket | null;
+  claimed: boolean; // Taken by a player (who may be reconnecting)
+}
+
+interface Room {
+  id: string;
+  engine: GameEngine;
+  seats: Seat[];
+  spectators: Set<WebSocket>; // Watching without a seat; they do not keep the room open
+  idleSince: number | null;
+}
+
+/**
+ * Authoritative multiplayer host: one GameEngine per room, driven by its own clock.
+ * Clients send inputs, never states; every input is validated by the engine exactly as a local one,
+ * and the engine's patches are broadcast to every seat. Seat 1 hosts the room, the other seats
+ * (hot-seat profiles of the hosted WinCondition) are claimed by whoever joins with the room code.
+ * Anyone with the code may also watch: spectators get the patches too, but no seat and no say.
+ */
+export class GameServer {
+  private readonly options: Required<GameServerOptions>;
+  private readonly rooms = new Map<string, Room>();
+  private wss: WebSocketServer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: GameServerOptions = {}) {
+    this.options = {
+      port: options.port ?? NET_CONFIG.DEFAULT_PORT,
+      tickMs: options.tickMs ?? GAME_CONFIG.TICK_INTERVAL_MS,
+      roomIdleMs: options.roomIdleMs ?? NET_CONFIG.ROOM_IDLE_MS
+    };
+  }
+
+  /** Resolves with the port listened on. */
+  public start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({ port: this.options.port });
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        const address = wss.address();
+        resolve(typeof address === 'object' ? address.port : this.options.port);
+      });
+      wss.on('connection', socket => this.accept(socket));
+      this.wss = wss;
+      this.timer = setInterval(() => this.tick(), this.options.tickMs);
+    });
+  }
+
+  public close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const room of this.rooms.values()) room.engine.destroy();
+    this.rooms.clear();
+    const wss = this.wss;
+    this.wss = null;
+    if (!wss) return Promise.resolve();
+    for (const client of wss.clients) client.terminate();
+    return new Promise(resolve => wss.close(() => resolve()));
+  }
+
+  public get roomCount(): number {
+    return this.rooms.size;
+  }
+
+  private accept(socket: WebSocket) {
+    let seated: { room: Room; seat: Seat } | null = null;
+    let watching: Room | null = null;
+
+    socket.on('message', data => {
+      // One bad frame must not take every room down: whatever it throws is this client's problem only
+      try {
+        const message = parseClientMessage(data);
+        if (!message) {
+          if (seated || watching) return this.send(socket, { type: 'DENIED', reason: 'Malformed message' });
+          return this.refuse(socket, 'Malformed message');
+        }
+
+        if (message.type === 'HOST' || message.type === 'JOIN' || message.type === 'WATCH') {
+          if (seated || watching) return this.send(socket, { type: 'DENIED', reason: 'Already in a room' });
+          if (message.type === 'WATCH') {
+            watching = this.watch(socket, message);
+            return;
+          }
+          seated = message.type === 'HOST' ? this.host(socket, message) : this.join(socket, message);
+          return;
+        }
+        if (watching) return this.send(socket, { type: 'DENIED', reason: 'Observers give no orders' });
+        if (!seated) return this.refuse(socket, 'Join a room first');
+
+        const { room, seat } = seated;
+        const result = this.handleInput(room, seat.id, message);
+        if (!result.ok) this.send(socket, { type: 'DENIED', reason: result.reason || 'Denied' });
+        this.broadcast(room, room.engine.takePatch(), []);
+      } catch (error) {
+        console.error("Message handling failed", error);
+        if (seated || watching) this.send(socket, { type: 'DENIED', reason: 'Server error' });
+        else this.refuse(socket, 'Server error');
+      }
+    });
+
+    socket.on('close', () => {
+      watching?.spectators.delete(socket);
+      if (!seated || seated.seat.socket !== socket) return;
+      seated.seat.socket = null;
+      if (seated.room.seats.every(s => !s.socket)) seated.room.idleSince = Date.now();
+    });
+  }
+
+  private host(socket: WebSocket, message: Extract<ClientMessage, { type: 'HOST' }>): { room: Room; seat: Seat } | null {
+    // Rooms host skirmishes; campaign levels stay single player
+    const session = createInitialSessionData(message.winCondition, undefined, 'EN', message.seed);
+    const engine = new GameEngine(session, { patches: true });
+    const room: Room = {
+      id: this.createRoomId(),
+      engine,
+      seats: getSeats(session).map(h => ({ id: h.id, token: randomUUID(), socket: null, claimed: false })),
+      spectators: new Set(),
+      idleSince: null
+    };
+    this.rooms.set(room.id, room);
+    return this.seat(socket, room, room.seats[0]);
+  }
+
+  private join(socket: WebSocket, message: Extract<ClientMessage, { type: 'JOIN' }>): { room: Room; seat: Seat } | null {
+    const room = this.rooms.get(String(message.roomId).toUpperCase());
+    if (!room) {
+      this.refuse(socket, 'Room not found');
+      return null;
+    }
+    const seat = message.token
+      ? room.seats.find(s => s.token === message.token)
+      : room.seats.find(s => !s.claimed);
+    if (!seat) {
+      this.refuse(socket, message.token ? 'Seat not found' : 'Room is full');
+      return null;
+    }
+    // A reconnect replaces a connection that has not noticed it dropped yet
+    if (seat.socket && seat.socket !== socket) seat.socket.close();
+    return this.seat(socket, room, seat);
+  }
+
+  private watch(socket: WebSocket, message: Extract<ClientMessage, { type: 'WATCH' }>): Room | null {
+    const room = this.rooms.get(String(message.roomId).toUpperCase());
+    if (!room) {
+      this.refuse(socket, 'Room not found');
+      return null;
+    }
+    // Like a seat: everyone else catches up first, so the snapshot is where the next patches start from
+    this.broadcast(room, room.engine.takePatch(), []);
+    room.spectators.add(socket);
+    this.send(socket, { type: 'WATCHING', roomId: room.id, snapshot: serializeSession(room.engine.state!) });
+    return room;
+  }
+
+  private seat(socket: WebSocket, room: Room, seat: Seat): { room: Room; seat: Seat } {
+    // Seated players catch up first: the snapshot is where the next patches start from
+    this.broadcast(room, room.engine.takePatch(), []);
+    seat.socket = socket;
+    seat.claimed = true;
+    room.idleSince = null;
+    this.send(socket, {
+      type: 'WELCOME', roomId: room.id, seatId: seat.id, token: seat.token,
+      snapshot: serializeSession(room.engine.state!)
+    });
+    return { room, seat };
+  }
+
+  /** The same inputs a local session takes, on behalf of the seat's entity. */
+  private handleInput(room: Room, seatId: string, message: ClientMessage): ValidationResult {
+    const { engine } = room;
+    const state = engine.state!;
+    const isActiveSeat = state.player.id === seatId;
+    // Observed rooms are played by the AI alone; the host only starts them
+    if (state.winCondition?.observe && message.type !== 'START_MISSION') return { ok: false, reason: 'Observers give no orders' };
+
+    switch (message.type) {
+      case 'ACTION':
+        return engine.applyAction(seatId, rebaseAction(message.action, state.stateVersion, NET_CONFIG.MAX_ACTION_LAG));
+      case 'INTENT':
+        if (!isActiveSeat) return { ok: false, reason: 'Not your turn' };
+        engine.setPlayerIntent(message.isGrowing, message.intent);
+        return { ok: true };
+      case 'START_MISSION':
+        if (seatId !== room.seats[0].id) return { ok: false, reason: 'Only the host starts the mission' };
+        if (state.gameStatus !== 'BRIEFING') return { ok: false, reason: 'Mission already started' };
+        engine.startMission();
+        return { ok: true };
+      case 'END_TURN':
+        if (!isActiveSeat) return { ok: false, reason: 'Not your turn' };
+        return engine.endTurn();
+      default:
+        return { ok: false, reason: 'Unknown message' };
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    for (const room of [...this.rooms.values()]) {
+      if (room.idleSince !== null && now - room.idleSince > this.options.roomIdleMs) {
+        room.engine.destroy();
+        this.rooms.delete(room.id);
+        continue;
+      }
+      // Like the local store: the clock runs from the mission start to the end screen
+      if (room.engine.state!.gameStatus !== 'PLAYING') continue;
+      const { patch, events } = room.engine.processTick();
+      this.broadcast(room, patch, events);
+    }
+  }
+
+  private broadcast(room: Room, patch: SessionPatch | undefined, events: GameEvent[]) {
+    if (!patch || (isEmptyPatch(patch) && events.length === 0)) return;
+    const data = encodeMessage({ type: 'PATCH', patch, events });
+    for (const socket of [...room.seats.map(s => s.socket), ...room.spectators]) {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+    }
+  }
+
+  private send(socket: WebSocket, message: ServerMessage) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(encodeMessage(message));
+  }
+
+  private refuse(socket: WebSocket, reason: string) {
+    this.send(socket, { type: 'ERROR', reason });
+    socket.close();
+  }
+
+  private createRoomId(): string {
+    let id: string;
+    do {
+      id = randomBytes(3).toString('hex').toUpperCase();
+    } while (this.rooms.has(id));
+    return id;
+  }
+}
@@ -0,0 +1,212 @@
+import { GameAction, GameEvent, NetworkStatus, SessionState, ValidationResult } from '../types';
+import { SessionEngine, TickResult } from '../engine/GameEngine';
+import { ActionProcessor } from '../engine/ActionProcessor';
+import { WorldIndex } from '../engine/WorldIndex';
+import { GameEventFactory } from '../engine/events';
+import { deserializeSession } from '../services/sessionSnapshot';
+import { getEntities, getSeats, viewAsSeat } from '../rules/entities';
+import { isTurnResolving } from '../rules/turns';
+import { applySessionPatch, expireEffects } from '../engine/SessionPatch';
+import { ClientMessage, ServerMessage, NET_CONFIG, decodeMessage, encodeMessage } from './protocol';
+
+/** The part of the WebSocket API used here (the browser's, or the `ws` package's in Node). */
+export interface ClientSocket {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type RoomRequest = Extract<ClientMessage, { type: 'HOST' | 'JOIN' | 'WATCH' }>;
+
+export interface RemoteEngineOptions {
+  /** Defaults to the browser WebSocket */
+  createSocket?: (url: string) => ClientSocket;
+  /** Called whenever the connection, the room or the active seat changes */
+  onStatus?: (status: NetworkStatus) => void;
+  reconnectDelayMs?: number;
+}
+
+/**
+ * Client side of a networked session: the GameEngine surface the store drives, backed by a GameServer.
+ * Inputs are checked against the last received state for instant feedback, then sent; the server
+ * validates them again and its states arrive as patches, collected until the next processTick.
+ * A dropped connection is retried and resumes the same seat with a fresh snapshot.
+ * Watching (a WATCH request) follows the room the same way, with no seat: every input is refused here.
+ */
+export class RemoteEngine implements SessionEngine {
+  private _state: SessionState | null = null; // As the server has it
+  private _view: SessionState | null = null;  // As this seat sees it
+  private _events: GameEvent[] = [];
+  private _status: NetworkStatus = { connection: 'CONNECTING', roomId: null, seatId: null, isHost: false, activeSeatId: null };
+  private _token: string | null = null;
+  private _socket: ClientSocket | null = null;
+  private _attempts = 0;
+  private _retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private _closed = false;
+  private readonly _validator = new ActionProcessor();
+  private readonly _url: string;
+  private readonly _request: RoomRequest;
+  private readonly _options: RemoteEngineOptions;
+
+  constructor(url: string, request: RoomRequest, options: RemoteEngineOptions = {}) {
+    this._url = url;
+    this._request = request;
+    this._options = options;
+    this.connect();
+  }
+
+  public get state(): SessionState | null {
+    return this._view;
+  }
+
+  public get status(): NetworkStatus {
+    return this._status;
+  }
+
+  public applyAction(actorId: string, action: GameAction): ValidationResult {
+    const blocked = this.checkInput();
+    if (blocked) return blocked;
+    const view = this._view!;
+    const result = this._validator.validateAction(view, new WorldIndex(view.grid, getEntities(view)), actorId, action);
+    if (result.ok) this.send({ type: 'ACTION', action });
+    return result;
+  }
+
+  public setPlayerIntent(isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
+    if (!this.checkInput()) this.send({ type: 'INTENT', isGrowing, intent });
+  }
+
+  public startMission() {
+    this.send({ type: 'START_MISSION' });
+  }
+
+  public endTurn(): ValidationResult {
+    const blocked = this.checkInput();
+    if (blocked) return blocked;
+    const { turn } = this._view!;
+    if (!turn) return { ok: false, reason: 'Not a turn-based session' };
+    if (isTurnResolving(turn)) return { ok: false, reason: 'Turn is resolving' };
+    this.send({ type: 'END_TURN' });
+    return { ok: true };
+  }
+
+  /** The latest server state and the events that came with it since the last call. */
+  public processTick(): TickResult {
+    if (!this._view) return { state: null, events: [] };
+    const events = this._events;
+    this._events = [];
+    return { state: this._view, events };
+  }
+
+  public destroy() {
+    this._closed = true;
+    if (this._retryTimer) clearTimeout(this._retryTimer);
+    this._socket?.close();
+    this._socket = null;
+    this._state = null;
+    this._view = null;
+    this._events = [];
+  }
+
+  private checkInput(): ValidationResult | null {
+    if (!this._view || this._status.connection !== 'ONLINE') return { ok: false, reason: 'Not connected' };
+    if (!this._status.seatId) return { ok: false, reason: 'Observers give no orders' };
+    if (this._status.activeSeatId !== this._status.seatId) return { ok: false, reason: 'Not your turn' };
+    return null;
+  }
+
+  private connect() {
+    const createSocket = this._options.createSocket || ((url: string) => new WebSocket(url) as ClientSocket);
+    const socket = createSocket(this._url);
+    this._socket = socket;
+    socket.onopen = () => {
+      // Reconnecting resumes our seat; the first connection hosts, joins or watches as asked (and so does a watcher's reconnect)
+      const { roomId } = this._status;
+      this.send(this._token && roomId ? { type: 'JOIN', roomId, token: this._token } : this._request);
+    };
+    socket.onmessage = event => {
+      const message = decodeMessage<ServerMessage>(event.data);
+      if (message) this.receive(message);
+    };
+    socket.onclose = () => {
+      if (this._socket === socket) this.disconnected();
+    };
+  }
+
+  private receive(message: ServerMessage) {
+    switch (message.type) {
+      case 'WELCOME':
+        this._attempts = 0;
+        this._token = message.token;
+        this._state = deserializeSession(message.snapshot);
+        this.updateView({
+          connection: 'ONLINE', roomId: message.roomId, seatId: message.seatId,
+          isHost: getSeats(this._state)[0]?.id === message.seatId, error: undefined
+        });
+        break;
+      case 'WATCHING':
+        this._attempts = 0;
+        this._state = deserializeSession(message.snapshot);
+        this.updateView({ connection: 'ONLINE', roomId: message.roomId, seatId: null, isHost: false, error: undefined });
+        break;
+      case 'PATCH': {
+        if (!this._state) return;
+        const next = applySessionPatch(this._state, message.patch);
+        // Out of step with the server: drop the connection, the reconnect brings a snapshot
+        if (!next) return this._socket?.close();
+        this._state = expireEffects(next);
+        this._events.push(...message.events);
+        this.updateView();
+        break;
+      }
+      case 'DENIED':
+        this._events.push(GameEventFactory.create('ACTION_DENIED', message.reason, this._status.seatId || undefined, undefined, this._state?.simTime ?? 0));
+        break;
+      case 'ERROR':
+        this._closed = true;
+        this.setStatus({ connection: 'OFFLINE', error: message.reason });
+        break;
+    }
+  }
+
+  private disconnected() {
+    this._socket = null;
+    if (this._closed) return;
+    // Never got into the room: nothing to resume
+    if (!this._status.roomId) return this.setStatus({ connection: 'OFFLINE', error: 'Server unreachable' });
+    if (this._attempts >= NET_CONFIG.MAX_RECONNECT_ATTEMPTS) return this.setStatus({ connection: 'OFFLINE', error: 'Connection lost' });
+
+    this._attempts++;
+    this.setStatus({ connection: 'RECONNECTING' });
+    const delay = (this._options.reconnectDelayMs ?? NET_CONFIG.RECONNECT_DELAY_MS) * this._attempts;
+    this._retryTimer = setTimeout(() => {
+      this._retryTimer = null;
+      if (!this._closed) this.connect();
+    }, delay);
+  }
+
+  /** Re-derives this seat's view; `patch` is announced with it, as is a change of active seat. */
+  private updateView(patch: Partial<NetworkStatus> = {}) {
+    const state = this._state!;
+    const seatId = patch.seatId ?? this._status.seatId;
+    this._view = seatId ? viewAsSeat(state, seatId) : state;
+    if (Object.keys(patch).length > 0 || state.player.id !== this._status.activeSeatId) {
+      this.setStatus({ ...patch, activeSeatId: state.player.id });
+    }
+  }
+
+  private setStatus(patch: Partial<NetworkStatus>) {
+    this._status = { ...this._status, ...patch };
+    this._options.onStatus?.(this._status);
+  }
+
+  private send(message: ClientMessage) {
+    try {
+      this._socket?.send(encodeMessage(message));
+    } catch {
+      // Not open (yet, or any more): the reconnect resynchronizes
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { BotAggression, BotStrategyId, Difficulty, GameAction, GameEvent, HexCoord, SeatProfile, WinCondition } from '../types';
+import { SerializedSession } from '../services/sessionSnapshot';
+import { SessionPatch } from '../engine/SessionPatch';
+import { MAX_SEATS } from '../services/sessionFactory';
+import { AGGRESSION_SETTINGS, DIFFICULTY_SETTINGS, SAFETY_CONFIG } from '../rules/config';
+import { BOT_STRATEGY_IDS } from '../bot/strategies';
+
+/**
+ * Wire protocol between the GameServer (authoritative: hosts the GameEngine) and RemoteEngine clients.
+ * Every message is one JSON text frame. Clients only send inputs - the same ones the ReplayRecorder
+ * records - and the server answers with a full snapshot on (re)join, then the engine's patches.
+ * Observers WATCH a room instead: the same snapshot and patches, no seat and no inputs.
+ */
+
+export const NET_CONFIG = {
+  DEFAULT_PORT: 8787,
+  // Real-time states move on every tick; an action this many versions behind is rebased onto the current state
+  MAX_ACTION_LAG: 20,
+  // A room outlives its last connection this long so players can reconnect
+  ROOM_IDLE_MS: 5 * 60 * 1000,
+  RECONNECT_DELAY_MS: 1000, // Grows linearly with every failed attempt
+  MAX_RECONNECT_ATTEMPTS: 5,
+  // Bounds on what a client may host (the mission setup never goes past them)
+  MAX_ROOM_BOTS: 4,
+  MAX_TARGET_LEVEL: 99,
+  MAX_TARGET_COINS: 1_000_000,
+  MAX_TEXT_LENGTH: 64
+};
+
+export type ClientMessage =
+  | { type: 'HOST'; winCondition: WinCondition; seed?: number }
+  | { type: 'JOIN'; roomId: string; token?: string } // With the token of a seat held before: reconnect to it
+  | { type: 'WATCH'; roomId: string }                 // Follow the room without a seat: its snapshot and patches, no inputs
+  | { type: 'ACTION'; action: GameAction }
+  | { type: 'INTENT'; isGrowing: boolean; intent: 'RECOVER' | 'UPGRADE' | null }
+  | { type: 'START_MISSION' }
+  | { type: 'END_TURN' };
+
+export type ServerMessage =
+  | { type: 'WELCOME'; roomId: string; seatId: string; token: string; snapshot: SerializedSession }
+  | { type: 'WATCHING'; roomId: string; snapshot: SerializedSession } // Answers a WATCH
+  | { type: 'PATCH'; patch: SessionPatch; events: GameEvent[] }
+  | { type: 'DENIED'; reason: string } // An input of this client the engine rejected
+  | { type: 'ERROR'; reason: string };  // The request failed (unknown or full room); the server closes the connection
+
+export const encodeMessage = (message: ClientMessage | ServerMessage): string => JSON.stringify(message);
+
+export const decodeMessage = <T extends ClientMessage | ServerMessage>(data: unknown): T | null => {
+  try {
+    const message = JSON.parse(String(data));
+    return message && typeof message.type === 'string' ? message as T : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Client input validation: the server trusts nothing a socket sends ---
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isInt = (value: unknown, min: number, max: number): value is number => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => typeof value === 'string' && (options as readonly string[]).includes(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length <= NET_CONFIG.MAX_TEXT_LENGTH;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isCoord = (value: unknown): value is HexCoord => isObject(value) && Number.isSafeInteger(value.q) && Number.isSafeInteger(value.r);
+const isVersion = (value: unknown) => isOptional(value, v => Number.isSafeInteger(v));
+
+const parseAction = (action: unknown): GameAction | null => {
+  if (!isObject(action) || !isVersion(action.stateVersion)) return null;
+  const { stateVersion } = action as { stateVersion?: number };
+  switch (action.type) {
+    case 'MOVE':
+      if (!Array.isArray(action.path) || action.path.length > SAFETY_CONFIG.MAX_PATH_LENGTH || !action.path.every(isCoord)) return null;
+      return { type: 'MOVE', path: action.path.map(({ q, r }) => ({ q, r })), stateVersion };
+    case 'UPGRADE':
+      if (!isCoord(action.coord) || !isOptional(action.intent, v => isOneOf(v, ['UPGRADE', 'RECOVER'] as const))) return null;
+      if (!isOptional(action.upgradeType, v => isOneOf(v, ['DEFAULT', 'BARRIER', 'MINE', 'CAPITAL'] as const))) return null;
+      return { type: 'UPGRADE', coord: { q: action.coord.q, r: action.coord.r }, intent: action.intent as 'UPGRADE' | 'RECOVER' | undefined, upgradeType: action.upgradeType as 'DEFAULT' | 'BARRIER' | 'MINE' | 'CAPITAL' | undefined, stateVersion };
+    case 'WAIT':
+    case 'RECHARGE_MOVE':
+      return { type: action.type, stateVersion };
+    case 'BREACH':
+      return isCoord(action.coord) ? { type: 'BREACH', coord: { q: action.coord.q, r: action.coord.r }, stateVersion } : null;
+    case 'ARM_TRAP':
+      return isCoord(action.coord) && isInt(action.potency, 1, Number.MAX_SAFE_INTEGER)
+        ? { type: 'ARM_TRAP', coord: { q: action.coord.q, r: action.coord.r }, potency: action.potency, stateVersion } : null;
+    case 'ATTACK':
+      return isCoord(action.coord) && isInt(action.tokens, 1, Number.MAX_SAFE_INTEGER)
+        ? { type: 'ATTACK', coord: { q: action.coord.q, r: action.coord.r }, tokens: action.tokens, stateVersion } : null;
+    default:
+      return null;
+  }
+};
+
+const parseSeat = (seat: unknown): SeatProfile | null =>
+  isObject(seat) && isText(seat.nickname) && isText(seat.avatarColor) && isText(seat.avatarIcon)
+    ? { nickname: seat.nickname, avatarColor: seat.avatarColor, avatarIcon: seat.avatarIcon } : null;
+
+/** A hosted skirmish setup, within what the mission setup offers. Only the known fields are kept. */
+const parseWinCondition = (wc: unknown): WinCondition | null => {
+  if (!isObject(wc)) return null;
+  const difficulties = Object.keys(DIFFICULTY_SETTINGS) as Difficulty[];
+  const aggressions = Object.keys(AGGRESSION_SETTINGS) as BotAggression[];
+  const isFlag = (v: unknown) => isOptional(v, f => typeof f === 'boolean');
+  const isListOf = (v: unknown, max: number, check: (item: unknown) => boolean) => isOptional(v, l => Array.isArray(l) && l.length <= max && l.every(check));
+
+  if (!Number.isSafeInteger(wc.levelId) || !isInt(wc.targetLevel, 1, NET_CONFIG.MAX_TARGET_LEVEL) || !isInt(wc.targetCoins, 0, NET_CONFIG.MAX_TARGET_COINS)) return null;
+  if (!isText(wc.label) || !isInt(wc.botCount, 0, NET_CONFIG.MAX_ROOM_BOTS) || !isOneOf(wc.difficulty, difficulties)) return null;
+  if (!isInt(wc.queueSize, 1, DIFFICULTY_SETTINGS.HARD.queueSize) || !isOneOf(wc.winType, ['OR', 'AND'] as const)) return null;
+  if (![wc.isTutorial, wc.capitalMode, wc.turnBased, wc.observe].every(isFlag)) return null;
+  if (!isListOf(wc.botStrategies, NET_CONFIG.MAX_ROOM_BOTS, v => isOneOf(v, BOT_STRATEGY_IDS))) return null;
+  if (!isListOf(wc.botAggression, NET_CONFIG.MAX_ROOM_BOTS, v => isOneOf(v, aggressions))) return null;
+  if (!isListOf(wc.hotSeat, MAX_SEATS, v => parseSeat(v) !== null)) return null;
+
+  return {
+    levelId: wc.levelId as number, targetLevel: wc.targetLevel, targetCoins: wc.targetCoins, label: wc.label,
+    botCount: wc.botCount, difficulty: wc.difficulty, queueSize: wc.queueSize, winType: wc.winType,
+    isTutorial: wc.isTutorial as boolean | undefined,
+    botStrategies: wc.botStrategies as BotStrategyId[] | undefined,
+    botAggression: wc.botAggression as BotAggression[] | undefined,
+    capitalMode: wc.capitalMode as boolean | undefined,
+    turnBased: wc.turnBased as boolean | undefined,
+    hotSeat: (wc.hotSeat as unknown[] | undefined)?.map(seat => parseSeat(seat)!),
+    observe: wc.observe as boolean | undefined
+  };
+};
+
+/** A client frame the server may act on: decoded and checked field by field, or null. */
+export const parseClientMessage = (data: unknown): ClientMessage | null => {
+  const message = decodeMessage<ClientMessage>(data);
+  if (!isObject(message)) return null;
+  const fields: Fields = message;
+
+  switch (message.type) {
+    case 'HOST': {
+      const winCondition = parseWinCondition(fields.winCondition);
+      if (!winCondition || !isOptional(fields.seed, v => Number.isSafeInteger(v))) return null;
+      return { type: 'HOST', winCondition, seed: fields.seed as number | undefined };
+    }
+    case 'JOIN':
+      return isText(fields.roomId) && isOptional(fields.token, isText) ? { type: 'JOIN', roomId: fields.roomId, token: fields.token as string | undefined } : null;
+    case 'WATCH':
+      return isText(fields.roomId) ? { type: 'WATCH', roomId: fields.roomId } : null;
+    case 'ACTION': {
+      const action = parseAction(fields.action);
+      return action && { type: 'ACTION', action };
+    }
+    case 'INTENT':
+      return typeof fields.isGrowing === 'boolean' && (fields.intent === null || isOneOf(fields.intent, ['RECOVER', 'UPGRADE'] as const))
+        ? { type: 'INTENT', isGrowing: fields.isGrowing, intent: fields.intent as 'RECOVER' | 'UPGRADE' | null } : null;
+    case 'START_MISSION':
+    case 'END_TURN':
+      return { type: message.type };
+    default:
+      return null;
+  }
+};
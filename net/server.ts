@@ -0,0 +1,33 @@
+import { GameServer } from './GameServer';
+import { NET_CONFIG } from './protocol';
+import { parseArgs, toInt } from '../sim/args';
+
+/**
+ * Usage: npm run server -- --port 8787
+ *
+ *   --port N           port to listen on (0 picks a free one)            default 8787
+ *   --idle-minutes N   how long an empty room waits for reconnects       default 5
+ *
+ * Hosts multiplayer rooms until stopped (Ctrl+C).
+ */
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const server = new GameServer({
+    port: toInt(args.port, NET_CONFIG.DEFAULT_PORT, 'port'),
+    roomIdleMs: toInt(args['idle-minutes'], NET_CONFIG.ROOM_IDLE_MS / 60000, 'idle-minutes') * 60000
+  });
+  const port = await server.start();
+  process.stderr.write(`HexQuest server listening on ws://localhost:${port}\n`);
+
+  const stop = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+};
+
+main().catch(e => {
+  process.stderr.write(`${e instanceof Error ? e.message : e}\n`);
+  process.exit(1);
+});
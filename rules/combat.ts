@@ -0,0 +1,41 @@
+import { Hex, Entity, EntityState, ValidationResult } from '../types';
+import { GAME_CONFIG } from './config';
+import { getDefenseBonus } from './structures';
+
+export type AssaultOutcome = 'PRESSURE' | 'DOWNGRADED' | 'CAPTURED';
+
+/**
+ * Attack rules (shared by ActionProcessor validation, the CombatSystem, bots and the HUD).
+ * An ATTACK contests an adjacent sector owned by someone else. Walls and capitals are breached, not attacked.
+ */
+export function checkAttack(hex: Hex | undefined, entity: Entity, tokens: number): ValidationResult {
+    if (!hex) return { ok: false, reason: 'Invalid Hex' };
+    if (hex.structureType === 'VOID') return { ok: false, reason: 'Sector destroyed' };
+    if (hex.maxLevel < 1 || !hex.ownerId) return { ok: false, reason: 'Nothing to attack: sector unclaimed' };
+    if (hex.ownerId === entity.id) return { ok: false, reason: 'Cannot attack your own sector' };
+    if (hex.structureType === 'BARRIER' || hex.structureType === 'CAPITAL') return { ok: false, reason: 'Fortified sector: breach it instead' };
+    // Adjacency inline, as for breaches
+    const dq = hex.q - entity.q;
+    const dr = hex.r - entity.r;
+    if (Math.max(Math.abs(dq), Math.abs(dr), Math.abs(dq + dr)) !== 1) return { ok: false, reason: 'Target out of reach' };
+    if (entity.state === EntityState.MOVING) return { ok: false, reason: 'Cannot attack while moving' };
+    if (entity.pendingAttack) return { ok: false, reason: 'Attack already under way' };
+
+    const available = entity.attackTokens || 0;
+    if (!Number.isInteger(tokens) || tokens < 1) return { ok: false, reason: 'Attack needs at least 1 token' };
+    if (tokens > available) return { ok: false, reason: `Insufficient attack tokens. Need ${tokens}, have ${available}.` };
+    return { ok: true };
+}
+
+/**
+ * Pressure needed to take one level off `hex`.
+ * `neighbors` = the sector's adjacent hexes (capital bonus); `garrisoned` = its owner stands on it.
+ */
+export function getSectorDefense(hex: Hex, neighbors: (Hex | undefined)[], garrisoned: boolean): number {
+    return Math.max(1, hex.maxLevel) + getDefenseBonus(hex, neighbors) + (garrisoned ? GAME_CONFIG.COMBAT.garrisonBonus : 0);
+}
+
+/** Adds earned tokens, capped at COMBAT.maxTokens. */
+export function grantAttackTokens(entity: Entity, amount: number) {
+    entity.attackTokens = Math.min(GAME_CONFIG.COMBAT.maxTokens, (entity.attackTokens || 0) + amount);
+}
@@ -1,4 +1,6 @@
 
+import { BotAggression, Difficulty } from '../types';
+
 // Game Configuration and Constants
 
 export const GAME_CONFIG = {
@@ -6,7 +8,7 @@ export const GAME_CONFIG = {
   INITIAL_MOVES: 0,
   INITIAL_COINS: 0,
   EXCHANGE_RATE_COINS_PER_MOVE: 5, 
-  BOT_ACTION_INTERVAL_MS: 1000,
+  TICK_INTERVAL_MS: 100, // Simulation time advanced per GameEngine tick
   L1_HEX_MAX_DURABILITY: 6, // Explicitly set to 6 as requested
   
   // Movement & Animation Speeds
@@ -31,16 +33,62 @@ export const GAME_CONFIG = {
   } as Record<number, { cost: number, growthTime: number, income: number, reqRank: number }>,
 
   STRUCTURES: {
-    MINE: { cost: 50, incomePerTick: 1, maxHp: 20 },
-    BARRIER: { cost: 20, hpPerLevel: 10 },
-    CAPITAL: { cost: 500, defenseBonus: 2 }
+    // Pays incomePerTick credits every payoutIntervalTicks. Loses 1 HP every wearIntervalTicks of operation
+    // and 1 HP per payout interval while a rival stands on it (the raider blocks the payout).
+    MINE: { cost: 50, incomePerTick: 1, maxHp: 20, payoutIntervalTicks: 10, wearIntervalTicks: 100 },
+    // Impassable for everyone but the owner. HP = hpPerLevel * sector level; each BREACH (1 move) deals breachDamage.
+    BARRIER: { cost: 20, hpPerLevel: 10, breachDamage: 5 },
+    // One per entity. Breach damage against the capital and adjacent sectors of its owner is reduced by defenseBonus.
+    CAPITAL: { cost: 500, defenseBonus: 2, maxHp: 60 }
+  },
+
+  // Hidden until sprung. Each trigger drains potency-scaled moves and credits, halts the victim at haltPotency+,
+  // and spends one point of potency (the trap is gone at 0).
+  TRAPS: { costPerPotency: 15, maxPotency: 3, movesDrainPerPotency: 2, coinsDrainPerPotency: 10, haltPotency: 2 },
+
+  // Attack tokens are earned per recovery and per LEVEL_UP (up to maxTokens). An ATTACK adds its tokens to the
+  // target's siege pressure; whenever pressure reaches the sector's defense (level + capital bonus + garrisonBonus
+  // while its owner stands on it) the sector loses a level, and an L1 sector changes hands.
+  COMBAT: { maxTokens: 5, tokensPerRecovery: 1, tokensPerLevelUp: 1, garrisonBonus: 1 },
+
+  // Fog of war. Vision radius = baseRadius + 1 per ranksPerRadius ranks (+highGroundBonus on an L{highGroundLevel}+ hex).
+  VISION: { baseRadius: 3, ranksPerRadius: 2, highGroundLevel: 3, highGroundBonus: 1, maxRadius: 7 },
+
+  // Turn-based Skirmish: actions each entity may spend per turn, and engine ticks an ended turn resolves
+  // (movement, combat, mines). Growth takes ceil(growthTime / ticksPerTurn) turns.
+  TURNS: { actionsPerTurn: 3, ticksPerTurn: 30 },
+
+  // Procedural Skirmish world, generated in chunkSize x chunkSize chunks (see services/worldGenerator).
+  // Chunks within loadRadius of a moving entity are generated on demand; nothing spawns within safeRadius of the origin.
+  // Rich sectors multiply the income of their level-ups and recoveries by richIncomeMultiplier.
+  WORLD: {
+    chunkSize: 5, loadRadius: 1, safeRadius: 3,
+    hillChance: 0.45, maxHillLevel: 3, riftChance: 0.3, riftLength: 4, barrierChance: 0.25,
+    richSectors: 2, richIncomeMultiplier: 2
   }
 };
 
+// Difficulty shapes the bots, not just the upgrade cycle:
+// - actionIntervalMs: real-time pause between two decisions (doubled below rank 3, see getBotActionInterval)
+// - scanRadius / contextRadius: how far a bot looks for its master goal / for targets, farms and points
+// - planningDepth: prerequisites resolveBottleneck walks down before giving up on a goal
+// - mistakeChance: odds that a decision is a deliberate blunder (hesitating or wandering off)
+// - interferes: bots keep hunting the player where they last saw them (BotMemory.lastPlayerPos), not only while in sight
 export const DIFFICULTY_SETTINGS = {
-  EASY: { queueSize: 1 },
-  MEDIUM: { queueSize: 2 },
-  HARD: { queueSize: 3 }
+  EASY: { queueSize: 1, actionIntervalMs: 1600, scanRadius: 20, contextRadius: 8, planningDepth: 1, mistakeChance: 0.2, interferes: false },
+  MEDIUM: { queueSize: 2, actionIntervalMs: 1000, scanRadius: 50, contextRadius: 15, planningDepth: 3, mistakeChance: 0, interferes: true },
+  HARD: { queueSize: 3, actionIntervalMs: 700, scanRadius: 50, contextRadius: 20, planningDepth: 5, mistakeChance: 0, interferes: true }
+};
+
+// How a bot competes with the player (see bot/strategies/rival):
+// - reach: farthest a contested hex may be from the bot (0 = ignores the player)
+// - race: grabs the free L0s around the player's apex before they can
+// - block: parks on the player's route to their apex
+// - sabotage: collapses worn L1 sectors next to the player's apex (costs the bot a rank)
+export const AGGRESSION_SETTINGS: Record<BotAggression, { reach: number; race: boolean; block: boolean; sabotage: boolean }> = {
+  PASSIVE: { reach: 0, race: false, block: false, sabotage: false },
+  RIVAL: { reach: 4, race: true, block: true, sabotage: false },
+  HOSTILE: { reach: 8, race: true, block: true, sabotage: true }
 };
 
 // Resource & Computation Guards
@@ -63,3 +111,9 @@ export const getLevelConfig = (level: number) => {
     reqRank: level - 1 
   };
 };
+
+/** Real-time pause between two decisions of an AI-driven entity: slower at low ranks and on easier difficulties. */
+export const getBotActionInterval = (playerLevel: number, difficulty: Difficulty): number => {
+  const interval = (DIFFICULTY_SETTINGS[difficulty] || DIFFICULTY_SETTINGS.MEDIUM).actionIntervalMs;
+  return playerLevel < 3 ? interval * 2 : interval;
+};
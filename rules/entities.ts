@@ -0,0 +1,69 @@
+import { Entity, EntityType, SessionState } from '../types';
+
+/**
+ * Humans and bots are peers: every system acts on getEntities().
+ * `player` is the human whose orders the screen takes (the only one outside hot-seat),
+ * `hotSeats` the humans waiting for the screen and `bots` the AI rivals. Observed sessions
+ * hand the player slot to the AI as well (see getAiEntities).
+ */
+
+export function getEntities(state: SessionState): Entity[] {
+    return state.hotSeats ? [state.player, ...state.hotSeats, ...state.bots] : [state.player, ...state.bots];
+}
+
+/** Entities the AiSystem plays: the bots, and the player slot too when the session is only observed. */
+export function getAiEntities(state: SessionState): Entity[] {
+    return state.winCondition?.observe ? [state.player, ...state.bots] : state.bots;
+}
+
+export function getHumans(state: SessionState): Entity[] {
+    return state.hotSeats ? [state.player, ...state.hotSeats] : [state.player];
+}
+
+/** Humans in seat order (seat 1 first), whoever has the screen. */
+export function getSeats(state: SessionState): Entity[] {
+    return getHumans(state).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+/**
+ * The session as the human `seatId` sees it, with their entity as `player` and the active human
+ * among the waiting ones (networked seats each have a screen). The growth toggle follows their queued order.
+ */
+export function viewAsSeat(state: SessionState, seatId: string): SessionState {
+    const seat = state.hotSeats?.find(h => h.id === seatId);
+    if (!seat) return state;
+    const intent = getQueuedGrowth(seat);
+    return {
+        ...state,
+        player: seat,
+        hotSeats: [state.player, ...state.hotSeats!.filter(h => h !== seat)],
+        isPlayerGrowing: !!intent,
+        playerGrowthIntent: intent
+    };
+}
+
+/** A waiting human's growth toggle: the growth order at the head of their queue, if any. */
+export function getQueuedGrowth(entity: Entity): 'RECOVER' | 'UPGRADE' | null {
+    const order = entity.movementQueue[0];
+    return order?.upgrade ? order.intent || 'UPGRADE' : null;
+}
+
+export function findEntity(state: SessionState, id: string): Entity | undefined {
+    if (state.player.id === id) return state.player;
+    return state.hotSeats?.find(h => h.id === id) || state.bots.find(b => b.id === id);
+}
+
+export function isHuman(entity: Entity): boolean {
+    return entity.type === EntityType.PLAYER;
+}
+
+/** How messages and the HUD name an entity. */
+export function getEntityName(entity: Entity): string {
+    return entity.nickname || entity.id.toUpperCase();
+}
+
+/** Message log prefix: "[YOU]" for the single player, otherwise whose action it was (hot-seat humans by name). */
+export function getLogPrefix(state: SessionState, entity: Entity): string {
+    if (isHuman(entity) && !state.hotSeats && !state.winCondition?.observe) return '[YOU]';
+    return `[${entity.nickname || entity.id}]`;
+}
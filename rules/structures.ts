@@ -0,0 +1,101 @@
+
+import { Hex, Entity, ValidationResult } from '../types';
+import { GAME_CONFIG } from './config';
+
+export type BuildableStructure = 'MINE' | 'BARRIER' | 'CAPITAL';
+
+/**
+ * Structure placement rules (shared by ActionProcessor validation, bots and the HUD).
+ * Structures are built on the hex the entity stands on.
+ */
+export function checkStructureBuild(type: BuildableStructure, hex: Hex | undefined, entity: Entity): ValidationResult {
+  if (!hex) return { ok: false, reason: 'Invalid Hex' };
+  if (hex.q !== entity.q || hex.r !== entity.r) return { ok: false, reason: 'Must stand on the sector' };
+  if (hex.structureType === 'VOID') return { ok: false, reason: 'Sector destroyed' };
+  if (hex.structureType && hex.structureType !== 'NONE') return { ok: false, reason: 'Sector already has a structure' };
+
+  switch (type) {
+    case 'BARRIER': {
+      if (hex.maxLevel < 1 || hex.ownerId !== entity.id) {
+        return { ok: false, reason: 'BARRIER REQUIRES OWNED SECTOR (L1+)' };
+      }
+      const cost = GAME_CONFIG.STRUCTURES.BARRIER.cost;
+      if (entity.coins < cost) {
+        return { ok: false, reason: `Insufficient credits. Need ${cost}, have ${entity.coins}.` };
+      }
+      return { ok: true };
+    }
+    case 'CAPITAL': {
+      if (hex.maxLevel < 1 || hex.ownerId !== entity.id) {
+        return { ok: false, reason: 'CAPITAL REQUIRES OWNED SECTOR (L1+)' };
+      }
+      if (entity.capitalId) return { ok: false, reason: 'Capital already founded' };
+      const cost = GAME_CONFIG.STRUCTURES.CAPITAL.cost;
+      if (entity.coins < cost) {
+        return { ok: false, reason: `Insufficient credits. Need ${cost}, have ${entity.coins}.` };
+      }
+      return { ok: true };
+    }
+    case 'MINE': {
+      // Only on land you acquired yourself
+      if (hex.maxLevel < 1 || hex.ownerId !== entity.id) {
+        return { ok: false, reason: 'MINE REQUIRES OWNED SECTOR (L1+)' };
+      }
+      const cost = GAME_CONFIG.STRUCTURES.MINE.cost;
+      if (entity.coins < cost) {
+        return { ok: false, reason: `Insufficient credits. Need ${cost}, have ${entity.coins}.` };
+      }
+      return { ok: true };
+    }
+  }
+}
+
+/** Full HP of a structure. Map-generated walls carry no structureHp and are scaled by their level. */
+export function getStructureMaxHp(hex: Hex): number {
+  switch (hex.structureType) {
+    case 'MINE': return GAME_CONFIG.STRUCTURES.MINE.maxHp;
+    case 'CAPITAL': return GAME_CONFIG.STRUCTURES.CAPITAL.maxHp;
+    default: return GAME_CONFIG.STRUCTURES.BARRIER.hpPerLevel * Math.max(1, hex.maxLevel);
+  }
+}
+
+/**
+ * Defense granted to an owned sector by its owner's capital (on the sector itself or next to it).
+ * `neighbors` = the sector's adjacent hexes, as for checkGrowthCondition.
+ */
+export function getDefenseBonus(hex: Hex, neighbors: (Hex | undefined)[]): number {
+  if (!hex.ownerId) return 0;
+  const guarded = [hex, ...neighbors].some(h => h && h.structureType === 'CAPITAL' && h.ownerId === hex.ownerId);
+  return guarded ? GAME_CONFIG.STRUCTURES.CAPITAL.defenseBonus : 0;
+}
+
+/**
+ * Barriers are walls for everyone except their owner.
+ * `moverId` undefined = anonymous query (e.g. previews), every barrier blocks.
+ */
+export function isBlockedByStructure(hex: Hex | undefined, moverId?: string): boolean {
+  return !!hex && hex.structureType === 'BARRIER' && (moverId === undefined || hex.ownerId !== moverId);
+}
+
+/** Breach damage dealt to `hex` after its capital defense. Always at least 1. */
+export function getBreachDamage(hex: Hex, neighbors: (Hex | undefined)[]): number {
+  return Math.max(1, GAME_CONFIG.STRUCTURES.BARRIER.breachDamage - getDefenseBonus(hex, neighbors));
+}
+
+/** A BREACH hits an adjacent barrier or capital the attacker does not own. Unowned capitals (campaign apex) are untouchable. */
+export function checkBreach(hex: Hex | undefined, entity: Entity): ValidationResult {
+  if (!hex) return { ok: false, reason: 'Invalid Hex' };
+  const isTarget = hex.structureType === 'BARRIER' || (hex.structureType === 'CAPITAL' && !!hex.ownerId);
+  if (!isTarget) return { ok: false, reason: 'Nothing to breach' };
+  if (hex.ownerId === entity.id) return { ok: false, reason: 'Cannot breach your own structure' };
+  // Adjacency inline: hexUtils depends on this module for pathfinding
+  const dq = hex.q - entity.q;
+  const dr = hex.r - entity.r;
+  if (Math.max(Math.abs(dq), Math.abs(dr), Math.abs(dq + dr)) !== 1) return { ok: false, reason: 'Target out of reach' };
+  if (entity.moves < 1 && entity.coins < GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE) {
+    return { ok: false, reason: `Insufficient credits. Need ${GAME_CONFIG.EXCHANGE_RATE_COINS_PER_MOVE}, have ${entity.coins}.` };
+  }
+  return { ok: true };
+}
+
+export default checkStructureBuild;
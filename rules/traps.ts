@@ -0,0 +1,64 @@
+import { Hex, Entity, ValidationResult } from '../types';
+import { GAME_CONFIG } from './config';
+
+export interface TrapEffect {
+    movesLost: number;
+    coinsLost: number;
+    halted: boolean;
+}
+
+/**
+ * Arming rules (shared by ActionProcessor validation and the HUD).
+ * Traps go on the owned sector the entity stands on. Re-arming your own trap raises its potency,
+ * paying only for the added points.
+ */
+export function checkTrapArm(hex: Hex | undefined, entity: Entity, potency: number): ValidationResult {
+    const { costPerPotency, maxPotency } = GAME_CONFIG.TRAPS;
+    if (!hex) return { ok: false, reason: 'Invalid Hex' };
+    if (hex.q !== entity.q || hex.r !== entity.r) return { ok: false, reason: 'Must stand on the sector' };
+    if (hex.structureType === 'VOID') return { ok: false, reason: 'Sector destroyed' };
+    if (hex.maxLevel < 1 || hex.ownerId !== entity.id) return { ok: false, reason: 'TRAP REQUIRES OWNED SECTOR (L1+)' };
+    if (!Number.isInteger(potency) || potency < 1 || potency > maxPotency) {
+        return { ok: false, reason: `Trap potency must be 1-${maxPotency}` };
+    }
+
+    const current = getArmedPotency(hex);
+    if (potency <= current) return { ok: false, reason: `Trap already armed (potency ${current})` };
+
+    const cost = getTrapArmCost(hex, potency);
+    if (entity.coins < cost) return { ok: false, reason: `Insufficient credits. Need ${cost}, have ${entity.coins}.` };
+    return { ok: true };
+}
+
+export function getArmedPotency(hex: Hex): number {
+    return hex.trap?.active ? (hex.trap.potency || 1) : 0;
+}
+
+export function getTrapArmCost(hex: Hex, potency: number): number {
+    return (potency - getArmedPotency(hex)) * GAME_CONFIG.TRAPS.costPerPotency;
+}
+
+/** Does `hex` spring a trap on `entity`? Owners walk over their own traps safely. */
+export function isTrapTriggeredBy(hex: Hex | undefined, entity: Entity): boolean {
+    return !!hex && !!hex.trap?.active && hex.ownerId !== entity.id;
+}
+
+/** Penalty for stepping into a trap of `potency`, clamped to what the victim actually has. */
+export function getTrapEffect(entity: Entity, potency: number): TrapEffect {
+    const { movesDrainPerPotency, coinsDrainPerPotency, haltPotency } = GAME_CONFIG.TRAPS;
+    return {
+        movesLost: Math.min(entity.moves, potency * movesDrainPerPotency),
+        coinsLost: Math.min(entity.coins, potency * coinsDrainPerPotency),
+        halted: potency >= haltPotency
+    };
+}
+
+/** Traps the entity knows about and should route around: sprung ones it doesn't own. */
+export function isKnownTrapFor(hex: Hex, entityId: string): boolean {
+    return !!hex.trap?.active && !!hex.trap.revealed && hex.ownerId !== entityId;
+}
+
+/** Renderer visibility: owners always see their traps, everyone else only once sprung. */
+export function isTrapVisibleTo(hex: Hex, viewerId: string | undefined): boolean {
+    return !!hex.trap?.active && (hex.ownerId === viewerId || !!hex.trap.revealed);
+}
@@ -0,0 +1,64 @@
+import { Entity, GameAction, SessionState, TurnState } from '../types';
+import { GAME_CONFIG, getLevelConfig } from './config';
+import { getQueuedGrowth } from './entities';
+
+/**
+ * Turn-based ruleset (shared by the ActionProcessor, GameEngine, GrowthSystem, AiSystem and the HUD).
+ * Every entity spends up to TURNS.actionsPerTurn actions per turn. Ending the turn lets each bot plan
+ * its whole turn at once, then the engine resolves the next TURNS.ticksPerTurn ticks (and idles between
+ * turns). Growth counts turns, not ticks.
+ */
+
+export function startTurn(entities: Entity[]): TurnState {
+    const actionsLeft: Record<string, number> = {};
+    for (const entity of entities) actionsLeft[entity.id] = GAME_CONFIG.TURNS.actionsPerTurn;
+    return { actionsLeft, ticksLeft: 0, seat: 0 };
+}
+
+export function getActionsLeft(turn: TurnState, entityId: string): number {
+    return turn.actionsLeft[entityId] ?? 0;
+}
+
+/** WAIT only passes, so it is free. */
+export function costsTurnAction(action: GameAction): boolean {
+    return action.type !== 'WAIT';
+}
+
+/** Copy-on-write, like grid updates: engine states share the TurnState until it changes. */
+export function spendTurnAction(turn: TurnState, entityId: string): TurnState {
+    return { ...turn, actionsLeft: { ...turn.actionsLeft, [entityId]: Math.max(0, getActionsLeft(turn, entityId) - 1) } };
+}
+
+/** Between End Turn and the last resolution tick no orders are taken. */
+export function isTurnResolving(turn: TurnState): boolean {
+    return turn.ticksLeft > 0;
+}
+
+/** Growth advances once per turn, on the last tick an ended turn resolves. */
+export function isTurnClosingTick(turn: TurnState): boolean {
+    return turn.ticksLeft === 1;
+}
+
+/** Hot-seat: true while humans after the active one still have to give their orders this turn. */
+export function hasSeatsToPlay(state: SessionState): boolean {
+    return !!state.turn && !!state.hotSeats && state.turn.seat < state.hotSeats.length;
+}
+
+/**
+ * Hot-seat: hands the screen to the next human (the active one waits at the back). The HUD growth
+ * toggle follows the incoming human's queued growth order.
+ */
+export function passSeat(state: SessionState): void {
+    if (!state.hotSeats?.length) return;
+    const [next, ...waiting] = state.hotSeats;
+    state.hotSeats = [...waiting, state.player];
+    state.player = next;
+
+    state.playerGrowthIntent = getQueuedGrowth(next);
+    state.isPlayerGrowing = !!state.playerGrowthIntent;
+}
+
+/** Turns it takes to grow a sector into `level` (its growth time, rounded up to whole turns). */
+export function getGrowthTurns(level: number): number {
+    return Math.max(1, Math.ceil(getLevelConfig(level).growthTime / GAME_CONFIG.TURNS.ticksPerTurn));
+}
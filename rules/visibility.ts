@@ -0,0 +1,81 @@
+import { Hex, HexView, Entity, HexCoord, Visibility } from '../types';
+import { GAME_CONFIG } from './config';
+import { getHexKey } from '../services/hexUtils';
+
+/**
+ * Fog of war (shared by the MovementSystem, AiSystem and the renderer).
+ * Every entity sees the hexes within its vision radius; everything else is known only as a HexView:
+ * terrain, owner and structure type, but not transient details (progress, HP, durability, traps, siege pressure).
+ */
+
+/** Vision grows with rank and with the height of the hex the entity stands on. */
+export function getVisionRadius(entity: Entity, standingOn: Hex | undefined): number {
+    const { baseRadius, ranksPerRadius, highGroundLevel, highGroundBonus, maxRadius } = GAME_CONFIG.VISION;
+    const highGround = standingOn && standingOn.structureType !== 'VOID' && standingOn.maxLevel >= highGroundLevel ? highGroundBonus : 0;
+    return Math.min(maxRadius, baseRadius + Math.floor(entity.playerLevel / ranksPerRadius) + highGround);
+}
+
+/** Every hex key within `radius` of `center`, whether the hex exists yet or not. */
+export function getKeysInRadius(center: HexCoord, radius: number): string[] {
+    const keys: string[] = [];
+    for (let dq = -radius; dq <= radius; dq++) {
+        for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+            keys.push(getHexKey(center.q + dq, center.r + dr));
+        }
+    }
+    return keys;
+}
+
+export function computeVisibility(entity: Entity, grid: Record<string, Hex>): Visibility {
+    const radius = getVisionRadius(entity, grid[getHexKey(entity.q, entity.r)]);
+    return { q: entity.q, r: entity.r, radius, hexKeys: getKeysInRadius(entity, radius) };
+}
+
+/** True when the cached visibility no longer matches the entity's position or vision radius. */
+export function isVisibilityStale(entity: Entity, grid: Record<string, Hex>): boolean {
+    const v = entity.visibility;
+    return !v || v.q !== entity.q || v.r !== entity.r || v.radius !== getVisionRadius(entity, grid[getHexKey(entity.q, entity.r)]);
+}
+
+/** Hex keys the entity sees right now. Falls back to a fresh computation before the first MovementSystem pass. */
+export function getVisibleKeys(entity: Entity, grid: Record<string, Hex>): Set<string> {
+    return new Set(isVisibilityStale(entity, grid) ? computeVisibility(entity, grid).hexKeys : entity.visibility!.hexKeys);
+}
+
+export function toHexView(hex: Hex): HexView {
+    return { id: hex.id, q: hex.q, r: hex.r, currentLevel: hex.currentLevel, maxLevel: hex.maxLevel, structureType: hex.structureType, ownerId: hex.ownerId, richness: hex.richness };
+}
+
+// Fogged copies are reused for as long as the source hex object is unchanged (grid updates are copy-on-write)
+const foggedCache = new WeakMap<Hex, Hex>();
+
+/** An unseen hex as a bot may know it: its HexView, with neutral values for everything hidden. */
+export function fogHex(hex: Hex): Hex {
+    let fogged = foggedCache.get(hex);
+    if (!fogged) {
+        fogged = { ...toHexView(hex), progress: 0, revealed: hex.revealed };
+        foggedCache.set(hex, fogged);
+    }
+    return fogged;
+}
+
+/**
+ * The grid as seen through `visible`: full detail inside, HexView projections outside.
+ * A read-only view over `grid` that fogs hexes as they are read, so a decision costs the hexes it looks at, not the map size.
+ */
+export function getFoggedGrid(grid: Record<string, Hex>, visible: Set<string>): Record<string, Hex> {
+    return new Proxy(grid, {
+        get: (target, key) => {
+            if (typeof key !== 'string' || !Object.prototype.hasOwnProperty.call(target, key)) return Reflect.get(target, key);
+            return visible.has(key) ? target[key] : fogHex(target[key]);
+        },
+        set: () => false,
+        deleteProperty: () => false,
+        defineProperty: () => false
+    });
+}
+
+/** The coordinates (typically unit positions) that lie inside `visible`. */
+export function filterVisible<T extends HexCoord>(coords: T[], visible: Set<string>): T[] {
+    return coords.filter(c => visible.has(getHexKey(c.q, c.r)));
+}
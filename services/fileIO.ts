@@ -0,0 +1,25 @@
+
+/**
+ * Browser helpers for exporting/importing JSON documents (replays, level files).
+ */
+
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const readJsonFile = async (file: File): Promise<unknown> => {
+  const text = await file.text();
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+};
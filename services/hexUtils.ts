@@ -1,6 +1,7 @@
 
 import { Hex, HexCoord } from '../types';
 import { GAME_CONFIG, getLevelConfig, SAFETY_CONFIG } from '../rules/config';
+import { isBlockedByStructure } from '../rules/structures';
 
 export const getHexKey = (q: number, r: number): string => `${q},${r}`;
 export const getCoordinatesFromKey = (key: string): HexCoord => {
@@ -103,7 +104,7 @@ export const getSecondsToGrow = (level: number) => getLevelConfig(level).growthT
 /**
  * Min-Heap Priority Queue implementation for O(log n) retrievals
  */
-class PriorityQueue<T> {
+export class PriorityQueue<T> {
   private _heap: { node: T; weight: number }[] = [];
 
   get length(): number {
@@ -174,6 +175,13 @@ class PriorityQueue<T> {
   }
 }
 
+export interface PathOptions {
+  /** Entity walking the path. Barriers it owns are passable; without it every barrier blocks. */
+  moverId?: string;
+  /** Hex keys the mover refuses to enter (e.g. known traps) */
+  avoid?: Set<string>;
+}
+
 /**
  * Optimized A* Pathfinding using Min-Heap
  */
@@ -182,7 +190,8 @@ export const findPath = (
   end: HexCoord, 
   grid: Record<string, Hex>, 
   rank: number, 
-  obstacles: HexCoord[]
+  obstacles: HexCoord[],
+  options: PathOptions = {}
 ): HexCoord[] | null => {
   const startKey = getHexKey(start.q, start.r);
   const endKey = getHexKey(end.q, end.r);
@@ -193,6 +202,7 @@ export const findPath = (
   // DESTINATION VALIDITY CHECK
   const endHex = grid[endKey];
   if (endHex && endHex.structureType === 'VOID') return null; // Cannot move into a hole
+  if (isBlockedByStructure(endHex, options.moverId)) return null; // Rival wall
 
   // Quick pre-check distance to avoid searching impossible paths
   if (cubeDistance(start, end) > SAFETY_CONFIG.MAX_PATH_LENGTH) return null;
@@ -254,6 +264,12 @@ export const findPath = (
       // 0. Void Check: Cannot enter a destroyed hex
       if (neighborHex && neighborHex.structureType === 'VOID') continue;
 
+      // 0b. Barrier Check: Only the owner walks through its walls
+      if (isBlockedByStructure(neighborHex, options.moverId)) continue;
+
+      // 0c. Avoided hexes (hazards the mover knows about)
+      if (options.avoid?.has(nKey)) continue;
+
       // 1. Rank Check: Cannot enter hex higher than player rank
       if (neighborHex && neighborHex.maxLevel > rank) continue; 
       
@@ -38,6 +38,34 @@ interface Dictionary {
         BTN_CANCEL: string;
         LOGOUT_CONFIRM: string;
         ABANDON_CONFIRM: string;
+        REPLAY: string;
+        REPLAY_SUB: string;
+        LOAD_GAME: string;
+        LOAD_GAME_SUB: string;
+        LOAD_TITLE: string;
+        LOAD_EMPTY: string;
+        BTN_LOAD: string;
+        DELETE_SAVE_CONFIRM: string;
+        RIVAL_STRATEGY: string;
+        CAPITAL_MODE: string;
+        CAPITAL_MODE_ON: string;
+        CAPITAL_MODE_OFF: string;
+        EDITOR: string;
+        EDITOR_SUB: string;
+        TURN_MODE: string;
+        TURN_MODE_ON: string;
+        TURN_MODE_OFF: string;
+        HOT_SEAT: string;
+        SEAT: string;
+        ONLINE: string;
+        ONLINE_SERVER: string;
+        ONLINE_HOST: string;
+        ONLINE_ROOM: string;
+        ONLINE_JOIN: string;
+        ONLINE_CONNECTING: string;
+        OBSERVE: string;
+        ONLINE_WATCH: string;
+        PREPARING_LEVEL: string;
     };
     HUD: {
         RANK: string;
@@ -118,6 +146,38 @@ interface Dictionary {
         TUT_1_6_INTRO_TITLE: string;
         TUT_1_6_INTRO_DESC: string;
         TUT_1_6_CYCLE_HINT: string;
+        BTN_DOWNLOAD_REPLAY: string;
+        BTN_SAVE_GAME: string;
+        SAVE_PROMPT: string;
+        BTN_BUILD_MINE: string;
+        BTN_BUILD_BARRIER: string;
+        BTN_FOUND_CAPITAL: string;
+        BTN_ARM_TRAP: string;
+        BTN_ATTACK: string;
+        TURN: string;
+        ACTIONS_LEFT: string;
+        END_TURN: string;
+        TURN_RESOLVING: string;
+        HANDOVER_TITLE: string;
+        HANDOVER_DESC: string;
+        HANDOVER_READY: string;
+        ROOM: string;
+        NET_ONLINE: string;
+        NET_RECONNECTING: string;
+        NET_OFFLINE: string;
+        WAITING_FOR: string;
+        WAITING_HOST: string;
+        OBSERVING: string;
+        FREE_CAMERA: string;
+        BOT_ACTIVITY: string;
+        GOAL: string;
+        MATCH_OVER: string;
+        BTN_BOT_DEBUG: string;
+        BOT_DEBUG: string;
+        DEBUG_STUCK: string;
+        DEBUG_PANIC: string;
+        DEBUG_OSCILLATING: string;
+        DEBUG_TIMELINE: string;
     };
     TOOLTIP: {
         CURRENT_LOC: string;
@@ -159,6 +219,67 @@ interface Dictionary {
         HEADER_RANK: string;
         EMPTY: string;
     }
+    REPLAY: {
+        TITLE: string;
+        SPEED: string;
+        TICK: string;
+        BTN_EXIT: string;
+    }
+    STRATEGIES: {
+        nomad: string;
+        farmer: string;
+        expander: string;
+        blocker: string;
+        builder: string;
+        planner: string;
+    }
+    EDITOR: {
+        TITLE: string;
+        HINT: string;
+        TOOLS: string;
+        TOOL_PAINT: string;
+        TOOL_ERASE: string;
+        TOOL_PLAYER_SPAWN: string;
+        TOOL_BOT_SPAWN: string;
+        LEVEL: string;
+        STRUCTURE: string;
+        STRUCTURE_NONE: string;
+        OWNER: string;
+        OWNER_NONE: string;
+        OWNER_PLAYER: string;
+        DURABILITY: string;
+        SECTION_LEVEL: string;
+        LEVEL_ID: string;
+        LEVEL_TITLE: string;
+        DESCRIPTION: string;
+        MAP_SIZE: string;
+        AI_MODE: string;
+        SECTION_START: string;
+        CREDITS: string;
+        MOVES: string;
+        RANK: string;
+        OBJECTIVES: string;
+        OBJ_OWN_HEXES: string;
+        OBJ_REACH_HEX: string;
+        OBJ_STAND_ON: string;
+        OBJ_COINS: string;
+        OBJ_CUSTOM: string;
+        ADD_OBJECTIVE: string;
+        TIME_LIMIT: string;
+        RESTRICTIONS_KEPT: string;
+        ISSUES: string;
+        BTN_PLAYTEST: string;
+        BTN_EXPORT: string;
+        BTN_IMPORT: string;
+        BTN_NEW: string;
+        BTN_EXIT: string;
+        NEW_CONFIRM: string;
+    }
+    AGGRESSION: {
+        PASSIVE: string;
+        RIVAL: string;
+        HOSTILE: string;
+    }
 }
 
 export const TEXT: Record<Language, Dictionary> = {
@@ -198,7 +319,35 @@ export const TEXT: Record<Language, Dictionary> = {
             BTN_START: "Initialize Mission",
             BTN_CANCEL: "Cancel",
             LOGOUT_CONFIRM: "Logging out will end your current session. All progress is saved to your profile.",
-            ABANDON_CONFIRM: "Are you sure you want to end this session? The map will be closed."
+            ABANDON_CONFIRM: "Are you sure you want to end this session? The map will be closed.",
+            REPLAY: "Load Replay",
+            REPLAY_SUB: "Review a recorded match",
+            LOAD_GAME: "Load Game",
+            LOAD_GAME_SUB: "Continue a saved session",
+            LOAD_TITLE: "Saved Sessions",
+            LOAD_EMPTY: "No saved sessions",
+            BTN_LOAD: "Load",
+            DELETE_SAVE_CONFIRM: "Delete this save?",
+            RIVAL_STRATEGY: "Rival Personalities",
+            CAPITAL_MODE: "Capital Siege",
+            CAPITAL_MODE_ON: "On: lose your capital, lose the game",
+            CAPITAL_MODE_OFF: "Off",
+            EDITOR: "Level Editor",
+            EDITOR_SUB: "Design & Play-Test Maps",
+            TURN_MODE: "Turn-Based",
+            TURN_MODE_ON: "On: 3 actions per turn, then End Turn",
+            TURN_MODE_OFF: "Off: real time",
+            HOT_SEAT: "Human Players",
+            SEAT: "Player",
+            ONLINE: "Online (Server)",
+            ONLINE_SERVER: "Server address",
+            ONLINE_HOST: "Host Room",
+            ONLINE_ROOM: "CODE",
+            ONLINE_JOIN: "Join",
+            ONLINE_CONNECTING: "Connecting...",
+            OBSERVE: "Watch the bots play",
+            ONLINE_WATCH: "Watch",
+            PREPARING_LEVEL: "Charting a winnable sector..."
         },
         HUD: {
             RANK: "Rank",
@@ -271,6 +420,38 @@ export const TEXT: Record<Language, Dictionary> = {
             TUT_1_6_INTRO_TITLE: "Protocol: Cycle Lock",
             TUT_1_6_INTRO_DESC: "Objective: Upgrade 1 hex to Level 3.\n\nCONSTRAINT: Queue Size = 1.\n\nPROBLEM: You cannot upgrade the same sector twice in a row.\n\nSOLUTION: Alternate upgrades between two different sectors (Pattern A -> B -> A) to clear the Cycle Queue.",
             TUT_1_6_CYCLE_HINT: "Cycle Locked! Upgrade another hex first.",
+            BTN_DOWNLOAD_REPLAY: "Save Replay",
+            BTN_SAVE_GAME: "Save Game",
+            SAVE_PROMPT: "Name this save:",
+            BTN_BUILD_MINE: "Build Mine (50 Credits)",
+            BTN_BUILD_BARRIER: "Build Barrier (20 Credits)",
+            BTN_FOUND_CAPITAL: "Found Capital (500 Credits)",
+            BTN_ARM_TRAP: "Arm Trap (15 Credits per potency)",
+            BTN_ATTACK: "Attack: click an adjacent rival sector (spends all tokens)",
+            TURN: "Turn",
+            ACTIONS_LEFT: "Actions",
+            END_TURN: "End Turn",
+            TURN_RESOLVING: "Resolving...",
+            HANDOVER_TITLE: "Pass the screen to {0}",
+            HANDOVER_DESC: "Other players, look away. Orders stay hidden until the turn resolves.",
+            HANDOVER_READY: "I'm Ready",
+            ROOM: "Room",
+            NET_ONLINE: "Online",
+            NET_RECONNECTING: "Reconnecting...",
+            NET_OFFLINE: "Offline",
+            WAITING_FOR: "Waiting for {0}",
+            WAITING_HOST: "Waiting for the host",
+            OBSERVING: "Observing",
+            FREE_CAMERA: "Free camera",
+            BOT_ACTIVITY: "Bot activity",
+            GOAL: "Goal",
+            MATCH_OVER: "Match over",
+            BTN_BOT_DEBUG: "Bot Debug",
+            BOT_DEBUG: "Bot Decisions",
+            DEBUG_STUCK: "STUCK",
+            DEBUG_PANIC: "PANIC",
+            DEBUG_OSCILLATING: "OSC",
+            DEBUG_TIMELINE: "Recent Decisions"
         },
         TOOLTIP: {
             CURRENT_LOC: "Current Location",
@@ -311,6 +492,67 @@ export const TEXT: Record<Language, Dictionary> = {
             HEADER_CREDITS: "Max Credits",
             HEADER_RANK: "Max Rank",
             EMPTY: "No records found."
+        },
+        REPLAY: {
+            TITLE: "Replay",
+            SPEED: "Speed",
+            TICK: "Tick",
+            BTN_EXIT: "Exit Replay"
+        },
+        STRATEGIES: {
+            nomad: "Nomad Architect",
+            farmer: "Greedy Farmer",
+            expander: "Territorial Expander",
+            blocker: "Aggressive Blocker",
+            builder: "Cautious Builder",
+            planner: "Deep Planner"
+        },
+        EDITOR: {
+            TITLE: "Level Editor",
+            HINT: "Click sectors to paint. Dashed slots are outside the map.",
+            TOOLS: "Tool",
+            TOOL_PAINT: "Paint",
+            TOOL_ERASE: "Erase",
+            TOOL_PLAYER_SPAWN: "Player Start",
+            TOOL_BOT_SPAWN: "Bot Start",
+            LEVEL: "Level",
+            STRUCTURE: "Structure",
+            STRUCTURE_NONE: "None",
+            OWNER: "Owner",
+            OWNER_NONE: "Neutral",
+            OWNER_PLAYER: "Player",
+            DURABILITY: "L1 Durability",
+            SECTION_LEVEL: "Level File",
+            LEVEL_ID: "ID",
+            LEVEL_TITLE: "Title",
+            DESCRIPTION: "Briefing",
+            MAP_SIZE: "Map Radius",
+            AI_MODE: "Rivals",
+            SECTION_START: "Start Resources",
+            CREDITS: "Credits",
+            MOVES: "Moves",
+            RANK: "Rank",
+            OBJECTIVES: "Objectives (all must hold)",
+            OBJ_OWN_HEXES: "Own {0} sectors at L{1}+",
+            OBJ_REACH_HEX: "Reach sector {0}",
+            OBJ_STAND_ON: "Stand on a {0}",
+            OBJ_COINS: "Hold {0}+ credits",
+            OBJ_CUSTOM: "Custom condition ({0})",
+            ADD_OBJECTIVE: "Add",
+            TIME_LIMIT: "Time Limit (s, 0 = none)",
+            RESTRICTIONS_KEPT: "{0} action restriction(s) kept from the imported file",
+            ISSUES: "Fix before export",
+            BTN_PLAYTEST: "Play-Test",
+            BTN_EXPORT: "Export",
+            BTN_IMPORT: "Import",
+            BTN_NEW: "New",
+            BTN_EXIT: "Exit Editor",
+            NEW_CONFIRM: "Discard this level and start a blank one?"
+        },
+        AGGRESSION: {
+            PASSIVE: "Passive",
+            RIVAL: "Rival",
+            HOSTILE: "Hostile"
         }
     },
     RU: {
@@ -349,7 +591,35 @@ export const TEXT: Record<Language, Dictionary> = {
             BTN_START: "Начать Миссию",
             BTN_CANCEL: "Отмена",
             LOGOUT_CONFIRM: "Выход завершит текущую сессию. Прогресс сохранен в профиле.",
-            ABANDON_CONFIRM: "Вы уверены, что хотите завершить сессию? Карта будет закрыта."
+            ABANDON_CONFIRM: "Вы уверены, что хотите завершить сессию? Карта будет закрыта.",
+            REPLAY: "Загрузить Повтор",
+            REPLAY_SUB: "Просмотр записанного матча",
+            LOAD_GAME: "Загрузить игру",
+            LOAD_GAME_SUB: "Продолжить сохранённую сессию",
+            LOAD_TITLE: "Сохранения",
+            LOAD_EMPTY: "Нет сохранений",
+            BTN_LOAD: "Загрузить",
+            DELETE_SAVE_CONFIRM: "Удалить это сохранение?",
+            RIVAL_STRATEGY: "Характеры соперников",
+            CAPITAL_MODE: "Осада столиц",
+            CAPITAL_MODE_ON: "Вкл: потеря столицы — поражение",
+            CAPITAL_MODE_OFF: "Выкл",
+            EDITOR: "Редактор уровней",
+            EDITOR_SUB: "Создание и тест карт",
+            TURN_MODE: "Пошаговый режим",
+            TURN_MODE_ON: "Вкл: 3 действия за ход, затем «Конец хода»",
+            TURN_MODE_OFF: "Выкл: реальное время",
+            HOT_SEAT: "Игроки-люди",
+            SEAT: "Игрок",
+            ONLINE: "Онлайн (сервер)",
+            ONLINE_SERVER: "Адрес сервера",
+            ONLINE_HOST: "Создать комнату",
+            ONLINE_ROOM: "КОД",
+            ONLINE_JOIN: "Войти",
+            ONLINE_CONNECTING: "Подключение...",
+            OBSERVE: "Смотреть игру ботов",
+            ONLINE_WATCH: "Смотреть",
+            PREPARING_LEVEL: "Прокладка проходимого сектора..."
         },
         HUD: {
             RANK: "Ранг",
@@ -422,6 +692,38 @@ export const TEXT: Record<Language, Dictionary> = {
             TUT_1_6_INTRO_TITLE: "Протокол: Блокировка Цикла",
             TUT_1_6_INTRO_DESC: "Цель: Улучшить 1 гекс до 3 Уровня.\n\nОГРАНИЧЕНИЕ: Очередь Цикла = 1.\n\nПРОБЛЕМА: Вы не можете улучшать один и тот же сектор дважды подряд.\n\nРЕШЕНИЕ: Чередуйте улучшения между двумя разными секторами (Схема А -> Б -> А), чтобы очистить очередь.",
             TUT_1_6_CYCLE_HINT: "Цикл Заблокирован! Улучши другой гекс.",
+            BTN_DOWNLOAD_REPLAY: "Сохранить Повтор",
+            BTN_SAVE_GAME: "Сохранить игру",
+            SAVE_PROMPT: "Название сохранения:",
+            BTN_BUILD_MINE: "Построить шахту (50 кредитов)",
+            BTN_BUILD_BARRIER: "Построить барьер (20 кредитов)",
+            BTN_FOUND_CAPITAL: "Основать столицу (500 кредитов)",
+            BTN_ARM_TRAP: "Установить ловушку (15 кредитов за уровень)",
+            BTN_ATTACK: "Атака: нажмите на соседний сектор соперника (тратит все жетоны)",
+            TURN: "Ход",
+            ACTIONS_LEFT: "Действия",
+            END_TURN: "Конец хода",
+            TURN_RESOLVING: "Ход идёт...",
+            HANDOVER_TITLE: "Передайте экран: {0}",
+            HANDOVER_DESC: "Остальные игроки, отвернитесь. Приказы скрыты до розыгрыша хода.",
+            HANDOVER_READY: "Я готов",
+            ROOM: "Комната",
+            NET_ONLINE: "В сети",
+            NET_RECONNECTING: "Переподключение...",
+            NET_OFFLINE: "Нет связи",
+            WAITING_FOR: "Ждём: {0}",
+            WAITING_HOST: "Ждём хоста",
+            OBSERVING: "Наблюдение",
+            FREE_CAMERA: "Свободная камера",
+            BOT_ACTIVITY: "Действия ботов",
+            GOAL: "Цель",
+            MATCH_OVER: "Матч окончен",
+            BTN_BOT_DEBUG: "Отладка ботов",
+            BOT_DEBUG: "Решения ботов",
+            DEBUG_STUCK: "ЗАСТРЯЛ",
+            DEBUG_PANIC: "ПАНИКА",
+            DEBUG_OSCILLATING: "КОЛЕБ.",
+            DEBUG_TIMELINE: "Последние решения"
         },
         TOOLTIP: {
             CURRENT_LOC: "Текущая позиция",
@@ -462,6 +764,67 @@ export const TEXT: Record<Language, Dictionary> = {
             HEADER_CREDITS: "Макс Кредиты",
             HEADER_RANK: "Макс Ранг",
             EMPTY: "Нет записей."
+        },
+        REPLAY: {
+            TITLE: "Повтор",
+            SPEED: "Скорость",
+            TICK: "Такт",
+            BTN_EXIT: "Выйти"
+        },
+        STRATEGIES: {
+            nomad: "Архитектор-кочевник",
+            farmer: "Жадный фермер",
+            expander: "Захватчик территорий",
+            blocker: "Агрессивный блокировщик",
+            builder: "Осторожный строитель",
+            planner: "Стратег"
+        },
+        EDITOR: {
+            TITLE: "Редактор уровней",
+            HINT: "Кликайте по секторам, чтобы рисовать. Пунктир — вне карты.",
+            TOOLS: "Инструмент",
+            TOOL_PAINT: "Кисть",
+            TOOL_ERASE: "Ластик",
+            TOOL_PLAYER_SPAWN: "Старт игрока",
+            TOOL_BOT_SPAWN: "Старт бота",
+            LEVEL: "Уровень",
+            STRUCTURE: "Постройка",
+            STRUCTURE_NONE: "Нет",
+            OWNER: "Владелец",
+            OWNER_NONE: "Нейтральный",
+            OWNER_PLAYER: "Игрок",
+            DURABILITY: "Прочность L1",
+            SECTION_LEVEL: "Файл уровня",
+            LEVEL_ID: "ID",
+            LEVEL_TITLE: "Название",
+            DESCRIPTION: "Брифинг",
+            MAP_SIZE: "Радиус карты",
+            AI_MODE: "Соперники",
+            SECTION_START: "Стартовые ресурсы",
+            CREDITS: "Кредиты",
+            MOVES: "Ходы",
+            RANK: "Ранг",
+            OBJECTIVES: "Цели (все сразу)",
+            OBJ_OWN_HEXES: "Владеть {0} секторами L{1}+",
+            OBJ_REACH_HEX: "Достичь сектора {0}",
+            OBJ_STAND_ON: "Встать на {0}",
+            OBJ_COINS: "Накопить {0}+ кредитов",
+            OBJ_CUSTOM: "Особое условие ({0})",
+            ADD_OBJECTIVE: "Добавить",
+            TIME_LIMIT: "Лимит времени (с, 0 — нет)",
+            RESTRICTIONS_KEPT: "Сохранено ограничений из файла: {0}",
+            ISSUES: "Исправьте перед экспортом",
+            BTN_PLAYTEST: "Тест",
+            BTN_EXPORT: "Экспорт",
+            BTN_IMPORT: "Импорт",
+            BTN_NEW: "Новый",
+            BTN_EXIT: "Выйти",
+            NEW_CONFIRM: "Удалить уровень и начать новый?"
+        },
+        AGGRESSION: {
+            PASSIVE: "Мирный",
+            RIVAL: "Соперник",
+            HOSTILE: "Враждебный"
         }
     }
 };
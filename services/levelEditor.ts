@@ -0,0 +1,120 @@
+import { Hex, Language, SessionState } from '../types';
+import { LevelDefinition } from '../campaign/types';
+import { GAME_CONFIG } from '../rules/config';
+import { cubeDistance } from './hexUtils';
+import { createInitialSessionData } from './sessionFactory';
+
+/**
+ * Level editor model. A draft is a plain LevelDefinition on a fixed `customLayout`,
+ * so it exports as a level file as-is and plays through campaign/scenario.loadLevel.
+ * Brushes edit the draft immutably; the store keeps the draft and rebuilds the preview.
+ */
+
+export type EditorTool = 'PAINT' | 'ERASE' | 'PLAYER_SPAWN' | 'BOT_SPAWN';
+
+export interface EditorBrush {
+  tool: EditorTool;
+  level: number;
+  structureType: NonNullable<Hex['structureType']>; // 'NONE' = plain sector
+  ownerId: string | null;                           // null = neutral
+  durability: number;                               // L1 sectors only
+}
+
+export interface LevelEditorState {
+  definition: LevelDefinition;
+  brush: EditorBrush;
+  issues: string[]; // Schema problems found by the last import, export or play-test
+}
+
+export const DEFAULT_BRUSH: EditorBrush = {
+  tool: 'PAINT',
+  level: 1,
+  structureType: 'NONE',
+  ownerId: null,
+  durability: GAME_CONFIG.L1_HEX_MAX_DURABILITY
+};
+
+// The preview is a regular session, so it needs a seed; any fixed one keeps its id (and the camera) stable
+const PREVIEW_SEED = 1;
+
+type Coord = { q: number; r: number };
+
+const isAt = (c: Coord | undefined, q: number, r: number) => !!c && c.q === q && c.r === r;
+
+/** A flat disc of L0 sectors around the player's start, with one objective to edit. */
+export const createBlankLevel = (radius: number = 2): LevelDefinition => {
+  const customLayout: Partial<Hex>[] = [];
+  for (let q = -radius; q <= radius; q++) {
+    for (let r = -radius; r <= radius; r++) {
+      if (cubeDistance({ q, r }, { q: 0, r: 0 }) <= radius) customLayout.push({ q, r, currentLevel: 0, maxLevel: 0, revealed: true });
+    }
+  }
+  return {
+    id: 'custom',
+    title: 'Custom Level',
+    description: 'Designed in the level editor.',
+    mapConfig: { size: radius + 2, type: 'fixed', customLayout, playerSpawn: { q: 0, r: 0 }, botSpawns: [] },
+    startState: { credits: 500, moves: 10, rank: 1 },
+    aiMode: 'none',
+    objectives: [{ type: 'OWN_HEXES', count: 4 }]
+  };
+};
+
+const paintCell = (q: number, r: number, brush: EditorBrush): Partial<Hex> => {
+  // The void has no height and no owner
+  if (brush.structureType === 'VOID') return { q, r, structureType: 'VOID', revealed: true };
+
+  const cell: Partial<Hex> = { q, r, currentLevel: brush.level, maxLevel: brush.level, revealed: true };
+  if (brush.structureType !== 'NONE') cell.structureType = brush.structureType;
+  if (brush.ownerId) cell.ownerId = brush.ownerId;
+  if (brush.level === 1) cell.durability = brush.durability;
+  return cell;
+};
+
+/**
+ * Applies the brush to sector (q, r). Returns the same definition when the stroke is not allowed:
+ * spawns need a solid sector, and the player's start can be neither erased nor voided.
+ */
+export const paintHex = (definition: LevelDefinition, q: number, r: number, brush: EditorBrush): LevelDefinition => {
+  const { mapConfig } = definition;
+  const layout = mapConfig.customLayout || [];
+  const botSpawns = mapConfig.botSpawns || [];
+  const existing = layout.find(h => isAt(h as Coord, q, r));
+  const isSolid = !!existing && existing.structureType !== 'VOID';
+  const isPlayerStart = isAt(mapConfig.playerSpawn || { q: 0, r: 0 }, q, r);
+  const withoutBot = botSpawns.filter(b => !isAt(b, q, r));
+
+  switch (brush.tool) {
+    case 'PAINT': {
+      const cell = paintCell(q, r, brush);
+      const isVoid = cell.structureType === 'VOID';
+      if (isVoid && isPlayerStart) return definition;
+      const customLayout = existing ? layout.map(h => (h === existing ? cell : h)) : [...layout, cell];
+      return { ...definition, mapConfig: { ...mapConfig, customLayout, botSpawns: isVoid ? withoutBot : botSpawns } };
+    }
+    case 'ERASE': {
+      if (!existing || isPlayerStart) return definition;
+      return { ...definition, mapConfig: { ...mapConfig, customLayout: layout.filter(h => h !== existing), botSpawns: withoutBot } };
+    }
+    case 'PLAYER_SPAWN': {
+      if (!isSolid || isPlayerStart) return definition;
+      return { ...definition, mapConfig: { ...mapConfig, playerSpawn: { q, r }, botSpawns: withoutBot } };
+    }
+    case 'BOT_SPAWN': {
+      if (!isSolid || isPlayerStart) return definition;
+      // Toggle; placing a bot in a level without AI switches the rivals on
+      if (withoutBot.length < botSpawns.length) return { ...definition, mapConfig: { ...mapConfig, botSpawns: withoutBot } };
+      return {
+        ...definition,
+        aiMode: definition.aiMode === 'none' ? 'basic' : definition.aiMode,
+        mapConfig: { ...mapConfig, botSpawns: [...botSpawns, { q, r }] }
+      };
+    }
+  }
+};
+
+/** The draft as a (frozen) session for the GameView canvas. Objectives are not compiled, so drafts may be incomplete. */
+export const createPreviewSession = (definition: LevelDefinition, language: Language): SessionState => {
+  const { objectives, lossConditions, restrictions, ...config } = definition;
+  return createInitialSessionData(null, { ...config, hooks: {} }, language, PREVIEW_SEED);
+};
@@ -1,10 +1,20 @@
 
-import { Hex } from '../types';
+import { Hex, WorldState } from '../types';
 import { LevelConfig } from '../campaign/types';
-import { getHexKey, getNeighbors } from './hexUtils';
+import { getHexKey, getNeighbors, cubeDistance } from './hexUtils';
 import { GAME_CONFIG } from '../rules/config';
-
-export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
+import { SeededRandom } from '../engine/SeededRandom';
+import { generateChunk, getChunkKey, getChunksInRadius } from './worldGenerator';
+
+// Skirmish: hexes revealed around the origin at the start
+const SKIRMISH_START_RADIUS = 2;
+
+/**
+ * Builds the initial grid. Skirmish sessions with a `world` get the procedural world:
+ * the chunks around the start are generated here (and recorded on `world`), the rest streams in
+ * through WorldIndex.loadChunksAround as entities explore.
+ */
+export const generateMap = (levelConfig: LevelConfig | undefined, rng: SeededRandom, world?: WorldState): Record<string, Hex> => {
   const initialGrid: Record<string, Hex> = {};
   
   if (levelConfig && levelConfig.mapConfig.customLayout) {
@@ -25,7 +35,7 @@ export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
               durability: hexDef.durability
           };
       });
-  } else if (levelConfig && levelConfig.id === '1.2') {
+  } else if (levelConfig && levelConfig.mapConfig.generator === 'pyramid_run') {
       // --- LEVEL 1.2: PYRAMID RUN (DYNAMIC RANDOM PATH) ---
       
       const walkableCoords = new Map<string, { q: number, r: number, isSafe: boolean, type?: string }>();
@@ -56,7 +66,7 @@ export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
 
           // Randomly pick a direction to create a winding path
           // Since 2/4 moves are "Up" and 2/4 are "Side", it will naturally zig-zag upwards
-          const next = validCandidates[Math.floor(Math.random() * validCandidates.length)];
+          const next = rng.pick(validCandidates);
           
           walkableCoords.set(getHexKey(next.q, next.r), { q: next.q, r: next.r, isSafe: true });
           pathSteps.push(next);
@@ -69,7 +79,7 @@ export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
           getNeighbors(p.q, p.r).forEach(n => {
               const k = getHexKey(n.q, n.r);
               // 60% chance to spawn debris on the side to make the path look organic but hazardous
-              if (!walkableCoords.has(k) && Math.random() > 0.4) {
+              if (!walkableCoords.has(k) && rng.next() > 0.4) {
                   walkableCoords.set(k, { q: n.q, r: n.r, isSafe: false });
               }
           });
@@ -137,10 +147,19 @@ export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
           };
       });
 
+  } else if (!levelConfig && world) {
+      // --- PROCEDURAL WORLD (Skirmish) ---
+      const chunks = getChunksInRadius({ q: 0, r: 0 }, Math.max(SKIRMISH_START_RADIUS, GAME_CONFIG.WORLD.loadRadius));
+      chunks.forEach(chunk => {
+          generateChunk(world.seed, chunk).forEach(hex => {
+              const revealed = cubeDistance(hex, { q: 0, r: 0 }) <= SKIRMISH_START_RADIUS;
+              initialGrid[hex.id] = revealed ? { ...hex, revealed } : hex;
+          });
+      });
+      world.loadedChunks = chunks.map(getChunkKey);
   } else {
-      // --- STANDARD RADIAL GENERATION (Skirmish / Default) ---
-      // For Skirmish (no levelConfig), we use a small radius (2) and NO walls
-      // to simulate an infinite procedural world that expands as you move.
+      // --- STANDARD RADIAL GENERATION (Campaign / Default) ---
+      // Without levelConfig or world: a flat radius-2 disc with NO walls, grown by exploration.
       const mapRadius = levelConfig ? levelConfig.mapConfig.size : 2; 
       const shouldGenerateWalls = levelConfig ? levelConfig.mapConfig.generateWalls : false; 
       const wallStartRadius = levelConfig?.mapConfig.wallStartRadius ?? mapRadius;
@@ -216,10 +235,11 @@ export const generateMap = (levelConfig?: LevelConfig): Record<string, Hex> => {
       }
   }
 
-  // Ensure center exists if not created (Fallback)
-  if (!initialGrid[getHexKey(0,0)]) {
-      initialGrid[getHexKey(0,0)] = { 
-          id: getHexKey(0,0), q:0, r:0, 
+  // Ensure the player's start exists if not created (Fallback)
+  const start = levelConfig?.mapConfig.playerSpawn || { q: 0, r: 0 };
+  if (!initialGrid[getHexKey(start.q, start.r)]) {
+      initialGrid[getHexKey(start.q, start.r)] = { 
+          id: getHexKey(start.q, start.r), q: start.q, r: start.r, 
           currentLevel: 0, maxLevel: 0, progress: 0, revealed: true 
       };
   }
@@ -0,0 +1,127 @@
+import { SessionState } from '../types';
+import { SerializedSession, serializeSession, deserializeSession } from './sessionSnapshot';
+
+const SAVE_INDEX_KEY = 'hexquest_saves_v1';
+const SAVE_SLOT_PREFIX = 'hexquest_save_';
+
+export const SAVE_SCHEMA_VERSION = 1;
+
+/** Lightweight description of a slot, kept in the index so the list renders without parsing every save. */
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  savedAt: number; // Wall-clock date of the save (metadata only)
+  label: string;
+  levelId: string | null;
+  tick: number;
+  playerLevel: number;
+  coins: number;
+}
+
+export interface SaveFile {
+  schemaVersion: number;
+  meta: SaveSlotMeta;
+  session: SerializedSession;
+}
+
+/** A save as read from storage: nothing about its shape is known until a migration or restore checks it. */
+export type SaveData = Record<string, unknown>;
+
+export const isSaveData = (value: unknown): value is SaveData => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * MIGRATIONS: SAVE_MIGRATIONS[n] upgrades a save from schema n to n + 1.
+ * When SessionState changes shape, bump SAVE_SCHEMA_VERSION and add the step here
+ * instead of invalidating existing slots. Each step narrows the fields it touches (see isSaveData).
+ */
+export const SAVE_MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {};
+
+export const createSaveFile = (id: string, name: string, state: SessionState): SaveFile => {
+  const session = serializeSession(state);
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    meta: {
+      id,
+      name,
+      savedAt: Date.now(),
+      label: state.winCondition?.label || '',
+      levelId: session.levelId,
+      tick: state.tick,
+      playerLevel: state.player.playerLevel,
+      coins: state.player.coins
+    },
+    session
+  };
+};
+
+/**
+ * Brings untrusted save data up to the current schema and rehydrates the session.
+ * Throws with a readable message if the save cannot be restored.
+ */
+export const restoreSaveFile = (data: unknown): SessionState => {
+  if (!isSaveData(data) || typeof data.schemaVersion !== 'number') {
+    throw new Error('Save data is corrupted');
+  }
+  let version = data.schemaVersion;
+  if (version > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save was created by a newer version (schema ${version})`);
+  }
+
+  let save = data;
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migrate = SAVE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from save schema ${version}`);
+    }
+    version++;
+    save = { ...migrate(save), schemaVersion: version };
+  }
+
+  const { session } = save;
+  if (!isSaveData(session) || !session.grid || !session.player) {
+    throw new Error('Save data is corrupted');
+  }
+  return deserializeSession(session as unknown as SerializedSession);
+};
+
+// --- LOCAL STORAGE SLOTS ---
+
+export const loadSaveIndex = (): SaveSlotMeta[] => {
+  try {
+    const stored = localStorage.getItem(SAVE_INDEX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load save index", e);
+    return [];
+  }
+};
+
+const writeSaveIndex = (entries: SaveSlotMeta[]) => {
+  localStorage.setItem(SAVE_INDEX_KEY, JSON.stringify(entries));
+};
+
+/** Writes the session to a new slot and returns the updated index (newest first). */
+export const writeSave = (name: string, state: SessionState): SaveSlotMeta[] => {
+  const id = `${Date.now().toString(36)}-${state.sessionId}`;
+  const save = createSaveFile(id, name, state);
+  localStorage.setItem(SAVE_SLOT_PREFIX + id, JSON.stringify(save));
+
+  const index = [save.meta, ...loadSaveIndex()];
+  writeSaveIndex(index);
+  return index;
+};
+
+export const readSave = (id: string): SessionState => {
+  const stored = localStorage.getItem(SAVE_SLOT_PREFIX + id);
+  if (!stored) {
+    throw new Error('Save slot is empty');
+  }
+  return restoreSaveFile(JSON.parse(stored));
+};
+
+export const removeSave = (id: string): SaveSlotMeta[] => {
+  localStorage.removeItem(SAVE_SLOT_PREFIX + id);
+  const index = loadSaveIndex().filter(s => s.id !== id);
+  writeSaveIndex(index);
+  return index;
+};
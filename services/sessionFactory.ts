@@ -0,0 +1,145 @@
+import { Entity, EntityType, EntityState, WinCondition, SessionState, LogEntry, Language, Hex, HexCoord } from '../types';
+import { LevelConfig } from '../campaign/types';
+import { getHexKey, getNeighbors } from './hexUtils';
+import { generateMap } from './mapGenerator';
+import { createWorldState } from './worldGenerator';
+import { SeededRandom } from '../engine/SeededRandom';
+import { DEFAULT_BOT_STRATEGY } from '../bot/strategies';
+import { startTurn } from '../rules/turns';
+
+const BOT_PALETTE = ['#ef4444', '#f97316', '#a855f7', '#ec4899']; 
+
+// Hot-seat: seats 2-4 start on the rim of the flat start area (WORLD.safeRadius), seat 1 at the origin
+const SEAT_SPAWNS = [{ q: 3, r: -3 }, { q: -3, r: 3 }, { q: 3, r: 0 }];
+export const MAX_SEATS = SEAT_SPAWNS.length + 1;
+
+// Spawns must stand on land: a missing sector is added along with its neighbors
+const ensureSpawnHex = (grid: Record<string, Hex>, sp: HexCoord) => {
+  if (grid[getHexKey(sp.q, sp.r)]) return;
+  grid[getHexKey(sp.q, sp.r)] = { id: getHexKey(sp.q, sp.r), q: sp.q, r: sp.r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true };
+  getNeighbors(sp.q, sp.r).forEach(n => {
+    const k = getHexKey(n.q, n.r);
+    if (!grid[k]) grid[k] = { id: k, q: n.q, r: n.r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: true };
+  });
+};
+
+/**
+ * The WinCondition campaign sessions run under. Levels win through their scenario hooks,
+ * so it only carries the growth rules: MEDIUM (queue of 2), or EASY (queue of 1) for the
+ * single-point drill of Level 1.6.
+ */
+export const createLevelWinCondition = (levelConfig: LevelConfig): WinCondition => {
+  const isSinglePoint = levelConfig.id === '1.6';
+  return {
+    levelId: -1,
+    targetLevel: 99,
+    targetCoins: 9999,
+    label: levelConfig.title,
+    botCount: 0,
+    difficulty: isSinglePoint ? 'EASY' : 'MEDIUM',
+    queueSize: isSinglePoint ? 1 : 2,
+    winType: 'AND'
+  };
+};
+
+/**
+ * Builds a fresh SessionState. Shared by the store and the headless simulation
+ * runner so UI games and batch matches start from identical states.
+ */
+export const createInitialSessionData = (winCondition: WinCondition | null, levelConfig?: LevelConfig, language: Language = 'EN', seed: number = SeededRandom.randomSeed()): SessionState => {
+  // All session randomness (map, ids, AI) derives from the seed
+  const rng = new SeededRandom(seed);
+
+  // Map Generation Logic (Delegate to service)
+  // Skirmish plays on the procedural world, seeded from the session seed
+  const world = levelConfig ? undefined : createWorldState(seed);
+  const initialGrid = generateMap(levelConfig, rng, world);
+  
+  const botSpawns = levelConfig?.mapConfig.botSpawns;
+  const botCount = levelConfig ? (levelConfig.aiMode === 'none' ? 0 : (botSpawns?.length || 1)) : (winCondition?.botCount || 0);
+  const playerSpawn = levelConfig?.mapConfig.playerSpawn || { q: 0, r: 0 };
+  
+  // Skirmish Defaults vs Level Config
+  // UPDATED: Start with 0 in Skirmish to force acquisition loop
+  const startCredits = levelConfig ? levelConfig.startState.credits : 0;
+  const startMoves = levelConfig ? levelConfig.startState.moves : 0;
+  const startRank = levelConfig ? levelConfig.startState.rank : 1;
+  
+  const bots: Entity[] = [];
+  // Spawn points at edge of radius 2, unless the level places its bots
+  const spawnPoints = botSpawns?.length ? botSpawns : [{ q: 0, r: -2 }, { q: 2, r: -2 }, { q: 2, r: 0 }, { q: 0, r: 2 }, { q: -2, r: 2 }, { q: -2, r: 0 }];
+
+  for (let i = 0; i < Math.min(botCount, spawnPoints.length); i++) {
+    const sp = spawnPoints[i];
+    ensureSpawnHex(initialGrid, sp);
+    bots.push({
+      id: `bot-${i+1}`, type: EntityType.BOT, state: EntityState.IDLE, q: sp.q, r: sp.r,
+      playerLevel: 0, coins: startCredits, moves: startMoves,
+      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
+      memory: { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 },
+      strategyId: winCondition?.botStrategies?.[i] || DEFAULT_BOT_STRATEGY,
+      aggression: winCondition?.botAggression?.[i],
+      avatarColor: BOT_PALETTE[i % BOT_PALETTE.length],
+      recoveredCurrentHex: false
+    });
+  }
+  
+  let initialText = levelConfig ? levelConfig.description : `Mission: Rank ${winCondition?.targetLevel} ${winCondition?.winType} ${winCondition?.targetCoins} Credits.`;
+
+  const initialLog: LogEntry = {
+    id: 'init-0',
+    text: initialText,
+    type: 'INFO',
+    source: 'SYSTEM',
+    timestamp: 0
+  };
+
+  // Hot-seat (skirmish only): seat 1 is the player, the others wait for the screen. Observed: nobody does
+  const isObserved = !levelConfig && !!winCondition?.observe;
+  const seats = levelConfig || isObserved ? [] : (winCondition?.hotSeat || []).slice(0, MAX_SEATS);
+  const humans: Entity[] = [playerSpawn, ...SEAT_SPAWNS].slice(0, Math.max(1, seats.length)).map((sp, i) => {
+    ensureSpawnHex(initialGrid, sp);
+    return {
+      id: `player-${i + 1}`, type: EntityType.PLAYER, state: EntityState.IDLE, q: sp.q, r: sp.r,
+      playerLevel: startRank, coins: startCredits, 
+      moves: startMoves,
+      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
+      recoveredCurrentHex: false,
+      ...(seats[i] && { nickname: seats[i].nickname, avatarColor: seats[i].avatarColor, avatarIcon: seats[i].avatarIcon })
+    };
+  });
+  const [player, ...hotSeats] = humans;
+  // A shared screen hands over control turn by turn
+  const isTurnBased = !isObserved && (!!winCondition?.turnBased || hotSeats.length > 0);
+
+  return {
+    stateVersion: 0,
+    sessionId: rng.nextId(),
+    sessionStartTime: 0,
+    seed,
+    rngState: rng.state,
+    tick: 0,
+    simTime: 0,
+    winCondition,
+    activeLevelConfig: levelConfig,
+    difficulty: winCondition?.difficulty || 'MEDIUM',
+    grid: initialGrid,
+    world,
+    player,
+    hotSeats: hotSeats.length > 0 ? hotSeats : undefined,
+    bots,
+    currentTurn: 0,
+    turn: isTurnBased ? startTurn([...humans, ...bots]) : undefined,
+    messageLog: [initialLog],
+    botActivityLog: [], 
+    // IF SKIRMISH (No Level Config), START IN BRIEFING. IF CAMPAIGN, START PLAYING (Campaign HUD handles intro).
+    gameStatus: levelConfig ? 'PLAYING' : 'BRIEFING',
+    lastBotActionTime: 0,
+    isPlayerGrowing: false,
+    playerGrowthIntent: null,
+    growingBotIds: [],
+    telemetry: [],
+    effects: [],
+    language
+  };
+};
@@ -0,0 +1,41 @@
+import { SessionState } from '../types';
+import { LevelDefinition } from '../campaign/types';
+import { CAMPAIGN_LEVELS } from '../campaign/levels';
+import { loadLevel } from '../campaign/scenario';
+
+/**
+ * JSON-safe copy of a SessionState.
+ * activeLevelConfig contains hook functions, so only the level id is stored
+ * and the config is looked up again in CAMPAIGN_LEVELS on restore.
+ * Data-driven levels outside the campaign also carry their LevelDefinition and are recompiled from it.
+ */
+export type SerializedSession = Omit<SessionState, 'activeLevelConfig'> & {
+  levelId: string | null;
+  levelDefinition?: LevelDefinition;
+};
+
+export const serializeSession = (state: SessionState): SerializedSession => {
+  const { activeLevelConfig, ...rest } = state;
+  const copy = JSON.parse(JSON.stringify(rest)) as Omit<SessionState, 'activeLevelConfig'>;
+  const isCampaignLevel = !!activeLevelConfig && CAMPAIGN_LEVELS.some(l => l.id === activeLevelConfig.id);
+  return {
+    ...copy,
+    levelId: activeLevelConfig ? activeLevelConfig.id : null,
+    ...(activeLevelConfig?.definition && !isCampaignLevel ? { levelDefinition: JSON.parse(JSON.stringify(activeLevelConfig.definition)) } : {})
+  };
+};
+
+export const deserializeSession = (snapshot: SerializedSession): SessionState => {
+  const { levelId, levelDefinition, ...rest } = snapshot;
+  const copy = JSON.parse(JSON.stringify(rest)) as SessionState;
+
+  if (levelId) {
+    const levelConfig = CAMPAIGN_LEVELS.find(l => l.id === levelId) || (levelDefinition ? loadLevel(levelDefinition) : undefined);
+    if (!levelConfig) {
+      throw new Error(`Unknown level "${levelId}"`);
+    }
+    copy.activeLevelConfig = levelConfig;
+  }
+
+  return copy;
+};
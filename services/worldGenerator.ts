@@ -0,0 +1,112 @@
+import { Hex, HexCoord, WorldState } from '../types';
+import { getHexKey, getNeighbors, cubeDistance } from './hexUtils';
+import { GAME_CONFIG } from '../rules/config';
+import { SeededRandom } from '../engine/SeededRandom';
+
+/**
+ * Seeded, chunk-based procedural world (Skirmish).
+ * The plane is cut into WORLD.chunkSize x WORLD.chunkSize parallelograms in axial coordinates.
+ * A chunk depends only on the world seed and its own coordinates, so chunks can be generated lazily,
+ * in any order, and always come out the same.
+ */
+
+export interface ChunkCoord { cq: number; cr: number; }
+
+const ORIGIN: HexCoord = { q: 0, r: 0 };
+
+export const createWorldState = (seed: number): WorldState => ({ seed: seed >>> 0, loadedChunks: [] });
+
+export const getChunkOf = (q: number, r: number): ChunkCoord => ({
+  cq: Math.floor(q / GAME_CONFIG.WORLD.chunkSize),
+  cr: Math.floor(r / GAME_CONFIG.WORLD.chunkSize)
+});
+
+export const getChunkKey = (chunk: ChunkCoord): string => `${chunk.cq}:${chunk.cr}`;
+
+/** Chunks overlapping the hex disc of `radius` around `center`. */
+export const getChunksInRadius = (center: HexCoord, radius: number): ChunkCoord[] => {
+  const chunks = new Map<string, ChunkCoord>();
+  for (let dq = -radius; dq <= radius; dq++) {
+    for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+      const chunk = getChunkOf(center.q + dq, center.r + dr);
+      chunks.set(getChunkKey(chunk), chunk);
+    }
+  }
+  return [...chunks.values()];
+};
+
+// 32-bit mix of the world seed and the chunk coordinates (murmur3 finalizer)
+const hashChunk = (seed: number, chunk: ChunkCoord): number => {
+  let h = seed ^ Math.imul(chunk.cq, 0x27d4eb2d) ^ Math.imul(chunk.cr, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * The hexes of one chunk, unrevealed. Terrain features stay inside the chunk:
+ * a hill (pre-raised levels falling off around a peak), a void rift, an old unowned barrier
+ * and a few resource-rich sectors. The start area (WORLD.safeRadius around the origin) is always flat.
+ */
+export const generateChunk = (seed: number, chunk: ChunkCoord): Hex[] => {
+  const { chunkSize, safeRadius, hillChance, maxHillLevel, riftChance, riftLength, barrierChance, richSectors, richIncomeMultiplier } = GAME_CONFIG.WORLD;
+  const rng = new SeededRandom(hashChunk(seed, chunk));
+  const q0 = chunk.cq * chunkSize;
+  const r0 = chunk.cr * chunkSize;
+
+  const cells = new Map<string, Hex>();
+  for (let q = q0; q < q0 + chunkSize; q++) {
+    for (let r = r0; r < r0 + chunkSize; r++) {
+      const key = getHexKey(q, r);
+      cells.set(key, { id: key, q, r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: false });
+    }
+  }
+  const randomCell = (): Hex => cells.get(getHexKey(q0 + rng.nextInt(chunkSize), r0 + rng.nextInt(chunkSize)))!;
+
+  // 1. Hill: one level less per step away from the peak
+  if (rng.next() < hillChance) {
+    const peak = randomCell();
+    const height = 1 + rng.nextInt(maxHillLevel);
+    cells.forEach(hex => {
+      const level = height - cubeDistance(hex, peak);
+      if (level > hex.maxLevel) {
+        hex.maxLevel = level;
+        hex.currentLevel = level;
+      }
+    });
+  }
+
+  // 2. Rift: a short random walk of VOID
+  if (rng.next() < riftChance) {
+    let cell: Hex | undefined = randomCell();
+    for (let i = 0; i < riftLength && cell; i++) {
+      cell.structureType = 'VOID';
+      cell.maxLevel = 0;
+      cell.currentLevel = 0;
+      const next = getNeighbors(cell.q, cell.r)
+        .map(n => cells.get(getHexKey(n.q, n.r)))
+        .filter((h): h is Hex => !!h && h.structureType !== 'VOID');
+      cell = next.length > 0 ? rng.pick(next) : undefined;
+    }
+  }
+
+  // 3. Barrier: map-generated walls carry no structureHp (see getStructureMaxHp)
+  if (rng.next() < barrierChance) {
+    const cell = randomCell();
+    if (cell.structureType !== 'VOID') cell.structureType = 'BARRIER';
+  }
+
+  // 4. Resource-rich sectors
+  for (let i = 0; i < richSectors; i++) {
+    const cell = randomCell();
+    if (cell.structureType !== 'VOID') cell.richness = richIncomeMultiplier;
+  }
+
+  return [...cells.values()].map(hex => {
+    if (cubeDistance(hex, ORIGIN) <= safeRadius) {
+      return { id: hex.id, q: hex.q, r: hex.r, currentLevel: 0, maxLevel: 0, progress: 0, revealed: false };
+    }
+    if (hex.maxLevel === 1) hex.durability = GAME_CONFIG.L1_HEX_MAX_DURABILITY;
+    return hex;
+  });
+};
@@ -0,0 +1,259 @@
+import { Difficulty, Entity, EntityState, SessionState, WinCondition, BotMemory, BotStrategyId } from '../types';
+import { GameEngine } from '../engine/GameEngine';
+import { WorldIndex } from '../engine/WorldIndex';
+import { SeededRandom } from '../engine/SeededRandom';
+import { getBotStrategy, DEFAULT_BOT_STRATEGY } from '../bot/strategies';
+import { createInitialSessionData } from '../services/sessionFactory';
+import { DIFFICULTY_SETTINGS, getBotActionInterval } from '../rules/config';
+import { getVisibleKeys, getFoggedGrid, filterVisible } from '../rules/visibility';
+import { getActionsLeft, isTurnResolving } from '../rules/turns';
+import { createPlannerSnapshot } from '../bot/planner/ForwardModel';
+
+/**
+ * HEADLESS RUNNER
+ * Plays skirmish matches in a tight processTick loop (no React, Konva or audio)
+ * so balance changes and bot versions can be compared over many seeds.
+ * Turn-based matches play each turn out (autopilot orders, then End Turn) and tick until it resolves.
+ */
+
+export type PlayerMode = 'autopilot' | 'idle';
+
+export interface MatchConfig {
+  seed: number;
+  difficulty: Difficulty;
+  botCount: number;
+  targetLevel: number;
+  targetCoins: number;
+  winType: 'AND' | 'OR';
+  /** Losing your capital is a defeat (see WinCondition.capitalMode) */
+  capitalMode: boolean;
+  /** Turn-based rules (see WinCondition.turnBased) */
+  turnBased: boolean;
+  /** Hard stop for matches nobody wins (ticks of GAME_CONFIG.TICK_INTERVAL_MS) */
+  maxTicks: number;
+  /** 'autopilot' drives the player slot with the bot AI, 'idle' leaves it standing still */
+  playerMode: PlayerMode;
+  /** Strategy driving the player slot in 'autopilot' mode */
+  playerStrategy: BotStrategyId;
+  /** Per-bot personalities by spawn order, cycled when shorter than botCount */
+  botStrategies: BotStrategyId[];
+  /** Coins are sampled into the curves every N ticks */
+  sampleEvery: number;
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  seed: 1,
+  difficulty: 'MEDIUM',
+  botCount: 2,
+  targetLevel: 5,
+  targetCoins: 250,
+  winType: 'AND',
+  capitalMode: false,
+  turnBased: false,
+  maxTicks: 36000, // 1 hour of game time
+  playerMode: 'autopilot',
+  playerStrategy: DEFAULT_BOT_STRATEGY,
+  botStrategies: [DEFAULT_BOT_STRATEGY],
+  sampleEvery: 50
+};
+
+export interface EntityStats {
+  id: string;
+  strategyId: BotStrategyId | null; // null = idle player
+  playerLevel: number;
+  coins: number;
+  totalCoinsEarned: number;
+  hexesOwned: number;
+  coinsCurve: number[];
+}
+
+export interface MatchResult {
+  seed: number;
+  difficulty: Difficulty;
+  botCount: number;
+  winnerId: string | null; // null = nobody reached the WinCondition before maxTicks
+  ticks: number;
+  simTimeMs: number;
+  entities: EntityStats[];
+}
+
+export const createMatchSession = (config: MatchConfig): SessionState => {
+  const winCondition: WinCondition = {
+    levelId: -1,
+    targetLevel: config.targetLevel,
+    targetCoins: config.targetCoins,
+    label: `Simulation #${config.seed}`,
+    botCount: config.botCount,
+    difficulty: config.difficulty,
+    queueSize: DIFFICULTY_SETTINGS[config.difficulty].queueSize,
+    winType: config.winType,
+    capitalMode: config.capitalMode,
+    turnBased: config.turnBased,
+    botStrategies: Array.from({ length: config.botCount }, (_, i) => config.botStrategies[i % config.botStrategies.length])
+  };
+  return createInitialSessionData(winCondition, undefined, 'EN', config.seed);
+};
+
+/**
+ * Drives the player slot with one of the bot strategies.
+ * Keeps its own memory and PRNG so it never consumes the engine's random stream.
+ */
+class PlayerAutopilot {
+  private memory: BotMemory | undefined;
+  private lastActionTime: number | undefined;
+  private rng: SeededRandom;
+  private readonly strategyId: BotStrategyId;
+
+  constructor(seed: number, strategyId: BotStrategyId) {
+    this.strategyId = strategyId;
+    this.rng = new SeededRandom(seed ^ 0x9e3779b9);
+  }
+
+  /** Real time: one paced decision. Returns whether an action went through. */
+  public act(engine: GameEngine): boolean {
+    const state = engine.state;
+    if (!state || state.player.state !== EntityState.IDLE) return false;
+
+    // Same pacing as a MEDIUM bot in AiSystem: the difficulty setting is the bots', not the player's
+    const now = engine.now();
+    const interval = getBotActionInterval(state.player.playerLevel, 'MEDIUM');
+    if (this.lastActionTime !== undefined && now - this.lastActionTime < interval) return false;
+    this.lastActionTime = now;
+
+    return this.decide(engine);
+  }
+
+  /** Turn-based: spends the turn's actions the way AiSystem.planTurn does for the bots. */
+  public playTurn(engine: GameEngine) {
+    const playerId = engine.state!.player.id;
+    while (getActionsLeft(engine.state!.turn!, playerId) > 0) {
+      const { player } = engine.state!;
+      if (player.state !== EntityState.IDLE || player.movementQueue.length > 0) return;
+      if (!this.decide(engine)) return;
+    }
+  }
+
+  private decide(engine: GameEngine): boolean {
+    const state = engine.state!;
+    const self: Entity = { ...state.player, memory: this.memory };
+    const entities = [state.player, ...state.bots];
+    const index = new WorldIndex(state.grid, entities);
+    const rival = state.bots[0] || state.player;
+    // The autopilot plays under the same fog of war as the bots
+    const visible = getVisibleKeys(state.player, state.grid);
+
+    const result = getBotStrategy(this.strategyId).decide({
+      bot: self,
+      grid: getFoggedGrid(state.grid, visible),
+      player: rival,
+      winCondition: state.winCondition,
+      obstacles: filterVisible(index.getOccupiedHexesList(), visible),
+      visibleHexKeys: visible,
+      index,
+      stateVersion: state.stateVersion,
+      difficulty: state.difficulty,
+      rng: this.rng,
+      snapshot: () => createPlannerSnapshot(state, self, visible)
+    });
+    this.memory = result.memory;
+
+    if (!result.action || result.action.type === 'WAIT') return false;
+
+    // GrowthSystem reads the player's growth from the intent flags (as toggled by the HUD), not from the queue.
+    // Structures are built instantly, exactly like the HUD buttons do.
+    if (result.action.type === 'UPGRADE' && !result.action.upgradeType) {
+      // Turn-based: the HUD queues the order first, spending an action (see store.togglePlayerGrowth)
+      if (state.turn && !engine.applyAction(state.player.id, result.action).ok) return false;
+      engine.setPlayerIntent(true, result.action.intent || 'UPGRADE');
+      return true;
+    }
+    return engine.applyAction(state.player.id, result.action).ok;
+  }
+}
+
+const collectStats = (state: SessionState, curves: Map<string, number[]>, playerStrategy: BotStrategyId | null): EntityStats[] => {
+  const owned = new Map<string, number>();
+  for (const hex of Object.values(state.grid)) {
+    if (hex.ownerId) owned.set(hex.ownerId, (owned.get(hex.ownerId) || 0) + 1);
+  }
+  return [state.player, ...state.bots].map(e => ({
+    id: e.id,
+    strategyId: e.id === state.player.id ? playerStrategy : (e.strategyId || DEFAULT_BOT_STRATEGY),
+    playerLevel: e.playerLevel,
+    coins: e.coins,
+    totalCoinsEarned: e.totalCoinsEarned,
+    hexesOwned: owned.get(e.id) || 0,
+    coinsCurve: curves.get(e.id) || []
+  }));
+};
+
+export const runMatch = (overrides: Partial<MatchConfig> = {}): MatchResult => {
+  const config: MatchConfig = { ...DEFAULT_MATCH_CONFIG, ...overrides };
+  const engine = new GameEngine(createMatchSession(config));
+  const autopilot = config.playerMode === 'autopilot' ? new PlayerAutopilot(config.seed, config.playerStrategy) : null;
+  const curves = new Map<string, number[]>();
+  let winnerId: string | null = null;
+
+  engine.startMission();
+
+  while (engine.state!.tick < config.maxTicks) {
+    const turn = engine.state!.turn;
+    if (turn && !isTurnResolving(turn)) {
+      autopilot?.playTurn(engine);
+      engine.endTurn();
+    } else if (!turn) {
+      autopilot?.act(engine);
+    }
+    const { state, events } = engine.processTick();
+    if (!state) break;
+
+    if (state.tick % config.sampleEvery === 0) {
+      for (const e of [state.player, ...state.bots]) {
+        if (!curves.has(e.id)) curves.set(e.id, []);
+        curves.get(e.id)!.push(e.coins);
+      }
+    }
+
+    const outcome = events.find(e => e.type === 'VICTORY' || e.type === 'DEFEAT');
+    if (outcome) {
+      winnerId = outcome.entityId || null;
+      break;
+    }
+  }
+
+  const finalState = engine.state!;
+  const result: MatchResult = {
+    seed: config.seed,
+    difficulty: config.difficulty,
+    botCount: config.botCount,
+    winnerId,
+    ticks: finalState.tick,
+    simTimeMs: finalState.simTime,
+    entities: collectStats(finalState, curves, autopilot ? config.playerStrategy : null)
+  };
+  engine.destroy();
+  return result;
+};
+
+/** Runs `matches` consecutive seeds starting at config.seed. */
+export const runBatch = (matches: number, overrides: Partial<MatchConfig> = {}, onResult?: (result: MatchResult) => void): MatchResult[] => {
+  const baseSeed = overrides.seed ?? DEFAULT_MATCH_CONFIG.seed;
+  const results: MatchResult[] = [];
+  for (let i = 0; i < matches; i++) {
+    const result = runMatch({ ...overrides, seed: baseSeed + i });
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+};
+
+/** One row per entity per match; coin curves are only included in the JSON output. */
+export const resultsToCsv = (results: MatchResult[]): string => {
+  const rows = ['seed,difficulty,botCount,winnerId,ticks,simTimeMs,entityId,strategyId,playerLevel,coins,totalCoinsEarned,hexesOwned'];
+  for (const r of results) {
+    for (const e of r.entities) {
+      rows.push([r.seed, r.difficulty, r.botCount, r.winnerId ?? '', r.ticks, r.simTimeMs, e.id, e.strategyId ?? '', e.playerLevel, e.coins, e.totalCoinsEarned, e.hexesOwned].join(','));
+    }
+  }
+  return rows.join('\n');
+};
@@ -0,0 +1,21 @@
+/**
+ * Command-line arguments shared by the Node tools (simulate, verify-levels, server):
+ * `--name value` pairs, and bare `--flag`s read as 'true'.
+ */
+
+export const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    args[arg.slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+  }
+  return args;
+};
+
+export const toInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = parseInt(value, 10);
+  if (Number.isNaN(n)) throw new Error(`--${name} expects a number, got "${value}"`);
+  return n;
+};
@@ -0,0 +1,90 @@
+import { writeFileSync } from 'node:fs';
+import { Difficulty, BotStrategyId } from '../types';
+import { BOT_STRATEGY_IDS } from '../bot/strategies';
+import { runBatch, resultsToCsv, MatchResult, MatchConfig, DEFAULT_MATCH_CONFIG } from './HeadlessRunner';
+import { parseArgs, toInt } from './args';
+
+/**
+ * Usage: npm run simulate -- --matches 50 --difficulty EASY,HARD --bots 3 --format csv --out results.csv
+ *
+ *   --matches N        matches per difficulty (consecutive seeds)        default 10
+ *   --seed S           first seed                                        default 1
+ *   --difficulty LIST  comma separated EASY,MEDIUM,HARD                  default MEDIUM
+ *   --bots N           rival bot count                                   default 2
+ *   --level N          target rank                                       default 5
+ *   --coins N          target credits                                    default 250
+ *   --win AND|OR       win condition type                                default AND
+ *   --capital          capital mode (losing your capital is a defeat)    default off
+ *   --turns            turn-based rules (End Turn instead of real time)  default off
+ *   --max-ticks N      stop matches nobody wins                          default 36000
+ *   --player MODE      autopilot | idle                                  default autopilot
+ *   --player-strategy  strategy driving the autopilot                    default nomad
+ *   --strategies LIST  per-bot strategies, cycled (nomad,farmer,...)     default nomad
+ *   --format FMT       json | csv                                        default json
+ *   --out FILE         write to file instead of stdout
+ */
+
+const DIFFICULTIES: Difficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  const difficulties = (args.difficulty || 'MEDIUM').split(',').map(d => d.trim().toUpperCase() as Difficulty);
+  for (const d of difficulties) {
+    if (!DIFFICULTIES.includes(d)) throw new Error(`Unknown difficulty "${d}"`);
+  }
+
+  const playerMode = (args.player || DEFAULT_MATCH_CONFIG.playerMode) as MatchConfig['playerMode'];
+  if (playerMode !== 'autopilot' && playerMode !== 'idle') throw new Error(`Unknown player mode "${playerMode}"`);
+
+  const parseStrategy = (id: string): BotStrategyId => {
+    if (!BOT_STRATEGY_IDS.includes(id as BotStrategyId)) {
+      throw new Error(`Unknown strategy "${id}" (available: ${BOT_STRATEGY_IDS.join(', ')})`);
+    }
+    return id as BotStrategyId;
+  };
+  const botStrategies = (args.strategies || DEFAULT_MATCH_CONFIG.botStrategies.join(',')).split(',').map(s => parseStrategy(s.trim()));
+  const playerStrategy = parseStrategy(args['player-strategy'] || DEFAULT_MATCH_CONFIG.playerStrategy);
+
+  const format = args.format || 'json';
+  if (format !== 'json' && format !== 'csv') throw new Error(`Unknown format "${format}"`);
+
+  const matches = toInt(args.matches, 10, 'matches');
+  const base: Partial<MatchConfig> = {
+    seed: toInt(args.seed, DEFAULT_MATCH_CONFIG.seed, 'seed'),
+    botCount: toInt(args.bots, DEFAULT_MATCH_CONFIG.botCount, 'bots'),
+    targetLevel: toInt(args.level, DEFAULT_MATCH_CONFIG.targetLevel, 'level'),
+    targetCoins: toInt(args.coins, DEFAULT_MATCH_CONFIG.targetCoins, 'coins'),
+    winType: args.win === 'OR' ? 'OR' : 'AND',
+    capitalMode: args.capital === 'true',
+    turnBased: args.turns === 'true',
+    maxTicks: toInt(args['max-ticks'], DEFAULT_MATCH_CONFIG.maxTicks, 'max-ticks'),
+    playerMode,
+    playerStrategy,
+    botStrategies
+  };
+
+  const results: MatchResult[] = [];
+  for (const difficulty of difficulties) {
+    runBatch(matches, { ...base, difficulty }, (r) => {
+      results.push(r);
+      // Progress goes to stderr so stdout stays machine-readable
+      process.stderr.write(`[${difficulty}] seed ${r.seed}: ${r.winnerId || 'no winner'} after ${r.ticks} ticks\n`);
+    });
+  }
+
+  const output = format === 'csv' ? resultsToCsv(results) : JSON.stringify(results, null, 2);
+  if (args.out) {
+    writeFileSync(args.out, output);
+    process.stderr.write(`Wrote ${results.length} results to ${args.out}\n`);
+  } else {
+    process.stdout.write(output + '\n');
+  }
+};
+
+try {
+  main();
+} catch (e) {
+  process.stderr.write(`${e instanceof Error ? e.message : e}\n`);
+  process.exit(1);
+}
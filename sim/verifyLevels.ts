@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { GameAction } from '../types';
+import { LevelConfig } from '../campaign/types';
+import { CAMPAIGN_LEVELS } from '../campaign/levels';
+import { loadLevel } from '../campaign/scenario';
+import { solveLevel, DEFAULT_SOLVE_OPTIONS, SolveOptions } from '../campaign/solver';
+import { parseArgs, toInt } from './args';
+
+/**
+ * Usage: npm run verify-levels -- --levels 1.2,1.3 --seeds 20 --solution
+ *
+ *   --levels LIST      campaign level ids                                default all
+ *   --file PATH        verify a level file (e.g. a level editor export) instead
+ *   --seeds N          seeds per level (generated maps differ per seed)  default 1
+ *   --seed S           first seed                                        default 1
+ *   --max-actions N    longest solution searched for                     default 40
+ *   --max-states N     states expanded before giving up                  default 20000
+ *   --solution         print the witness of every solvable level
+ *
+ * Exits with 1 unless every level is proven solvable.
+ */
+
+const describeAction = (action: GameAction): string => {
+  switch (action.type) {
+    case 'MOVE': return `MOVE ${action.path.map(p => `${p.q},${p.r}`).join(' > ')}`;
+    case 'UPGRADE': return `${action.intent === 'RECOVER' ? 'RECOVER' : 'UPGRADE'} ${action.coord.q},${action.coord.r}`;
+    default: return action.type;
+  }
+};
+
+const selectLevels = (args: Record<string, string>): LevelConfig[] => {
+  if (args.file) return [loadLevel(JSON.parse(readFileSync(args.file, 'utf8')))];
+  if (!args.levels) return CAMPAIGN_LEVELS;
+  return args.levels.split(',').map(id => {
+    const level = CAMPAIGN_LEVELS.find(l => l.id === id.trim());
+    if (!level) throw new Error(`Unknown level "${id}" (available: ${CAMPAIGN_LEVELS.map(l => l.id).join(', ')})`);
+    return level;
+  });
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const levels = selectLevels(args);
+  const seeds = toInt(args.seeds, 1, 'seeds');
+  const firstSeed = toInt(args.seed, 1, 'seed');
+  const options: SolveOptions = {
+    ...DEFAULT_SOLVE_OPTIONS,
+    maxActions: toInt(args['max-actions'], DEFAULT_SOLVE_OPTIONS.maxActions, 'max-actions'),
+    maxStates: toInt(args['max-states'], DEFAULT_SOLVE_OPTIONS.maxStates, 'max-states')
+  };
+
+  let failures = 0;
+  for (const level of levels) {
+    // Fixed layouts play the same on every seed
+    const count = level.mapConfig.generator ? seeds : 1;
+    for (let seed = firstSeed; seed < firstSeed + count; seed++) {
+      const started = Date.now();
+      const result = solveLevel(level, options, seed);
+      const summary = result.status === 'SOLVABLE' ? `SOLVABLE in ${result.actions} actions` : result.status;
+      process.stdout.write(`${level.id} seed ${seed}: ${summary} (${result.statesExplored} states, ${Date.now() - started} ms)\n`);
+      if (result.solution && args.solution === 'true') {
+        result.solution.forEach((action, i) => process.stdout.write(`  ${i + 1}. ${describeAction(action)}\n`));
+      }
+      if (result.status !== 'SOLVABLE') failures++;
+    }
+  }
+
+  if (failures > 0) {
+    process.stderr.write(`${failures} level run(s) not proven solvable\n`);
+    process.exit(1);
+  }
+};
+
+try {
+  main();
+} catch (e) {
+  process.stderr.write(`${e instanceof Error ? e.message : e}\n`);
+  process.exit(1);
+}
@@ -1,17 +1,29 @@
 
 import { create } from 'zustand';
-import { GameState, Entity, Hex, EntityType, UIState, WinCondition, LeaderboardEntry, EntityState, MoveAction, RechargeAction, SessionState, LogEntry, FloatingText, Language } from './types.ts';
+import { GameState, Entity, Hex, EntityType, UIState, WinCondition, LeaderboardEntry, EntityState, MoveAction, RechargeAction, UpgradeAction, BreachAction, ArmTrapAction, AttackAction, SessionState, LogEntry, FloatingText, Language, ReplayStatus, NetworkStatus, ObserverStatus } from './types.ts';
 import { GAME_CONFIG } from './rules/config.ts';
-import { getHexKey, getNeighbors, findPath } from './services/hexUtils.ts';
-import { GameEngine } from './engine/GameEngine.ts';
+import { getHexKey, findPath, cubeDistance } from './services/hexUtils.ts';
+import { isBlockedByStructure, BuildableStructure } from './rules/structures.ts';
+import { GameEngine, SessionEngine } from './engine/GameEngine.ts';
+import { RemoteEngine, RoomRequest } from './net/RemoteEngine.ts';
+import { WorkerEngine, canUseWorkers } from './worker/WorkerEngine.ts';
 import { audioService } from './services/audioService.ts';
 import { CAMPAIGN_LEVELS } from './campaign/levels.ts';
 import { LevelConfig } from './campaign/types.ts';
 import { calculateMovementCost } from './rules/movement.ts';
-import { generateMap } from './services/mapGenerator.ts';
+import { findEntity } from './rules/entities.ts';
+import { createInitialSessionData } from './services/sessionFactory.ts';
+import { ReplayRecorder, ReplayFile } from './engine/ReplayRecorder.ts';
+import { ReplayPlayer } from './engine/ReplayPlayer.ts';
+import { SaveSlotMeta, loadSaveIndex, writeSave, readSave, removeSave } from './services/saveService.ts';
+import { LevelEditorState, EditorBrush, DEFAULT_BRUSH, createBlankLevel, createPreviewSession, paintHex } from './services/levelEditor.ts';
+import { loadLevel } from './campaign/scenario.ts';
+import { LevelSchemaError } from './campaign/levelSchema.ts';
+import { LevelDefinition } from './campaign/types.ts';
+import { createLevelSession } from './campaign/solver.ts';
+import { solveLevelSeed } from './worker/LevelSolver.ts';
 
 const MOCK_USER_DB: Record<string, { password: string; avatarColor: string; avatarIcon: string }> = {};
-const BOT_PALETTE = ['#ef4444', '#f97316', '#a855f7', '#ec4899']; 
 const LEADERBOARD_STORAGE_KEY = 'hexquest_leaderboard_v3'; 
 const CAMPAIGN_PROGRESS_KEY = 'hexquest_campaign_progress_v1';
 
@@ -42,6 +54,16 @@ const saveCampaignProgress = (levelIndex: number) => {
     localStorage.setItem(CAMPAIGN_PROGRESS_KEY, levelIndex.toString());
 };
 
+// Schema errors list every issue; anything else is reported as-is
+const describeLevelError = (e: unknown): string[] =>
+    e instanceof LevelSchemaError ? e.issues : [e instanceof Error ? e.message : String(e)];
+
+// A new editor draft clears the reported issues and redraws the preview
+const withDraft = (editor: LevelEditorState, definition: LevelDefinition, language: Language) => ({
+    editor: { ...editor, definition, issues: [] },
+    session: createPreviewSession(definition, language)
+});
+
 interface AuthResponse { success: boolean; message?: string; }
 
 // Expanded UI Sound Types
@@ -49,6 +71,9 @@ export type UiSoundType = 'HOVER' | 'CLICK' | 'ERROR' | 'WARNING' | 'SUCCESS';
 
 interface GameStore extends GameState {
   session: SessionState | null;
+  replay: ReplayStatus | null;
+  network: NetworkStatus | null;
+  observer: ObserverStatus | null;
   setUIState: (state: UIState) => void;
   loginAsGuest: (n: string, c: string, i: string) => void;
   registerUser: (n: string, p: string, c: string, i: string) => AuthResponse;
@@ -57,9 +82,17 @@ interface GameStore extends GameState {
   startNewGame: (win?: WinCondition, levelConfig?: LevelConfig) => void;
   startCampaignLevel: (levelId: string) => void;
   startMission: () => void;
+  connectToServer: (url: string, request: RoomRequest) => void;
   abandonSession: () => void;
+  followEntity: (id: string | null) => void;
   togglePlayerGrowth: (intent?: 'RECOVER' | 'UPGRADE') => void;
   rechargeMove: () => void;
+  endTurn: () => void;
+  buildStructure: (type: BuildableStructure) => void;
+  armTrap: (potency: number) => void;
+  // Attack mode: the next hex click spends every attack token on that sector instead of moving
+  isAttackMode: boolean;
+  toggleAttackMode: () => void;
   movePlayer: (q: number, r: number) => void;
   confirmPendingAction: () => void;
   cancelPendingAction: () => void;
@@ -69,101 +102,79 @@ interface GameStore extends GameState {
   hideToast: () => void;
   toggleMusic: () => void;
   toggleSfx: () => void;
+  // Local sessions host their engine in a Web Worker, off the rendering thread (from the next session on)
+  useEngineWorker: boolean;
+  toggleEngineWorker: () => void;
+  // A generated campaign map is being proven winnable before the level starts (see solveLevelSeed)
+  isPreparingLevel: boolean;
+  // Developer overlay: each bot's goal, path, reservations and recent decisions on the map
+  showBotDebug: boolean;
+  toggleBotDebug: () => void;
   playUiSound: (type: UiSoundType) => void;
   setLanguage: (lang: 'EN' | 'RU') => void;
+  exportReplay: () => ReplayFile | null;
+  loadReplay: (file: ReplayFile) => void;
+  toggleReplayPlayback: () => void;
+  setReplaySpeed: (speed: number) => void;
+  seekReplay: (tick: number) => void;
+  saves: SaveSlotMeta[];
+  saveGame: (name: string) => void;
+  loadGame: (id: string) => void;
+  deleteSave: (id: string) => void;
+  // Level editor: the draft survives play-tests and trips to the menu
+  editor: LevelEditorState | null;
+  openEditor: () => void;
+  closeEditor: () => void;
+  setEditorBrush: (brush: Partial<EditorBrush>) => void;
+  paintEditorHex: (q: number, r: number) => void;
+  updateEditorLevel: (patch: Partial<LevelDefinition>) => void;
+  resetEditorLevel: () => void;
+  importEditorLevel: (data: unknown) => void;
+  exportEditorLevel: () => LevelDefinition | null;
+  playtestEditorLevel: () => void;
 }
 
-let engine: GameEngine | null = null;
+// A local GameEngine (or a WorkerEngine hosting one), or a RemoteEngine for a session hosted by a GameServer (see net/)
+let engine: SessionEngine | null = null;
 let tickCount = 0;
 
-const createInitialSessionData = (winCondition: WinCondition | null, levelConfig?: LevelConfig, language: Language = 'EN'): SessionState => {
-  // Map Generation Logic (Delegate to service)
-  const initialGrid = generateMap(levelConfig);
-  
-  const botCount = levelConfig ? (levelConfig.aiMode === 'none' ? 0 : 1) : (winCondition?.botCount || 0);
-  
-  // Skirmish Defaults vs Level Config
-  // UPDATED: Start with 0 in Skirmish to force acquisition loop
-  const startCredits = levelConfig ? levelConfig.startState.credits : 0;
-  const startMoves = levelConfig ? levelConfig.startState.moves : 0;
-  const startRank = levelConfig ? levelConfig.startState.rank : 1;
-  
-  const bots: Entity[] = [];
-  // Spawn points at edge of radius 2
-  const spawnPoints = [{ q: 0, r: -2 }, { q: 2, r: -2 }, { q: 2, r: 0 }, { q: 0, r: 2 }, { q: -2, r: 2 }, { q: -2, r: 0 }];
-
-  for (let i = 0; i < Math.min(botCount, spawnPoints.length); i++) {
-    const sp = spawnPoints[i];
-    // Ensure bot spawn hex exists (expand map if necessary for bots)
-    if (!initialGrid[getHexKey(sp.q, sp.r)]) {
-        initialGrid[getHexKey(sp.q, sp.r)] = { id: getHexKey(sp.q,sp.r), q:sp.q, r:sp.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
-        getNeighbors(sp.q, sp.r).forEach(n => {
-            const k = getHexKey(n.q, n.r);
-            if (!initialGrid[k]) initialGrid[k] = { id:k, q:n.q, r:n.r, currentLevel:0, maxLevel:0, progress:0, revealed:true };
-        });
-    }
-    bots.push({
-      id: `bot-${i+1}`, type: EntityType.BOT, state: EntityState.IDLE, q: sp.q, r: sp.r,
-      playerLevel: 0, coins: startCredits, moves: startMoves,
-      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
-      memory: { lastPlayerPos: null, currentGoal: null, stuckCounter: 0 },
-      avatarColor: BOT_PALETTE[i % BOT_PALETTE.length],
-      recoveredCurrentHex: false
-    });
-  }
-  
-  let initialText = levelConfig ? levelConfig.description : `Mission: Rank ${winCondition?.targetLevel} ${winCondition?.winType} ${winCondition?.targetCoins} Credits.`;
-
-  const initialLog: LogEntry = {
-    id: 'init-0',
-    text: initialText,
-    type: 'INFO',
-    source: 'SYSTEM',
-    timestamp: Date.now()
-  };
-
-  return {
-    stateVersion: 0,
-    sessionId: Math.random().toString(36).substring(2, 15),
-    sessionStartTime: Date.now(),
-    winCondition,
-    activeLevelConfig: levelConfig,
-    difficulty: winCondition?.difficulty || 'MEDIUM',
-    grid: initialGrid,
-    player: {
-      id: 'player-1', type: EntityType.PLAYER, state: EntityState.IDLE, q: 0, r: 0,
-      playerLevel: startRank, coins: startCredits, 
-      moves: startMoves,
-      totalCoinsEarned: 0, recentUpgrades: [], movementQueue: [],
-      recoveredCurrentHex: false
-    },
-    bots,
-    currentTurn: 0,
-    messageLog: [initialLog],
-    botActivityLog: [], 
-    // IF SKIRMISH (No Level Config), START IN BRIEFING. IF CAMPAIGN, START PLAYING (Campaign HUD handles intro).
-    gameStatus: levelConfig ? 'PLAYING' : 'BRIEFING',
-    lastBotActionTime: Date.now(),
-    isPlayerGrowing: false,
-    playerGrowthIntent: null,
-    growingBotIds: [],
-    telemetry: [],
-    effects: [],
-    language
-  };
-};
+// Replay: every live session is recorded; a loaded replay replaces the engine entirely.
+let recorder: ReplayRecorder | null = null;
+let replayPlayer: ReplayPlayer | null = null;
+let replayTickBudget = 0;
+
+// Level starts waiting on the solver; a newer start (or leaving) makes the pending one stale
+let levelRequest = 0;
+
+const createLocalEngine = (state: SessionState, useWorker: boolean, onError: (reason: string) => void): SessionEngine =>
+  useWorker && canUseWorkers()
+    ? new WorkerEngine(state, { recorder: recorder || undefined, onError })
+    : new GameEngine(state, { recorder: recorder || undefined });
+
+// Bot-only sessions start following the player slot, which the AI plays
+const observe = (state: SessionState): ObserverStatus | null =>
+  state.winCondition?.observe ? { followId: state.player.id } : null;
 
 export const useGameStore = create<GameStore>((set, get) => ({
   uiState: 'MENU',
   user: null,
   toast: null,
   pendingConfirmation: null,
+  isAttackMode: false,
   leaderboard: loadLeaderboard(),
   campaignProgress: loadCampaignProgress(),
   hasActiveSession: false,
   isMusicMuted: false,
   isSfxMuted: false,
+  useEngineWorker: canUseWorkers(),
+  isPreparingLevel: false,
+  showBotDebug: false,
   session: null,
+  replay: null,
+  network: null,
+  observer: null,
+  saves: loadSaveIndex(),
+  editor: null,
   language: 'EN',
   
   setLanguage: (lang) => set({ language: lang }),
@@ -207,6 +218,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
       set({ isSfxMuted: newVal });
   },
 
+  toggleEngineWorker: () => {
+      set({ useEngineWorker: !get().useEngineWorker });
+  },
+
+  toggleBotDebug: () => {
+      set({ showBotDebug: !get().showBotDebug });
+  },
+
   playUiSound: (type) => {
     switch (type) {
         case 'HOVER': audioService.play('UI_HOVER'); break;
@@ -222,52 +241,40 @@ export const useGameStore = create<GameStore>((set, get) => ({
       audioService.play('UI_CLICK');
       get().abandonSession();
       
-      let effectiveWin = winCondition;
-
-      // Handle Campaign Levels Logic
-      if (levelConfig) {
-          let difficulty = 'MEDIUM';
-          let queueSize = 2; // Default Medium
-
-          // For Level 1.6, enforce EASY difficulty (Queue = 1)
-          if (levelConfig.id === '1.6') {
-              difficulty = 'EASY';
-              queueSize = 1;
+      // Fallback if nothing passed
+      const effectiveWin: WinCondition = winCondition || {
+          levelId: -1,
+          targetLevel: 99,
+          targetCoins: 9999,
+          label: "Quick Start",
+          botCount: 0,
+          difficulty: 'MEDIUM',
+          queueSize: 2,
+          winType: 'AND'
+      };
+
+      const launch = (initialSessionState: SessionState) => {
+          recorder = new ReplayRecorder(initialSessionState);
+          engine = createLocalEngine(initialSessionState, get().useEngineWorker, reason => get().showToast(`Engine stopped: ${reason}`, 'error'));
+          set({ session: engine.state, hasActiveSession: true, uiState: 'GAME', observer: observe(initialSessionState) });
+
+          // Show objective popup if campaign
+          if (levelConfig) {
+              const startMsg = initialSessionState.messageLog[0]?.text;
+              if (startMsg) get().showToast(startMsg, 'info');
           }
-
-          effectiveWin = {
-              levelId: -1,
-              targetLevel: 99,
-              targetCoins: 9999,
-              label: levelConfig.title,
-              botCount: 0,
-              difficulty: difficulty as any,
-              queueSize: queueSize,
-              winType: 'AND'
-          };
-      } else if (!winCondition) {
-          // Fallback if nothing passed
-          effectiveWin = {
-              levelId: -1,
-              targetLevel: 99,
-              targetCoins: 9999,
-              label: "Quick Start",
-              botCount: 0,
-              difficulty: 'MEDIUM',
-              queueSize: 2,
-              winType: 'AND'
-          };
-      }
-
-      const initialSessionState = createInitialSessionData(effectiveWin, levelConfig, get().language);
-      engine = new GameEngine(initialSessionState); 
-      set({ session: engine.state, hasActiveSession: true, uiState: 'GAME' });
-
-      // Show objective popup if campaign
-      if (levelConfig) {
-          const startMsg = initialSessionState.messageLog[0]?.text;
-          if (startMsg) get().showToast(startMsg, 'info');
-      }
+      };
+
+      if (!levelConfig) return launch(createInitialSessionData(effectiveWin, undefined, get().language));
+
+      // Campaign Levels: growth rules per level, generated maps re-rolled until solvable - off the UI thread
+      const request = ++levelRequest;
+      set({ isPreparingLevel: true });
+      solveLevelSeed(levelConfig).then(seed => {
+          if (request !== levelRequest) return;
+          set({ isPreparingLevel: false });
+          launch(createLevelSession(levelConfig, get().language, seed));
+      });
   },
 
   startCampaignLevel: (levelId) => {
@@ -288,12 +295,200 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
   },
 
+  connectToServer: (url, request) => {
+      audioService.play('UI_CLICK');
+      get().abandonSession();
+
+      const remote = new RemoteEngine(url, request, {
+          onStatus: (network) => {
+              if (engine !== remote) return;
+              // Seated: the first snapshot opens the game screen
+              if (network.connection === 'ONLINE' && !get().hasActiveSession) {
+                  // Watching (no seat) or seated in a room the AI plays: nobody here gives orders
+                  const observer = network.seatId ? observe(remote.state!) : { followId: remote.state!.player.id };
+                  set({ session: remote.state, hasActiveSession: true, uiState: 'GAME', observer });
+              }
+              if (network.connection === 'OFFLINE') {
+                  set({ toast: { message: network.error || 'Connection lost', type: 'error', timestamp: Date.now() } });
+                  // Never seated: stay in the menu, which shows the error
+                  if (!get().hasActiveSession) {
+                      remote.destroy();
+                      engine = null;
+                  }
+              }
+              set({ network });
+          }
+      });
+      engine = remote;
+      set({ network: remote.status });
+  },
+
   abandonSession: () => {
+      levelRequest++;
+      if (get().isPreparingLevel) set({ isPreparingLevel: false });
       if (engine) {
           engine.destroy();
           engine = null;
-          set({ session: null, hasActiveSession: false, uiState: 'MENU' });
+          recorder = null;
+          set({ session: null, hasActiveSession: false, uiState: 'MENU', isAttackMode: false, network: null, observer: null });
+      }
+      if (replayPlayer) {
+          replayPlayer.destroy();
+          replayPlayer = null;
+          set({ session: null, replay: null, uiState: 'MENU', observer: null });
+      }
+  },
+
+  followEntity: (id) => {
+      if (!get().observer) return;
+      set({ observer: { followId: id } });
+  },
+
+  exportReplay: () => {
+      if (!recorder || !engine || !engine.state) return null;
+      return recorder.toFile(engine.state.tick);
+  },
+
+  loadReplay: (file) => {
+      audioService.play('UI_CLICK');
+      get().abandonSession();
+      try {
+          replayPlayer = new ReplayPlayer(file);
+      } catch (e) {
+          replayPlayer = null;
+          get().showToast(e instanceof Error ? e.message : 'Replay failed to load', 'error');
+          return;
       }
+      replayTickBudget = 0;
+      set({
+          session: replayPlayer.state,
+          replay: { tick: replayPlayer.tick, length: replayPlayer.length, isPlaying: true, speed: 1 },
+          uiState: 'GAME',
+          observer: observe(replayPlayer.state!)
+      });
+  },
+
+  toggleReplayPlayback: () => {
+      const replay = get().replay;
+      if (!replay || !replayPlayer) return;
+      // Restart from the beginning when play is pressed at the end
+      if (!replay.isPlaying && replayPlayer.isFinished) {
+          replayPlayer.seek(0);
+      }
+      set({ replay: { ...replay, tick: replayPlayer.tick, isPlaying: !replay.isPlaying }, session: replayPlayer.state });
+  },
+
+  setReplaySpeed: (speed) => {
+      const replay = get().replay;
+      if (!replay) return;
+      set({ replay: { ...replay, speed } });
+  },
+
+  seekReplay: (tick) => {
+      const replay = get().replay;
+      if (!replay || !replayPlayer) return;
+      replayPlayer.seek(tick);
+      set({ replay: { ...replay, tick: replayPlayer.tick }, session: replayPlayer.state });
+  },
+  
+  saveGame: (name) => {
+      if (!engine || !engine.state) return;
+      try {
+          set({ saves: writeSave(name, engine.state) });
+          get().showToast(`Saved "${name}"`, 'success');
+      } catch (e) {
+          console.error("Failed to save game", e);
+          get().showToast('Save failed: storage is full or unavailable', 'error');
+      }
+  },
+
+  loadGame: (id) => {
+      audioService.play('UI_CLICK');
+      let restored: SessionState;
+      try {
+          restored = readSave(id);
+      } catch (e) {
+          get().showToast(e instanceof Error ? e.message : 'Save failed to load', 'error');
+          return;
+      }
+      get().abandonSession();
+      // The replay of a loaded game starts at the save point
+      recorder = new ReplayRecorder(restored);
+      engine = createLocalEngine(restored, get().useEngineWorker, reason => get().showToast(`Engine stopped: ${reason}`, 'error'));
+      set({ session: engine.state, hasActiveSession: true, uiState: 'GAME', observer: observe(restored) });
+  },
+
+  deleteSave: (id) => {
+      set({ saves: removeSave(id) });
+  },
+
+  openEditor: () => {
+      audioService.play('UI_CLICK');
+      get().abandonSession();
+      const editor = get().editor || { definition: createBlankLevel(), brush: DEFAULT_BRUSH, issues: [] };
+      set({ editor, session: createPreviewSession(editor.definition, get().language), uiState: 'EDITOR' });
+  },
+
+  closeEditor: () => {
+      audioService.play('UI_CLICK');
+      set({ session: null, uiState: 'MENU' });
+  },
+
+  setEditorBrush: (brush) => {
+      const editor = get().editor;
+      if (!editor) return;
+      set({ editor: { ...editor, brush: { ...editor.brush, ...brush } } });
+  },
+
+  paintEditorHex: (q, r) => {
+      const editor = get().editor;
+      if (!editor) return;
+      const definition = paintHex(editor.definition, q, r, editor.brush);
+      if (definition === editor.definition) {
+          audioService.play('ERROR');
+          return;
+      }
+      set(withDraft(editor, definition, get().language));
+  },
+
+  updateEditorLevel: (patch) => {
+      const editor = get().editor;
+      if (!editor) return;
+      set(withDraft(editor, { ...editor.definition, ...patch }, get().language));
+  },
+
+  resetEditorLevel: () => {
+      const editor = get().editor;
+      if (!editor) return;
+      set(withDraft(editor, createBlankLevel(), get().language));
+  },
+
+  importEditorLevel: (data) => {
+      const editor = get().editor;
+      if (!editor) return;
+      try {
+          set(withDraft(editor, loadLevel(data).definition!, get().language));
+      } catch (e) {
+          audioService.play('ERROR');
+          set({ editor: { ...editor, issues: describeLevelError(e) } });
+      }
+  },
+
+  exportEditorLevel: () => {
+      const editor = get().editor;
+      if (!editor) return null;
+      try {
+          return loadLevel(editor.definition).definition!;
+      } catch (e) {
+          audioService.play('ERROR');
+          set({ editor: { ...editor, issues: describeLevelError(e) } });
+          return null;
+      }
+  },
+
+  playtestEditorLevel: () => {
+      const definition = get().exportEditorLevel();
+      if (definition) get().startNewGame(undefined, loadLevel(definition));
   },
   
   showToast: (message, type) => set({ toast: { message, type, timestamp: Date.now() } }),
@@ -312,6 +507,18 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const isCurrentlyGrowing = session.isPlayerGrowing;
       const nextStateGrowing = !isCurrentlyGrowing;
       
+      // TURN-BASED: starting growth is an order like any other, so it spends one of the turn's actions
+      if (nextStateGrowing && session.turn) {
+        const { player, stateVersion } = session;
+        const action: UpgradeAction = { type: 'UPGRADE', coord: { q: player.q, r: player.r }, intent, stateVersion };
+        const res = engine.applyAction(player.id, action);
+        if (!res.ok) {
+          audioService.play('ERROR');
+          set({ toast: { message: res.reason || "Growth Failed", type: 'error', timestamp: Date.now() } });
+          return;
+        }
+      }
+
       if (nextStateGrowing) {
         audioService.play('GROWTH_START');
       } else {
@@ -322,6 +529,18 @@ export const useGameStore = create<GameStore>((set, get) => ({
       set({ session: engine.state });
   },
 
+  endTurn: () => {
+      if (!engine) return;
+      const res = engine.endTurn();
+      if (res.ok) {
+        audioService.play('UI_CLICK');
+        set({ session: engine.state });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "End Turn Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
   rechargeMove: () => {
       if (!engine || !engine.state) return;
       // CRITICAL: Use engine.state.stateVersion, NOT the potentially stale UI state version.
@@ -336,6 +555,39 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
   },
 
+  buildStructure: (type) => {
+      if (!engine || !engine.state) return;
+      const { player, stateVersion } = engine.state;
+      const action: UpgradeAction = { type: 'UPGRADE', coord: { q: player.q, r: player.r }, upgradeType: type, stateVersion };
+      const res = engine.applyAction(player.id, action);
+      if (res.ok) {
+        set({ session: engine.state });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Build Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  armTrap: (potency) => {
+      if (!engine || !engine.state) return;
+      const { player, stateVersion } = engine.state;
+      const action: ArmTrapAction = { type: 'ARM_TRAP', coord: { q: player.q, r: player.r }, potency, stateVersion };
+      const res = engine.applyAction(player.id, action);
+      if (res.ok) {
+        audioService.play('UI_CLICK');
+        set({ session: engine.state });
+      } else {
+        audioService.play('ERROR');
+        set({ toast: { message: res.reason || "Arming Failed", type: 'error', timestamp: Date.now() } });
+      }
+  },
+
+  toggleAttackMode: () => {
+      if (!engine || !engine.state) return;
+      audioService.play('UI_CLICK');
+      set({ isAttackMode: !get().isAttackMode, pendingConfirmation: null });
+  },
+
   movePlayer: (tq, tr) => {
       if (!engine || !engine.state) return;
       
@@ -357,9 +609,35 @@ export const useGameStore = create<GameStore>((set, get) => ({
       }
 
       if (session.player.state === EntityState.MOVING) return;
+
+      if (get().isAttackMode) {
+          const attack: AttackAction = { type: 'ATTACK', coord: { q: tq, r: tr }, tokens: session.player.attackTokens || 0, stateVersion: session.stateVersion };
+          const res = engine.applyAction(session.player.id, attack);
+          if (res.ok) {
+            set({ session: engine.state, isAttackMode: false });
+          } else {
+            audioService.play('ERROR');
+            set({ toast: { message: res.reason || "Attack Failed", type: 'error', timestamp: Date.now() }, isAttackMode: false });
+          }
+          return;
+      }
+
+      // Clicking a rival barrier next to us hits it instead of walking
+      const targetHex = session.grid[getHexKey(tq, tr)];
+      if (isBlockedByStructure(targetHex, session.player.id) && cubeDistance(session.player, targetHex) === 1) {
+          const breach: BreachAction = { type: 'BREACH', coord: { q: tq, r: tr }, stateVersion: session.stateVersion };
+          const res = engine.applyAction(session.player.id, breach);
+          if (res.ok) {
+            set({ session: engine.state });
+          } else {
+            audioService.play('ERROR');
+            set({ toast: { message: res.reason || "Breach Failed", type: 'error', timestamp: Date.now() } });
+          }
+          return;
+      }
       
       const obstacles = session.bots.map(b => ({ q: b.q, r: b.r }));
-      const path = findPath({ q: session.player.q, r: session.player.r }, { q: tq, r: tr }, session.grid, session.player.playerLevel, obstacles);
+      const path = findPath({ q: session.player.q, r: session.player.r }, { q: tq, r: tr }, session.grid, session.player.playerLevel, obstacles, { moverId: session.player.id });
       
       if (!path) {
         audioService.play('ERROR');
@@ -429,9 +707,29 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   tick: () => {
+      // REPLAY: Drive the view from the reconstructed match instead of the live engine.
+      if (replayPlayer) {
+          const replay = get().replay;
+          if (!replay || !replay.isPlaying) return;
+
+          replayTickBudget += replay.speed;
+          const steps = Math.floor(replayTickBudget);
+          replayTickBudget -= steps;
+          if (steps === 0) return;
+
+          replayPlayer.step(steps);
+          set({
+              session: replayPlayer.state,
+              replay: { ...replay, tick: replayPlayer.tick, isPlaying: !replayPlayer.isFinished }
+          });
+          return;
+      }
+
       // STRICT CHECK: Only process logic if game is actively PLAYING.
       if (!engine || !engine.state) return;
-      if (engine.state.gameStatus !== 'PLAYING' && engine.state.gameStatus !== 'VICTORY') return;
+      // Remote and worker engines answer inputs later: a mission start or end they sent must still reach the view
+      const hasEngineNews = !(engine instanceof GameEngine) && engine.state !== get().session;
+      if (engine.state.gameStatus !== 'PLAYING' && engine.state.gameStatus !== 'VICTORY' && !hasEngineNews) return;
       
       const prevState = get().session;
       
@@ -443,7 +741,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
       // --- LEVEL 1.5 AUDIO TIMER ---
       if (result.state.activeLevelConfig?.id === '1.5' && result.state.gameStatus === 'PLAYING') {
-          const elapsed = Date.now() - result.state.sessionStartTime;
+          const elapsed = result.state.simTime - result.state.sessionStartTime;
           const timeLeft = Math.max(0, 60000 - elapsed);
           
           if (timeLeft <= 10000 && timeLeft > 0) {
@@ -468,10 +766,18 @@ export const useGameStore = create<GameStore>((set, get) => ({
                  case 'SECTOR_ACQUIRED': audioService.play('SUCCESS'); break;
                  case 'RECOVERY_USED': audioService.play('COIN'); break;
                  case 'HEX_COLLAPSE': audioService.play('COLLAPSE'); break;
+                 case 'STRUCTURE_BUILT': audioService.play('SUCCESS'); break;
+                 case 'STRUCTURE_DAMAGED': audioService.play('CRACK'); break;
+                 case 'TRAP_TRIGGERED': audioService.play('WARNING'); break;
+                 case 'STRUCTURE_DESTROYED': audioService.play('CRACK'); break;
+                 case 'SECTOR_ATTACKED': audioService.play('CRACK'); break;
                  case 'VICTORY': audioService.play('SUCCESS'); break;
                  case 'DEFEAT': audioService.play('ERROR'); break;
                }
             }
+            if (event.type === 'SECTOR_ATTACKED' && event.data?.ownerId === result.state.player.id) {
+               audioService.play('WARNING');
+            }
 
             if (event.type === 'VICTORY' && engine?.state?.activeLevelConfig) {
                 // AUTO UNLOCK NEXT CAMPAIGN LEVEL
@@ -488,8 +794,11 @@ export const useGameStore = create<GameStore>((set, get) => ({
                 }
             }
 
-            if (event.type === 'LEADERBOARD_UPDATE' && event.data?.entry) {
+            // Observers did not play: someone else's result is not theirs to rank
+            if (event.type === 'LEADERBOARD_UPDATE' && event.data?.entry && !get().observer) {
                 const entry = event.data.entry as LeaderboardEntry;
+                // Engine timestamps are simulation time; the leaderboard shows calendar dates
+                entry.timestamp = Date.now();
                 const user = get().user;
                 if (user) {
                     entry.nickname = user.nickname;
@@ -516,9 +825,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
             }
 
             if (event.entityId || event.type === 'HEX_COLLAPSE') {
-                 const entity = result.state.player.id === event.entityId 
-                    ? result.state.player 
-                    : result.state.bots.find(b => b.id === event.entityId);
+                 const entity = event.entityId ? findEntity(result.state, event.entityId) : undefined;
                  const targetQ = event.data?.q !== undefined ? Number(event.data.q) : (entity?.q || 0);
                  const targetR = event.data?.r !== undefined ? Number(event.data.r) : (entity?.r || 0);
 
@@ -545,6 +852,34 @@ export const useGameStore = create<GameStore>((set, get) => ({
                                 icon = 'COIN';
                             }
                             break;
+                        case 'STRUCTURE_BUILT':
+                            text = `${event.data?.structureType} BUILT`;
+                            color = isPlayer ? "#fbbf24" : "#f87171";
+                            icon = event.data?.structureType === 'MINE' ? 'COIN' : 'PLUS';
+                            break;
+                        case 'STRUCTURE_DAMAGED':
+                            text = `${event.data?.structureType === 'CAPITAL' ? 'CAPITAL' : 'WALL'} ${event.data?.hp} HP`;
+                            color = "#f59e0b";
+                            icon = 'DOWN';
+                            break;
+                        case 'TRAP_TRIGGERED':
+                            text = "TRAP!";
+                            color = isPlayer ? "#ef4444" : "#fbbf24";
+                            icon = 'WARN';
+                            break;
+                        case 'STRUCTURE_DESTROYED':
+                            text = event.data?.structureType === 'MINE' ? "MINE DEPLETED" : event.data?.structureType === 'CAPITAL' ? "CAPITAL RAZED" : "BREACHED";
+                            color = "#ef4444";
+                            icon = 'WARN';
+                            break;
+                        case 'SECTOR_ATTACKED': {
+                            const lostByPlayer = event.data?.ownerId === result.state.player.id;
+                            text = event.data?.outcome === 'CAPTURED' ? "CAPTURED" : event.data?.outcome === 'DOWNGRADED' ? `-1 RANK (L${event.data?.level})` : `SIEGE ${event.data?.pressure}/${event.data?.defense}`;
+                            color = lostByPlayer ? "#ef4444" : isPlayer ? "#fbbf24" : "#f87171";
+                            // Losing ground shakes the screen; everything else gets a clash burst
+                            icon = lostByPlayer && event.data?.outcome !== 'PRESSURE' ? 'DOWN' : 'CLASH';
+                            break;
+                        }
                         case 'HEX_COLLAPSE':
                             text = "COLLAPSE -1 RANK"; 
                             color = "#ef4444";
@@ -554,13 +889,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
                     if (text) {
                         result.state.effects.push({
-                            id: `fx-${Date.now()}-${Math.random()}`,
+                            id: `fx-${result.state.tick}-${result.state.effects.length}`,
                             q: targetQ,
                             r: targetR,
                             text,
                             color,
                             icon,
-                            startTime: Date.now(),
+                            startTime: result.state.simTime,
                             lifetime: 1200 
                         });
                     }
@@ -4,6 +4,7 @@
 export type HexCoord = { q: number; r: number; upgrade?: boolean; intent?: 'UPGRADE' | 'RECOVER' };
 
 // Read-only view of a Hex for the Bot (Architecture Requirement)
+// Also all anyone knows about hexes outside their vision (see rules/visibility)
 export interface HexView {
   id: string;
   q: number;
@@ -12,6 +13,7 @@ export interface HexView {
   maxLevel: number;
   structureType?: 'NONE' | 'BARRIER' | 'MINE' | 'CAPITAL' | 'VOID'; // Added VOID
   ownerId?: string; 
+  richness?: number; // Income multiplier of resource-rich sectors (procedural world)
 }
 
 // Full State Hex
@@ -21,8 +23,8 @@ export interface Hex extends HexView {
   structureHp?: number;
   durability?: number; // New: Lives for Level 1 hexes
   mineTimer?: number;
-  trap?: { active: boolean, potency?: number } | null;
-  attackPoint?: number;
+  trap?: { active: boolean, potency?: number, revealed?: boolean } | null; // Armed by the sector owner; revealed once sprung
+  attackPoint?: number; // Siege pressure from ATTACKs; converted into lost levels by the CombatSystem
   movePoint?: number;
 }
 
@@ -38,7 +40,7 @@ export enum EntityState {
   LOCKED = 'LOCKED'
 }
 
-export type BotGoalType = 'EXPAND' | 'DEFEND' | 'ATTACK' | 'GROWTH' | 'IDLE' | 'PREPARE_CYCLE' | 'BUILD_SUPPORT' | 'GATHER_RESOURCES';
+export type BotGoalType = 'EXPAND' | 'DEFEND' | 'ATTACK' | 'GROWTH' | 'IDLE' | 'PREPARE_CYCLE' | 'BUILD_SUPPORT' | 'GATHER_RESOURCES' | 'DENY' | 'BLOCK' | 'SABOTAGE';
 
 export interface BotGoal {
   type: BotGoalType;
@@ -49,15 +51,38 @@ export interface BotGoal {
   expiresAt: number; 
 }
 
+// AI personalities, see bot/strategies
+export type BotStrategyId = 'nomad' | 'farmer' | 'expander' | 'blocker' | 'builder' | 'planner';
+
+// How hard a bot competes with the player, see AGGRESSION_SETTINGS
+export type BotAggression = 'PASSIVE' | 'RIVAL' | 'HOSTILE';
+
 export interface BotMemory {
   lastPlayerPos: HexCoord | null;
   currentGoal: BotGoal | null;
   masterGoalId?: string | null; // The high-level hex we ultimately want to upgrade
+  playerApexId?: string | null; // The player's highest sector near their last sighting (what they are building)
+  playerCyclePoints?: number;   // The player's cycle points when last seen
+  playerRank?: number;          // The player's rank when last seen
   stuckCounter: number;
   lastActionFailed?: boolean;
   failReason?: string;
 }
 
+// Hexes an entity currently sees, refreshed by the MovementSystem when it moves or its vision radius changes
+export interface Visibility {
+  q: number;
+  r: number;
+  radius: number;
+  hexKeys: string[];
+}
+
+export interface AttackOrder {
+  q: number;
+  r: number;
+  tokens: number;
+}
+
 export interface Entity {
   id: string;
   type: EntityType;
@@ -75,8 +100,18 @@ export interface Entity {
   movementQueue: HexCoord[]; 
   
   memory?: BotMemory; 
+  strategyId?: BotStrategyId; // Bots only. Defaults to 'nomad'
+  aggression?: BotAggression; // Bots only. Defaults to 'PASSIVE'
   avatarColor?: string; 
-  attackTokens?: number;
+  avatarIcon?: string; // Hot-seat humans: from their seat's profile
+  nickname?: string;   // Hot-seat humans: from their seat's profile
+  attackTokens?: number; // Earned by recovering and ranking up, spent on ATTACK
+  pendingAttack?: AttackOrder; // Queued ATTACK, resolved by the CombatSystem
+  visibility?: Visibility; // Fog of war: what this entity can see
+
+  // Hex key of the entity's CAPITAL, and who razed it (capital mode: that is a DEFEAT)
+  capitalId?: string;
+  capitalLostTo?: string;
   
   // Track if "Recovery" ability was used on the current hex
   recoveredCurrentHex?: boolean; 
@@ -100,7 +135,12 @@ export type GameEventType =
   | 'BOT_LOG'
   | 'LEADERBOARD_UPDATE'
   | 'RECOVERY_USED'
-  | 'HEX_COLLAPSE';
+  | 'HEX_COLLAPSE'
+  | 'STRUCTURE_BUILT'
+  | 'STRUCTURE_DAMAGED'
+  | 'STRUCTURE_DESTROYED'
+  | 'TRAP_TRIGGERED'
+  | 'SECTOR_ATTACKED';
 
 export interface GameEvent {
   type: GameEventType;
@@ -132,7 +172,7 @@ export interface ToastMessage {
   timestamp: number;
 }
 
-export type UIState = 'MENU' | 'GAME' | 'LEADERBOARD' | 'CAMPAIGN_MAP';
+export type UIState = 'MENU' | 'GAME' | 'LEADERBOARD' | 'CAMPAIGN_MAP' | 'EDITOR';
 
 export interface UserProfile {
   isAuthenticated: boolean;
@@ -151,6 +191,29 @@ export interface PendingConfirmation {
   };
 }
 
+// Playback state of a loaded replay (see engine/ReplayPlayer)
+export interface ReplayStatus {
+  tick: number;
+  length: number;
+  isPlaying: boolean;
+  speed: number; // Ticks per UI tick (0.5x - 8x)
+}
+
+// Connection of a networked session (see net/RemoteEngine)
+export interface NetworkStatus {
+  connection: 'CONNECTING' | 'ONLINE' | 'RECONNECTING' | 'OFFLINE';
+  roomId: string | null;       // Share it for others to join
+  seatId: string | null;       // The human this client plays
+  isHost: boolean;             // Seat 1: starts the mission
+  activeSeatId: string | null; // Hot-seat rooms: the human giving orders
+  error?: string;              // Why the connection is OFFLINE
+}
+
+// Observed sessions (bot-only skirmishes, watched rooms): nobody takes orders from the screen
+export interface ObserverStatus {
+  followId: string | null; // The entity the camera and the HUD stats follow; null is a free camera
+}
+
 export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
 export type Language = 'EN' | 'RU';
 
@@ -165,8 +228,17 @@ export interface WinCondition {
   queueSize: number;     
   winType: 'OR' | 'AND'; 
   isTutorial?: boolean;
+  botStrategies?: BotStrategyId[]; // Per-bot personality, by spawn order
+  botAggression?: BotAggression[]; // Per-bot aggression towards the player, by spawn order
+  capitalMode?: boolean; // Skirmish: losing your capital is a DEFEAT, razing every rival capital a VICTORY
+  turnBased?: boolean;   // Skirmish: a budget of actions per turn and End Turn instead of real time (see rules/turns)
+  hotSeat?: SeatProfile[]; // Skirmish: 2-4 humans sharing the screen, seat 1 first (always turn-based)
+  observe?: boolean;       // Skirmish: bots only, the player slot is played by the bot AI too and the screen just watches (always real time)
 }
 
+// A hot-seat human, as picked in the mission setup
+export type SeatProfile = Pick<UserProfile, 'nickname' | 'avatarColor' | 'avatarIcon'>;
+
 export interface LeaderboardEntry {
   nickname: string;
   avatarColor: string;
@@ -185,14 +257,33 @@ export interface FloatingText {
   color: string;
   startTime: number;
   lifetime: number;
-  icon?: 'UP' | 'PLUS' | 'WARN' | 'COIN' | 'DOWN';
+  icon?: 'UP' | 'PLUS' | 'WARN' | 'COIN' | 'DOWN' | 'CLASH';
+}
+
+// Procedural world bookkeeping (Skirmish). Chunks are regenerated from the seed, so only their keys are stored.
+export interface WorldState {
+  seed: number;
+  loadedChunks: string[];
+}
+
+// Turn-based bookkeeping (see rules/turns). The engine only ticks while a turn resolves.
+export interface TurnState {
+  actionsLeft: Record<string, number>; // Per entity, refilled every turn
+  ticksLeft: number;                   // Resolution ticks left in the ending turn (0 while planning)
+  seat: number;                        // Hot-seat: seat giving orders (0 = seat 1; always 0 otherwise)
 }
 
 // Authoritative state for a single game session, managed by GameEngine
 export interface SessionState {
   stateVersion: number;
   sessionId: string; 
-  sessionStartTime: number; 
+  sessionStartTime: number; // Simulation time (ms) at session start
+  
+  // Determinism: all randomness flows from this seed (see engine/SeededRandom)
+  seed: number;
+  rngState: number;
+  tick: number;    // Number of processed engine ticks
+  simTime: number; // Current simulation time (ms), owned by the engine clock
   
   // Legacy WinCondition kept for Skirmish compatibility
   winCondition: WinCondition | null;
@@ -202,10 +293,14 @@ export interface SessionState {
 
   difficulty: Difficulty;
   grid: Record<string, Hex>; 
-  player: Entity;
+  world?: WorldState; // Absent on fixed (campaign) maps
+  player: Entity;       // The human giving orders: the only one, or the active hot-seat
+  hotSeats?: Entity[];  // Hot-seat: the other humans, in the order they get the screen (see rules/entities)
   bots: Entity[]; 
-  currentTurn: number;
+  currentTurn: number; // Turns ended so far (turn-based sessions)
+  turn?: TurnState;     // Absent in real-time sessions
   gameStatus: 'BRIEFING' | 'PLAYING' | 'VICTORY' | 'DEFEAT';
+  winnerId?: string; // Hot-seat VICTORY: the human who won; observed matches: whoever won
   messageLog: LogEntry[]; 
   botActivityLog: BotLogEntry[];
   lastBotActionTime: number; 
@@ -237,8 +332,11 @@ export type MoveAction = { type: 'MOVE'; path: { q: number; r: number }[]; state
 export type UpgradeAction = { type: 'UPGRADE'; coord: { q: number; r: number }; intent?: 'UPGRADE' | 'RECOVER'; upgradeType?: 'DEFAULT' | 'BARRIER' | 'MINE' | 'CAPITAL'; stateVersion?: number };
 export type WaitAction = { type: 'WAIT'; stateVersion?: number };
 export type RechargeAction = { type: 'RECHARGE_MOVE'; stateVersion?: number };
+export type BreachAction = { type: 'BREACH'; coord: { q: number; r: number }; stateVersion?: number };
+export type ArmTrapAction = { type: 'ARM_TRAP'; coord: { q: number; r: number }; potency: number; stateVersion?: number };
+export type AttackAction = { type: 'ATTACK'; coord: { q: number; r: number }; tokens: number; stateVersion?: number };
 
-export type BotAction = MoveAction | UpgradeAction | WaitAction | RechargeAction;
+export type BotAction = MoveAction | UpgradeAction | WaitAction | RechargeAction | BreachAction | ArmTrapAction | AttackAction;
 export type GameAction = BotAction | RechargeAction;
 
 // Validates result of logic before execution (Architecture Requirement)
@@ -0,0 +1,78 @@
+import { ValidationResult } from '../types';
+import { GameEngine } from '../engine/GameEngine';
+import { rebaseAction } from '../engine/ActionProcessor';
+import { ReplayRecorder } from '../engine/ReplayRecorder';
+import { isEmptyPatch } from '../engine/SessionPatch';
+import { deserializeSession } from '../services/sessionSnapshot';
+import { WorkerRequest, WorkerResponse, WORKER_CONFIG } from './protocol';
+
+/**
+ * Worker side of a WorkerEngine: owns the GameEngine and answers every request with the engine's
+ * patch (and, for a TICK, the tick's events). Kept apart from the worker entry point so it also
+ * runs where there is no Worker, e.g. in tests.
+ */
+export class EngineHost {
+  private engine: GameEngine | null = null;
+  private recorder: ReplayRecorder | null = null;
+  private forwarded = 0; // Recorder entries already posted
+
+  constructor(private readonly post: (message: WorkerResponse) => void) {}
+
+  public receive(message: WorkerRequest) {
+    try {
+      if (message.type === 'INIT') return this.init(message);
+      if (!this.engine) return this.post({ type: 'ERROR', reason: 'Engine not started' });
+      this.handle(this.engine, message);
+    } catch (e) {
+      this.engine = null;
+      this.post({ type: 'ERROR', reason: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private init(message: Extract<WorkerRequest, { type: 'INIT' }>) {
+    const state = deserializeSession(message.snapshot);
+    this.recorder = message.record ? new ReplayRecorder(state) : null;
+    this.forwarded = 0;
+    this.engine = new GameEngine(state, { recorder: this.recorder || undefined, patches: true });
+  }
+
+  private handle(engine: GameEngine, message: Exclude<WorkerRequest, { type: 'INIT' }>) {
+    if (message.type === 'TICK') {
+      const { patch, events } = engine.processTick();
+      return this.post({ type: 'PATCH', patch: patch!, events, recorded: this.takeRecorded(), ticked: true });
+    }
+
+    const result = this.apply(engine, message);
+    if (!result.ok) this.post({ type: 'DENIED', reason: result.reason || 'Denied' });
+    const patch = engine.takePatch()!;
+    const recorded = this.takeRecorded();
+    if (!isEmptyPatch(patch) || recorded.length > 0) {
+      this.post({ type: 'PATCH', patch, events: [], recorded, ticked: false });
+    }
+  }
+
+  /** The same inputs a local session takes; events they raise come with the next tick. */
+  private apply(engine: GameEngine, message: Exclude<WorkerRequest, { type: 'INIT' | 'TICK' }>): ValidationResult {
+    switch (message.type) {
+      case 'ACTION':
+        return engine.applyAction(message.actorId, rebaseAction(message.action, engine.state!.stateVersion, WORKER_CONFIG.MAX_ACTION_LAG));
+      case 'INTENT':
+        engine.setPlayerIntent(message.isGrowing, message.intent);
+        return { ok: true };
+      case 'START_MISSION':
+        engine.startMission();
+        return { ok: true };
+      case 'END_TURN':
+        return engine.endTurn();
+      default:
+        return { ok: false, reason: 'Unknown message' };
+    }
+  }
+
+  private takeRecorded() {
+    if (!this.recorder) return [];
+    const entries = this.recorder.entriesSince(this.forwarded);
+    this.forwarded += entries.length;
+    return entries;
+  }
+}
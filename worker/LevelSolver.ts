@@ -0,0 +1,42 @@
+import { LevelConfig } from '../campaign/types';
+import { findSolvableSeed } from '../campaign/solver';
+import { SeededRandom } from '../engine/SeededRandom';
+import { canUseWorkers } from './WorkerEngine';
+import { SolverRequest, SolverResponse } from './protocol';
+
+/** The part of the Worker API used here. */
+export interface SolverWorker {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  postMessage(message: SolverRequest): void;
+  terminate(): void;
+}
+
+const createModuleWorker = (): SolverWorker =>
+  new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' }) as SolverWorker;
+
+/**
+ * The seed `level` starts from (see findSolvableSeed), without freezing the screen: generated maps are
+ * solved in a worker where there are Workers, else on this thread once the current frame is out.
+ * A failed worker leaves the roll unverified, like a spent solver budget.
+ */
+export const solveLevelSeed = (level: LevelConfig, seed: number = SeededRandom.randomSeed(), createWorker: () => SolverWorker = createModuleWorker): Promise<number> => {
+  if (!level.mapConfig.generator) return Promise.resolve(seed);
+  if (!canUseWorkers() || !level.definition) {
+    return new Promise(resolve => setTimeout(() => resolve(findSolvableSeed(level, seed)), 0));
+  }
+
+  return new Promise(resolve => {
+    const worker = createWorker();
+    const finish = (solved: number) => {
+      worker.terminate();
+      resolve(solved);
+    };
+    worker.onmessage = ({ data }) => {
+      const response = data as SolverResponse;
+      finish(response.type === 'SOLVED' ? response.seed : seed);
+    };
+    worker.onerror = () => finish(seed);
+    worker.postMessage({ type: 'SOLVE', definition: level.definition!, seed });
+  });
+};
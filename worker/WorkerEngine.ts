@@ -0,0 +1,143 @@
+import { GameAction, GameEvent, SessionState, ValidationResult } from '../types';
+import { SessionEngine, TickResult } from '../engine/GameEngine';
+import { ActionProcessor } from '../engine/ActionProcessor';
+import { WorldIndex } from '../engine/WorldIndex';
+import { ReplayRecorder } from '../engine/ReplayRecorder';
+import { GameEventFactory } from '../engine/events';
+import { applySessionPatch, expireEffects, isEmptyPatch } from '../engine/SessionPatch';
+import { serializeSession } from '../services/sessionSnapshot';
+import { getEntities } from '../rules/entities';
+import { isTurnResolving } from '../rules/turns';
+import { WorkerRequest, WorkerResponse, WORKER_CONFIG } from './protocol';
+
+/** The part of the Worker API used here. */
+export interface EngineWorker {
+  onmessage: ((event: { data: unknown }) => void) | null;
+  postMessage(message: WorkerRequest): void;
+  terminate(): void;
+}
+
+export interface WorkerEngineOptions {
+  /** Defaults to a module Worker running engine.worker.ts */
+  createWorker?: () => EngineWorker;
+  /** Receives the inputs the hosted engine records, like a local engine's recorder */
+  recorder?: ReplayRecorder;
+  /** Called when the hosted engine fails; the session stays where it was */
+  onError?: (reason: string) => void;
+}
+
+const createModuleWorker = (): EngineWorker =>
+  new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' }) as EngineWorker;
+
+/** Web Workers are available (browsers; not Node). */
+export const canUseWorkers = (): boolean => typeof Worker !== 'undefined';
+
+/**
+ * A GameEngine hosted in a Web Worker, so bot planning and pathfinding run off the rendering thread.
+ * The same surface and checks as the RemoteEngine: inputs are checked against the last posted state
+ * for instant feedback, then sent; the worker applies them in order with the ticks and posts patches,
+ * collected until the next processTick. A slow worker makes the main thread skip ticks, not queue them.
+ */
+export class WorkerEngine implements SessionEngine {
+  private _state: SessionState | null;
+  private _events: GameEvent[] = [];
+  private _ticksInFlight = 0;
+  private _worker: EngineWorker | null;
+  private readonly _validator = new ActionProcessor();
+  private readonly _options: WorkerEngineOptions;
+
+  constructor(initialState: SessionState, options: WorkerEngineOptions = {}) {
+    this._state = { ...initialState, stateVersion: initialState.stateVersion || 0 };
+    this._options = options;
+    this._worker = (options.createWorker || createModuleWorker)();
+    this._worker.onmessage = event => this.receive(event.data as WorkerResponse);
+    this.post({ type: 'INIT', snapshot: serializeSession(initialState), record: !!options.recorder });
+  }
+
+  public get state(): SessionState | null {
+    return this._state;
+  }
+
+  public applyAction(actorId: string, action: GameAction): ValidationResult {
+    const blocked = this.checkInput();
+    if (blocked) return blocked;
+    const state = this._state!;
+    const result = this._validator.validateAction(state, new WorldIndex(state.grid, getEntities(state)), actorId, action);
+    if (result.ok) this.post({ type: 'ACTION', actorId, action });
+    return result;
+  }
+
+  public setPlayerIntent(isGrowing: boolean, intent: 'RECOVER' | 'UPGRADE' | null) {
+    if (!this.checkInput()) this.post({ type: 'INTENT', isGrowing, intent });
+  }
+
+  public startMission() {
+    this.post({ type: 'START_MISSION' });
+  }
+
+  public endTurn(): ValidationResult {
+    const blocked = this.checkInput();
+    if (blocked) return blocked;
+    const { turn } = this._state!;
+    if (!turn) return { ok: false, reason: 'Not a turn-based session' };
+    if (isTurnResolving(turn)) return { ok: false, reason: 'Turn is resolving' };
+    this.post({ type: 'END_TURN' });
+    return { ok: true };
+  }
+
+  /** Asks the worker for the next tick; returns the latest state it posted and the events since the last call. */
+  public processTick(): TickResult {
+    if (!this._state) return { state: null, events: [] };
+    if (this._worker && this._ticksInFlight < WORKER_CONFIG.MAX_TICKS_IN_FLIGHT) {
+      this._ticksInFlight++;
+      this.post({ type: 'TICK' });
+    }
+    const events = this._events;
+    this._events = [];
+    return { state: this._state, events };
+  }
+
+  public destroy() {
+    this._worker?.terminate();
+    this._worker = null;
+    this._state = null;
+    this._events = [];
+  }
+
+  private checkInput(): ValidationResult | null {
+    return this._state && this._worker ? null : { ok: false, reason: 'Engine Destroyed' };
+  }
+
+  private receive(message: WorkerResponse) {
+    if (!this._state) return;
+    switch (message.type) {
+      case 'PATCH': {
+        if (message.ticked) this._ticksInFlight--;
+        this._options.recorder?.append(message.recorded);
+        // An idle tick keeps the same state, so the view has nothing to re-render
+        const next = isEmptyPatch(message.patch) ? this._state : applySessionPatch(this._state, message.patch);
+        // The worker answers in order, so this only happens if it restarted
+        if (!next) return this.fail('Engine worker out of sync');
+        this._state = expireEffects(next);
+        this._events.push(...message.events);
+        break;
+      }
+      case 'DENIED':
+        this._events.push(GameEventFactory.create('ACTION_DENIED', message.reason, this._state.player.id, undefined, this._state.simTime));
+        break;
+      case 'ERROR':
+        this.fail(message.reason);
+        break;
+    }
+  }
+
+  private fail(reason: string) {
+    this._worker?.terminate();
+    this._worker = null;
+    this._options.onError?.(reason);
+  }
+
+  private post(message: WorkerRequest) {
+    this._worker?.postMessage(message);
+  }
+}
@@ -0,0 +1,14 @@
+import { EngineHost } from './EngineHost';
+import { WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * Web Worker entry point of a WorkerEngine (bundled by Vite from `new Worker(new URL(...))`).
+ * The worker's global scope is typed as a Window by the DOM lib; only its messaging is used here.
+ */
+const scope = self as unknown as {
+  onmessage: ((event: { data: WorkerRequest }) => void) | null;
+  postMessage(message: WorkerResponse): void;
+};
+
+const host = new EngineHost(message => scope.postMessage(message));
+scope.onmessage = event => host.receive(event.data);
@@ -0,0 +1,44 @@
+import { GameAction, GameEvent } from '../types';
+import { SerializedSession } from '../services/sessionSnapshot';
+import { SessionPatch } from '../engine/SessionPatch';
+import { ReplayEntry } from '../engine/ReplayRecorder';
+import { LevelDefinition } from '../campaign/types';
+
+/**
+ * Messages between a WorkerEngine (main thread) and the GameEngine it hosts in a Web Worker.
+ * The main thread sends the same inputs a local engine takes plus one TICK per store tick;
+ * the worker answers each message with the engine's patch since the previous answer.
+ */
+
+export const WORKER_CONFIG = {
+  // Ticks posted but not answered yet; beyond this the main thread skips ticks instead of queueing them
+  MAX_TICKS_IN_FLIGHT: 2,
+  // Inputs are stamped with the main thread's (slightly older) state; this many versions behind are rebased
+  MAX_ACTION_LAG: 10
+};
+
+export type WorkerRequest =
+  | { type: 'INIT'; snapshot: SerializedSession; record: boolean }
+  | { type: 'ACTION'; actorId: string; action: GameAction }
+  | { type: 'INTENT'; isGrowing: boolean; intent: 'RECOVER' | 'UPGRADE' | null }
+  | { type: 'START_MISSION' }
+  | { type: 'END_TURN' }
+  | { type: 'TICK' };
+
+export type WorkerResponse =
+  | {
+      type: 'PATCH';
+      patch: SessionPatch;
+      events: GameEvent[];
+      recorded: ReplayEntry[]; // Inputs the worker's recorder took since the previous answer
+      ticked: boolean;         // Answers a TICK
+    }
+  | { type: 'DENIED'; reason: string }
+  | { type: 'ERROR'; reason: string }; // The engine could not be created or crashed; it is gone
+
+/** Level start: a solver worker picks the seed of a generated campaign map (see LevelSolver). */
+export type SolverRequest = { type: 'SOLVE'; definition: LevelDefinition; seed: number };
+
+export type SolverResponse =
+  | { type: 'SOLVED'; seed: number }
+  | { type: 'ERROR'; reason: string };
@@ -0,0 +1,20 @@
+import { loadLevel } from '../campaign/scenario';
+import { findSolvableSeed } from '../campaign/solver';
+import { SolverRequest, SolverResponse } from './protocol';
+
+/**
+ * Web Worker entry point of LevelSolver: finds a level's solvable seed off the rendering thread.
+ * Only the level definition and the seed cross over (compiled levels hold functions).
+ */
+const scope = self as unknown as {
+  onmessage: ((event: { data: SolverRequest }) => void) | null;
+  postMessage(message: SolverResponse): void;
+};
+
+scope.onmessage = ({ data }) => {
+  try {
+    scope.postMessage({ type: 'SOLVED', seed: findSolvableSeed(loadLevel(data.definition), data.seed) });
+  } catch (e) {
+    scope.postMessage({ type: 'ERROR', reason: e instanceof Error ? e.message : String(e) });
+  }
+};